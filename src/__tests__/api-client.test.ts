@@ -0,0 +1,133 @@
+import { normalizeEnvelope, toApiError, ApiError, apiClient } from '../lib/api-client';
+
+// Mock the api module
+jest.mock('../lib/api', () => ({
+  __esModule: true,
+  default: {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+import api from '../lib/api';
+
+describe('API Client', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('normalizeEnvelope', () => {
+    it('should unwrap { data } envelopes', () => {
+      const result = normalizeEnvelope<{ id: number }>({ data: { id: 1 } });
+      expect(result.data).toEqual({ id: 1 });
+      expect(result.meta).toBeUndefined();
+    });
+
+    it('should pass bare arrays through', () => {
+      const result = normalizeEnvelope<number[]>([1, 2, 3]);
+      expect(result.data).toEqual([1, 2, 3]);
+    });
+
+    it('should pass bare objects through', () => {
+      const result = normalizeEnvelope<{ id: number; name: string }>({ id: 1, name: 'Lead' });
+      expect(result.data).toEqual({ id: 1, name: 'Lead' });
+    });
+
+    it('should prefer an endpoint-specific key', () => {
+      const result = normalizeEnvelope<string[]>({ voices: ['a'], data: ['b'] }, 'voices');
+      expect(result.data).toEqual(['a']);
+    });
+
+    it('should read Laravel resource pagination from meta/links', () => {
+      const result = normalizeEnvelope<number[]>({
+        data: [1, 2],
+        meta: { current_page: 1, last_page: 3, per_page: 2, total: 6 },
+        links: { next: 'https://api.test/crm/leads?page=2', prev: null },
+      });
+
+      expect(result.data).toEqual([1, 2]);
+      expect(result.meta).toEqual(
+        expect.objectContaining({ currentPage: 1, lastPage: 3, perPage: 2, total: 6, hasMore: true })
+      );
+    });
+
+    it('should read length-aware paginator fields at the top level', () => {
+      const result = normalizeEnvelope<number[]>({
+        data: [1],
+        current_page: 2,
+        last_page: 2,
+        next_page_url: null,
+      });
+
+      expect(result.meta?.hasMore).toBe(false);
+      expect(result.meta?.currentPage).toBe(2);
+    });
+
+    it('should read cursor pagination', () => {
+      const result = normalizeEnvelope<number[]>({
+        data: [1],
+        meta: { next_cursor: 'abc123', per_page: 50 },
+      });
+
+      expect(result.meta?.nextCursor).toBe('abc123');
+      expect(result.meta?.hasMore).toBe(true);
+    });
+  });
+
+  describe('toApiError', () => {
+    it('should map validation errors by field', () => {
+      const error = toApiError({
+        message: 'Request failed with status code 422',
+        response: {
+          status: 422,
+          data: {
+            message: 'The given data was invalid.',
+            errors: { email: ['The email has already been taken.'], name: ['Required'] },
+          },
+        },
+      });
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.isValidationError).toBe(true);
+      expect(error.message).toBe('The given data was invalid.');
+      expect(error.fieldErrors).toEqual({
+        email: 'The email has already been taken.',
+        name: 'Required',
+      });
+    });
+
+    it('should flag network errors', () => {
+      const error = toApiError({ message: 'Network Error', code: 'ERR_NETWORK' });
+      expect(error.isNetworkError).toBe(true);
+      expect(error.status).toBeNull();
+    });
+
+    it('should keep plain error messages', () => {
+      expect(toApiError(new Error('Timeout')).message).toBe('Timeout');
+    });
+  });
+
+  describe('apiClient', () => {
+    it('should normalize successful responses', async () => {
+      (api.get as jest.Mock).mockResolvedValueOnce({ data: { data: [{ id: 1 }] } });
+
+      const result = await apiClient.crm.listLeads({ per_page: 50 });
+
+      expect(result.data).toEqual([{ id: 1 }]);
+      expect(api.get).toHaveBeenCalledWith('/crm/leads', { params: { per_page: 50 } });
+    });
+
+    it('should reject with an ApiError', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce({
+        response: { status: 422, data: { message: 'Invalid', errors: { email: ['Bad email'] } } },
+      });
+
+      await expect(apiClient.crm.createContact({ email: 'x' })).rejects.toMatchObject({
+        status: 422,
+        errors: { email: ['Bad email'] },
+      });
+    });
+  });
+});
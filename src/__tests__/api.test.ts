@@ -0,0 +1,212 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import {
+  api,
+  setAuthTokens,
+  getAuthToken,
+  getRefreshToken,
+  clearAuth,
+  startImpersonationSession,
+  getImpersonation,
+  IMPERSONATION_READ_ONLY,
+} from '../lib/api';
+import { onAuthEvent, AuthEvent } from '../lib/auth-events';
+import { getTokenExpiry, isTokenExpiring } from '../lib/jwt';
+
+// A JWT expiring `seconds` from now (unsigned; the app never checks signatures)
+const makeJwt = (seconds: number, claims: Record<string, unknown> = {}) => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const exp = Math.floor(Date.now() / 1000) + seconds;
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub: '1', exp, ...claims })}.signature`;
+};
+
+const unauthorized = (config: InternalAxiosRequestConfig) =>
+  new AxiosError('Unauthorized', 'ERR_BAD_REQUEST', config, null, {
+    status: 401,
+    statusText: 'Unauthorized',
+    data: {},
+    headers: {},
+    config,
+  });
+
+describe('JWT helpers', () => {
+  it('should read the expiry from a token', () => {
+    const token = makeJwt(600, { name: 'Zoë' });
+    expect(getTokenExpiry(token)).toBeGreaterThan(Date.now() + 590 * 1000);
+  });
+
+  it('should treat tokens that are not JWTs as never expiring', () => {
+    expect(getTokenExpiry('1|opaque-sanctum-token')).toBeNull();
+    expect(getTokenExpiry('a.not-base64-json.c')).toBeNull();
+    expect(isTokenExpiring('1|opaque-sanctum-token', 60 * 1000)).toBe(false);
+  });
+
+  it('should flag tokens inside the refresh margin', () => {
+    expect(isTokenExpiring(makeJwt(30), 60 * 1000)).toBe(true);
+    expect(isTokenExpiring(makeJwt(-30), 60 * 1000)).toBe(true);
+    expect(isTokenExpiring(makeJwt(3600), 60 * 1000)).toBe(false);
+  });
+});
+
+describe('API auth', () => {
+  const adapter = jest.fn();
+  let events: AuthEvent[];
+  let unsubscribe: () => void;
+  let refreshSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    await clearAuth();
+    events = [];
+    unsubscribe = onAuthEvent((event) => events.push(event));
+
+    // Every request succeeds and reports the token it was sent with
+    adapter.mockReset();
+    adapter.mockImplementation(async (config: InternalAxiosRequestConfig) => ({
+      status: 200,
+      statusText: 'OK',
+      data: { authorization: config.headers.Authorization },
+      headers: {},
+      config,
+    }));
+    api.defaults.adapter = adapter;
+
+    refreshSpy = jest.spyOn(axios, 'post');
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    refreshSpy.mockRestore();
+    // Also cancels the scheduled refresh
+    await clearAuth();
+  });
+
+  it('should refresh a token that is about to expire before sending', async () => {
+    const freshToken = makeJwt(3600);
+    await setAuthTokens(makeJwt(30), 'refresh-1');
+    refreshSpy.mockResolvedValueOnce({ data: { token: freshToken, refresh_token: 'refresh-2' } });
+
+    const response = await api.get('/crm/leads');
+
+    expect(refreshSpy).toHaveBeenCalledWith(expect.stringContaining('/auth/refresh'), { refresh_token: 'refresh-1' });
+    expect(response.data.authorization).toBe(`Bearer ${freshToken}`);
+    expect(await getRefreshToken()).toBe('refresh-2');
+    expect(events).toEqual([{ type: 'token_refreshed', token: freshToken }]);
+  });
+
+  it('should leave a token with time to spare alone', async () => {
+    const token = makeJwt(3600);
+    await setAuthTokens(token, 'refresh-1');
+
+    const response = await api.get('/crm/leads');
+
+    expect(refreshSpy).not.toHaveBeenCalled();
+    expect(response.data.authorization).toBe(`Bearer ${token}`);
+  });
+
+  it('should share one refresh between concurrent requests', async () => {
+    const freshToken = makeJwt(3600);
+    await setAuthTokens(makeJwt(10), 'refresh-1');
+    refreshSpy.mockResolvedValueOnce({ data: { token: freshToken } });
+
+    const responses = await Promise.all([api.get('/crm/leads'), api.get('/crm/deals'), api.get('/notes')]);
+
+    expect(refreshSpy).toHaveBeenCalledTimes(1);
+    responses.forEach((response) => expect(response.data.authorization).toBe(`Bearer ${freshToken}`));
+  });
+
+  it('should refresh and retry once after a 401', async () => {
+    await setAuthTokens('1|revoked', 'refresh-1');
+    refreshSpy.mockResolvedValueOnce({ data: { token: '2|fresh' } });
+    adapter.mockImplementationOnce(async (config: InternalAxiosRequestConfig) => {
+      throw unauthorized(config);
+    });
+
+    const response = await api.get('/crm/leads');
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(response.data.authorization).toBe('Bearer 2|fresh');
+  });
+
+  it('should end the session when the refresh token is rejected', async () => {
+    await setAuthTokens(makeJwt(30), 'refresh-1');
+    refreshSpy.mockImplementationOnce(async (url: string) => {
+      throw unauthorized({ url, headers: {} } as InternalAxiosRequestConfig);
+    });
+
+    await expect(api.get('/crm/leads')).rejects.toMatchObject({ code: 'ERR_SESSION_EXPIRED' });
+
+    expect(adapter).not.toHaveBeenCalled();
+    expect(await getAuthToken()).toBeNull();
+    expect(await getRefreshToken()).toBeNull();
+    expect(events).toEqual([{ type: 'session_expired' }]);
+  });
+
+  it('should keep the session when the refresh fails offline', async () => {
+    const token = makeJwt(30);
+    await setAuthTokens(token, 'refresh-1');
+    refreshSpy.mockRejectedValueOnce(new AxiosError('Network Error', 'ERR_NETWORK'));
+
+    const response = await api.get('/crm/leads');
+
+    expect(response.data.authorization).toBe(`Bearer ${token}`);
+    expect(await getRefreshToken()).toBe('refresh-1');
+    expect(events).toEqual([]);
+  });
+
+  it('should not refresh after a failed sign-in', async () => {
+    adapter.mockImplementationOnce(async (config: InternalAxiosRequestConfig) => {
+      throw unauthorized(config);
+    });
+
+    await expect(api.post('/auth/login', {})).rejects.toMatchObject({ response: { status: 401 } });
+
+    expect(refreshSpy).not.toHaveBeenCalled();
+    expect(events).toEqual([]);
+  });
+
+  describe('while impersonating', () => {
+    const employee = { id: 42, first_name: 'Eve' };
+
+    beforeEach(async () => {
+      await setAuthTokens('admin-token', 'admin-refresh');
+    });
+
+    it('should block writes in a view-only session', async () => {
+      await startImpersonationSession('scoped-token', employee, { id: 'imp-1', allow_changes: false });
+
+      const response = await api.get('/time-clock/status');
+      expect(response.data.authorization).toBe('Bearer scoped-token');
+
+      await expect(api.post('/time-clock/clock-in', {})).rejects.toMatchObject({ code: IMPERSONATION_READ_ONLY });
+      await expect(api.delete('/crm/leads/1')).rejects.toMatchObject({ code: IMPERSONATION_READ_ONLY });
+      expect(adapter).toHaveBeenCalledTimes(1);
+
+      // Ending it always gets through
+      await api.delete('/auth/impersonation/imp-1');
+      expect(adapter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let writes through when the admin allowed changes', async () => {
+      await startImpersonationSession('scoped-token', employee, { id: 'imp-1', allow_changes: true });
+
+      const response = await api.post('/time-clock/clock-in', {});
+
+      expect(response.data.authorization).toBe('Bearer scoped-token');
+    });
+
+    it('should hand the admin their session back when the scoped token is rejected', async () => {
+      await startImpersonationSession('scoped-token', employee, { id: 'imp-1', allow_changes: false });
+      adapter.mockImplementationOnce(async (config: InternalAxiosRequestConfig) => {
+        throw unauthorized(config);
+      });
+
+      await expect(api.get('/time-clock/status')).rejects.toMatchObject({ response: { status: 401 } });
+
+      // No refresh token to try, so no refresh
+      expect(refreshSpy).not.toHaveBeenCalled();
+      expect(await getAuthToken()).toBe('admin-token');
+      expect(await getRefreshToken()).toBe('admin-refresh');
+      expect(await getImpersonation()).toBeNull();
+      expect(events).toEqual([{ type: 'impersonation_ended' }]);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { checkPassword, getLinkTokenError } from '../lib/auth-links';
+
+describe('Email links', () => {
+  describe('checkPassword', () => {
+    it('should list the rules a password misses', () => {
+      const check = checkPassword('secret');
+
+      expect(check.valid).toBe(false);
+      expect(check.failed).toEqual(['length', 'upper', 'number', 'symbol']);
+      expect(check.strength).toBe('weak');
+    });
+
+    it('should call a long password that meets every rule strong', () => {
+      expect(checkPassword('Tr0ub4dor&3')).toEqual({ failed: [], strength: 'good', valid: true });
+      expect(checkPassword('correct-Horse-battery-7').strength).toBe('strong');
+    });
+
+    it('should rate a long password missing one rule as fair', () => {
+      const check = checkPassword('Sunshine2026');
+
+      expect(check.failed).toEqual(['symbol']);
+      expect(check.strength).toBe('fair');
+      expect(check.valid).toBe(false);
+    });
+
+    it('should never rate a short password above weak', () => {
+      expect(checkPassword('Ab1!').strength).toBe('weak');
+    });
+  });
+
+  describe('getLinkTokenError', () => {
+    it('should prefer the error code from the backend', () => {
+      expect(getLinkTokenError({ response: { status: 422, data: { code: 'token_used' } } })).toBe('used');
+      expect(getLinkTokenError({ response: { status: 400, data: { code: 'token_expired' } } })).toBe('expired');
+    });
+
+    it('should fall back to the status', () => {
+      expect(getLinkTokenError({ response: { status: 410, data: {} } })).toBe('expired');
+      expect(getLinkTokenError({ response: { status: 409, data: {} } })).toBe('used');
+      expect(getLinkTokenError({ response: { status: 404, data: {} } })).toBe('invalid');
+    });
+
+    it('should leave network and server errors to a retry', () => {
+      expect(getLinkTokenError(new Error('Network Error'))).toBeNull();
+      expect(getLinkTokenError({ response: { status: 500, data: {} } })).toBeNull();
+    });
+  });
+});
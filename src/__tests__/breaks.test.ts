@@ -0,0 +1,96 @@
+import { getBreakWarnings, workedHours, isPaidBreak, BreakRule } from '../lib/breaks';
+import type { TimeClock, ShiftBreak } from '../stores/timeClockStore';
+
+// California-style rules: a meal before the 5th hour ends, a second before the 10th
+const rules: BreakRule[] = [
+  { type: 'meal', after_hours: 5, min_minutes: 30, paid: false },
+  { type: 'meal', after_hours: 10, min_minutes: 30, paid: false },
+];
+
+const at = (time: string) => `2026-10-19T${time}:00.000Z`;
+
+const shift = (breaks: ShiftBreak[] = [], clockOut: string | null = null): TimeClock => ({
+  id: 1,
+  user_id: 7,
+  organization_id: 1,
+  clock_in_at: at('08:00'),
+  clock_out_at: clockOut,
+  clock_in_location_name: null,
+  clock_out_location_name: null,
+  total_hours: null,
+  regular_hours: null,
+  overtime_hours: null,
+  status: clockOut ? 'clocked_out' : 'clocked_in',
+  notes: null,
+  breaks,
+});
+
+const meal = (start: string, end: string | null, id = 1): ShiftBreak => ({
+  id,
+  type: 'meal',
+  paid: false,
+  started_at: at(start),
+  ended_at: end ? at(end) : null,
+});
+
+describe('Breaks', () => {
+  it('should leave unpaid breaks out of the hours worked', () => {
+    const rest: ShiftBreak = { id: 2, type: 'rest', paid: true, started_at: at('10:00'), ended_at: at('10:10') };
+
+    expect(workedHours(shift([meal('12:00', '12:30'), rest], at('16:30')))).toBe(8);
+  });
+
+  it('should count an open unpaid break up to now', () => {
+    const now = new Date(at('12:15')).getTime();
+
+    expect(workedHours(shift([meal('12:00', null)]), now)).toBe(4);
+  });
+
+  it('should pay rest breaks and not meals unless the rules say so', () => {
+    expect(isPaidBreak('rest', [])).toBe(true);
+    expect(isPaidBreak('meal', [])).toBe(false);
+    expect(isPaidBreak('meal', [{ type: 'meal', after_hours: 6, min_minutes: 30, paid: true }])).toBe(true);
+  });
+
+  describe('getBreakWarnings', () => {
+    it('should say nothing early in the shift', () => {
+      expect(getBreakWarnings(shift(), rules, new Date(at('10:00')).getTime())).toEqual([]);
+    });
+
+    it('should warn when a meal is coming due', () => {
+      const warnings = getBreakWarnings(shift(), rules, new Date(at('12:45')).getTime());
+
+      expect(warnings).toEqual([{ rule: rules[0], status: 'due', due_at: at('13:00') }]);
+    });
+
+    it('should flag a missed meal', () => {
+      const warnings = getBreakWarnings(shift(), rules, new Date(at('13:30')).getTime());
+
+      expect(warnings).toEqual([{ rule: rules[0], status: 'missed', due_at: at('13:00') }]);
+    });
+
+    it('should accept a meal taken in time, including one still going', () => {
+      const now = new Date(at('13:30')).getTime();
+
+      expect(getBreakWarnings(shift([meal('12:30', '13:00')]), rules, now)).toEqual([]);
+      expect(getBreakWarnings(shift([meal('12:50', null)]), rules, now)).toEqual([]);
+    });
+
+    it('should not count a meal that was too short or too late', () => {
+      const now = new Date(at('14:30')).getTime();
+
+      expect(getBreakWarnings(shift([meal('12:00', '12:15')]), rules, now)[0].status).toBe('missed');
+      expect(getBreakWarnings(shift([meal('13:30', '14:00')]), rules, now)[0].status).toBe('missed');
+    });
+
+    it('should need a second meal on a long shift', () => {
+      const long = shift([meal('12:00', '12:30')], at('19:00'));
+
+      expect(getBreakWarnings(long, rules)).toEqual([{ rule: rules[1], status: 'missed', due_at: at('18:00') }]);
+    });
+
+    it('should not warn about breaks a finished shift never needed', () => {
+      expect(getBreakWarnings(shift([], at('12:00')), rules)).toEqual([]);
+    });
+  });
+});
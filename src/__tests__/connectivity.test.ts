@@ -0,0 +1,106 @@
+import * as Network from 'expo-network';
+import {
+  initConnectivity,
+  cleanupConnectivity,
+  refreshConnectivity,
+  getConnectivity,
+  subscribeToConnectivity,
+  toConnectivityStatus,
+} from '../lib/connectivity';
+
+// expo-network is mocked without its enums, so states carry no `type`
+const connected = { isConnected: true, isInternetReachable: true } as Network.NetworkState;
+const disconnected = { isConnected: false, isInternetReachable: false } as Network.NetworkState;
+const captive = { isConnected: true, isInternetReachable: false } as Network.NetworkState;
+
+// The listener most recently registered with expo-network
+const emitNetworkState = (state: Network.NetworkState) => {
+  const calls = (Network.addNetworkStateListener as jest.Mock).mock.calls;
+  calls[calls.length - 1][0](state);
+};
+
+describe('Connectivity', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    cleanupConnectivity();
+    jest.clearAllMocks();
+    await initConnectivity();
+  });
+
+  afterEach(() => {
+    cleanupConnectivity();
+    jest.useRealTimers();
+  });
+
+  describe('toConnectivityStatus', () => {
+    it('should map network states to statuses', () => {
+      expect(toConnectivityStatus(connected)).toBe('online');
+      expect(toConnectivityStatus(disconnected)).toBe('offline');
+      expect(toConnectivityStatus(captive)).toBe('limited');
+    });
+
+    it('should treat an unknown reachability as online', () => {
+      expect(toConnectivityStatus({ ...connected, isInternetReachable: undefined })).toBe('online');
+    });
+  });
+
+  it('should read the initial state on init', () => {
+    expect(Network.getNetworkStateAsync).toHaveBeenCalled();
+    expect(getConnectivity()).toBe('online');
+  });
+
+  it('should subscribe to network changes only once', async () => {
+    await initConnectivity();
+    expect(Network.addNetworkStateListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should debounce going offline', () => {
+    emitNetworkState(disconnected);
+    jest.advanceTimersByTime(1000);
+    expect(getConnectivity()).toBe('online');
+
+    jest.advanceTimersByTime(1000);
+    expect(getConnectivity()).toBe('offline');
+  });
+
+  it('should ignore a blip shorter than the debounce window', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToConnectivity(listener);
+
+    emitNetworkState(disconnected);
+    jest.advanceTimersByTime(500);
+    emitNetworkState(connected);
+    jest.advanceTimersByTime(5000);
+
+    expect(getConnectivity()).toBe('online');
+    expect(listener).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it('should report coming back online within a second', () => {
+    emitNetworkState(disconnected);
+    jest.advanceTimersByTime(2000);
+
+    const listener = jest.fn();
+    const unsubscribe = subscribeToConnectivity(listener);
+    emitNetworkState(connected);
+    jest.advanceTimersByTime(1000);
+
+    expect(listener).toHaveBeenCalledWith('online', 'offline');
+    unsubscribe();
+  });
+
+  it('should report a captive portal as limited', () => {
+    emitNetworkState(captive);
+    jest.advanceTimersByTime(2000);
+    expect(getConnectivity()).toBe('limited');
+  });
+
+  it('should apply a refresh immediately', async () => {
+    (Network.getNetworkStateAsync as jest.Mock).mockResolvedValueOnce(disconnected);
+    await expect(refreshConnectivity()).resolves.toBe('offline');
+
+    await refreshConnectivity();
+    expect(getConnectivity()).toBe('online');
+  });
+});
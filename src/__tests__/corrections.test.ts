@@ -0,0 +1,66 @@
+import { correctionChanges, validateCorrection, latestCorrection, spanHours } from '../lib/corrections';
+import type { TimeClock, TimeCorrection } from '../stores/timeClockStore';
+
+const entry: TimeClock = {
+  id: 88,
+  user_id: 7,
+  organization_id: 1,
+  clock_in_at: '2026-10-15T14:00:00.000Z',
+  clock_out_at: '2026-10-15T22:00:00.000Z',
+  clock_in_location_name: null,
+  clock_out_location_name: null,
+  total_hours: 8,
+  regular_hours: 8,
+  overtime_hours: 0,
+  status: 'clocked_out',
+  notes: null,
+};
+
+const correction = (overrides: Partial<TimeCorrection> = {}): TimeCorrection => ({
+  id: 5,
+  time_clock_id: 88,
+  original_clock_in_at: entry.clock_in_at,
+  original_clock_out_at: entry.clock_out_at,
+  proposed_clock_in_at: '2026-10-15T14:00:00Z',
+  proposed_clock_out_at: '2026-10-15T23:30:00.000Z',
+  reason: 'Forgot to clock out',
+  status: 'pending',
+  created_at: '2026-10-16T09:00:00.000Z',
+  ...overrides,
+});
+
+const now = new Date('2026-10-19T12:00:00Z').getTime();
+
+describe('corrections', () => {
+  it('should list only the times that change', () => {
+    expect(correctionChanges(correction())).toEqual([
+      { field: 'clock_out_at', from: entry.clock_out_at, to: '2026-10-15T23:30:00.000Z' },
+    ]);
+    expect(correctionChanges(correction({ original_clock_out_at: null }))[0].from).toBeNull();
+  });
+
+  it('should work out the hours an entry spans', () => {
+    expect(spanHours(entry.clock_in_at, entry.clock_out_at)).toBe(8);
+    expect(spanHours(entry.clock_in_at, '2026-10-15T23:30:00.000Z')).toBe(9.5);
+    expect(spanHours(entry.clock_in_at, null)).toBeNull();
+  });
+
+  it('should explain why proposed times cannot be sent', () => {
+    const valid = { clock_in_at: entry.clock_in_at, clock_out_at: '2026-10-15T23:30:00.000Z', reason: 'Forgot' };
+
+    expect(validateCorrection(entry, valid, now)).toBeNull();
+    expect(validateCorrection(entry, { ...valid, reason: '  ' }, now)).toMatch(/reason/);
+    expect(validateCorrection(entry, { ...valid, clock_out_at: '2026-10-15T13:00:00Z' }, now)).toMatch(/after/);
+    expect(validateCorrection(entry, { ...valid, clock_out_at: '2026-10-20T01:00:00Z' }, now)).toMatch(/future/);
+    expect(validateCorrection(entry, { ...valid, clock_out_at: '2026-10-15T22:00:00Z' }, now)).toMatch(/Change/);
+  });
+
+  it('should find the newest correction for an entry', () => {
+    const older = correction({ id: 1, status: 'denied', created_at: '2026-10-15T23:00:00Z' });
+    const newer = correction({ id: 2 });
+    const other = correction({ id: 3, time_clock_id: 99, created_at: '2026-10-18T00:00:00Z' });
+
+    expect(latestCorrection([newer, older, other], 88)).toBe(newer);
+    expect(latestCorrection([other], 88)).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { captureTime, recordServerTime, CLOCK_TAMPER_THRESHOLD_MS } from '../lib/device-clock';
+
+describe('Device clock', () => {
+  let now: number;
+  let monotonic: number;
+
+  beforeEach(() => {
+    now = Date.parse('2026-10-19T14:00:00Z');
+    monotonic = 50_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(performance, 'now').mockImplementation(() => monotonic);
+    recordServerTime(new Date(now).toUTCString());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report a clock that kept time', () => {
+    now += 60 * 60 * 1000;
+    monotonic += 60 * 60 * 1000;
+
+    expect(captureTime()).toEqual({
+      captured_at: '2026-10-19T15:00:00.000Z',
+      clock_skew_ms: 0,
+      clock_source: 'server',
+      clock_tampered: false,
+    });
+  });
+
+  it('should flag a clock that was set back', () => {
+    monotonic += 60 * 60 * 1000;
+    // An hour passed, but the device says only a few minutes did
+    now += 5 * 60 * 1000;
+
+    const captured = captureTime();
+    expect(captured.clock_skew_ms).toBe(-55 * 60 * 1000);
+    expect(captured.clock_tampered).toBe(true);
+  });
+
+  it('should only report a clock that ran ahead, as it does after the phone sleeps', () => {
+    monotonic += 10 * 60 * 1000;
+    now += 70 * 60 * 1000;
+
+    const captured = captureTime();
+    expect(captured.clock_skew_ms).toBe(60 * 60 * 1000);
+    expect(captured.clock_tampered).toBe(false);
+  });
+
+  it('should report a device that runs behind the server without flagging it', () => {
+    // The phone's clock has been 5 minutes slow all along
+    recordServerTime(new Date(now + 5 * 60 * 1000).toUTCString());
+    monotonic += 60 * 60 * 1000;
+    now += 60 * 60 * 1000;
+
+    const captured = captureTime();
+    expect(captured.clock_skew_ms).toBe(-5 * 60 * 1000);
+    expect(captured.clock_source).toBe('server');
+    expect(captured.clock_tampered).toBe(false);
+  });
+
+  it('should flag a slow device that was also set back', () => {
+    recordServerTime(new Date(now + 5 * 60 * 1000).toUTCString());
+    monotonic += 60 * 60 * 1000;
+    now += 50 * 60 * 1000;
+
+    const captured = captureTime();
+    expect(captured.clock_skew_ms).toBe(-15 * 60 * 1000);
+    expect(captured.clock_tampered).toBe(true);
+  });
+
+  it('should tolerate small differences', () => {
+    monotonic += 60 * 1000;
+    now += 60 * 1000 - CLOCK_TAMPER_THRESHOLD_MS / 2;
+
+    expect(captureTime().clock_tampered).toBe(false);
+  });
+
+  it('should ignore a missing Date header', () => {
+    recordServerTime(undefined);
+    recordServerTime('not a date');
+
+    expect(captureTime().clock_source).toBe('server');
+  });
+});
@@ -0,0 +1,99 @@
+import { hoursByJob, describeJob, rollUpLaborCosts, segmentWorkedMs, jobKey, hasJob } from '../lib/job-costing';
+import type { TimeClock, JobSegment } from '../stores/timeClockStore';
+import type { Project } from '../stores/projectsStore';
+
+const at = (time: string) => `2026-10-19T${time}:00.000Z`;
+
+const segment = (job: JobSegment['job'], start: string, end: string | null, id = 1): JobSegment => ({
+  id,
+  job,
+  started_at: at(start),
+  ended_at: end ? at(end) : null,
+});
+
+const shift = (segments: JobSegment[], breaks: TimeClock['breaks'] = []): TimeClock => ({
+  id: 1,
+  user_id: 7,
+  organization_id: 1,
+  clock_in_at: at('08:00'),
+  clock_out_at: at('17:00'),
+  clock_in_location_name: null,
+  clock_out_location_name: null,
+  total_hours: null,
+  regular_hours: null,
+  overtime_hours: null,
+  status: 'clocked_out',
+  notes: null,
+  breaks,
+  segments,
+});
+
+const project = (id: string, spent?: number): Project => ({
+  id,
+  name: `Project ${id}`,
+  status: 'active',
+  startDate: '2026-01-01',
+  spent,
+  progress: 0,
+  teamMembers: [],
+  taskCount: 0,
+  completedTaskCount: 0,
+  createdAt: at('08:00'),
+  updatedAt: at('08:00'),
+});
+
+describe('Job costing', () => {
+  const kitchen = { project_id: '1', cost_code: '0420' };
+  const deck = { project_id: '2' };
+
+  it('should leave the unpaid break inside a segment out of its time', () => {
+    const entry = shift(
+      [segment(kitchen, '08:00', '13:00')],
+      [{ id: 1, type: 'meal', paid: false, started_at: at('12:30'), ended_at: at('13:30') }]
+    );
+
+    expect(segmentWorkedMs(entry.segments![0], entry)).toBe(4.5 * 60 * 60 * 1000);
+  });
+
+  it('should add up hours per job across shifts', () => {
+    const monday = shift([segment(kitchen, '08:00', '12:00'), segment(deck, '12:00', '17:00', 2)]);
+    const tuesday = shift([segment(kitchen, '08:00', '10:30')]);
+
+    expect(hoursByJob([monday, tuesday])).toEqual([
+      { job: kitchen, hours: 6.5 },
+      { job: deck, hours: 5 },
+    ]);
+  });
+
+  it('should treat an allocation without any field as no job', () => {
+    expect(hasJob({})).toBe(false);
+    expect(hasJob({ cost_code: null, project_id: '1' })).toBe(true);
+    expect(jobKey({ project_id: '1' })).toBe(jobKey({ project_id: '1', deal_id: null }));
+  });
+
+  it('should name a job from what it was charged to', () => {
+    const lookups = {
+      projects: [{ id: '1', name: 'Kitchen remodel' }],
+      costCodes: [{ code: '0420', name: 'Framing' }],
+    };
+
+    expect(describeJob(kitchen, lookups)).toBe('Kitchen remodel · 0420 Framing');
+    expect(describeJob({ deal_id: 9 }, lookups)).toBe('Deal 9');
+    expect(describeJob(null)).toBe('No job');
+  });
+
+  it('should fold labor into project spend without counting it twice', () => {
+    const costs = [
+      { job: { project_id: '1' }, hours: 10, cost: 450 },
+      { job: { project_id: '1', cost_code: '0420' }, hours: 2, cost: 90 },
+      { job: { cost_code: '0100' }, hours: 1, cost: 45 },
+    ];
+
+    const once = rollUpLaborCosts([project('1', 1000), project('2')], costs);
+    expect(once[0]).toMatchObject({ spent: 1540, laborHours: 12, laborCost: 540 });
+    expect(once[1].laborCost).toBeUndefined();
+
+    const again = rollUpLaborCosts(once, [{ job: { project_id: '1' }, hours: 14, cost: 630 }]);
+    expect(again[0]).toMatchObject({ spent: 1630, laborHours: 14, laborCost: 630 });
+  });
+});
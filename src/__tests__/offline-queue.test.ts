@@ -1,8 +1,52 @@
-import { getQueue, getQueueCount, clearQueue, isNetworkOnline } from '../lib/offline-queue';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Network from 'expo-network';
+import {
+  getQueue,
+  getQueueCount,
+  clearQueue,
+  isNetworkOnline,
+  queueRequest,
+  processQueue,
+  loadQueue,
+  initOfflineQueue,
+  cleanupOfflineQueue,
+  makeOfflineAwareRequest,
+  sendOfflineAware,
+  getDeadLetters,
+  clearDeadLetters,
+  retryDeadLetter,
+  discardDeadLetter,
+  subscribeToTempIdResolution,
+  IDEMPOTENCY_HEADER,
+} from '../lib/offline-queue';
+import { generateTempId } from '../lib/temp-ids';
+import { runOptimistic } from '../lib/optimistic';
+import { refreshConnectivity } from '../lib/connectivity';
+import { describeQueuedRequest } from '../lib/request-labels';
+
+// Mock the api module (called directly as a function by the queue)
+jest.mock('../lib/api', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+jest.mock('../stores/toastStore', () => ({
+  showToast: jest.fn(),
+}));
+
+import api from '../lib/api';
+import { showToast } from '../stores/toastStore';
+
+const networkError = () => Object.assign(new Error('Network Error'), { code: 'ERR_NETWORK' });
+
+const sentKeys = () =>
+  (api as unknown as jest.Mock).mock.calls.map(([config]) => config.headers[IDEMPOTENCY_HEADER]);
 
 describe('Offline Queue', () => {
   beforeEach(async () => {
     await clearQueue();
+    await clearDeadLetters();
+    jest.clearAllMocks();
   });
 
   describe('getQueue', () => {
@@ -24,4 +68,463 @@ describe('Offline Queue', () => {
       expect(typeof online).toBe('boolean');
     });
   });
+
+  describe('Idempotency keys', () => {
+    it('should assign a key when a request is queued', async () => {
+      await queueRequest({ url: '/crm/leads', method: 'post', data: { name: 'Jane' } });
+
+      const [queued] = getQueue();
+      expect(queued.idempotencyKey).toMatch(/^[0-9a-f-]{36}$/);
+      expect(queued.headers?.[IDEMPOTENCY_HEADER]).toBe(queued.idempotencyKey);
+    });
+
+    it('should keep a key that the first attempt already sent', async () => {
+      await queueRequest({
+        url: '/time-clock/clock-in',
+        method: 'post',
+        headers: { [IDEMPOTENCY_HEADER]: 'first-attempt-key' },
+      });
+
+      expect(getQueue()[0].idempotencyKey).toBe('first-attempt-key');
+    });
+
+    it('should send the same key on the first attempt and on replay', async () => {
+      (api as unknown as jest.Mock)
+        .mockRejectedValueOnce(networkError())
+        .mockResolvedValueOnce({ data: { success: true } });
+
+      const result = await makeOfflineAwareRequest({ url: '/customer/messages/send', method: 'post' });
+      expect(result).toEqual({ queued: true, queueId: expect.any(String) });
+
+      await processQueue();
+
+      const keys = sentKeys();
+      expect(keys).toHaveLength(2);
+      expect(keys[0]).toBeTruthy();
+      expect(keys[1]).toBe(keys[0]);
+      expect(getQueueCount()).toBe(0);
+    });
+
+    it('should backfill keys for items persisted before keys existed', async () => {
+      await AsyncStorage.setItem(
+        'sf_offline_queue',
+        JSON.stringify([
+          { id: 'legacy', url: '/crm/deals', method: 'POST', retries: 0, maxRetries: 3, createdAt: Date.now() },
+        ])
+      );
+
+      await loadQueue();
+
+      const [item] = getQueue();
+      expect(item.idempotencyKey).toBeTruthy();
+      expect(item.headers?.[IDEMPOTENCY_HEADER]).toBe(item.idempotencyKey);
+    });
+  });
+
+  describe('Replay after partial failure', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 1_700_000_000_000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should only keep the failed request and replay it with its original key', async () => {
+      await queueRequest({ url: '/crm/leads', method: 'post', data: { name: 'A' } });
+      await queueRequest({ url: '/crm/contacts', method: 'post', data: { name: 'B' } });
+      await queueRequest({ url: '/crm/deals', method: 'post', data: { name: 'C' } });
+      const failedKey = getQueue()[1].idempotencyKey;
+
+      (api as unknown as jest.Mock)
+        .mockResolvedValueOnce({ data: {} })
+        .mockRejectedValueOnce(networkError())
+        .mockResolvedValueOnce({ data: {} });
+
+      await processQueue();
+
+      expect(getQueueCount()).toBe(1);
+      expect(getQueue()[0].url).toBe('/crm/contacts');
+      expect(getQueue()[0].retries).toBe(1);
+
+      // The contact reached the server but the response was lost
+      (api as unknown as jest.Mock).mockRejectedValueOnce({
+        response: { status: 409, data: { message: 'Conflict' } },
+      });
+      now += 60_000;
+
+      await processQueue();
+
+      expect(sentKeys()[3]).toBe(failedKey);
+      expect(getQueueCount()).toBe(0);
+    });
+
+    it('should treat an "already processed" reply as success', async () => {
+      await queueRequest({ url: '/time-clock/clock-out', method: 'post' });
+
+      (api as unknown as jest.Mock).mockRejectedValueOnce({
+        response: { status: 422, data: { message: 'This request has already been processed.' } },
+      });
+
+      await processQueue();
+
+      expect(getQueueCount()).toBe(0);
+    });
+
+    it('should keep retrying on other server errors', async () => {
+      await queueRequest({ url: '/crm/leads', method: 'post' });
+
+      (api as unknown as jest.Mock).mockRejectedValueOnce({
+        response: { status: 500, data: { message: 'Server Error' } },
+      });
+
+      await processQueue();
+
+      expect(getQueueCount()).toBe(1);
+      expect(getQueue()[0].retries).toBe(1);
+    });
+
+    it('should not replay a request before its backoff has elapsed', async () => {
+      await queueRequest({ url: '/crm/leads', method: 'post' });
+
+      (api as unknown as jest.Mock).mockRejectedValueOnce(networkError());
+      await processQueue();
+
+      await processQueue();
+
+      expect(api).toHaveBeenCalledTimes(1);
+      expect(getQueueCount()).toBe(1);
+    });
+  });
+
+  describe('Dead letters', () => {
+    let now: number;
+
+    const serverError = () => ({ response: { status: 500, data: { message: 'Server Error' } } });
+
+    // Fail a queued request until it runs out of retries
+    const exhaustRetries = async () => {
+      for (let attempt = 0; attempt < 3; attempt++) {
+        (api as unknown as jest.Mock).mockRejectedValueOnce(serverError());
+        await processQueue();
+        now += 60_000;
+      }
+    };
+
+    beforeEach(() => {
+      now = 1_700_000_000_000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should move a request to dead letters after max retries with the last error', async () => {
+      await queueRequest({ url: '/time-clock/clock-out', method: 'post', data: { notes: 'done' } });
+
+      await exhaustRetries();
+
+      expect(getQueueCount()).toBe(0);
+      const [letter] = getDeadLetters();
+      expect(letter.reason).toBe('max_retries');
+      expect(letter.lastErrorStatus).toBe(500);
+      expect(letter.lastErrorBody).toEqual({ message: 'Server Error' });
+      expect(letter.request.url).toBe('/time-clock/clock-out');
+    });
+
+    it('should persist dead letters', async () => {
+      await queueRequest({ url: '/crm/leads', method: 'post' });
+      await exhaustRetries();
+
+      const stored = JSON.parse((await AsyncStorage.getItem('sf_offline_dead_letters')) || '[]');
+      expect(stored).toHaveLength(1);
+    });
+
+    it('should move expired items to dead letters on load', async () => {
+      await AsyncStorage.setItem(
+        'sf_offline_queue',
+        JSON.stringify([
+          { id: 'old', url: '/time-clock/clock-out', method: 'POST', retries: 0, maxRetries: 3, createdAt: now - 25 * 60 * 60 * 1000 },
+          { id: 'fresh', url: '/crm/leads', method: 'POST', retries: 0, maxRetries: 3, createdAt: now },
+        ])
+      );
+
+      await loadQueue();
+
+      expect(getQueue().map((r) => r.id)).toEqual(['fresh']);
+      expect(getDeadLetters()).toEqual([expect.objectContaining({ id: 'old', reason: 'expired' })]);
+    });
+
+    it('should retry a dead letter with its original key', async () => {
+      await queueRequest({ url: '/crm/leads', method: 'post', data: { name: 'A' } });
+      const originalKey = getQueue()[0].idempotencyKey;
+      await exhaustRetries();
+
+      (api as unknown as jest.Mock).mockResolvedValueOnce({ data: {} });
+      await retryDeadLetter(getDeadLetters()[0].id);
+
+      expect(getDeadLetters()).toHaveLength(0);
+      expect(getQueueCount()).toBe(0);
+      expect(sentKeys()[3]).toBe(originalKey);
+    });
+
+    it('should put a rolled-back change back once its dead letter syncs', async () => {
+      let state = { name: 'Old', pending: false };
+      const set = (partial: Partial<typeof state>) => {
+        state = { ...state, ...partial };
+      };
+      await runOptimistic(() => state, set, {
+        apply: () => ({ name: 'New', pending: true }),
+        rollback: () => ({ name: 'Old', pending: false }),
+        // Goes offline on the first attempt
+        commit: () => sendOfflineAware({ url: '/crm/leads/1', method: 'put' }, () => Promise.reject(networkError())),
+        reconcile: (_state, lead: { name: string }) => ({ name: lead.name, pending: false }),
+        errorMessage: "Couldn't update lead",
+      });
+
+      await exhaustRetries();
+      expect(state).toEqual({ name: 'Old', pending: false });
+      expect(showToast).toHaveBeenCalledWith("Couldn't update lead: Server Error");
+
+      (api as unknown as jest.Mock).mockResolvedValueOnce({ data: { name: 'New' } });
+      await retryDeadLetter(getDeadLetters()[0].id);
+      expect(state).toEqual({ name: 'New', pending: false });
+    });
+
+    it('should send an edited dead letter with a new key', async () => {
+      await queueRequest({ url: '/crm/leads', method: 'post', data: { name: 'A' } });
+      const originalKey = getQueue()[0].idempotencyKey;
+      await exhaustRetries();
+
+      (api as unknown as jest.Mock).mockResolvedValueOnce({ data: {} });
+      await retryDeadLetter(getDeadLetters()[0].id, { name: 'Fixed' });
+
+      const [config] = (api as unknown as jest.Mock).mock.calls[3];
+      expect(config.data).toEqual({ name: 'Fixed' });
+      expect(config.headers[IDEMPOTENCY_HEADER]).not.toBe(originalKey);
+    });
+
+    it('should dead-letter requests waiting on a create that failed', async () => {
+      const contactId = generateTempId();
+      await queueRequest(
+        { url: '/crm/contacts', method: 'post', data: { name: 'Jane' } },
+        { tempId: contactId, entityType: 'contact' }
+      );
+      await queueRequest({ url: '/crm/deals', method: 'post', data: { name: 'Roof', contact_id: contactId } });
+
+      await exhaustRetries();
+
+      expect(getQueueCount()).toBe(0);
+      expect(getDeadLetters().map((letter) => [letter.request.url, letter.reason])).toEqual([
+        ['/crm/contacts', 'max_retries'],
+        ['/crm/deals', 'parent_failed'],
+      ]);
+      // The deal was never sent with a contact_id the server doesn't know
+      expect(api).toHaveBeenCalledTimes(3);
+    });
+
+    it('should discard a dead letter', async () => {
+      await queueRequest({ url: '/crm/leads', method: 'post' });
+      await exhaustRetries();
+
+      await discardDeadLetter(getDeadLetters()[0].id);
+
+      expect(getDeadLetters()).toHaveLength(0);
+    });
+  });
+
+  describe('describeQueuedRequest', () => {
+    const request = (url: string, method: 'POST' | 'PUT', data?: unknown) => ({
+      id: '1',
+      url,
+      method,
+      data,
+      idempotencyKey: 'k',
+      retries: 0,
+      maxRetries: 3,
+      createdAt: new Date(2024, 0, 1, 17, 2).getTime(),
+    });
+
+    it('should describe known endpoints', () => {
+      expect(describeQueuedRequest(request('/time-clock/clock-out', 'POST'))).toBe('Clock out at 5:02pm');
+      expect(describeQueuedRequest(request('/time-clock/break/start', 'POST', { type: 'meal' }))).toBe(
+        'Start meal break at 5:02pm'
+      );
+      expect(describeQueuedRequest(request('/time-clock/switch-job', 'POST', { job: { project_id: '1' } }))).toBe(
+        'Switch job at 5:02pm'
+      );
+      expect(describeQueuedRequest(request('/time-clock/88/corrections', 'POST', { reason: 'Forgot' }))).toBe(
+        'Timesheet correction request'
+      );
+      expect(describeQueuedRequest(request('/time-clock/corrections/7/deny', 'POST'))).toBe(
+        'Deny timesheet correction'
+      );
+      expect(describeQueuedRequest(request('/customer/messages/send', 'POST', { to: 'Jane', type: 'sms' }))).toBe(
+        'SMS to Jane'
+      );
+      expect(describeQueuedRequest(request('/crm/leads', 'POST', { name: 'Acme' }))).toBe('New lead: Acme');
+    });
+
+    it('should show when a punch was made, not when it was queued or retried', () => {
+      const capturedAt = new Date(2024, 0, 1, 16, 45).toISOString();
+      const retried = { ...request('/time-clock/clock-out', 'POST', { captured_at: capturedAt }), createdAt: Date.now() };
+
+      expect(describeQueuedRequest(retried)).toBe('Clock out at 4:45pm');
+      expect(describeQueuedRequest(request('/time-clock/break/end', 'POST', { captured_at: capturedAt }))).toBe(
+        'End break at 4:45pm'
+      );
+    });
+
+    it('should fall back to method and path', () => {
+      expect(describeQueuedRequest(request('/vault/items/9', 'PUT'))).toBe('PUT /vault/items/9');
+    });
+  });
+
+  describe('Temp ID dependencies', () => {
+    it('should hold a child request until its parent has a real ID', async () => {
+      const contactId = generateTempId();
+      await queueRequest(
+        { url: '/crm/contacts', method: 'post', data: { name: 'Jane' } },
+        { tempId: contactId, entityType: 'contact' }
+      );
+      await queueRequest({ url: '/crm/deals', method: 'post', data: { name: 'Roof', contact_id: contactId } });
+
+      expect(getQueue()[1].dependsOn).toEqual([String(contactId)]);
+
+      (api as unknown as jest.Mock).mockRejectedValueOnce(networkError());
+      await processQueue();
+
+      // The deal was not sent with a contact_id the server doesn't know
+      expect(api).toHaveBeenCalledTimes(1);
+      expect(getQueueCount()).toBe(2);
+    });
+
+    it('should rewrite dependent bodies and URLs with the real ID', async () => {
+      const contactId = generateTempId();
+      const dealId = generateTempId();
+      await queueRequest(
+        { url: '/crm/contacts', method: 'post', data: { name: 'Jane' } },
+        { tempId: contactId, entityType: 'contact' }
+      );
+      await queueRequest(
+        { url: '/crm/deals', method: 'post', data: { name: 'Roof', contact_id: contactId } },
+        { tempId: dealId, entityType: 'deal' }
+      );
+      await queueRequest({ url: `/crm/deals/${dealId}/move-stage`, method: 'post', data: { stage: 'won' } });
+
+      (api as unknown as jest.Mock)
+        .mockResolvedValueOnce({ data: { data: { id: 42, name: 'Jane' } } })
+        .mockResolvedValueOnce({ data: { data: { id: 7, name: 'Roof', contact_id: 42 } } })
+        .mockResolvedValueOnce({ data: {} });
+
+      await processQueue();
+
+      const calls = (api as unknown as jest.Mock).mock.calls.map(([config]) => config);
+      expect(calls[1].data).toEqual({ name: 'Roof', contact_id: 42 });
+      expect(calls[2].url).toBe('/crm/deals/7/move-stage');
+      expect(getQueueCount()).toBe(0);
+    });
+
+    it('should notify listeners with the server entity', async () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToTempIdResolution(listener);
+      const leadId = generateTempId();
+      await queueRequest(
+        { url: '/crm/leads', method: 'post', data: { name: 'Acme' } },
+        { tempId: leadId, entityType: 'lead' }
+      );
+
+      (api as unknown as jest.Mock).mockResolvedValueOnce({ data: { data: { id: 5, name: 'Acme' } } });
+      await processQueue();
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith({
+        tempId: String(leadId),
+        realId: 5,
+        entityType: 'lead',
+        entity: { id: 5, name: 'Acme' },
+      });
+    });
+
+    it('should find the entity under its type when the response wraps it', async () => {
+      const clockId = generateTempId();
+      await queueRequest({ url: '/time-clock/clock-in', method: 'post' }, { tempId: clockId, entityType: 'clock_in' });
+      await queueRequest({ url: `/time-clock/${clockId}/corrections`, method: 'post' });
+
+      (api as unknown as jest.Mock).mockResolvedValue({ data: { success: true, clock_in: { id: 301 } } });
+      await processQueue();
+
+      expect((api as unknown as jest.Mock).mock.calls[1][0].url).toBe('/time-clock/301/corrections');
+      expect(getQueueCount()).toBe(0);
+    });
+  });
+
+  it('should keep processing after a listener throws', async () => {
+    const unsubscribe = subscribeToTempIdResolution(() => {
+      throw new Error('Store update failed');
+    });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await queueRequest({ url: '/crm/leads', method: 'post', data: { name: 'Acme' } }, { tempId: generateTempId() });
+    (api as unknown as jest.Mock).mockResolvedValue({ data: { data: { id: 5, name: 'Acme' } } });
+
+    await processQueue();
+    unsubscribe();
+    await queueRequest({ url: '/crm/leads/5', method: 'put', data: { name: 'Acme Inc' } });
+    await processQueue();
+
+    expect(getQueueCount()).toBe(0);
+    errorSpy.mockRestore();
+    (api as unknown as jest.Mock).mockReset();
+  });
+
+  describe('Connectivity', () => {
+    const emitNetworkState = (state: Partial<Network.NetworkState>) => {
+      const calls = (Network.addNetworkStateListener as jest.Mock).mock.calls;
+      calls[calls.length - 1][0](state);
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(async () => {
+      cleanupOfflineQueue();
+      (Network.getNetworkStateAsync as jest.Mock).mockResolvedValue({ isConnected: true, isInternetReachable: true });
+      await refreshConnectivity();
+      jest.useRealTimers();
+    });
+
+    it('should replay the queue within a second of the network returning', async () => {
+      (Network.getNetworkStateAsync as jest.Mock).mockResolvedValue({ isConnected: false, isInternetReachable: false });
+      await initOfflineQueue();
+      expect(isNetworkOnline()).toBe(false);
+
+      const result = await makeOfflineAwareRequest({ url: '/crm/leads', method: 'post', data: { name: 'Jane' } });
+      expect(result).toEqual({ queued: true, queueId: expect.any(String) });
+      expect(api).not.toHaveBeenCalled();
+
+      (api as unknown as jest.Mock).mockResolvedValueOnce({ data: { id: 1 } });
+      emitNetworkState({ isConnected: true, isInternetReachable: true });
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(api).toHaveBeenCalledTimes(1);
+      expect(getQueueCount()).toBe(0);
+    });
+
+    it('should not replay behind a captive portal', async () => {
+      await initOfflineQueue();
+      emitNetworkState({ isConnected: true, isInternetReachable: false });
+      await jest.advanceTimersByTimeAsync(2000);
+
+      await makeOfflineAwareRequest({ url: '/crm/leads', method: 'post', data: { name: 'Jane' } });
+      await processQueue();
+
+      expect(api).not.toHaveBeenCalled();
+      expect(getQueueCount()).toBe(1);
+    });
+  });
 });
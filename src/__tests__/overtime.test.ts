@@ -0,0 +1,128 @@
+import {
+  OVERTIME_PRESETS,
+  splitWeek,
+  summarizeWeek,
+  hoursUntilOvertime,
+  splitShift,
+  diffSummaries,
+  getWeekStart,
+  toDateKey,
+} from '../lib/overtime';
+import type { TimeClock } from '../stores/timeClockStore';
+
+// The workweek of Sunday 2026-10-18 to Saturday 2026-10-24, in local time
+const day = (date: number) => `2026-10-${date}`;
+const week = (...hours: number[]) =>
+  Object.fromEntries(hours.map((h, i) => [day(18 + i), h]));
+
+const shift = (id: number, date: number, startHour: number, hours: number | null): TimeClock => {
+  const clockIn = new Date(2026, 9, date, startHour);
+  return {
+    id,
+    user_id: 7,
+    organization_id: 1,
+    clock_in_at: clockIn.toISOString(),
+    clock_out_at: hours === null ? null : new Date(clockIn.getTime() + hours * 3600000).toISOString(),
+    clock_in_location_name: null,
+    clock_out_location_name: null,
+    total_hours: hours,
+    regular_hours: null,
+    overtime_hours: null,
+    status: hours === null ? 'clocked_in' : 'clocked_out',
+    notes: null,
+  };
+};
+
+describe('Overtime', () => {
+  const { federal, CA, CO } = OVERTIME_PRESETS;
+
+  it('should only count weekly overtime under federal rules', () => {
+    const split = splitWeek(week(0, 10, 10, 10, 10, 4, 0), federal);
+
+    expect(split).toMatchObject({ regular: 40, overtime: 4, double_time: 0 });
+    expect(split.by_day[day(23)]).toEqual({ regular: 0, overtime: 4, double_time: 0 });
+  });
+
+  it('should apply daily overtime and double time in California', () => {
+    const split = splitWeek(week(0, 14, 0, 0, 0, 0, 0), CA);
+
+    expect(split).toMatchObject({ regular: 8, overtime: 4, double_time: 2 });
+  });
+
+  it('should not count daily overtime again toward the weekly threshold', () => {
+    // 5 x 10h: 10h of daily overtime, and 40 regular hours reach the weekly limit exactly
+    const split = splitWeek(week(0, 10, 10, 10, 10, 10, 0), CA);
+
+    expect(split).toMatchObject({ regular: 40, overtime: 10, double_time: 0 });
+  });
+
+  it('should pay the seventh straight workday as overtime and double time', () => {
+    const split = splitWeek(week(4, 4, 4, 4, 4, 4, 10), CA);
+
+    expect(split.by_day[day(24)]).toEqual({ regular: 0, overtime: 8, double_time: 2 });
+    expect(splitWeek(week(4, 4, 4, 4, 4, 4, 10), federal).by_day[day(24)]).toEqual({
+      regular: 10,
+      overtime: 0,
+      double_time: 0,
+    });
+  });
+
+  it('should use a 12-hour day in Colorado', () => {
+    expect(splitWeek(week(0, 12, 0, 0, 0, 0, 0), CO).overtime).toBe(0);
+    expect(splitWeek(week(0, 13, 0, 0, 0, 0, 0), CO).overtime).toBe(1);
+  });
+
+  it('should find the start of the workweek', () => {
+    expect(toDateKey(getWeekStart(new Date(2026, 9, 21, 15), 0))).toBe(day(18));
+    expect(toDateKey(getWeekStart(new Date(2026, 9, 21, 15), 1))).toBe(day(19));
+  });
+
+  it('should summarize the week from entries and leave other weeks out', () => {
+    const now = new Date(2026, 9, 22, 18).getTime();
+    const entries = [shift(1, 19, 8, 10), shift(2, 20, 8, 9), shift(3, 21, 8, 8), shift(4, 15, 8, 8)];
+
+    expect(summarizeWeek(entries, CA, now)).toEqual({
+      total_hours: 27,
+      regular_hours: 24,
+      overtime_hours: 3,
+      double_time_hours: 0,
+      by_day: { [day(19)]: 10, [day(20)]: 9, [day(21)]: 8 },
+      entries_count: 3,
+    });
+  });
+
+  it('should project when overtime starts during an open shift', () => {
+    const entries = [shift(1, 19, 8, 10), shift(2, 20, 8, 10), shift(3, 21, 8, 10), shift(4, 22, 8, null)];
+
+    // 30 hours before today, 3 hours in: the weekly limit is 7 hours away but the daily one 5
+    expect(hoursUntilOvertime(entries, CA, new Date(2026, 9, 22, 11).getTime())).toBe(5);
+    expect(hoursUntilOvertime(entries, federal, new Date(2026, 9, 22, 11).getTime())).toBe(7);
+    expect(hoursUntilOvertime(entries, federal, new Date(2026, 9, 22, 19).getTime())).toBe(0);
+    expect(hoursUntilOvertime(entries, { ...federal, weekly_threshold: null }, Date.now())).toBeNull();
+  });
+
+  it('should give the overtime to the shift that crosses the threshold', () => {
+    const earlier = shift(1, 19, 6, 6);
+    const later = shift(2, 19, 14, 4);
+
+    expect(splitShift(earlier, [later], CA)).toEqual({ regular: 6, overtime: 0, double_time: 0 });
+    expect(splitShift(later, [earlier], CA)).toEqual({ regular: 2, overtime: 2, double_time: 0 });
+  });
+
+  it('should report where the server summary disagrees', () => {
+    const local = {
+      total_hours: 18,
+      regular_hours: 16,
+      overtime_hours: 2,
+      by_day: { [day(19)]: 10, [day(20)]: 8 },
+      entries_count: 2,
+    };
+
+    expect(diffSummaries(local, { ...local })).toEqual([]);
+    expect(diffSummaries(local, { ...local, total_hours: 17.99 })).toEqual([]);
+    expect(diffSummaries(local, { ...local, total_hours: 16, by_day: { [day(19)]: 8, [day(20)]: 8 } })).toEqual([
+      'total',
+      day(19),
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { can, canAccessRoute, guardRoute, getHomeRoute, tabHref } from '../lib/permissions';
+import { useAuthStore, User } from '../stores/authStore';
+
+jest.mock('../lib/session', () => ({
+  resetAll: jest.fn().mockResolvedValue(undefined),
+}));
+
+const userWithRoles = (roles: string[], permissions?: string[]): User => ({
+  id: 1,
+  email: 'user@example.com',
+  first_name: 'Test',
+  last_name: 'User',
+  roles,
+  permissions,
+});
+
+const ROUTES = [
+  '(employee)',
+  '(employee)/messages',
+  '(admin)',
+  '(admin)/employees',
+  '(admin)/geofence',
+  '(admin)/reports',
+  '(admin)/settings',
+  '(manager)',
+  '(manager)/approvals',
+  '(crm)',
+  '(crm)/leads',
+  '(crm)/caller',
+  '(crm)/vault',
+  '(crm)/employees',
+];
+
+// Which of ROUTES each role may open
+const MATRIX: Record<string, string[]> = {
+  super_admin: ROUTES,
+  admin: ROUTES,
+  sales_admin: [
+    '(employee)',
+    '(employee)/messages',
+    '(admin)',
+    '(admin)/employees',
+    '(admin)/reports',
+    '(admin)/settings',
+    '(crm)',
+    '(crm)/leads',
+    '(crm)/caller',
+    '(crm)/vault',
+    '(crm)/employees',
+  ],
+  manager: ['(employee)', '(employee)/messages', '(manager)', '(manager)/approvals'],
+  team_lead: ['(employee)', '(employee)/messages', '(manager)', '(manager)/approvals'],
+  sales_manager: [
+    '(employee)',
+    '(employee)/messages',
+    '(manager)',
+    '(manager)/approvals',
+    '(crm)',
+    '(crm)/leads',
+    '(crm)/caller',
+  ],
+  sales_rep: ['(employee)', '(employee)/messages', '(crm)', '(crm)/leads', '(crm)/caller'],
+  employee: ['(employee)', '(employee)/messages'],
+};
+
+describe('Permissions', () => {
+  describe('role to route matrix', () => {
+    Object.entries(MATRIX).forEach(([role, allowed]) => {
+      ROUTES.forEach((route) => {
+        const expected = allowed.includes(route);
+        it(`${role} ${expected ? 'can' : 'cannot'} open ${route}`, () => {
+          expect(canAccessRoute(userWithRoles([role]), route.split('/'))).toBe(expected);
+        });
+      });
+    });
+  });
+
+  describe('can', () => {
+    it('should deny everything when signed out', () => {
+      expect(can('crm.access', null)).toBe(false);
+    });
+
+    it('should combine every role the user has', () => {
+      const user = userWithRoles(['team_lead', 'sales_rep']);
+      expect(can('manager.access', user)).toBe(true);
+      expect(can('crm.caller', user)).toBe(true);
+      expect(can('approvals.manage', user)).toBe(false);
+    });
+
+    it('should honor explicit grants from the backend', () => {
+      expect(can('vault.access', userWithRoles(['employee'], ['vault.access']))).toBe(true);
+    });
+
+    it('should fall back to the single role field', () => {
+      expect(can('admin.access', { ...userWithRoles([]), role: 'admin' })).toBe(true);
+    });
+
+    it('should default to the signed-in user', () => {
+      useAuthStore.setState({ user: userWithRoles(['manager']) });
+      expect(can('approvals.manage')).toBe(true);
+      useAuthStore.setState({ user: null });
+      expect(can('approvals.manage')).toBe(false);
+    });
+  });
+
+  describe('guardRoute', () => {
+    it('should send signed-out users to login', () => {
+      expect(guardRoute(null, ['(admin)', 'geofence'])).toBe('/(auth)/login');
+    });
+
+    it('should send users without the group permission home', () => {
+      expect(guardRoute(userWithRoles(['employee']), ['(admin)', 'geofence'])).toBe('/(employee)');
+      expect(guardRoute(userWithRoles(['manager']), ['(crm)', 'leads'])).toBe('/(manager)');
+    });
+
+    it('should send users without the screen permission to the group', () => {
+      expect(guardRoute(userWithRoles(['sales_admin']), ['(admin)', 'geofence'])).toBe('/(admin)');
+    });
+
+    it('should let allowed users through', () => {
+      expect(guardRoute(userWithRoles(['admin']), ['(admin)', 'geofence'])).toBeNull();
+    });
+  });
+
+  describe('getHomeRoute', () => {
+    it('should pick the most privileged group', () => {
+      expect(getHomeRoute(userWithRoles(['admin']))).toBe('/(admin)');
+      expect(getHomeRoute(userWithRoles(['sales_manager']))).toBe('/(manager)');
+      expect(getHomeRoute(userWithRoles(['sales_rep']))).toBe('/(employee)');
+    });
+  });
+
+  describe('tabHref', () => {
+    it('should hide tabs the user cannot open', () => {
+      expect(tabHref(userWithRoles(['sales_admin']), '(admin)/geofence')).toEqual({ href: null });
+      expect(tabHref(userWithRoles(['admin']), '(admin)/geofence')).toEqual({});
+    });
+  });
+});
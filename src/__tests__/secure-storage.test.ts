@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createMemoryStorage,
+  setSecureStorage,
+  secureStorage,
+  migrateFromAsyncStorage,
+  KeyValueStorage,
+} from '../lib/secure-storage';
+import { setAuthToken, getAuthToken, clearAuth, migrateStoredAuth, getStoredUser } from '../lib/api';
+
+describe('Secure Storage', () => {
+  let memory: KeyValueStorage;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    memory = createMemoryStorage();
+    setSecureStorage(memory);
+  });
+
+  it('should store, read and remove values', async () => {
+    await secureStorage.multiSet([
+      ['a', '1'],
+      ['b', '2'],
+    ]);
+    expect(await secureStorage.getItem('a')).toBe('1');
+
+    await secureStorage.multiRemove(['a', 'b']);
+    expect(await secureStorage.getItem('a')).toBeNull();
+    expect(await secureStorage.getItem('b')).toBeNull();
+  });
+
+  it('should keep auth tokens out of AsyncStorage', async () => {
+    await setAuthToken('secret-token');
+
+    expect(await getAuthToken()).toBe('secret-token');
+    expect(await memory.getItem('sf_auth_token')).toBe('secret-token');
+    expect(await AsyncStorage.getItem('sf_auth_token')).toBeNull();
+
+    await clearAuth();
+    expect(await getAuthToken()).toBeNull();
+  });
+
+  describe('migrateFromAsyncStorage', () => {
+    it('should move legacy tokens and the user into secure storage', async () => {
+      await AsyncStorage.multiSet([
+        ['sf_auth_token', 'old-token'],
+        ['sf_refresh_token', 'old-refresh'],
+        ['sf_user', JSON.stringify({ id: 1 })],
+        ['sf_admin_settings', '{}'],
+      ]);
+
+      await migrateStoredAuth();
+
+      expect(await getAuthToken()).toBe('old-token');
+      expect(await memory.getItem('sf_refresh_token')).toBe('old-refresh');
+      expect(await getStoredUser()).toEqual({ id: 1 });
+      expect(await AsyncStorage.getItem('sf_auth_token')).toBeNull();
+      expect(await AsyncStorage.getItem('sf_refresh_token')).toBeNull();
+      expect(await AsyncStorage.getItem('sf_user')).toBeNull();
+      // Preferences stay where they were
+      expect(await AsyncStorage.getItem('sf_admin_settings')).toBe('{}');
+    });
+
+    it('should not overwrite a value already in secure storage', async () => {
+      await memory.setItem('sf_auth_token', 'new-token');
+      await AsyncStorage.setItem('sf_auth_token', 'stale-token');
+
+      await migrateFromAsyncStorage(['sf_auth_token']);
+
+      expect(await memory.getItem('sf_auth_token')).toBe('new-token');
+      expect(await AsyncStorage.getItem('sf_auth_token')).toBeNull();
+    });
+
+    it('should leave the legacy copy when secure storage fails', async () => {
+      setSecureStorage({
+        ...memory,
+        setItem: jest.fn().mockRejectedValue(new Error('Keystore unavailable')),
+      });
+      await AsyncStorage.setItem('sf_auth_token', 'old-token');
+
+      await expect(migrateFromAsyncStorage(['sf_auth_token'])).rejects.toThrow('Keystore unavailable');
+      expect(await AsyncStorage.getItem('sf_auth_token')).toBe('old-token');
+    });
+
+    it('should do nothing when there is nothing to move', async () => {
+      await migrateFromAsyncStorage(['sf_auth_token']);
+      expect(AsyncStorage.multiRemove).not.toHaveBeenCalled();
+    });
+  });
+});
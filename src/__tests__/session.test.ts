@@ -0,0 +1,161 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuthStore } from '../stores/authStore';
+import { useCrmStore } from '../stores/crmStore';
+import { useMessagingStore } from '../stores/messagingStore';
+import { useVaultStore } from '../stores/vaultStore';
+import { useOrchestraStore } from '../stores/orchestra-store';
+import { getQueueCount, queueRequest } from '../lib/offline-queue';
+import { hydrateStoreCaches } from '../lib/store-cache';
+import { realtimeService } from '../lib/realtime';
+import { cancelAllScheduledNotifications } from '../lib/notifications';
+import { useAppLockStore } from '../stores/appLockStore';
+import { secureStorage } from '../lib/secure-storage';
+import { resetOrganization } from '../lib/session';
+import { emitAuthEvent } from '../lib/auth-events';
+import { waitFor } from '@testing-library/react-native';
+
+// Mock the api module
+jest.mock('../lib/api', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), post: jest.fn(), put: jest.fn(), delete: jest.fn() },
+  api: { get: jest.fn(), post: jest.fn(), put: jest.fn(), delete: jest.fn() },
+  setAuthToken: jest.fn(),
+  getAuthToken: jest.fn(),
+  setStoredUser: jest.fn(),
+  getStoredUser: jest.fn(),
+  clearAuth: jest.fn(),
+  getActiveOrganization: jest.fn().mockResolvedValue(null),
+  setActiveOrganization: jest.fn(),
+  clearActiveOrganization: jest.fn(),
+}));
+
+jest.mock('../lib/realtime', () => ({
+  realtimeService: { disconnect: jest.fn() },
+}));
+
+jest.mock('../lib/notifications', () => ({
+  cancelAllScheduledNotifications: jest.fn().mockResolvedValue(undefined),
+  clearAllNotifications: jest.fn().mockResolvedValue(undefined),
+  setBadgeCount: jest.fn().mockResolvedValue(true),
+}));
+
+import { api } from '../lib/api';
+
+const lead = {
+  id: 1,
+  name: 'Previous Tenant Lead',
+  email: 'lead@example.com',
+  status: 'new' as const,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+};
+
+// Populate the stores the way a signed-in session would
+const seedSession = async () => {
+  useAuthStore.setState({ user: { id: 1, email: 'a@example.com', first_name: 'A', last_name: 'User' }, token: 't', isAuthenticated: true });
+  useCrmStore.setState({ leads: [lead] });
+  useMessagingStore.setState({
+    conversations: [{ id: 'c1' } as any],
+  });
+  useVaultStore.setState({ isLocked: false, items: [{ id: 'v1' } as any] });
+  useOrchestraStore.setState({ sessions: [{ id: 's1' } as any] });
+  await queueRequest({ url: '/crm/leads', method: 'post', data: { name: 'Queued' } });
+  // Let the cache writes land
+  await new Promise((resolve) => setImmediate(resolve));
+};
+
+describe('Session reset', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    await seedSession();
+  });
+
+  it('should reset every store on logout', async () => {
+    (api.post as jest.Mock).mockResolvedValueOnce({ data: {} });
+    await useAuthStore.getState().logout();
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    expect(useCrmStore.getState().leads).toEqual([]);
+    expect(useMessagingStore.getState().conversations).toEqual([]);
+    expect(useVaultStore.getState().items).toEqual([]);
+    expect(useVaultStore.getState().isLocked).toBe(true);
+    expect(useOrchestraStore.getState().sessions).toEqual([]);
+  });
+
+  it('should keep store actions after a reset', async () => {
+    await useAuthStore.getState().logout();
+    expect(typeof useCrmStore.getState().fetchLeads).toBe('function');
+  });
+
+  it('should wipe the offline queue, caches and notifications', async () => {
+    expect(await AsyncStorage.getItem('sf_cache_crm')).not.toBeNull();
+
+    await useAuthStore.getState().logout();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(getQueueCount()).toBe(0);
+    expect(await AsyncStorage.getItem('sf_cache_crm')).toBeNull();
+    expect(JSON.parse((await AsyncStorage.getItem('sf_offline_queue')) || '[]')).toEqual([]);
+    expect(cancelAllScheduledNotifications).toHaveBeenCalled();
+    expect(realtimeService.disconnect).toHaveBeenCalled();
+  });
+
+  it('should not carry data over to the next session', async () => {
+    await useAuthStore.getState().logout();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Next launch hydrates whatever is left on disk
+    await hydrateStoreCaches();
+    expect(useCrmStore.getState().leads).toEqual([]);
+    expect(useMessagingStore.getState().conversations).toEqual([]);
+  });
+
+  it('should forget the app lock PIN and vault secret', async () => {
+    await useAppLockStore.getState().enable('1234');
+    await useVaultStore.getState().enableBiometricUnlock('master-pass');
+
+    await useAuthStore.getState().logout();
+
+    expect(useAppLockStore.getState().enabled).toBe(false);
+    expect(await secureStorage.getItem('sf_app_lock_pin')).toBeNull();
+    expect(await secureStorage.getItem('sf_vault_master_password')).toBeNull();
+  });
+
+  it('should reset when the refresh token is rejected', async () => {
+    emitAuthEvent({ type: 'session_expired' });
+
+    await waitFor(() => expect(useAuthStore.getState().isAuthenticated).toBe(false));
+    expect(useAuthStore.getState().sessionExpired).toBe(true);
+    expect(useAuthStore.getState().error).toMatch(/session has expired/);
+    expect(useCrmStore.getState().leads).toEqual([]);
+  });
+
+  describe('switching organizations', () => {
+    it('should drop the organization data but keep the app lock', async () => {
+      await useAppLockStore.getState().enable('1234');
+
+      await resetOrganization();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(useCrmStore.getState().leads).toEqual([]);
+      expect(useVaultStore.getState().items).toEqual([]);
+      expect(await AsyncStorage.getItem('sf_cache_crm')).toBeNull();
+      expect(realtimeService.disconnect).toHaveBeenCalled();
+      expect(useAppLockStore.getState().enabled).toBe(true);
+      expect(await secureStorage.getItem('sf_app_lock_pin')).toBe('1234');
+      expect(useAuthStore.getState().isAuthenticated).toBe(true);
+    });
+
+    it('should not switch while changes are waiting to sync', async () => {
+      useAuthStore.setState({ user: { ...useAuthStore.getState().user!, organization_id: 1 } });
+
+      const success = await useAuthStore.getState().switchOrganization(2);
+
+      expect(success).toBe(false);
+      expect(useAuthStore.getState().error).toMatch(/pending changes? before switching/);
+      expect(api.get).not.toHaveBeenCalled();
+      expect(useCrmStore.getState().leads).toEqual([lead]);
+    });
+  });
+});
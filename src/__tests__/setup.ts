@@ -1,10 +1,14 @@
 import '@testing-library/jest-native/extend-expect';
+import { setSecureStorage, createMemoryStorage } from '../lib/secure-storage';
 
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage', () =>
   require('@react-native-async-storage/async-storage/jest/async-storage-mock')
 );
 
+// Keep secrets in memory instead of the platform keystore
+setSecureStorage(createMemoryStorage());
+
 // Mock expo-constants
 jest.mock('expo-constants', () => ({
   expoConfig: {
@@ -25,6 +29,7 @@ jest.mock('expo-network', () => ({
     isInternetReachable: true,
     type: 'wifi',
   }),
+  addNetworkStateListener: jest.fn(() => ({ remove: jest.fn() })),
 }));
 
 // Mock expo-router
@@ -50,6 +55,34 @@ jest.mock('expo-location', () => ({
   }),
 }));
 
+// Mock expo-local-authentication (no biometrics enrolled unless a test says so)
+jest.mock('expo-local-authentication', () => ({
+  AuthenticationType: { FINGERPRINT: 1, FACIAL_RECOGNITION: 2, IRIS: 3 },
+  hasHardwareAsync: jest.fn().mockResolvedValue(true),
+  isEnrolledAsync: jest.fn().mockResolvedValue(false),
+  supportedAuthenticationTypesAsync: jest.fn().mockResolvedValue([]),
+  authenticateAsync: jest.fn().mockResolvedValue({ success: false, error: 'not_enrolled' }),
+}));
+
+// Mock expo-crypto with Node's crypto so PKCE challenges are real SHA-256 hashes
+jest.mock('expo-crypto', () => {
+  const nodeCrypto = require('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    CryptoEncoding: { HEX: 'hex', BASE64: 'base64' },
+    getRandomBytes: (byteCount: number) => new Uint8Array(nodeCrypto.randomBytes(byteCount)),
+    digestStringAsync: jest.fn(async (_algorithm: string, data: string, options?: { encoding?: string }) =>
+      nodeCrypto.createHash('sha256').update(data).digest(options?.encoding === 'base64' ? 'base64' : 'hex')
+    ),
+  };
+});
+
+// Mock expo-web-browser (tests play the identity provider through openAuthSessionAsync)
+jest.mock('expo-web-browser', () => ({
+  openAuthSessionAsync: jest.fn().mockResolvedValue({ type: 'cancel' }),
+  maybeCompleteAuthSession: jest.fn(),
+}));
+
 // Mock expo-av
 jest.mock('expo-av', () => ({
   Audio: {
@@ -0,0 +1,76 @@
+import { Alert } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { router } from 'expo-router';
+import { useAuthStore } from '../stores/authStore';
+import { clearQueue, queueRequest } from '../lib/offline-queue';
+import { confirmSignOut } from '../lib/sign-out';
+
+jest.mock('../lib/realtime', () => ({
+  realtimeService: { disconnect: jest.fn() },
+}));
+
+jest.mock('../lib/notifications', () => ({
+  cancelAllScheduledNotifications: jest.fn().mockResolvedValue(undefined),
+  clearAllNotifications: jest.fn().mockResolvedValue(undefined),
+  setBadgeCount: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('expo-router', () => ({
+  router: { push: jest.fn(), replace: jest.fn() },
+}));
+
+type AlertButtons = { text: string; onPress?: () => void }[];
+
+const lastAlert = () => {
+  const [title, message, buttons] = (Alert.alert as jest.Mock).mock.calls.at(-1);
+  return { title, message, buttons: buttons as AlertButtons };
+};
+
+const press = (text: string) => lastAlert().buttons.find((button) => button.text === text)?.onPress?.();
+
+describe('confirmSignOut', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    await AsyncStorage.clear();
+    await clearQueue();
+  });
+
+  it('should ask for a plain confirmation when nothing is pending', () => {
+    confirmSignOut();
+
+    expect(lastAlert().title).toBe('Logout');
+    expect(lastAlert().buttons.map((button) => button.text)).toEqual(['Cancel', 'Logout']);
+  });
+
+  it('should warn with the pending count and offer the pending-sync screen', async () => {
+    await queueRequest({ url: '/time-clock/punch', method: 'post', data: { type: 'clock_out' } });
+    confirmSignOut();
+
+    expect(lastAlert().title).toBe('Unsynced Changes');
+    expect(lastAlert().message).toContain('Sync or discard 1 pending change before signing out');
+
+    press('Review');
+    expect(router.push).toHaveBeenCalledWith('/pending-sync');
+  });
+
+  it('should leave out the review option where the screen cannot be reached', async () => {
+    await queueRequest({ url: '/time-clock/punch', method: 'post', data: { type: 'clock_out' } });
+    confirmSignOut({ canReview: false });
+
+    expect(lastAlert().buttons.map((button) => button.text)).toEqual(['Cancel', 'Sign Out Anyway']);
+  });
+
+  it('should sign out only once confirmed', async () => {
+    const logout = jest.fn().mockResolvedValue(undefined);
+    useAuthStore.setState({ logout });
+    confirmSignOut();
+    expect(logout).not.toHaveBeenCalled();
+
+    press('Logout');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(logout).toHaveBeenCalled();
+    expect(router.replace).toHaveBeenCalledWith('/(auth)/login');
+  });
+});
@@ -0,0 +1,216 @@
+import { createHash } from 'crypto';
+import * as WebBrowser from 'expo-web-browser';
+import { act } from '@testing-library/react-native';
+import {
+  getEmailDomain,
+  createCodeVerifier,
+  createCodeChallenge,
+  buildAuthorizationUrl,
+  parseRedirectParams,
+  SSO_REDIRECT_URI,
+  SsoProvider,
+} from '../lib/sso';
+import { useAuthStore } from '../stores/authStore';
+import { getAuthToken, getRefreshToken, clearAuth } from '../lib/api';
+
+// Mock the http client; keep the real token helpers (backed by in-memory secure storage)
+jest.mock('../lib/api', () => ({
+  ...jest.requireActual('../lib/api'),
+  api: { get: jest.fn(), post: jest.fn() },
+}));
+
+jest.mock('../lib/session', () => ({
+  resetAll: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { api } from '../lib/api';
+
+const provider: SsoProvider = {
+  id: 'okta-acme',
+  name: 'Okta',
+  authorization_url: 'https://idp.acme.test/oauth2/authorize',
+  client_id: 'systemsf1rst-mobile',
+};
+
+const mockUser = { id: 7, email: 'ada@acme.test', first_name: 'Ada', last_name: 'Lovelace' };
+
+/**
+ * A stand-in identity provider. It hands out a code for each authorization
+ * request and redeems it only with the verifier matching the request's
+ * challenge, the way a real PKCE server does.
+ */
+const createStubIdp = () => {
+  const grants = new Map<string, { challenge: string; redirectUri: string }>();
+
+  return {
+    lastRequest: {} as Record<string, string>,
+
+    authorize(url: string) {
+      const params = parseRedirectParams(url);
+      this.lastRequest = params;
+      const code = `code-${grants.size + 1}`;
+      grants.set(code, { challenge: params.code_challenge, redirectUri: params.redirect_uri });
+      return {
+        type: 'success' as const,
+        url: `${params.redirect_uri}?code=${code}&state=${encodeURIComponent(params.state)}`,
+      };
+    },
+
+    redeem(code: string, codeVerifier: string, redirectUri: string): boolean {
+      const grant = grants.get(code);
+      grants.delete(code);
+      const challenge = createHash('sha256').update(codeVerifier).digest('base64url');
+      return !!grant && grant.redirectUri === redirectUri && grant.challenge === challenge;
+    },
+  };
+};
+
+describe('SSO', () => {
+  let idp: ReturnType<typeof createStubIdp>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await clearAuth();
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+
+    idp = createStubIdp();
+    (WebBrowser.openAuthSessionAsync as jest.Mock).mockImplementation(async (url: string) => idp.authorize(url));
+
+    // The backend: discovery by domain, and code exchange against the stub IdP
+    (api.get as jest.Mock).mockImplementation(async (url: string, config: any) => {
+      if (url === '/auth/sso/discover' && config.params.domain === 'acme.test') {
+        return { data: { provider } };
+      }
+      throw { response: { status: 404 } };
+    });
+    (api.post as jest.Mock).mockImplementation(async (url: string, body: any) => {
+      if (url === '/auth/sso/token' && idp.redeem(body.code, body.code_verifier, body.redirect_uri)) {
+        return { data: { token: 'sso-token', refresh_token: 'sso-refresh', user: mockUser } };
+      }
+      throw { response: { status: 400, data: { message: 'Invalid authorization code' } } };
+    });
+  });
+
+  describe('PKCE', () => {
+    it('should make a 43-character URL-safe verifier', () => {
+      const verifier = createCodeVerifier();
+      expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(createCodeVerifier()).not.toBe(verifier);
+    });
+
+    it('should derive the S256 challenge from RFC 7636', async () => {
+      expect(await createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe(
+        'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+      );
+    });
+
+    it('should put the challenge and state on the authorization URL', () => {
+      const url = buildAuthorizationUrl(provider, {
+        redirectUri: SSO_REDIRECT_URI,
+        state: 'abc',
+        codeChallenge: 'challenge',
+      });
+      const params = parseRedirectParams(url);
+
+      expect(url.startsWith(provider.authorization_url + '?')).toBe(true);
+      expect(params).toMatchObject({
+        response_type: 'code',
+        client_id: 'systemsf1rst-mobile',
+        redirect_uri: 'systemsf1rst://sso-callback',
+        scope: 'openid email profile',
+        state: 'abc',
+        code_challenge: 'challenge',
+        code_challenge_method: 'S256',
+      });
+    });
+  });
+
+  it('should find the domain of an email', () => {
+    expect(getEmailDomain(' Ada@Acme.Test ')).toBe('acme.test');
+    expect(getEmailDomain('not-an-email')).toBeNull();
+  });
+
+  describe('loginWithSso', () => {
+    it('should sign in through the identity provider', async () => {
+      let result;
+      await act(async () => {
+        result = await useAuthStore.getState().loginWithSso('ada@acme.test');
+      });
+
+      expect(result).toBe('authenticated');
+      expect(idp.lastRequest.login_hint).toBe('ada@acme.test');
+      expect(useAuthStore.getState().user).toEqual(mockUser);
+      expect(await getAuthToken()).toBe('sso-token');
+      expect(await getRefreshToken()).toBe('sso-refresh');
+    });
+
+    it('should explain when the domain has no provider', async () => {
+      let result;
+      await act(async () => {
+        result = await useAuthStore.getState().loginWithSso('bob@elsewhere.test');
+      });
+
+      expect(result).toBe('failed');
+      expect(WebBrowser.openAuthSessionAsync).not.toHaveBeenCalled();
+      expect(useAuthStore.getState().error).toMatch(/isn't set up for elsewhere.test/);
+    });
+
+    it('should stay quiet when the user closes the browser', async () => {
+      (WebBrowser.openAuthSessionAsync as jest.Mock).mockResolvedValueOnce({ type: 'cancel' });
+
+      let result;
+      await act(async () => {
+        result = await useAuthStore.getState().loginWithSso('ada@acme.test');
+      });
+
+      expect(result).toBe('failed');
+      expect(useAuthStore.getState().error).toBeNull();
+      expect(api.post).not.toHaveBeenCalled();
+    });
+
+    it('should reject a redirect for a different request', async () => {
+      (WebBrowser.openAuthSessionAsync as jest.Mock).mockImplementationOnce(async (url: string) => {
+        const response = idp.authorize(url);
+        return { ...response, url: response.url.replace(/state=[^&]*/, 'state=forged') };
+      });
+
+      await act(async () => {
+        await useAuthStore.getState().loginWithSso('ada@acme.test');
+      });
+
+      expect(api.post).not.toHaveBeenCalled();
+      expect(useAuthStore.getState().isAuthenticated).toBe(false);
+      expect(useAuthStore.getState().error).toMatch(/did not match/);
+    });
+
+    it('should report an error from the identity provider', async () => {
+      (WebBrowser.openAuthSessionAsync as jest.Mock).mockResolvedValueOnce({
+        type: 'success',
+        url: `${SSO_REDIRECT_URI}?error=access_denied&error_description=Not+assigned+to+this+app`,
+      });
+
+      await act(async () => {
+        await useAuthStore.getState().loginWithSso('ada@acme.test');
+      });
+
+      expect(useAuthStore.getState().error).toBe('Not assigned to this app');
+    });
+
+    it('should fail when the code is redeemed with the wrong verifier', async () => {
+      (api.post as jest.Mock).mockImplementationOnce(async (_url: string, body: any) => {
+        if (idp.redeem(body.code, createCodeVerifier(), body.redirect_uri)) {
+          return { data: { token: 'sso-token', user: mockUser } };
+        }
+        throw { response: { status: 400, data: { message: 'Invalid authorization code' } } };
+      });
+
+      await act(async () => {
+        await useAuthStore.getState().loginWithSso('ada@acme.test');
+      });
+
+      expect(useAuthStore.getState().isAuthenticated).toBe(false);
+      expect(useAuthStore.getState().error).toBe('Invalid authorization code');
+      expect(await getAuthToken()).toBeNull();
+    });
+  });
+});
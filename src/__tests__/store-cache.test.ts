@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import {
+  cached,
+  capList,
+  migrateCache,
+  registerCachedStore,
+  hydrateStoreCaches,
+  clearStoreCaches,
+  CACHE_KEY_PREFIX,
+} from '../lib/store-cache';
+
+// Mock the api module
+jest.mock('../lib/api', () => ({
+  __esModule: true,
+  default: {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+import { useCrmStore } from '../stores/crmStore';
+import { clearStalePendingFlags } from '../lib/optimistic';
+import { queueRequest, removeFromQueue, clearQueue } from '../lib/offline-queue';
+
+interface NotesState {
+  notes: { id: number; title: string }[];
+  notesLoading: boolean;
+  setNotes: (notes: { id: number; title: string }[]) => void;
+}
+
+const createNotesStore = (version = 2, migrations = {}) => {
+  const store = create<NotesState>()(cached((set) => ({
+    notes: [],
+    notesLoading: false,
+    setNotes: (notes) => set({ notes }),
+  }), {
+    name: 'notes',
+    version,
+    partialize: (state) => ({ notes: state.notes }),
+    migrations,
+  }));
+  registerCachedStore(store);
+  return store;
+};
+
+const writeCache = (name: string, state: unknown, version: number) =>
+  AsyncStorage.setItem(`${CACHE_KEY_PREFIX}${name}`, JSON.stringify({ state, version }));
+
+const readCache = async (name: string) => {
+  const raw = await AsyncStorage.getItem(`${CACHE_KEY_PREFIX}${name}`);
+  return raw ? JSON.parse(raw) : null;
+};
+
+describe('Store Cache', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('migrateCache', () => {
+    it('should run each step up to the current version', () => {
+      const migrations = {
+        1: (state: any) => ({ ...state, items: state.list }),
+        2: (state: any) => ({ items: state.items.map((i: number) => i * 2) }),
+      };
+      expect(migrateCache({ list: [1, 2] }, 1, 3, migrations)).toEqual({ items: [2, 4] });
+    });
+
+    it('should drop a cache with no migration path', () => {
+      expect(migrateCache({ list: [1] }, 0, 2, { 1: (s: unknown) => s })).toEqual({});
+    });
+
+    it('should drop a cache written by a newer version', () => {
+      expect(migrateCache({ list: [1] }, 3, 2)).toEqual({});
+    });
+  });
+
+  describe('capList', () => {
+    it('should keep the first entries of a long list', () => {
+      expect(capList([1, 2, 3, 4], 2)).toEqual([1, 2]);
+    });
+  });
+
+  describe('cached stores', () => {
+    it('should persist only the partialized fields', async () => {
+      const store = createNotesStore();
+      store.getState().setNotes([{ id: 1, title: 'Site visit' }]);
+      store.setState({ notesLoading: true });
+
+      await new Promise((resolve) => setImmediate(resolve));
+      const cachedValue = await readCache('notes');
+      expect(cachedValue.version).toBe(2);
+      expect(cachedValue.state).toEqual({ notes: [{ id: 1, title: 'Site visit' }] });
+    });
+
+    it('should not hydrate until asked', async () => {
+      await writeCache('notes', { notes: [{ id: 1, title: 'Cached' }] }, 2);
+      const store = createNotesStore();
+      expect(store.getState().notes).toEqual([]);
+
+      await hydrateStoreCaches();
+      expect(store.getState().notes).toEqual([{ id: 1, title: 'Cached' }]);
+      expect(store.getState().notesLoading).toBe(false);
+    });
+
+    it('should migrate an older cache on hydrate', async () => {
+      await writeCache('notes', { items: [{ id: 1, name: 'Old shape' }] }, 1);
+      const store = createNotesStore(2, {
+        1: (state: any) => ({ notes: state.items.map((i: any) => ({ id: i.id, title: i.name })) }),
+      });
+
+      await hydrateStoreCaches();
+      expect(store.getState().notes).toEqual([{ id: 1, title: 'Old shape' }]);
+    });
+
+    it('should drop an old cache it cannot migrate', async () => {
+      await writeCache('notes', { items: [{ id: 1 }] }, 1);
+      const store = createNotesStore();
+
+      await hydrateStoreCaches();
+      expect(store.getState().notes).toEqual([]);
+    });
+
+    it('should remove caches from disk', async () => {
+      await writeCache('notes', { notes: [{ id: 1, title: 'Cached' }] }, 2);
+      createNotesStore();
+
+      clearStoreCaches();
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(await readCache('notes')).toBeNull();
+    });
+
+    it('should clear pending flags from an earlier run once the queue drains', async () => {
+      const lead = { id: 7, name: 'Basement Co', email: 'b@example.com', status: 'new', pending: true };
+      await writeCache('crm', { leads: [lead], contacts: [], deals: [] }, 1);
+      await hydrateStoreCaches();
+      await clearQueue();
+      const queueId = await queueRequest({ url: '/crm/leads/7', method: 'put', data: { name: 'Basement Co' } });
+
+      clearStalePendingFlags();
+      expect(useCrmStore.getState().leads[0].pending).toBe(true);
+
+      // The queued update synced, but its settle callback was lost with the restart
+      await removeFromQueue(queueId);
+      const { pending: _pending, ...confirmed } = lead;
+      expect(useCrmStore.getState().leads).toEqual([confirmed]);
+    });
+
+    it('should keep pending flags set since launch when the queue drains', async () => {
+      const restored = { id: 7, name: 'Basement Co', email: 'b@example.com', status: 'new', pending: true };
+      const other = { id: 8, name: 'Attic Ltd', email: 'a@example.com', status: 'new' };
+      await writeCache('crm', { leads: [restored, other], contacts: [], deals: [] }, 1);
+      await hydrateStoreCaches();
+      await clearQueue();
+      const queueId = await queueRequest({ url: '/crm/leads/7', method: 'put', data: { name: 'Basement Co' } });
+      clearStalePendingFlags();
+
+      // An optimistic change made in this session, still waiting on the server
+      const [lead] = useCrmStore.getState().leads;
+      useCrmStore.setState({ leads: [lead, { ...other, name: 'Attic Ltd.', pending: true } as any] });
+
+      await removeFromQueue(queueId);
+      expect(useCrmStore.getState().leads.map((l) => l.pending)).toEqual([undefined, true]);
+    });
+
+    it('should show cached CRM data before any fetch', async () => {
+      const lead = { id: 7, name: 'Basement Co', email: 'b@example.com', status: 'new' };
+      await writeCache('crm', { leads: [lead], contacts: [], deals: [] }, 1);
+
+      await hydrateStoreCaches();
+      expect(useCrmStore.getState().leads).toEqual([lead]);
+      expect(useCrmStore.getState().leadsLoading).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { act } from '@testing-library/react-native';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { useAppLockStore, recordActivity, checkIdle } from '../../stores/appLockStore';
+import { useVaultStore } from '../../stores/vaultStore';
+import { secureStorage } from '../../lib/secure-storage';
+
+const MINUTE = 60 * 1000;
+
+describe('App Lock Store', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await act(async () => {
+      await useAppLockStore.getState().disable();
+    });
+    useAppLockStore.setState(useAppLockStore.getInitialState(), true);
+  });
+
+  describe('lock', () => {
+    it('should not lock until a PIN is set', () => {
+      act(() => useAppLockStore.getState().lock());
+      expect(useAppLockStore.getState().isLocked).toBe(false);
+    });
+
+    it('should lock once enabled', async () => {
+      await act(async () => {
+        await useAppLockStore.getState().enable('1234');
+      });
+      act(() => useAppLockStore.getState().lock());
+      expect(useAppLockStore.getState().isLocked).toBe(true);
+    });
+
+    it('should keep the PIN out of the cached settings', async () => {
+      await act(async () => {
+        await useAppLockStore.getState().enable('1234');
+      });
+      expect(await secureStorage.getItem('sf_app_lock_pin')).toBe('1234');
+      expect(JSON.stringify(useAppLockStore.persist.getOptions().partialize!(useAppLockStore.getState()))).not.toContain('1234');
+    });
+  });
+
+  describe('idle timeout', () => {
+    beforeEach(async () => {
+      await act(async () => {
+        await useAppLockStore.getState().enable('1234');
+      });
+      act(() => useAppLockStore.getState().setIdleTimeout(5));
+    });
+
+    it('should lock after the idle timeout', () => {
+      recordActivity();
+      act(() => checkIdle(Date.now() + 5 * MINUTE));
+      expect(useAppLockStore.getState().isLocked).toBe(true);
+    });
+
+    it('should stay unlocked while the user is active', () => {
+      recordActivity();
+      act(() => checkIdle(Date.now() + 4 * MINUTE));
+      expect(useAppLockStore.getState().isLocked).toBe(false);
+    });
+  });
+
+  describe('unlock', () => {
+    beforeEach(async () => {
+      await act(async () => {
+        await useAppLockStore.getState().enable('1234');
+      });
+      act(() => useAppLockStore.getState().lock());
+    });
+
+    it('should unlock with the right PIN', async () => {
+      let success;
+      await act(async () => {
+        success = await useAppLockStore.getState().unlockWithPin('1234');
+      });
+      expect(success).toBe(true);
+      expect(useAppLockStore.getState().isLocked).toBe(false);
+    });
+
+    it('should count wrong PINs', async () => {
+      await act(async () => {
+        await useAppLockStore.getState().unlockWithPin('0000');
+        await useAppLockStore.getState().unlockWithPin('9999');
+      });
+      expect(useAppLockStore.getState().isLocked).toBe(true);
+      expect(useAppLockStore.getState().failedAttempts).toBe(2);
+
+      await act(async () => {
+        await useAppLockStore.getState().unlockWithPin('1234');
+      });
+      expect(useAppLockStore.getState().failedAttempts).toBe(0);
+    });
+
+    it('should unlock with biometrics when turned on', async () => {
+      (LocalAuthentication.authenticateAsync as jest.Mock).mockResolvedValueOnce({ success: true });
+      act(() => useAppLockStore.getState().setBiometricsEnabled(true));
+
+      await act(async () => {
+        await useAppLockStore.getState().unlockWithBiometrics();
+      });
+      expect(useAppLockStore.getState().isLocked).toBe(false);
+    });
+
+    it('should not prompt for biometrics when turned off', async () => {
+      await act(async () => {
+        await useAppLockStore.getState().unlockWithBiometrics();
+      });
+      expect(LocalAuthentication.authenticateAsync).not.toHaveBeenCalled();
+      expect(useAppLockStore.getState().isLocked).toBe(true);
+    });
+  });
+
+  describe('vault biometric unlock', () => {
+    beforeEach(async () => {
+      useVaultStore.setState(useVaultStore.getInitialState(), true);
+      await useVaultStore.getState().disableBiometricUnlock();
+    });
+
+    it('should unlock the vault with the saved master password', async () => {
+      const unlock = jest.fn().mockResolvedValue(true);
+      useVaultStore.setState({ unlock });
+      await useVaultStore.getState().enableBiometricUnlock('master-pass');
+      (LocalAuthentication.authenticateAsync as jest.Mock).mockResolvedValueOnce({ success: true });
+
+      let success;
+      await act(async () => {
+        success = await useVaultStore.getState().unlockWithBiometrics();
+      });
+      expect(success).toBe(true);
+      expect(unlock).toHaveBeenCalledWith('master-pass');
+    });
+
+    it('should not read the master password when the prompt fails', async () => {
+      const unlock = jest.fn();
+      useVaultStore.setState({ unlock });
+      await useVaultStore.getState().enableBiometricUnlock('master-pass');
+
+      await act(async () => {
+        await useVaultStore.getState().unlockWithBiometrics();
+      });
+      expect(unlock).not.toHaveBeenCalled();
+    });
+  });
+});
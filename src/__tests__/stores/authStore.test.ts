@@ -0,0 +1,455 @@
+import { act } from '@testing-library/react-native';
+import { useAuthStore } from '../../stores/authStore';
+import { useTwoFactorStore } from '../../stores/twoFactorStore';
+import {
+  getAuthToken,
+  getDeviceToken,
+  setDeviceToken,
+  clearDeviceToken,
+  clearAuth,
+  getActiveOrganization,
+  setActiveOrganization,
+  setAuthTokens,
+  setStoredUser,
+  getRefreshToken,
+  getStoredUser,
+  getImpersonation,
+} from '../../lib/api';
+
+// Mock the http client; keep the real token helpers (backed by in-memory secure storage)
+jest.mock('../../lib/api', () => ({
+  ...jest.requireActual('../../lib/api'),
+  api: { get: jest.fn(), post: jest.fn(), put: jest.fn(), delete: jest.fn() },
+}));
+
+jest.mock('../../lib/session', () => ({
+  resetAll: jest.fn().mockResolvedValue(undefined),
+  resetOrganization: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { api } from '../../lib/api';
+import { resetAll, resetOrganization } from '../../lib/session';
+
+const mockUser = { id: 1, email: 'admin@example.com', first_name: 'Ada', last_name: 'Admin' };
+
+const challengeResponse = {
+  data: {
+    two_factor_required: true,
+    challenge_token: 'challenge-1',
+    methods: ['totp', 'sms'],
+    phone_hint: '•••• 1234',
+  },
+};
+
+describe('Auth Store', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await clearAuth();
+    await clearDeviceToken();
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    useTwoFactorStore.setState(useTwoFactorStore.getInitialState(), true);
+  });
+
+  describe('login', () => {
+    it('should sign in when no second step is needed', async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: { token: 'token-1', user: mockUser } });
+
+      let result;
+      await act(async () => {
+        result = await useAuthStore.getState().login('admin@example.com', 'secret');
+      });
+
+      expect(result).toBe('authenticated');
+      expect(useAuthStore.getState().isAuthenticated).toBe(true);
+      expect(await getAuthToken()).toBe('token-1');
+    });
+
+    it('should hold a challenge when two-factor is required', async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce(challengeResponse);
+
+      let result;
+      await act(async () => {
+        result = await useAuthStore.getState().login('admin@example.com', 'secret');
+      });
+
+      expect(result).toBe('two_factor_required');
+      expect(useAuthStore.getState().isAuthenticated).toBe(false);
+      expect(useAuthStore.getState().twoFactorChallenge).toEqual({
+        challengeToken: 'challenge-1',
+        methods: ['totp', 'sms', 'recovery'],
+        phoneHint: '•••• 1234',
+      });
+      expect(await getAuthToken()).toBeNull();
+    });
+
+    it('should send the remembered device token', async () => {
+      await setDeviceToken('device-1');
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: { token: 'token-1', user: mockUser } });
+
+      await act(async () => {
+        await useAuthStore.getState().login('admin@example.com', 'secret');
+      });
+
+      expect(api.post).toHaveBeenCalledWith(
+        '/auth/login',
+        expect.objectContaining({ device_token: 'device-1' })
+      );
+    });
+  });
+
+  describe('loginWithMagicLink', () => {
+    it('should sign in with the token from the link', async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: { token: 'token-1', refresh_token: 'refresh-1', user: mockUser } });
+
+      let result;
+      await act(async () => {
+        result = await useAuthStore.getState().loginWithMagicLink('magic-1');
+      });
+
+      expect(result).toBe('authenticated');
+      expect(api.post).toHaveBeenCalledWith(
+        '/auth/magic-link/verify',
+        expect.objectContaining({ token: 'magic-1', app: 'systemsf1rst-mobile' })
+      );
+      expect(useAuthStore.getState().user).toEqual(mockUser);
+      expect(await getRefreshToken()).toBe('refresh-1');
+    });
+
+    it('should still ask for the second step', async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce(challengeResponse);
+
+      let result;
+      await act(async () => {
+        result = await useAuthStore.getState().loginWithMagicLink('magic-1');
+      });
+
+      expect(result).toBe('two_factor_required');
+      expect(useAuthStore.getState().isAuthenticated).toBe(false);
+      expect(useAuthStore.getState().twoFactorChallenge?.challengeToken).toBe('challenge-1');
+    });
+
+    it('should explain a link that was already used', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce({ response: { status: 409, data: { message: 'Conflict' } } });
+
+      let result;
+      await act(async () => {
+        result = await useAuthStore.getState().loginWithMagicLink('magic-1');
+      });
+
+      expect(result).toBe('failed');
+      expect(useAuthStore.getState().linkError).toBe('used');
+      expect(useAuthStore.getState().error).toMatch(/already been used/);
+    });
+
+    it('should not blame the link when the request fails', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce(new Error('Network Error'));
+
+      await act(async () => {
+        await useAuthStore.getState().loginWithMagicLink('magic-1');
+      });
+
+      expect(useAuthStore.getState().linkError).toBeNull();
+      expect(useAuthStore.getState().error).toBe('Sign-in failed');
+    });
+  });
+
+  describe('verifyTwoFactor', () => {
+    beforeEach(async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce(challengeResponse);
+      await act(async () => {
+        await useAuthStore.getState().login('admin@example.com', 'secret');
+      });
+    });
+
+    it('should finish sign-in and remember the device', async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce({
+        data: { token: 'token-2', user: mockUser, device_token: 'device-2' },
+      });
+
+      let success;
+      await act(async () => {
+        success = await useAuthStore.getState().verifyTwoFactor(' 123456 ', 'totp', true);
+      });
+
+      expect(success).toBe(true);
+      expect(api.post).toHaveBeenLastCalledWith(
+        '/auth/two-factor/challenge',
+        expect.objectContaining({ challenge_token: 'challenge-1', code: '123456', method: 'totp', remember_device: true })
+      );
+      expect(useAuthStore.getState().isAuthenticated).toBe(true);
+      expect(useAuthStore.getState().twoFactorChallenge).toBeNull();
+      expect(await getDeviceToken()).toBe('device-2');
+    });
+
+    it('should not remember the device unless asked', async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce({
+        data: { token: 'token-2', user: mockUser, device_token: 'device-2' },
+      });
+
+      await act(async () => {
+        await useAuthStore.getState().verifyTwoFactor('123456', 'totp', false);
+      });
+
+      expect(await getDeviceToken()).toBeNull();
+    });
+
+    it('should keep the challenge after a wrong code', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce({
+        response: { status: 422, data: { message: 'The code is invalid.' } },
+      });
+
+      let success;
+      await act(async () => {
+        success = await useAuthStore.getState().verifyTwoFactor('000000', 'totp', false);
+      });
+
+      expect(success).toBe(false);
+      expect(useAuthStore.getState().error).toBe('The code is invalid.');
+      expect(useAuthStore.getState().twoFactorChallenge).not.toBeNull();
+    });
+
+    it('should drop an expired challenge', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce({ response: { status: 410, data: {} } });
+
+      await act(async () => {
+        await useAuthStore.getState().verifyTwoFactor('123456', 'sms', false);
+      });
+
+      expect(useAuthStore.getState().twoFactorChallenge).toBeNull();
+      expect(useAuthStore.getState().error).toMatch(/expired/);
+    });
+  });
+
+  describe('two-factor management', () => {
+    it('should keep recovery codes from enrollment until dismissed', async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: { recovery_codes: ['aaaa-bbbb', 'cccc-dddd'] } });
+      (api.get as jest.Mock).mockResolvedValueOnce({
+        data: { enabled: true, method: 'totp', recovery_codes_remaining: 2, trusted_devices: 0, required: true },
+      });
+
+      let success;
+      await act(async () => {
+        success = await useTwoFactorStore.getState().confirmSetup('123456');
+      });
+
+      expect(success).toBe(true);
+      expect(useTwoFactorStore.getState().recoveryCodes).toEqual(['aaaa-bbbb', 'cccc-dddd']);
+      expect(useTwoFactorStore.getState().status?.enabled).toBe(true);
+
+      act(() => useTwoFactorStore.getState().clearRecoveryCodes());
+      expect(useTwoFactorStore.getState().recoveryCodes).toEqual([]);
+    });
+
+    it('should drop this device token when forgetting trusted devices', async () => {
+      await setDeviceToken('device-1');
+      (api.delete as jest.Mock).mockResolvedValueOnce({ data: {} });
+
+      await act(async () => {
+        await useTwoFactorStore.getState().forgetTrustedDevices();
+      });
+
+      expect(api.delete).toHaveBeenCalledWith('/auth/two-factor/trusted-devices');
+      expect(await getDeviceToken()).toBeNull();
+    });
+  });
+
+  describe('organizations', () => {
+    beforeEach(() => {
+      useAuthStore.setState({ user: { ...mockUser, organization_id: 1 }, isAuthenticated: true });
+    });
+
+    it('should list the memberships', async () => {
+      (api.get as jest.Mock).mockResolvedValueOnce({
+        data: { organizations: [{ id: 1, name: 'Acme' }, { id: 2, name: 'Globex' }] },
+      });
+
+      await act(async () => {
+        await useAuthStore.getState().fetchOrganizations();
+      });
+
+      expect(api.get).toHaveBeenCalledWith('/auth/organizations');
+      expect(useAuthStore.getState().organizations.map((org) => org.name)).toEqual(['Acme', 'Globex']);
+    });
+
+    it('should switch without signing in again', async () => {
+      (api.get as jest.Mock).mockResolvedValueOnce({
+        data: { user: { ...mockUser, organization_id: 1, roles: ['sales_rep'] } },
+      });
+
+      let success;
+      await act(async () => {
+        success = await useAuthStore.getState().switchOrganization(2);
+      });
+
+      expect(success).toBe(true);
+      expect(await getActiveOrganization()).toBe(2);
+      expect(resetOrganization).toHaveBeenCalled();
+      expect(useAuthStore.getState().user?.organization_id).toBe(2);
+      expect(useAuthStore.getState().user?.roles).toEqual(['sales_rep']);
+      expect(useAuthStore.getState().isAuthenticated).toBe(true);
+    });
+
+    it('should stay in the current organization when the switch fails', async () => {
+      await setActiveOrganization(1);
+      (api.get as jest.Mock).mockRejectedValueOnce({ response: { status: 403, data: { message: 'Not a member' } } });
+
+      let success;
+      await act(async () => {
+        success = await useAuthStore.getState().switchOrganization(3);
+      });
+
+      expect(success).toBe(false);
+      expect(await getActiveOrganization()).toBe(1);
+      expect(resetOrganization).not.toHaveBeenCalled();
+      expect(useAuthStore.getState().user?.organization_id).toBe(1);
+      expect(useAuthStore.getState().error).toBe('Not a member');
+    });
+
+    it('should forget the organization on logout', async () => {
+      await setActiveOrganization(2);
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: {} });
+
+      await act(async () => {
+        await useAuthStore.getState().logout();
+      });
+
+      expect(await getActiveOrganization()).toBeNull();
+    });
+  });
+
+  describe('loadStoredAuth', () => {
+    beforeEach(async () => {
+      await setAuthTokens('token-1', 'refresh-1');
+      await setStoredUser(mockUser);
+    });
+
+    it('should start signed in from the stored session when offline', async () => {
+      (api.get as jest.Mock).mockRejectedValueOnce({ message: 'Network Error', code: 'ERR_NETWORK' });
+
+      await act(async () => {
+        await useAuthStore.getState().loadStoredAuth();
+      });
+
+      const state = useAuthStore.getState();
+      expect(state.isAuthenticated).toBe(true);
+      expect(state.user).toEqual(mockUser);
+      expect(state.token).toBe('token-1');
+      expect(await getAuthToken()).toBe('token-1');
+      expect(resetAll).not.toHaveBeenCalled();
+    });
+
+    it('should sign out when the server rejects the token', async () => {
+      (api.get as jest.Mock).mockRejectedValueOnce({ response: { status: 401, data: { message: 'Unauthenticated' } } });
+
+      await act(async () => {
+        await useAuthStore.getState().loadStoredAuth();
+      });
+
+      expect(useAuthStore.getState().isAuthenticated).toBe(false);
+      expect(await getAuthToken()).toBeNull();
+      expect(resetAll).toHaveBeenCalled();
+    });
+  });
+
+  describe('impersonation', () => {
+    const employee = { id: 42, email: 'eve@example.com', first_name: 'Eve', last_name: 'Employee', role: 'employee' };
+
+    const impersonationResponse = {
+      data: {
+        token: 'scoped-token',
+        user: employee,
+        impersonation: { id: 'imp-1', allow_changes: false, started_at: '2026-10-19T10:00:00Z' },
+      },
+    };
+
+    beforeEach(async () => {
+      await setAuthTokens('admin-token', 'admin-refresh');
+      await setStoredUser(mockUser);
+      useAuthStore.setState({ user: mockUser, token: 'admin-token', isAuthenticated: true });
+    });
+
+    const startViewingAsEve = async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce(impersonationResponse);
+      let started;
+      await act(async () => {
+        started = await useAuthStore.getState().startImpersonation(42);
+      });
+      return started;
+    };
+
+    it('should swap to the scoped token and set the admin aside', async () => {
+      expect(await startViewingAsEve()).toBe(true);
+
+      expect(api.post).toHaveBeenCalledWith('/auth/impersonation', { user_id: 42, allow_changes: false });
+      expect(await getAuthToken()).toBe('scoped-token');
+      // The scoped token is never refreshed
+      expect(await getRefreshToken()).toBeNull();
+      expect(resetOrganization).toHaveBeenCalled();
+
+      const state = useAuthStore.getState();
+      expect(state.user).toEqual(employee);
+      expect(state.impersonation).toMatchObject({ id: 'imp-1', impersonator: mockUser, allow_changes: false });
+      expect(await getImpersonation()).toMatchObject({ id: 'imp-1' });
+    });
+
+    it('should end with the admin\'s session back', async () => {
+      await startViewingAsEve();
+      (api.delete as jest.Mock).mockResolvedValueOnce({ data: {} });
+
+      await act(async () => {
+        await useAuthStore.getState().stopImpersonation();
+      });
+
+      expect(api.delete).toHaveBeenCalledWith('/auth/impersonation/imp-1');
+      expect(await getAuthToken()).toBe('admin-token');
+      expect(await getRefreshToken()).toBe('admin-refresh');
+      expect(await getStoredUser()).toEqual(mockUser);
+      expect(await getImpersonation()).toBeNull();
+      expect(useAuthStore.getState().user).toEqual(mockUser);
+      expect(useAuthStore.getState().impersonation).toBeNull();
+    });
+
+    it('should end even when the backend can\'t be reached', async () => {
+      await startViewingAsEve();
+      (api.delete as jest.Mock).mockRejectedValueOnce(new Error('Network Error'));
+
+      await act(async () => {
+        await useAuthStore.getState().stopImpersonation();
+      });
+
+      expect(await getAuthToken()).toBe('admin-token');
+      expect(useAuthStore.getState().impersonation).toBeNull();
+    });
+
+    it('should stay the admin when the backend refuses', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce({ response: { status: 403, data: { message: 'Not allowed' } } });
+
+      let started;
+      await act(async () => {
+        started = await useAuthStore.getState().startImpersonation(42);
+      });
+
+      expect(started).toBe(false);
+      expect(await getAuthToken()).toBe('admin-token');
+      expect(useAuthStore.getState().user).toEqual(mockUser);
+      expect(useAuthStore.getState().error).toBe('Not allowed');
+      expect(resetOrganization).not.toHaveBeenCalled();
+    });
+
+    it('should close the impersonation before signing the admin out', async () => {
+      await startViewingAsEve();
+      (api.delete as jest.Mock).mockResolvedValueOnce({ data: {} });
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: {} });
+
+      await act(async () => {
+        await useAuthStore.getState().logout();
+      });
+
+      expect(api.delete).toHaveBeenCalledWith('/auth/impersonation/imp-1');
+      expect(api.post).toHaveBeenLastCalledWith('/auth/logout');
+      expect(await getAuthToken()).toBeNull();
+      expect(await getImpersonation()).toBeNull();
+      expect(useAuthStore.getState().impersonation).toBeNull();
+    });
+  });
+});
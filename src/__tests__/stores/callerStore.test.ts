@@ -72,7 +72,7 @@ describe('Caller Store', () => {
       expect(updatedStore.calls).toHaveLength(1);
       expect(updatedStore.calls[0].contact_name).toBe('John Smith');
       expect(updatedStore.callsLoading).toBe(false);
-      expect(api.get).toHaveBeenCalledWith('/sales/conversational-ai/calls');
+      expect(api.get).toHaveBeenCalledWith('/sales/conversational-ai/calls', { params: { per_page: 50 } });
     });
 
     it('should handle fetch calls error', async () => {
@@ -135,11 +135,11 @@ describe('Caller Store', () => {
 
       const store = useCallerStore.getState();
 
-      await expect(
-        act(async () => {
-          await store.initiateCall({ phone_number: 'invalid', type: 'outbound' });
-        })
-      ).rejects.toBeDefined();
+      await act(async () => {
+        await expect(
+          store.initiateCall({ phone_number: 'invalid', type: 'outbound' })
+        ).rejects.toBeDefined();
+      });
 
       expect(useCallerStore.getState().callsError).toBe('Invalid phone number');
     });
@@ -14,6 +14,8 @@ jest.mock('../../lib/api', () => ({
 }));
 
 import api from '../../lib/api';
+import { clearQueue, getQueue } from '../../lib/offline-queue';
+import { useToastStore } from '../../stores/toastStore';
 
 const mockLead: Lead = {
   id: 1,
@@ -70,12 +72,21 @@ describe('CRM Store', () => {
       leads: [],
       leadsLoading: false,
       leadsError: null,
+      leadsHasMore: false,
+      leadsNextCursor: null,
+      leadsLoadingMore: false,
       contacts: [],
       contactsLoading: false,
       contactsError: null,
+      contactsHasMore: false,
+      contactsNextCursor: null,
+      contactsLoadingMore: false,
       deals: [],
       dealsLoading: false,
       dealsError: null,
+      dealsHasMore: false,
+      dealsNextCursor: null,
+      dealsLoadingMore: false,
       communications: [],
       communicationsLoading: false,
       communicationsError: null,
@@ -96,7 +107,7 @@ describe('CRM Store', () => {
       expect(updatedStore.leads).toHaveLength(1);
       expect(updatedStore.leads[0].name).toBe('John Smith');
       expect(updatedStore.leadsLoading).toBe(false);
-      expect(api.get).toHaveBeenCalledWith('/crm/leads');
+      expect(api.get).toHaveBeenCalledWith('/crm/leads', { params: { per_page: 50 } });
     });
 
     it('should handle fetch leads error', async () => {
@@ -315,7 +326,11 @@ describe('CRM Store', () => {
       });
 
       expect(useCrmStore.getState().deals[0].stage).toBe('won');
-      expect(api.post).toHaveBeenCalledWith('/crm/deals/1/move-stage', { stage: 'won' });
+      expect(api.post).toHaveBeenCalledWith(
+        '/crm/deals/1/move-stage',
+        { stage: 'won' },
+        { headers: { 'Idempotency-Key': expect.any(String) } }
+      );
     });
   });
 
@@ -536,6 +551,218 @@ describe('CRM Store', () => {
     });
   });
 
+  describe('Pagination', () => {
+    it('should track the next page after fetching leads', async () => {
+      (api.get as jest.Mock).mockResolvedValueOnce({
+        data: { data: [mockLead], meta: { current_page: 1, last_page: 2 } },
+      });
+
+      await act(async () => {
+        await useCrmStore.getState().fetchLeads();
+      });
+
+      const state = useCrmStore.getState();
+      expect(state.leadsHasMore).toBe(true);
+      expect(state.leadsNextCursor).toBe('2');
+    });
+
+    it('should append the next page of leads', async () => {
+      useCrmStore.setState({ leads: [mockLead], leadsHasMore: true, leadsNextCursor: '2' });
+      const secondLead = { ...mockLead, id: 2, name: 'Second Lead' };
+      (api.get as jest.Mock).mockResolvedValueOnce({
+        data: { data: [secondLead], meta: { current_page: 2, last_page: 2 } },
+      });
+
+      await act(async () => {
+        await useCrmStore.getState().loadMoreLeads();
+      });
+
+      const state = useCrmStore.getState();
+      expect(api.get).toHaveBeenCalledWith('/crm/leads', { params: { per_page: 50, page: 2 } });
+      expect(state.leads.map(l => l.id)).toEqual([1, 2]);
+      expect(state.leadsHasMore).toBe(false);
+      expect(state.leadsNextCursor).toBeNull();
+    });
+
+    it('should pass cursor tokens through when loading more', async () => {
+      useCrmStore.setState({ contacts: [mockContact], contactsHasMore: true, contactsNextCursor: 'eyJpZCI6MX0' });
+      (api.get as jest.Mock).mockResolvedValueOnce({
+        data: { data: [{ ...mockContact, id: 2 }], meta: { next_cursor: null } },
+      });
+
+      await act(async () => {
+        await useCrmStore.getState().loadMoreContacts();
+      });
+
+      expect(api.get).toHaveBeenCalledWith('/crm/contacts', {
+        params: { per_page: 50, cursor: 'eyJpZCI6MX0' },
+      });
+      expect(useCrmStore.getState().contacts).toHaveLength(2);
+      expect(useCrmStore.getState().contactsHasMore).toBe(false);
+    });
+
+    it('should not duplicate leads inserted by realtime before the page arrived', async () => {
+      const realtimeLead = { ...mockLead, id: 2, name: 'Realtime Lead' };
+      useCrmStore.setState({ leads: [mockLead], leadsHasMore: true, leadsNextCursor: '2' });
+
+      act(() => {
+        useCrmStore.getState().handleRealtimeUpdate({ entity: 'lead', action: 'created', data: realtimeLead });
+      });
+
+      (api.get as jest.Mock).mockResolvedValueOnce({
+        data: { data: [{ ...realtimeLead, status: 'contacted' }], meta: { current_page: 2, last_page: 2 } },
+      });
+
+      await act(async () => {
+        await useCrmStore.getState().loadMoreLeads();
+      });
+
+      const leads = useCrmStore.getState().leads;
+      expect(leads).toHaveLength(2);
+      expect(leads[1].status).toBe('contacted');
+    });
+
+    it('should ignore duplicate realtime created events', () => {
+      useCrmStore.setState({ deals: [mockDeal] });
+
+      act(() => {
+        useCrmStore.getState().handleRealtimeUpdate({ entity: 'deal', action: 'created', data: mockDeal });
+      });
+
+      expect(useCrmStore.getState().deals).toHaveLength(1);
+    });
+
+    it('should not request another page when there is none', async () => {
+      useCrmStore.setState({ leadsHasMore: false });
+
+      await act(async () => {
+        await useCrmStore.getState().loadMoreLeads();
+      });
+
+      expect(api.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Optimistic Updates', () => {
+    beforeEach(() => {
+      useToastStore.setState({ toasts: [] });
+    });
+
+    it('should move a deal before the server answers', async () => {
+      useCrmStore.setState({ deals: [mockDeal] });
+      let respond: (value: unknown) => void = () => {};
+      (api.post as jest.Mock).mockReturnValueOnce(new Promise((resolve) => { respond = resolve; }));
+
+      let pendingMove: Promise<Deal> | undefined;
+      act(() => {
+        pendingMove = useCrmStore.getState().moveDealStage(1, 'won');
+      });
+
+      expect(useCrmStore.getState().deals[0]).toMatchObject({ stage: 'won', pending: true });
+
+      await act(async () => {
+        respond({ data: { data: { ...mockDeal, stage: 'won' } } });
+        await pendingMove;
+      });
+
+      expect(useCrmStore.getState().deals[0].stage).toBe('won');
+      expect(useCrmStore.getState().deals[0].pending).toBeUndefined();
+    });
+
+    it('should roll back and show a toast when the server rejects', async () => {
+      useCrmStore.setState({ deals: [mockDeal] });
+      (api.post as jest.Mock).mockRejectedValueOnce({
+        response: { status: 403, data: { message: 'Stage is locked' } },
+      });
+
+      await act(async () => {
+        await expect(useCrmStore.getState().moveDealStage(1, 'won')).rejects.toMatchObject({ status: 403 });
+      });
+
+      expect(useCrmStore.getState().deals).toEqual([mockDeal]);
+      expect(useToastStore.getState().toasts).toEqual([
+        expect.objectContaining({ message: "Couldn't move deal: Stage is locked", type: 'error' }),
+      ]);
+    });
+
+    it('should put a deleted lead back where it was on failure', async () => {
+      const other = { ...mockLead, id: 2, name: 'Other' };
+      useCrmStore.setState({ leads: [mockLead, other] });
+      (api.delete as jest.Mock).mockRejectedValueOnce({ response: { status: 500, data: { message: 'Oops' } } });
+
+      await act(async () => {
+        await expect(useCrmStore.getState().deleteLead(1)).rejects.toBeDefined();
+      });
+
+      expect(useCrmStore.getState().leads.map(l => l.id)).toEqual([1, 2]);
+    });
+
+    it('should keep a queued update applied while offline', async () => {
+      useCrmStore.setState({ leads: [mockLead] });
+      (api.put as jest.Mock).mockRejectedValueOnce({ message: 'Network Error', code: 'ERR_NETWORK' });
+
+      await act(async () => {
+        await useCrmStore.getState().updateLead(1, { status: 'qualified' });
+      });
+
+      expect(useCrmStore.getState().leads[0]).toMatchObject({ status: 'qualified', pending: true });
+      expect(getQueue()).toHaveLength(1);
+      await clearQueue();
+    });
+  });
+
+  describe('Offline Creates', () => {
+    const networkError = { message: 'Network Error', code: 'ERR_NETWORK' };
+
+    afterEach(async () => {
+      await clearQueue();
+    });
+
+    it('should queue a contact and a deal that references it', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce(networkError);
+
+      let contact: Contact | undefined;
+      let deal: Deal | undefined;
+      await act(async () => {
+        contact = await useCrmStore.getState().createContact({ name: 'Jane Doe', email: 'jane@example.com' });
+        deal = await useCrmStore.getState().createDeal({ name: 'Roof', value: 5000, contact_id: contact!.id });
+      });
+
+      expect(contact!.id).toBeLessThan(0);
+      expect(useCrmStore.getState().contacts).toHaveLength(1);
+      expect(useCrmStore.getState().deals).toHaveLength(1);
+      // The deal never went out with a contact_id the server doesn't know
+      expect(api.post).toHaveBeenCalledTimes(1);
+
+      const [, queuedDeal] = getQueue();
+      expect(queuedDeal.tempId).toBe(String(deal!.id));
+      expect(queuedDeal.dependsOn).toEqual([String(contact!.id)]);
+    });
+
+    it('should swap placeholders and references when IDs resolve', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce(networkError);
+
+      let contact: Contact | undefined;
+      await act(async () => {
+        contact = await useCrmStore.getState().createContact({ name: 'Jane Doe', email: 'jane@example.com' });
+        await useCrmStore.getState().createDeal({ name: 'Roof', value: 5000, contact_id: contact!.id });
+      });
+
+      act(() => {
+        useCrmStore.getState().handleTempIdResolved({
+          tempId: String(contact!.id),
+          realId: 1,
+          entityType: 'contact',
+          entity: mockContact,
+        });
+      });
+
+      const state = useCrmStore.getState();
+      expect(state.contacts).toEqual([mockContact]);
+      expect(state.deals[0].contact_id).toBe(1);
+    });
+  });
+
   describe('API Response Handling', () => {
     it('should handle response.data.data format', async () => {
       (api.get as jest.Mock).mockResolvedValueOnce({ data: { data: [mockLead] } });
@@ -0,0 +1,159 @@
+import { act } from '@testing-library/react-native';
+import { useDevicesStore } from '../../stores/devicesStore';
+import type { UserSession, PushDevice } from '../../stores/devicesStore';
+
+// Mock the api module
+jest.mock('../../lib/api', () => ({
+  api: {
+    get: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+import { api } from '../../lib/api';
+
+const currentSession: UserSession = {
+  id: 'session-1',
+  device_name: 'iPhone 15',
+  platform: 'ios',
+  last_active_at: '2026-10-19T10:00:00Z',
+  created_at: '2026-10-01T10:00:00Z',
+  is_current: true,
+};
+
+const lostSession: UserSession = {
+  id: 'session-2',
+  device_name: 'Pixel 8',
+  platform: 'android',
+  location: 'Austin, TX',
+  last_active_at: '2026-10-18T10:00:00Z',
+  created_at: '2026-09-01T10:00:00Z',
+};
+
+const pushDevice: PushDevice = {
+  id: 7,
+  device_name: 'Pixel 8',
+  platform: 'android',
+  last_seen_at: '2026-10-18T10:00:00Z',
+  created_at: '2026-09-01T10:00:00Z',
+};
+
+const mockDevicesResponse = () => {
+  (api.get as jest.Mock)
+    .mockResolvedValueOnce({ data: { sessions: [currentSession, lostSession] } })
+    .mockResolvedValueOnce({ data: { push_tokens: [pushDevice] } });
+};
+
+describe('Devices Store', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useDevicesStore.setState(useDevicesStore.getInitialState(), true);
+  });
+
+  describe('fetchDevices', () => {
+    it('should load the signed-in user\'s sessions and push devices', async () => {
+      mockDevicesResponse();
+
+      await act(async () => {
+        await useDevicesStore.getState().fetchDevices();
+      });
+
+      expect(api.get).toHaveBeenCalledWith('/auth/sessions');
+      expect(api.get).toHaveBeenCalledWith('/push-tokens');
+      expect(useDevicesStore.getState().sessions).toHaveLength(2);
+      expect(useDevicesStore.getState().devices).toEqual([pushDevice]);
+    });
+
+    it('should load an employee\'s devices', async () => {
+      mockDevicesResponse();
+
+      await act(async () => {
+        await useDevicesStore.getState().fetchDevices(42);
+      });
+
+      expect(api.get).toHaveBeenCalledWith('/hr/employees/42/sessions');
+      expect(api.get).toHaveBeenCalledWith('/hr/employees/42/push-tokens');
+      expect(useDevicesStore.getState().userId).toBe(42);
+    });
+
+    it('should not show the previous employee\'s devices while loading', async () => {
+      useDevicesStore.setState({ userId: 42, sessions: [lostSession], devices: [pushDevice] });
+      (api.get as jest.Mock).mockRejectedValue(new Error('Network Error'));
+
+      await act(async () => {
+        await useDevicesStore.getState().fetchDevices(43);
+      });
+
+      expect(useDevicesStore.getState().sessions).toEqual([]);
+      expect(useDevicesStore.getState().devices).toEqual([]);
+      expect(useDevicesStore.getState().error).toBe('Network Error');
+    });
+  });
+
+  describe('revoking', () => {
+    it('should sign out a single session', async () => {
+      useDevicesStore.setState({ sessions: [currentSession, lostSession] });
+      (api.delete as jest.Mock).mockResolvedValueOnce({ data: {} });
+
+      await act(async () => {
+        await useDevicesStore.getState().revokeSession('session-2');
+      });
+
+      expect(api.delete).toHaveBeenCalledWith('/auth/sessions/session-2');
+      expect(useDevicesStore.getState().sessions).toEqual([currentSession]);
+    });
+
+    it('should remove a push device', async () => {
+      useDevicesStore.setState({ userId: 42, devices: [pushDevice] });
+      (api.delete as jest.Mock).mockResolvedValueOnce({ data: {} });
+
+      await act(async () => {
+        await useDevicesStore.getState().revokeDevice(7);
+      });
+
+      expect(api.delete).toHaveBeenCalledWith('/hr/employees/42/push-tokens/7');
+      expect(useDevicesStore.getState().devices).toEqual([]);
+    });
+
+    it('should keep the current session when signing out the others', async () => {
+      useDevicesStore.setState({ sessions: [currentSession, lostSession], devices: [pushDevice] });
+      (api.delete as jest.Mock).mockResolvedValueOnce({ data: {} });
+
+      await act(async () => {
+        await useDevicesStore.getState().revokeAll();
+      });
+
+      expect(api.delete).toHaveBeenCalledTimes(1);
+      expect(useDevicesStore.getState().sessions).toEqual([currentSession]);
+      expect(useDevicesStore.getState().devices).toEqual([pushDevice]);
+    });
+
+    it('should sign an employee out everywhere', async () => {
+      useDevicesStore.setState({ userId: 42, sessions: [lostSession], devices: [pushDevice] });
+      (api.delete as jest.Mock).mockResolvedValue({ data: {} });
+
+      await act(async () => {
+        await useDevicesStore.getState().revokeAll();
+      });
+
+      expect(api.delete).toHaveBeenCalledWith('/hr/employees/42/sessions');
+      expect(api.delete).toHaveBeenCalledWith('/hr/employees/42/push-tokens');
+      expect(useDevicesStore.getState().sessions).toEqual([]);
+      expect(useDevicesStore.getState().devices).toEqual([]);
+    });
+
+    it('should keep the list when revoking fails', async () => {
+      useDevicesStore.setState({ sessions: [currentSession, lostSession] });
+      (api.delete as jest.Mock).mockRejectedValueOnce({ response: { data: { message: 'Forbidden' } } });
+
+      let success;
+      await act(async () => {
+        success = await useDevicesStore.getState().revokeSession('session-2');
+      });
+
+      expect(success).toBe(false);
+      expect(useDevicesStore.getState().sessions).toHaveLength(2);
+      expect(useDevicesStore.getState().error).toBe('Forbidden');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { act } from '@testing-library/react-native';
 import { useProjectsStore } from '../../stores/projectsStore';
 import type { Project, Task, TaskStatus, TaskPriority, SubTask } from '../../stores/projectsStore';
+import { api } from '../../lib/api';
 
 const mockSubTask: SubTask = {
   id: 'st1',
@@ -547,5 +548,22 @@ describe('Projects Store', () => {
 
       expect(useProjectsStore.getState().projects[0].spent).toBe(30000);
     });
+
+    it('should add labor clocked to the project to spent', async () => {
+      useProjectsStore.setState({ projects: [mockProject], selectedProject: mockProject });
+      const get = jest.spyOn(api, 'get').mockResolvedValueOnce({
+        data: { jobs: [{ job: { project_id: '1' }, label: 'Test Project', hours: 40, cost: 1800 }] },
+      });
+
+      await act(async () => {
+        await useProjectsStore.getState().fetchLaborCosts();
+      });
+
+      expect(get).toHaveBeenCalledWith('/time-clock/labor-costs', { params: { group_by: 'project' } });
+      const { projects, selectedProject } = useProjectsStore.getState();
+      expect(projects[0]).toMatchObject({ spent: 24300, laborHours: 40, laborCost: 1800 });
+      expect(selectedProject?.spent).toBe(24300);
+      get.mockRestore();
+    });
   });
 });
@@ -0,0 +1,509 @@
+import { act } from '@testing-library/react-native';
+import { useTimeClockStore, isSyncedLate, getWeekEntries } from '../../stores/timeClockStore';
+import type { TimeClock } from '../../stores/timeClockStore';
+
+// Mock the api module (the store uses the named export, the offline queue the default)
+jest.mock('../../lib/api', () => {
+  const api = { get: jest.fn(), post: jest.fn(), put: jest.fn() };
+  return { __esModule: true, api, default: api };
+});
+
+import { api } from '../../lib/api';
+import { clearQueue, clearDeadLetters, getDeadLetters, getQueue } from '../../lib/offline-queue';
+import { useToastStore } from '../../stores/toastStore';
+import { OVERTIME_PRESETS } from '../../lib/overtime';
+
+const networkError = { message: 'Network Error', code: 'ERR_NETWORK' };
+
+const location = { latitude: 30.2672, longitude: -97.7431, accuracy: 12, location_name: 'North Site' };
+
+const serverClock: TimeClock = {
+  id: 301,
+  user_id: 7,
+  organization_id: 1,
+  clock_in_at: '2026-10-19T14:00:00Z',
+  clock_out_at: null,
+  clock_in_location_name: 'North Site',
+  clock_out_location_name: null,
+  total_hours: null,
+  regular_hours: null,
+  overtime_hours: null,
+  status: 'clocked_in',
+  notes: null,
+};
+
+describe('Time Clock Store', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await clearQueue();
+    await clearDeadLetters();
+    useTimeClockStore.setState(useTimeClockStore.getInitialState(), true);
+    useToastStore.setState({ toasts: [] });
+  });
+
+  describe('clockIn', () => {
+    it('should send the punch with its device timestamp and GPS fix', async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: { success: true, clock_in: serverClock } });
+
+      let success;
+      await act(async () => {
+        success = await useTimeClockStore.getState().clockIn(location);
+      });
+
+      expect(success).toBe(true);
+      const [url, punch] = (api.post as jest.Mock).mock.calls[0];
+      expect(url).toBe('/time-clock/clock-in');
+      expect(punch).toMatchObject({ ...location, clock_tampered: false });
+      expect(Date.now() - new Date(punch.captured_at).getTime()).toBeLessThan(1000);
+      expect(typeof punch.clock_skew_ms).toBe('number');
+      expect(useTimeClockStore.getState().currentClock).toEqual(serverClock);
+    });
+
+    it('should clock in right away without signal and queue the punch', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce(networkError);
+
+      let success;
+      await act(async () => {
+        success = await useTimeClockStore.getState().clockIn(location);
+      });
+
+      expect(success).toBe(true);
+      const state = useTimeClockStore.getState();
+      expect(state.isClockedIn).toBe(true);
+      expect(state.currentClock).toMatchObject({ status: 'clocked_in', pending: true });
+
+      const [queued] = getQueue();
+      expect(queued.url).toBe('/time-clock/clock-in');
+      expect(queued.data).toMatchObject({ captured_at: state.currentClock?.clock_in_at, accuracy: 12 });
+      expect(useToastStore.getState().toasts[0]).toMatchObject({ type: 'info' });
+    });
+
+    it('should not let a status refresh undo a queued punch', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce(networkError);
+      await act(async () => {
+        await useTimeClockStore.getState().clockIn(location);
+      });
+
+      (api.get as jest.Mock).mockResolvedValueOnce({
+        data: { is_clocked_in: false, current_clock: null, today: { entries: [] }, this_week: null },
+      });
+      await act(async () => {
+        await useTimeClockStore.getState().fetchStatus();
+      });
+
+      expect(useTimeClockStore.getState().isClockedIn).toBe(true);
+    });
+
+    it('should roll back when the server refuses the punch', async () => {
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: { success: false, message: 'Outside the geofence' } });
+
+      let success;
+      await act(async () => {
+        success = await useTimeClockStore.getState().clockIn(location);
+      });
+
+      expect(success).toBe(false);
+      expect(useTimeClockStore.getState().isClockedIn).toBe(false);
+      expect(useTimeClockStore.getState().error).toBe('Outside the geofence');
+      expect(useToastStore.getState().toasts[0]).toMatchObject({
+        message: "Couldn't clock in: Outside the geofence",
+        type: 'error',
+      });
+    });
+  });
+
+  describe('clockOut', () => {
+    it('should clock out without signal and keep the punch for later', async () => {
+      useTimeClockStore.setState({ isClockedIn: true, currentClock: serverClock });
+      (api.post as jest.Mock).mockRejectedValueOnce(networkError);
+
+      await act(async () => {
+        await useTimeClockStore.getState().clockOut(location);
+      });
+
+      expect(useTimeClockStore.getState().isClockedIn).toBe(false);
+      expect(getQueue().map((request) => request.url)).toEqual(['/time-clock/clock-out']);
+    });
+
+    it('should stay clocked in when the server refuses', async () => {
+      useTimeClockStore.setState({ isClockedIn: true, currentClock: serverClock });
+      (api.post as jest.Mock).mockRejectedValueOnce({ response: { status: 422, data: { message: 'Already clocked out' } } });
+
+      await act(async () => {
+        await useTimeClockStore.getState().clockOut(location);
+      });
+
+      expect(useTimeClockStore.getState().isClockedIn).toBe(true);
+      expect(useTimeClockStore.getState().currentClock).toEqual(serverClock);
+    });
+  });
+
+  describe('overtime', () => {
+    it('should split a shift finished offline by the overtime rules', async () => {
+      useTimeClockStore.setState({
+        isClockedIn: true,
+        currentClock: { ...serverClock, clock_in_at: new Date(Date.now() - 10 * 60 * 60 * 1000).toISOString() },
+        overtimeRules: OVERTIME_PRESETS.CA,
+      });
+      (api.post as jest.Mock).mockRejectedValueOnce(networkError);
+
+      await act(async () => {
+        await useTimeClockStore.getState().clockOut(location);
+      });
+
+      const [finished] = useTimeClockStore.getState().todayEntries;
+      expect(finished).toMatchObject({ total_hours: 10, regular_hours: 8, overtime_hours: 2 });
+      expect(useTimeClockStore.getState().weekEntries).toEqual([finished]);
+    });
+
+    it('should count every entry of the week once', () => {
+      const monday = { ...serverClock, id: 1, status: 'approved' as const };
+      const today = { ...serverClock, id: 2, clock_out_at: '2026-10-19T18:00:00Z', status: 'clocked_out' as const };
+      const open = { ...serverClock, id: 3 };
+
+      const entries = getWeekEntries({
+        weekEntries: [monday, { ...today, status: 'clocked_in' }],
+        todayEntries: [today],
+        currentClock: open,
+      });
+
+      expect(entries).toEqual([monday, today, open]);
+    });
+
+    it('should put the overtime rules back when saving fails', async () => {
+      (api.put as jest.Mock).mockRejectedValueOnce({ response: { status: 403, data: { message: 'Forbidden' } } });
+
+      let saved;
+      await act(async () => {
+        saved = await useTimeClockStore.getState().updateOvertimeRules(OVERTIME_PRESETS.CA);
+      });
+
+      expect(saved).toBe(false);
+      expect(useTimeClockStore.getState().overtimeRules).toEqual(OVERTIME_PRESETS.federal);
+    });
+  });
+
+  describe('jobs', () => {
+    const kitchen = { project_id: '1', cost_code: '0420' };
+    const deck = { project_id: '2' };
+
+    it('should start the first segment when clocking in with a job', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce(networkError);
+
+      await act(async () => {
+        await useTimeClockStore.getState().clockIn({ ...location, job: kitchen });
+      });
+
+      expect((api.post as jest.Mock).mock.calls[0][1].job).toEqual(kitchen);
+      expect(useTimeClockStore.getState().currentClock?.segments).toEqual([
+        expect.objectContaining({ job: kitchen, ended_at: null, pending: true }),
+      ]);
+    });
+
+    it('should split the shift when switching jobs offline', async () => {
+      useTimeClockStore.setState({
+        isClockedIn: true,
+        currentClock: {
+          ...serverClock,
+          segments: [{ id: 40, job: kitchen, started_at: serverClock.clock_in_at, ended_at: null }],
+        },
+      });
+      (api.post as jest.Mock).mockRejectedValueOnce(networkError);
+
+      await act(async () => {
+        await useTimeClockStore.getState().switchJob(deck, location);
+      });
+
+      const [first, second] = useTimeClockStore.getState().currentClock!.segments!;
+      expect(first.ended_at).not.toBeNull();
+      expect(second).toMatchObject({ job: deck, started_at: first.ended_at, ended_at: null });
+      expect(getQueue()[0]).toMatchObject({ url: '/time-clock/switch-job', data: { job: deck } });
+    });
+
+    it('should only end the segment when switching to no job', async () => {
+      useTimeClockStore.setState({
+        isClockedIn: true,
+        currentClock: {
+          ...serverClock,
+          segments: [{ id: 40, job: kitchen, started_at: serverClock.clock_in_at, ended_at: null }],
+        },
+      });
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: { success: true } });
+
+      await act(async () => {
+        await useTimeClockStore.getState().switchJob(null);
+      });
+
+      const segments = useTimeClockStore.getState().currentClock!.segments!;
+      expect(segments).toHaveLength(1);
+      expect(segments[0].ended_at).not.toBeNull();
+      expect((api.post as jest.Mock).mock.calls[0][1].job).toBeNull();
+    });
+
+    it('should not punch when the job is unchanged', async () => {
+      useTimeClockStore.setState({
+        isClockedIn: true,
+        currentClock: {
+          ...serverClock,
+          segments: [{ id: 40, job: kitchen, started_at: serverClock.clock_in_at, ended_at: null }],
+        },
+      });
+
+      await act(async () => {
+        await useTimeClockStore.getState().switchJob({ ...kitchen });
+      });
+
+      expect(api.post).not.toHaveBeenCalled();
+    });
+
+    it('should restore the segments when the server refuses the switch', async () => {
+      const segments = [{ id: 40, job: kitchen, started_at: serverClock.clock_in_at, ended_at: null }];
+      useTimeClockStore.setState({ isClockedIn: true, currentClock: { ...serverClock, segments } });
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: { success: false, message: 'Project is closed' } });
+
+      let switched;
+      await act(async () => {
+        switched = await useTimeClockStore.getState().switchJob(deck);
+      });
+
+      expect(switched).toBe(false);
+      expect(useTimeClockStore.getState().currentClock?.segments).toEqual(segments);
+    });
+  });
+
+  describe('breaks', () => {
+    beforeEach(() => {
+      useTimeClockStore.setState({
+        isClockedIn: true,
+        currentClock: { ...serverClock, breaks: [] },
+        breakRules: [{ type: 'meal', after_hours: 5, min_minutes: 30, paid: false }],
+      });
+    });
+
+    it('should start a break with its own punch', async () => {
+      const mealBreak = { id: 9, type: 'meal', paid: false, started_at: '2026-10-19T19:00:00Z', ended_at: null };
+      (api.post as jest.Mock).mockResolvedValueOnce({ data: { success: true, break: mealBreak } });
+
+      await act(async () => {
+        await useTimeClockStore.getState().startBreak('meal', location);
+      });
+
+      const [url, punch] = (api.post as jest.Mock).mock.calls[0];
+      expect(url).toBe('/time-clock/break/start');
+      expect(punch).toMatchObject({ type: 'meal', accuracy: 12 });
+      expect(punch.captured_at).toBeDefined();
+      expect(useTimeClockStore.getState().currentClock?.breaks).toEqual([mealBreak]);
+    });
+
+    it('should start and end a break without signal', async () => {
+      (api.post as jest.Mock).mockRejectedValue(networkError);
+
+      await act(async () => {
+        await useTimeClockStore.getState().startBreak('meal');
+      });
+      expect(useTimeClockStore.getState().currentClock?.breaks?.[0]).toMatchObject({
+        type: 'meal',
+        paid: false,
+        ended_at: null,
+        pending: true,
+      });
+
+      await act(async () => {
+        await useTimeClockStore.getState().endBreak();
+      });
+
+      expect(useTimeClockStore.getState().currentClock?.breaks?.[0].ended_at).not.toBeNull();
+      expect(getQueue().map((request) => request.url)).toEqual([
+        '/time-clock/break/start',
+        '/time-clock/break/end',
+      ]);
+    });
+
+    it('should not start a second break while one is open', async () => {
+      (api.post as jest.Mock).mockRejectedValue(networkError);
+      await act(async () => {
+        await useTimeClockStore.getState().startBreak('rest');
+      });
+
+      let started;
+      await act(async () => {
+        started = await useTimeClockStore.getState().startBreak('meal');
+      });
+
+      expect(started).toBe(false);
+      expect(useTimeClockStore.getState().currentClock?.breaks).toHaveLength(1);
+    });
+
+    it('should leave an unpaid break out of a finished shift offline', async () => {
+      const clockInAt = new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString();
+      useTimeClockStore.setState({
+        currentClock: {
+          ...serverClock,
+          clock_in_at: clockInAt,
+          breaks: [
+            {
+              id: 9,
+              type: 'meal',
+              paid: false,
+              started_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+              ended_at: new Date(Date.now() - 30 * 60 * 1000).toISOString(),
+            },
+          ],
+        },
+      });
+      (api.post as jest.Mock).mockRejectedValueOnce(networkError);
+
+      await act(async () => {
+        await useTimeClockStore.getState().clockOut(location);
+      });
+
+      const [finished] = useTimeClockStore.getState().todayEntries;
+      expect(finished.total_hours).toBe(4.5);
+      expect(finished.regular_hours).toBe(4.5);
+      expect(finished.status).toBe('clocked_out');
+    });
+  });
+
+  describe('corrections', () => {
+    const entry: TimeClock = {
+      ...serverClock,
+      clock_out_at: '2026-10-19T22:00:00Z',
+      status: 'clocked_out',
+      total_hours: 8,
+    };
+    const proposed = { clock_in_at: entry.clock_in_at, clock_out_at: '2026-10-19T23:30:00Z', reason: ' Forgot ' };
+
+    it('should track a correction request as pending', async () => {
+      (api.post as jest.Mock).mockImplementationOnce((url, body) =>
+        Promise.resolve({ data: { correction: { ...body, id: 40, time_clock_id: 301, status: 'pending' } } })
+      );
+
+      let sent;
+      await act(async () => {
+        sent = await useTimeClockStore.getState().requestCorrection(entry, proposed);
+      });
+
+      expect(sent).toBe(true);
+      expect((api.post as jest.Mock).mock.calls[0][0]).toBe('/time-clock/301/corrections');
+      expect((api.post as jest.Mock).mock.calls[0][1]).toMatchObject({ reason: 'Forgot' });
+      expect(useTimeClockStore.getState().corrections).toEqual([
+        expect.objectContaining({ id: 40, status: 'pending' }),
+      ]);
+    });
+
+    it('should hold a correction on a queued clock-in until the clock-in syncs', async () => {
+      (api.post as jest.Mock).mockRejectedValue(networkError);
+      await act(async () => {
+        await useTimeClockStore.getState().clockIn(location);
+      });
+      const placeholder = useTimeClockStore.getState().currentClock!;
+      await act(async () => {
+        await useTimeClockStore.getState().requestCorrection(placeholder, proposed);
+      });
+      (api.post as jest.Mock).mockReset();
+
+      const [clockIn, correction] = getQueue();
+      expect(clockIn).toMatchObject({ tempId: String(placeholder.id), entityType: 'clock_in' });
+      expect(correction.dependsOn).toEqual([String(placeholder.id)]);
+      expect(getDeadLetters()).toEqual([]);
+
+      useTimeClockStore.getState().handleTempIdResolved({
+        tempId: String(placeholder.id),
+        realId: 301,
+        entityType: 'clock_in',
+        entity: serverClock,
+      });
+      expect(useTimeClockStore.getState().currentClock?.id).toBe(301);
+      expect(useTimeClockStore.getState().corrections[0].time_clock_id).toBe(301);
+    });
+
+    it('should keep a correction requested without signal until it syncs', async () => {
+      (api.post as jest.Mock).mockRejectedValueOnce(networkError);
+
+      await act(async () => {
+        await useTimeClockStore.getState().requestCorrection(entry, proposed);
+      });
+
+      const [correction] = useTimeClockStore.getState().corrections;
+      expect(correction).toMatchObject({
+        time_clock_id: 301,
+        original_clock_out_at: entry.clock_out_at,
+        proposed_clock_out_at: proposed.clock_out_at,
+        status: 'pending',
+        pending: true,
+      });
+      expect(getQueue()[0].url).toBe('/time-clock/301/corrections');
+      expect(useToastStore.getState().toasts[0]).toMatchObject({ type: 'info' });
+    });
+
+    it('should apply an approved correction with its audit history', async () => {
+      const correction = {
+        id: 40,
+        time_clock_id: 301,
+        original_clock_in_at: entry.clock_in_at,
+        original_clock_out_at: entry.clock_out_at,
+        proposed_clock_in_at: entry.clock_in_at,
+        proposed_clock_out_at: proposed.clock_out_at,
+        reason: 'Forgot',
+        status: 'pending' as const,
+        created_at: '2026-10-19T23:40:00Z',
+      };
+      const audit = {
+        id: 1,
+        field: 'clock_out_at' as const,
+        from: entry.clock_out_at,
+        to: proposed.clock_out_at,
+        changed_by: { id: 2, first_name: 'Sam', last_name: 'Lee' },
+        changed_at: '2026-10-20T08:00:00Z',
+        correction_id: 40,
+      };
+      const corrected = { ...entry, clock_out_at: proposed.clock_out_at, audit_history: [audit] };
+      useTimeClockStore.setState({ teamCorrections: [correction], history: [entry] });
+      (api.post as jest.Mock).mockResolvedValueOnce({
+        data: { correction: { ...correction, status: 'approved' }, entry: corrected },
+      });
+
+      let approved;
+      await act(async () => {
+        approved = await useTimeClockStore.getState().reviewCorrection(40, 'approved');
+      });
+
+      expect(approved).toBe(true);
+      expect((api.post as jest.Mock).mock.calls[0][0]).toBe('/time-clock/corrections/40/approve');
+      const state = useTimeClockStore.getState();
+      expect(state.teamCorrections).toEqual([]);
+      expect(state.history[0]).toEqual(corrected);
+    });
+
+    it('should put the correction back when the review fails', async () => {
+      const correction = {
+        id: 41,
+        time_clock_id: 301,
+        original_clock_in_at: entry.clock_in_at,
+        original_clock_out_at: entry.clock_out_at,
+        proposed_clock_in_at: entry.clock_in_at,
+        proposed_clock_out_at: proposed.clock_out_at,
+        reason: 'Forgot',
+        status: 'pending' as const,
+        created_at: '2026-10-19T23:40:00Z',
+      };
+      useTimeClockStore.setState({ teamCorrections: [correction] });
+      (api.post as jest.Mock).mockRejectedValueOnce({ response: { status: 403, data: { message: 'Forbidden' } } });
+
+      let denied;
+      await act(async () => {
+        denied = await useTimeClockStore.getState().reviewCorrection(41, 'denied', 'Not on the schedule');
+      });
+
+      expect(denied).toBe(false);
+      expect((api.post as jest.Mock).mock.calls[0][1]).toEqual({ note: 'Not on the schedule' });
+      expect(useTimeClockStore.getState().teamCorrections).toEqual([correction]);
+    });
+  });
+
+  it('should call a punch that reached the server much later synced late', () => {
+    expect(isSyncedLate('2026-10-19T14:00:00Z', '2026-10-19T14:00:20Z')).toBe(false);
+    expect(isSyncedLate('2026-10-19T14:00:00Z', '2026-10-19T17:30:00Z')).toBe(true);
+    expect(isSyncedLate('2026-10-19T14:00:00Z', null)).toBe(false);
+  });
+});
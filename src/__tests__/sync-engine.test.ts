@@ -0,0 +1,240 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Network from 'expo-network';
+import {
+  applyDelta,
+  registerSyncEntity,
+  syncEntity,
+  getSyncCursor,
+  resetSyncCursors,
+  MAX_PAGES_PER_SYNC,
+} from '../lib/sync-engine';
+import { normalizeDelta } from '../lib/api-client';
+import { refreshConnectivity } from '../lib/connectivity';
+
+// Mock the api module
+jest.mock('../lib/api', () => ({
+  __esModule: true,
+  default: {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+import api from '../lib/api';
+
+interface Note {
+  id: number;
+  title: string;
+  updated_at?: string;
+  pending?: boolean;
+}
+
+let notes: Note[] = [];
+let notesError: string | null = null;
+const refresh = jest.fn(async () => {
+  notes = [{ id: 1, title: 'Fetched' }];
+});
+
+registerSyncEntity<Note>({
+  name: 'notes',
+  path: '/notes',
+  refresh,
+  error: () => notesError,
+  hasLocalData: () => notes.length > 0,
+  apply: (changed, deleted) => {
+    notes = applyDelta(notes, changed, deleted);
+  },
+});
+
+describe('Sync Engine', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    await resetSyncCursors();
+    notes = [];
+    notesError = null;
+  });
+
+  describe('applyDelta', () => {
+    it('should update, add and remove records', () => {
+      const items: Note[] = [{ id: 1, title: 'One' }, { id: 2, title: 'Two' }];
+      const result = applyDelta(items, [{ id: 2, title: 'Two v2' }, { id: 3, title: 'Three' }], [1]);
+      expect(result).toEqual([{ id: 3, title: 'Three' }, { id: 2, title: 'Two v2' }]);
+    });
+
+    it('should keep local copies with a pending change', () => {
+      const items: Note[] = [{ id: 1, title: 'Local edit', pending: true }];
+      expect(applyDelta(items, [{ id: 1, title: 'Server' }], [])).toEqual(items);
+    });
+
+    it('should match ids across numbers and strings', () => {
+      expect(applyDelta<Note>([{ id: 5, title: 'Five' }], [], ['5' as unknown as number])).toEqual([]);
+    });
+  });
+
+  describe('normalizeDelta', () => {
+    it('should split soft-deleted rows and deleted ids into tombstones', () => {
+      const result = normalizeDelta<Note>({
+        data: [{ id: 1, title: 'Kept' }, { id: 2, title: 'Gone', deleted_at: '2026-01-01T00:00:00Z' }],
+        deleted: [3, { id: 4, deleted_at: '2026-01-02T00:00:00Z' }],
+        server_time: '2026-01-03T00:00:00Z',
+      });
+
+      expect(result.changed).toEqual([{ id: 1, title: 'Kept' }]);
+      expect(result.deleted.map((t) => t.id)).toEqual([3, 4, 2]);
+      expect(result.serverTime).toBe('2026-01-03T00:00:00Z');
+    });
+
+    it('should unwrap a paginator nested under a key', () => {
+      const result = normalizeDelta<Note>({ entries: { data: [{ id: 1, title: 'Entry' }] } }, 'entries');
+      expect(result.changed).toEqual([{ id: 1, title: 'Entry' }]);
+    });
+  });
+
+  describe('syncEntity', () => {
+    it('should do a full refresh and set a mark the first time', async () => {
+      await syncEntity('notes');
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(api.get).not.toHaveBeenCalled();
+      expect(getSyncCursor('notes')).not.toBeNull();
+    });
+
+    it('should not set a mark when the refresh failed', async () => {
+      refresh.mockImplementationOnce(async () => {
+        notesError = 'Network Error';
+      });
+      await syncEntity('notes');
+
+      expect(getSyncCursor('notes')).toBeNull();
+    });
+
+    it('should ask only for changes since the mark and advance it', async () => {
+      await syncEntity('notes');
+      const since = getSyncCursor('notes');
+
+      (api.get as jest.Mock).mockResolvedValueOnce({
+        data: {
+          data: [{ id: 2, title: 'New' }],
+          deleted: [1],
+          server_time: '2030-01-01T00:00:00Z',
+        },
+      });
+      await syncEntity('notes');
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(api.get).toHaveBeenCalledWith('/notes', {
+        params: expect.objectContaining({ updated_since: since, include_deleted: 1 }),
+      });
+      expect(notes).toEqual([{ id: 2, title: 'New' }]);
+      expect(getSyncCursor('notes')).toBe('2030-01-01T00:00:00Z');
+    });
+
+    it('should follow pages of changes', async () => {
+      await syncEntity('notes');
+
+      (api.get as jest.Mock)
+        .mockResolvedValueOnce({
+          data: { data: [{ id: 2, title: 'Two' }], meta: { next_cursor: 'abc' }, server_time: '2030-01-01T00:00:00Z' },
+        })
+        .mockResolvedValueOnce({ data: { data: [{ id: 3, title: 'Three' }], meta: { next_cursor: null } } });
+      await syncEntity('notes');
+
+      expect(api.get).toHaveBeenCalledTimes(2);
+      expect((api.get as jest.Mock).mock.calls[1][1].params.cursor).toBe('abc');
+      expect(notes.map((n) => n.id)).toEqual([3, 2, 1]);
+      expect(getSyncCursor('notes')).toBe('2030-01-01T00:00:00Z');
+    });
+
+    it('should resume from the page it stopped at and only then advance the mark', async () => {
+      await syncEntity('notes');
+      const since = getSyncCursor('notes');
+
+      for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+        (api.get as jest.Mock).mockResolvedValueOnce({
+          data: {
+            data: [{ id: 100 + page, title: `Page ${page}` }],
+            meta: { next_cursor: `page-${page + 1}` },
+            server_time: '2030-01-01T00:00:00Z',
+          },
+        });
+      }
+      await syncEntity('notes');
+
+      expect(api.get).toHaveBeenCalledTimes(MAX_PAGES_PER_SYNC);
+      // The pages not fetched yet hold records older than the first page's server time
+      expect(getSyncCursor('notes')).toBe(since);
+
+      (api.get as jest.Mock).mockResolvedValueOnce({
+        data: { data: [{ id: 999, title: 'Last' }], meta: { next_cursor: null }, server_time: '2030-01-02T00:00:00Z' },
+      });
+      await syncEntity('notes');
+
+      const params = (api.get as jest.Mock).mock.calls[MAX_PAGES_PER_SYNC][1].params;
+      expect(params).toMatchObject({ cursor: `page-${MAX_PAGES_PER_SYNC}`, updated_since: since });
+      expect(notes.map((n) => n.id)).toContain(999);
+      expect(getSyncCursor('notes')).toBe('2030-01-01T00:00:00Z');
+    });
+
+    it('should keep the mark when fetching changes fails', async () => {
+      await syncEntity('notes');
+      const since = getSyncCursor('notes');
+
+      (api.get as jest.Mock).mockRejectedValueOnce({ message: 'Network Error', code: 'ERR_NETWORK' });
+      await syncEntity('notes');
+
+      expect(getSyncCursor('notes')).toBe(since);
+    });
+
+    it('should share a sync that is already running', async () => {
+      await Promise.all([syncEntity('notes'), syncEntity('notes')]);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch the first page of a paged list again after a restart', async () => {
+      // A fresh copy of the engine, as after relaunching with a saved mark and cached data
+      let engine!: typeof import('../lib/sync-engine');
+      let storage!: typeof AsyncStorage;
+      let client!: typeof api;
+      jest.isolateModules(() => {
+        storage = require('@react-native-async-storage/async-storage');
+        client = require('../lib/api').default;
+        engine = require('../lib/sync-engine');
+      });
+      await storage.setItem('sf_sync_cursors', JSON.stringify({ threads: '2030-01-01T00:00:00Z' }));
+
+      const threads = [{ id: 1, title: 'Cached' }];
+      const refreshThreads = jest.fn(async () => undefined);
+      engine.registerSyncEntity<Note>({
+        name: 'threads',
+        path: '/threads',
+        refresh: refreshThreads,
+        error: () => null,
+        hasLocalData: () => threads.length > 0,
+        paged: true,
+        apply: jest.fn(),
+      });
+
+      await engine.syncEntity('threads');
+      expect(refreshThreads).toHaveBeenCalledTimes(1);
+      expect(client.get).not.toHaveBeenCalled();
+
+      (client.get as jest.Mock).mockResolvedValueOnce({ data: { data: [], server_time: '2030-01-02T00:00:00Z' } });
+      await engine.syncEntity('threads');
+      expect(refreshThreads).toHaveBeenCalledTimes(1);
+      expect(client.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip syncing while offline', async () => {
+      (Network.getNetworkStateAsync as jest.Mock).mockResolvedValueOnce({ isConnected: false });
+      await refreshConnectivity();
+
+      await syncEntity('notes');
+      expect(refresh).not.toHaveBeenCalled();
+
+      await refreshConnectivity();
+    });
+  });
+});
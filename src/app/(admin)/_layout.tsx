@@ -1,7 +1,17 @@
-import { Tabs } from 'expo-router';
+import { Tabs, Redirect, useSegments } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore } from '../../stores/authStore';
+import { guardRoute, tabHref } from '../../lib/permissions';
 
 export default function AdminLayout() {
+  const { user } = useAuthStore();
+  const segments = useSegments();
+
+  const redirect = guardRoute(user, segments);
+  if (redirect) {
+    return <Redirect href={redirect} />;
+  }
+
   return (
     <Tabs
       screenOptions={{
@@ -37,6 +47,7 @@ export default function AdminLayout() {
           tabBarIcon: ({ color, size }) => (
             <Ionicons name="people" size={size} color={color} />
           ),
+          ...tabHref(user, '(admin)/employees'),
         }}
       />
       <Tabs.Screen
@@ -46,6 +57,7 @@ export default function AdminLayout() {
           tabBarIcon: ({ color, size }) => (
             <Ionicons name="location" size={size} color={color} />
           ),
+          ...tabHref(user, '(admin)/geofence'),
         }}
       />
       <Tabs.Screen
@@ -55,6 +67,7 @@ export default function AdminLayout() {
           tabBarIcon: ({ color, size }) => (
             <Ionicons name="stats-chart" size={size} color={color} />
           ),
+          ...tabHref(user, '(admin)/reports'),
         }}
       />
       <Tabs.Screen
@@ -64,6 +77,7 @@ export default function AdminLayout() {
           tabBarIcon: ({ color, size }) => (
             <Ionicons name="settings" size={size} color={color} />
           ),
+          ...tabHref(user, '(admin)/settings'),
         }}
       />
     </Tabs>
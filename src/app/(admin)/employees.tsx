@@ -7,9 +7,13 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   TextInput,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
 import { api } from '../../lib/api';
+import { useAuthStore } from '../../stores/authStore';
+import { useCan } from '../../hooks/useCan';
 
 interface Employee {
   id: number;
@@ -27,6 +31,8 @@ export default function EmployeesScreen() {
   const [filteredEmployees, setFilteredEmployees] = useState<Employee[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const { startImpersonation, isSwitchingUser } = useAuthStore();
+  const can = useCan();
 
   useEffect(() => {
     fetchEmployees();
@@ -88,8 +94,48 @@ export default function EmployeesScreen() {
     }
   };
 
+  const viewAs = async (employee: Employee, allowChanges: boolean) => {
+    // On success the root layout takes us to the employee's home screen
+    const started = await startImpersonation(employee.id, { allowChanges });
+    if (!started) {
+      Alert.alert('Could Not View as Employee', useAuthStore.getState().error || 'Please try again.');
+    }
+  };
+
+  const confirmViewAs = (employee: Employee) => {
+    Alert.alert(
+      `View as ${employee.first_name}`,
+      `You'll see the app as ${employee.first_name} ${employee.last_name} does until you tap End. ` +
+        'Starting and ending are recorded in the audit log.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'View Only', onPress: () => viewAs(employee, false) },
+        { text: 'Allow Changes', style: 'destructive', onPress: () => viewAs(employee, true) },
+      ]
+    );
+  };
+
+  const openEmployee = (employee: Employee) => {
+    const name = `${employee.first_name} ${employee.last_name}`;
+    const showDevices = () => router.push({ pathname: '/devices', params: { userId: employee.id, name } });
+
+    if (!can('users.impersonate')) {
+      showDevices();
+      return;
+    }
+    Alert.alert(name, employee.email, [
+      { text: 'Devices & Sessions', onPress: showDevices },
+      { text: 'View as Employee', onPress: () => confirmViewAs(employee) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const renderEmployee = ({ item }: { item: Employee }) => (
-    <TouchableOpacity style={styles.employeeCard}>
+    <TouchableOpacity
+      style={styles.employeeCard}
+      onPress={() => openEmployee(item)}
+      disabled={isSwitchingUser}
+    >
       <View style={styles.employeeRow}>
         <View style={styles.avatar}>
           {item.is_clocked_in && <View style={styles.onlineIndicator} />}
@@ -13,6 +13,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { useAuthStore } from '../../stores/authStore';
 import { api } from '../../lib/api';
+import { useCan } from '../../hooks/useCan';
 
 interface OrgStats {
   total_employees: number;
@@ -33,6 +34,7 @@ interface RecentActivity {
 
 export default function AdminDashboard() {
   const { user } = useAuthStore();
+  const can = useCan();
   const [stats, setStats] = useState<OrgStats | null>(null);
   const [activity, setActivity] = useState<RecentActivity[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -144,7 +146,11 @@ export default function AdminDashboard() {
 
         {/* Stats Grid */}
         <View style={styles.statsGrid}>
-          <TouchableOpacity style={styles.statCard} onPress={() => router.push('/(admin)/employees')}>
+          <TouchableOpacity
+            style={styles.statCard}
+            onPress={() => router.push('/(admin)/employees')}
+            disabled={!can('employees.manage')}
+          >
             <View style={[styles.statIcon, { backgroundColor: '#8B5CF620' }]}>
               <Ionicons name="people" size={24} color="#8B5CF6" />
             </View>
@@ -168,7 +174,11 @@ export default function AdminDashboard() {
             <Text style={styles.statLabel}>Pending</Text>
           </TouchableOpacity>
 
-          <TouchableOpacity style={styles.statCard} onPress={() => router.push('/(admin)/geofence')}>
+          <TouchableOpacity
+            style={styles.statCard}
+            onPress={() => router.push('/(admin)/geofence')}
+            disabled={!can('locations.manage')}
+          >
             <View style={[styles.statIcon, { backgroundColor: '#06B6D420' }]}>
               <Ionicons name="location" size={24} color="#06B6D4" />
             </View>
@@ -197,18 +207,24 @@ export default function AdminDashboard() {
         <View style={styles.actionsCard}>
           <Text style={styles.cardTitle}>Quick Actions</Text>
           <View style={styles.actionsGrid}>
-            <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/(admin)/employees')}>
-              <Ionicons name="person-add" size={24} color="#8B5CF6" />
-              <Text style={styles.actionText}>Add Employee</Text>
-            </TouchableOpacity>
-            <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/(admin)/geofence')}>
-              <Ionicons name="add-circle" size={24} color="#10B981" />
-              <Text style={styles.actionText}>Add Location</Text>
-            </TouchableOpacity>
-            <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/(admin)/reports')}>
-              <Ionicons name="download" size={24} color="#3B82F6" />
-              <Text style={styles.actionText}>Export Report</Text>
-            </TouchableOpacity>
+            {can('employees.manage') && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/(admin)/employees')}>
+                <Ionicons name="person-add" size={24} color="#8B5CF6" />
+                <Text style={styles.actionText}>Add Employee</Text>
+              </TouchableOpacity>
+            )}
+            {can('locations.manage') && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/(admin)/geofence')}>
+                <Ionicons name="add-circle" size={24} color="#10B981" />
+                <Text style={styles.actionText}>Add Location</Text>
+              </TouchableOpacity>
+            )}
+            {can('reports.view') && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/(admin)/reports')}>
+                <Ionicons name="download" size={24} color="#3B82F6" />
+                <Text style={styles.actionText}>Export Report</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
@@ -9,6 +9,8 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { api } from '../../lib/api';
+import { useTimeClockStore } from '../../stores/timeClockStore';
+import { describeJob, jobKey } from '../../lib/job-costing';
 
 interface ReportData {
   total_hours: number;
@@ -26,11 +28,22 @@ export default function ReportsScreen() {
   const [dateRange, setDateRange] = useState<DateRange>('week');
   const [reportData, setReportData] = useState<ReportData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const { laborCosts, costCodes, fetchLaborCosts, fetchCostCodes } = useTimeClockStore();
 
   useEffect(() => {
     fetchReportData();
+    fetchLaborCosts({ range: dateRange });
   }, [dateRange]);
 
+  useEffect(() => {
+    fetchCostCodes();
+  }, []);
+
+  const totalLaborCost = laborCosts.reduce((sum, row) => sum + row.cost, 0);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
   const fetchReportData = async () => {
     setIsLoading(true);
     try {
@@ -118,6 +131,27 @@ export default function ReportsScreen() {
             </View>
           </View>
 
+          {/* Labor Cost by Job */}
+          <View style={styles.laborCard}>
+            <View style={styles.laborHeader}>
+              <Text style={styles.cardTitle}>Labor Cost by Job</Text>
+              <Text style={styles.laborTotal}>{formatCurrency(totalLaborCost)}</Text>
+            </View>
+            {laborCosts.length === 0 ? (
+              <Text style={styles.laborEmpty}>No time charged to jobs {getRangeLabel().toLowerCase()}</Text>
+            ) : (
+              laborCosts.map((row) => (
+                <View key={jobKey(row.job)} style={styles.laborRow}>
+                  <Text style={styles.laborJob} numberOfLines={1}>
+                    {row.label || describeJob(row.job, { costCodes })}
+                  </Text>
+                  <Text style={styles.laborHours}>{row.hours.toFixed(1)}h</Text>
+                  <Text style={styles.laborCost}>{formatCurrency(row.cost)}</Text>
+                </View>
+              ))
+            )}
+          </View>
+
           {/* Entries Summary */}
           <View style={styles.entriesCard}>
             <Text style={styles.cardTitle}>Time Entries</Text>
@@ -288,6 +322,49 @@ const styles = StyleSheet.create({
     color: '#94A3B8',
     marginTop: 4,
   },
+  laborCard: {
+    backgroundColor: '#1E293B',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  laborHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  laborTotal: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  laborEmpty: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  laborRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#334155',
+    gap: 12,
+  },
+  laborJob: {
+    flex: 1,
+    fontSize: 14,
+    color: '#F8FAFC',
+  },
+  laborHours: {
+    fontSize: 14,
+    color: '#94A3B8',
+  },
+  laborCost: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#F8FAFC',
+    minWidth: 72,
+    textAlign: 'right',
+  },
   entriesCard: {
     backgroundColor: '#1E293B',
     borderRadius: 16,
@@ -6,13 +6,16 @@ import {
   ScrollView,
   TouchableOpacity,
   Switch,
-  Alert,
   Linking,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuthStore } from '../../stores/authStore';
+import { confirmSignOut } from '../../lib/sign-out';
+import { useTimeClockStore } from '../../stores/timeClockStore';
+import { OVERTIME_PRESETS, OVERTIME_PRESET_LABELS, OvertimePreset, OvertimeRules } from '../../lib/overtime';
 
 const WEBAPP_URL = 'https://systemsf1rst.com';
 
@@ -33,12 +36,30 @@ const DEFAULT_SETTINGS: AppSettings = {
 };
 
 export default function SettingsScreen() {
-  const { user, logout } = useAuthStore();
+  const { user } = useAuthStore();
   const [geofenceRequired, setGeofenceRequired] = useState(DEFAULT_SETTINGS.geofenceRequired);
   const [autoApprove, setAutoApprove] = useState(DEFAULT_SETTINGS.autoApprove);
   const [notifications, setNotifications] = useState(DEFAULT_SETTINGS.notifications);
   const [overtimeAlerts, setOvertimeAlerts] = useState(DEFAULT_SETTINGS.overtimeAlerts);
   const [isLoaded, setIsLoaded] = useState(false);
+  const { overtimeRules, fetchOvertimeRules, updateOvertimeRules } = useTimeClockStore();
+  const [rulesDraft, setRulesDraft] = useState<OvertimeRules>(overtimeRules);
+
+  useEffect(() => {
+    fetchOvertimeRules();
+  }, []);
+
+  useEffect(() => {
+    setRulesDraft(overtimeRules);
+  }, [overtimeRules]);
+
+  const rulesChanged = JSON.stringify(rulesDraft) !== JSON.stringify(overtimeRules);
+
+  // Editing a threshold by hand means the rules no longer match a preset
+  const setThreshold = (field: 'weekly_threshold' | 'daily_threshold' | 'double_time_threshold', text: string) => {
+    const hours = parseFloat(text);
+    setRulesDraft({ ...rulesDraft, preset: null, [field]: Number.isNaN(hours) ? null : hours });
+  };
 
   // Load settings from AsyncStorage on mount
   useEffect(() => {
@@ -77,19 +98,7 @@ export default function SettingsScreen() {
     }
   }, [geofenceRequired, autoApprove, notifications, overtimeAlerts, isLoaded, saveSettings]);
 
-  const handleLogout = () => {
-    Alert.alert('Logout', 'Are you sure you want to logout?', [
-      { text: 'Cancel', style: 'cancel' },
-      {
-        text: 'Logout',
-        style: 'destructive',
-        onPress: async () => {
-          await logout();
-          router.replace('/(auth)/login');
-        },
-      },
-    ]);
-  };
+  const handleLogout = () => confirmSignOut();
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
@@ -149,7 +158,7 @@ export default function SettingsScreen() {
           <View style={styles.settingInfo}>
             <Text style={styles.settingLabel}>Overtime Alerts</Text>
             <Text style={styles.settingDescription}>
-              Notify when employees exceed 40 hours/week
+              Notify when employees go into overtime
             </Text>
           </View>
           <Switch
@@ -161,6 +170,67 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      {/* Overtime Rules */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Overtime Rules</Text>
+
+        <View style={styles.presetRow}>
+          {(Object.keys(OVERTIME_PRESETS) as OvertimePreset[]).map((preset) => (
+            <TouchableOpacity
+              key={preset}
+              style={[styles.presetChip, rulesDraft.preset === preset && styles.presetChipActive]}
+              onPress={() => setRulesDraft({ ...OVERTIME_PRESETS[preset], week_starts_on: rulesDraft.week_starts_on })}
+            >
+              <Text style={[styles.presetChipText, rulesDraft.preset === preset && styles.presetChipTextActive]}>
+                {OVERTIME_PRESET_LABELS[preset]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {[
+          { field: 'weekly_threshold' as const, label: 'Weekly Overtime', description: 'Hours per workweek' },
+          { field: 'daily_threshold' as const, label: 'Daily Overtime', description: 'Hours per workday' },
+          { field: 'double_time_threshold' as const, label: 'Daily Double Time', description: 'Hours per workday' },
+        ].map(({ field, label, description }) => (
+          <View key={field} style={styles.settingItem}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>{label}</Text>
+              <Text style={styles.settingDescription}>{description}; leave empty for none</Text>
+            </View>
+            <TextInput
+              style={styles.hoursInput}
+              value={rulesDraft[field]?.toString() ?? ''}
+              onChangeText={(text) => setThreshold(field, text)}
+              keyboardType="decimal-pad"
+              placeholder="—"
+              placeholderTextColor="#64748B"
+            />
+          </View>
+        ))}
+
+        <View style={styles.settingItem}>
+          <View style={styles.settingInfo}>
+            <Text style={styles.settingLabel}>Seventh-Day Rule</Text>
+            <Text style={styles.settingDescription}>
+              7th straight workday: first 8 hours overtime, the rest double time
+            </Text>
+          </View>
+          <Switch
+            value={rulesDraft.seventh_day}
+            onValueChange={(seventhDay) => setRulesDraft({ ...rulesDraft, preset: null, seventh_day: seventhDay })}
+            trackColor={{ false: '#334155', true: '#8B5CF6' }}
+            thumbColor="#F8FAFC"
+          />
+        </View>
+
+        {rulesChanged && (
+          <TouchableOpacity style={styles.saveRulesButton} onPress={() => updateOvertimeRules(rulesDraft)}>
+            <Text style={styles.saveRulesText}>Save Overtime Rules</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
       {/* Notifications */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Notifications</Text>
@@ -181,10 +251,48 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      {/* Security */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Security</Text>
+
+        <TouchableOpacity
+          style={styles.linkItem}
+          onPress={() => router.push('/security')}
+        >
+          <View style={styles.linkIcon}>
+            <Ionicons name="shield-checkmark" size={20} color="#10B981" />
+          </View>
+          <Text style={styles.linkText}>Two-Factor Authentication</Text>
+          <Ionicons name="chevron-forward" size={20} color="#64748B" />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.linkItem}
+          onPress={() => router.push('/devices')}
+        >
+          <View style={styles.linkIcon}>
+            <Ionicons name="phone-portrait" size={20} color="#3B82F6" />
+          </View>
+          <Text style={styles.linkText}>Devices & Sessions</Text>
+          <Ionicons name="chevron-forward" size={20} color="#64748B" />
+        </TouchableOpacity>
+      </View>
+
       {/* Organization */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Organization</Text>
 
+        <TouchableOpacity
+          style={styles.linkItem}
+          onPress={() => router.push('/organizations')}
+        >
+          <View style={styles.linkIcon}>
+            <Ionicons name="swap-horizontal" size={20} color="#3B82F6" />
+          </View>
+          <Text style={styles.linkText}>Switch Organization</Text>
+          <Ionicons name="chevron-forward" size={20} color="#64748B" />
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={styles.linkItem}
           onPress={() => Linking.openURL(`${WEBAPP_URL}/dashboard/settings/company`)}
@@ -363,6 +471,51 @@ const styles = StyleSheet.create({
     color: '#64748B',
     marginTop: 4,
   },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 4,
+  },
+  presetChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#0F172A',
+  },
+  presetChipActive: {
+    backgroundColor: '#8B5CF6',
+  },
+  presetChipText: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  presetChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  hoursInput: {
+    width: 64,
+    backgroundColor: '#0F172A',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    color: '#F8FAFC',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  saveRulesButton: {
+    backgroundColor: '#8B5CF6',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveRulesText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   linkItem: {
     flexDirection: 'row',
     alignItems: 'center',
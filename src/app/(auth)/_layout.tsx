@@ -4,7 +4,11 @@ export default function AuthLayout() {
   return (
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="login" />
+      <Stack.Screen name="two-factor" />
       <Stack.Screen name="forgot-password" />
+      <Stack.Screen name="sso-callback" />
+      <Stack.Screen name="reset-password" />
+      <Stack.Screen name="magic-login" />
     </Stack>
   );
 }
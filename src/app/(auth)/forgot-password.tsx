@@ -42,7 +42,7 @@ export default function ForgotPasswordScreen() {
           <Ionicons name="mail-outline" size={64} color="#8B5CF6" />
           <Text style={styles.title}>Check your email</Text>
           <Text style={styles.message}>
-            We sent a password reset link to {email}
+            We sent a password reset link to {email}. Open it on this device to choose a new password.
           </Text>
           <TouchableOpacity
             style={styles.button}
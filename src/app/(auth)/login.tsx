@@ -13,11 +13,13 @@ import {
 } from 'react-native';
 import { Link, router } from 'expo-router';
 import { useAuthStore } from '../../stores/authStore';
+import { requestMagicLink } from '../../lib/auth-links';
 
 export default function LoginScreen() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const { login, isLoading, error } = useAuthStore();
+  const { login, loginWithSso, isLoading, sessionExpired } = useAuthStore();
+  const [isSendingLink, setIsSendingLink] = useState(false);
 
   const handleLogin = async () => {
     if (!email || !password) {
@@ -25,11 +27,48 @@ export default function LoginScreen() {
       return;
     }
 
-    const success = await login(email, password);
-    if (success) {
+    const result = await login(email, password);
+    if (result === 'authenticated') {
       router.replace('/');
+    } else if (result === 'two_factor_required') {
+      router.push('/(auth)/two-factor');
     } else {
-      Alert.alert('Login Failed', error || 'Invalid credentials');
+      Alert.alert('Login Failed', useAuthStore.getState().error || 'Invalid credentials');
+    }
+  };
+
+  const handleSsoLogin = async () => {
+    if (!email) {
+      Alert.alert('Error', 'Please enter your work email');
+      return;
+    }
+
+    const result = await loginWithSso(email);
+    if (result === 'authenticated') {
+      router.replace('/');
+      return;
+    }
+    // No error means the user closed the sign-in page
+    const error = useAuthStore.getState().error;
+    if (error) {
+      Alert.alert('Sign In Failed', error);
+    }
+  };
+
+  const handleMagicLink = async () => {
+    if (!email) {
+      Alert.alert('Error', 'Please enter your email address');
+      return;
+    }
+
+    setIsSendingLink(true);
+    try {
+      await requestMagicLink(email);
+      Alert.alert('Check your email', `We sent a sign-in link to ${email.trim()}. Open it on this device to sign in.`);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to send sign-in link');
+    } finally {
+      setIsSendingLink(false);
     }
   };
 
@@ -44,6 +83,12 @@ export default function LoginScreen() {
           <Text style={styles.subtitle}>Marketplace</Text>
         </View>
 
+        {sessionExpired && (
+          <View style={styles.notice}>
+            <Text style={styles.noticeText}>Your session has expired. Please sign in again.</Text>
+          </View>
+        )}
+
         <View style={styles.form}>
           <Text style={styles.label}>Email</Text>
           <TextInput
@@ -85,6 +130,32 @@ export default function LoginScreen() {
               <Text style={styles.buttonText}>Sign In</Text>
             )}
           </TouchableOpacity>
+
+          <View style={styles.divider}>
+            <View style={styles.dividerLine} />
+            <Text style={styles.dividerText}>or</Text>
+            <View style={styles.dividerLine} />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.ssoButton, isLoading && styles.buttonDisabled]}
+            onPress={handleSsoLogin}
+            disabled={isLoading}
+          >
+            <Text style={styles.ssoButtonText}>Sign in with your company</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.magicLink}
+            onPress={handleMagicLink}
+            disabled={isLoading || isSendingLink}
+          >
+            {isSendingLink ? (
+              <ActivityIndicator color="#8B5CF6" />
+            ) : (
+              <Text style={styles.magicLinkText}>Email me a sign-in link instead</Text>
+            )}
+          </TouchableOpacity>
         </View>
 
         <View style={styles.footer}>
@@ -119,6 +190,17 @@ const styles = StyleSheet.create({
     color: '#94A3B8',
     marginTop: 4,
   },
+  notice: {
+    backgroundColor: '#F59E0B20',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 24,
+  },
+  noticeText: {
+    color: '#F59E0B',
+    fontSize: 14,
+    textAlign: 'center',
+  },
   form: {
     width: '100%',
   },
@@ -160,6 +242,42 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  divider: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 20,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#334155',
+  },
+  dividerText: {
+    color: '#64748B',
+    fontSize: 12,
+    marginHorizontal: 12,
+  },
+  ssoButton: {
+    borderWidth: 1,
+    borderColor: '#8B5CF6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  ssoButtonText: {
+    color: '#8B5CF6',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  magicLink: {
+    alignItems: 'center',
+    padding: 12,
+    marginTop: 8,
+  },
+  magicLinkText: {
+    color: '#94A3B8',
+    fontSize: 14,
+  },
   footer: {
     marginTop: 48,
     alignItems: 'center',
@@ -0,0 +1,129 @@
+// Magic Login - Opened from a sign-in email (systemsf1rst://magic-login?token=...)
+// Signs in as soon as it opens; the token can only be used once.
+import { useEffect, useRef } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, SafeAreaView, ActivityIndicator } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore } from '../../stores/authStore';
+import { LINK_TOKEN_MESSAGES } from '../../lib/auth-links';
+
+export default function MagicLoginScreen() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const { loginWithMagicLink, isLoading, error, linkError } = useAuthStore();
+  const attempted = useRef(false);
+
+  const signIn = async () => {
+    if (!token) return;
+    const result = await loginWithMagicLink(token);
+    if (result === 'authenticated') {
+      router.replace('/');
+    } else if (result === 'two_factor_required') {
+      router.replace('/(auth)/two-factor');
+    }
+  };
+
+  useEffect(() => {
+    // Already signed in on this device; a second attempt would only burn the token
+    if (useAuthStore.getState().isAuthenticated) {
+      router.replace('/');
+      return;
+    }
+    if (!attempted.current) {
+      attempted.current = true;
+      signIn();
+    }
+  }, []);
+
+  if (token && (isLoading || !attempted.current)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color="#8B5CF6" />
+          <Text style={styles.message}>Signing you in…</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Anything but a refused token (e.g. offline) is worth retrying with the same link
+  const canRetry = !!token && !!error && !linkError;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Ionicons
+          name={linkError === 'expired' ? 'time-outline' : canRetry ? 'cloud-offline-outline' : 'alert-circle-outline'}
+          size={64}
+          color={canRetry ? '#64748B' : '#F59E0B'}
+        />
+        <Text style={styles.title}>
+          {canRetry ? "Couldn't sign you in" : linkError === 'expired' ? 'Link expired' : "Link can't be used"}
+        </Text>
+        <Text style={styles.message}>{token ? error : LINK_TOKEN_MESSAGES.invalid}</Text>
+
+        {canRetry && (
+          <TouchableOpacity style={styles.button} onPress={signIn}>
+            <Text style={styles.buttonText}>Try Again</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={canRetry ? styles.secondaryButton : styles.button}
+          onPress={() => router.replace('/(auth)/login')}
+        >
+          <Text style={canRetry ? styles.secondaryButtonText : styles.buttonText}>
+            {canRetry ? 'Back to Login' : 'Request a New Link'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F172A',
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#F8FAFC',
+    marginBottom: 12,
+    marginTop: 24,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    color: '#94A3B8',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  button: {
+    width: '100%',
+    backgroundColor: '#8B5CF6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    padding: 16,
+    marginTop: 4,
+  },
+  secondaryButtonText: {
+    color: '#8B5CF6',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,323 @@
+// Reset Password - Opened from the reset email (systemsf1rst://reset-password?token=...)
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  validateResetToken,
+  resetPassword,
+  checkPassword,
+  getLinkTokenError,
+  LinkTokenError,
+  LINK_TOKEN_MESSAGES,
+  PASSWORD_RULES,
+  PasswordStrength,
+} from '../../lib/auth-links';
+
+type ScreenState = 'checking' | 'ready' | 'done' | 'unreachable' | LinkTokenError;
+
+const STRENGTH_COLORS: Record<PasswordStrength, string> = {
+  weak: '#EF4444',
+  fair: '#F59E0B',
+  good: '#10B981',
+  strong: '#10B981',
+};
+
+const STRENGTH_LEVELS: PasswordStrength[] = ['weak', 'fair', 'good', 'strong'];
+
+export default function ResetPasswordScreen() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const [state, setState] = useState<ScreenState>(token ? 'checking' : 'invalid');
+  const [email, setEmail] = useState<string | undefined>();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const check = checkPassword(password);
+  const matches = password.length > 0 && password === confirmation;
+
+  const validate = async () => {
+    if (!token) return;
+    setState('checking');
+    try {
+      const result = await validateResetToken(token);
+      setEmail(result.email);
+      setState('ready');
+    } catch (error) {
+      setState(getLinkTokenError(error) ?? 'unreachable');
+    }
+  };
+
+  useEffect(() => {
+    validate();
+  }, [token]);
+
+  const handleSubmit = async () => {
+    if (!token || !check.valid || !matches) return;
+
+    setIsSaving(true);
+    try {
+      await resetPassword(token, password);
+      setState('done');
+    } catch (error: any) {
+      // Rules the backend added since this build shipped come back as a field error
+      const passwordError = error.response?.data?.errors?.password?.[0];
+      const linkError = passwordError ? null : getLinkTokenError(error);
+      if (linkError) {
+        setState(linkError);
+      } else {
+        Alert.alert('Error', passwordError || error.response?.data?.message || 'Failed to reset password');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (state === 'checking') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#8B5CF6" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (state === 'done') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Ionicons name="checkmark-circle-outline" size={64} color="#10B981" />
+          <Text style={styles.title}>Password updated</Text>
+          <Text style={styles.message}>Sign in with your new password.</Text>
+          <TouchableOpacity style={styles.button} onPress={() => router.replace('/(auth)/login')}>
+            <Text style={styles.buttonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (state !== 'ready') {
+    const unreachable = state === 'unreachable';
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Ionicons
+            name={state === 'expired' ? 'time-outline' : unreachable ? 'cloud-offline-outline' : 'alert-circle-outline'}
+            size={64}
+            color={unreachable ? '#64748B' : '#F59E0B'}
+          />
+          <Text style={styles.title}>
+            {unreachable ? "Couldn't check this link" : state === 'expired' ? 'Link expired' : "Link can't be used"}
+          </Text>
+          <Text style={styles.message}>
+            {unreachable ? 'Check your connection and try again.' : LINK_TOKEN_MESSAGES[state]}
+          </Text>
+          {unreachable ? (
+            <TouchableOpacity style={styles.button} onPress={validate}>
+              <Text style={styles.buttonText}>Try Again</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={styles.button} onPress={() => router.replace('/(auth)/forgot-password')}>
+              <Text style={styles.buttonText}>Send a New Link</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/(auth)/login')}>
+            <Text style={styles.secondaryButtonText}>Back to Login</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const strengthLevel = password ? STRENGTH_LEVELS.indexOf(check.strength) + 1 : 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Text style={styles.title}>Choose a new password</Text>
+        {email && <Text style={styles.message}>for {email}</Text>}
+
+        <TextInput
+          style={styles.input}
+          placeholder="New password"
+          placeholderTextColor="#9CA3AF"
+          value={password}
+          onChangeText={setPassword}
+          secureTextEntry
+          autoComplete="password-new"
+          textContentType="newPassword"
+        />
+
+        {/* Strength meter */}
+        <View style={styles.strengthRow}>
+          {STRENGTH_LEVELS.map((level, index) => (
+            <View
+              key={level}
+              style={[
+                styles.strengthSegment,
+                index < strengthLevel && { backgroundColor: STRENGTH_COLORS[check.strength] },
+              ]}
+            />
+          ))}
+        </View>
+        {password.length > 0 && (
+          <Text style={[styles.strengthLabel, { color: STRENGTH_COLORS[check.strength] }]}>
+            {check.strength.charAt(0).toUpperCase() + check.strength.slice(1)}
+          </Text>
+        )}
+
+        <View style={styles.rules}>
+          {PASSWORD_RULES.map((rule) => {
+            const met = !check.failed.includes(rule.id);
+            return (
+              <View key={rule.id} style={styles.rule}>
+                <Ionicons
+                  name={met ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={16}
+                  color={met ? '#10B981' : '#64748B'}
+                />
+                <Text style={[styles.ruleText, met && styles.ruleTextMet]}>{rule.label}</Text>
+              </View>
+            );
+          })}
+        </View>
+
+        <TextInput
+          style={styles.input}
+          placeholder="Confirm new password"
+          placeholderTextColor="#9CA3AF"
+          value={confirmation}
+          onChangeText={setConfirmation}
+          secureTextEntry
+          autoComplete="password-new"
+          textContentType="newPassword"
+        />
+        {confirmation.length > 0 && !matches && <Text style={styles.mismatch}>Passwords don't match</Text>}
+
+        <TouchableOpacity
+          style={[styles.button, (!check.valid || !matches || isSaving) && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={!check.valid || !matches || isSaving}
+        >
+          {isSaving ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Reset Password</Text>}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F172A',
+  },
+  centered: {
+    flex: 1,
+    padding: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+    paddingTop: 48,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#F8FAFC',
+    marginBottom: 12,
+    marginTop: 24,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    color: '#94A3B8',
+    textAlign: 'center',
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  input: {
+    width: '100%',
+    backgroundColor: '#1E293B',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#F8FAFC',
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  strengthRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  strengthSegment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#334155',
+  },
+  strengthLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  rules: {
+    marginTop: 12,
+    marginBottom: 20,
+    gap: 6,
+  },
+  rule: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  ruleText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  ruleTextMet: {
+    color: '#E2E8F0',
+  },
+  mismatch: {
+    color: '#EF4444',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  button: {
+    width: '100%',
+    backgroundColor: '#8B5CF6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    padding: 16,
+    marginTop: 4,
+  },
+  secondaryButtonText: {
+    color: '#8B5CF6',
+    fontSize: 16,
+  },
+});
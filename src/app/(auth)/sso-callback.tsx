@@ -0,0 +1,33 @@
+// SSO Callback - Target of the identity provider's redirect (systemsf1rst://sso-callback)
+// The browser session in lib/sso reads the code from the redirect itself; on
+// Android the redirect also opens this route, which just hands back to login.
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { Redirect } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import { useAuthStore } from '../../stores/authStore';
+
+// Closes the popup when signing in on web
+WebBrowser.maybeCompleteAuthSession();
+
+export default function SsoCallbackScreen() {
+  const { isAuthenticated, isLoading } = useAuthStore();
+
+  if (!isLoading) {
+    return <Redirect href={isAuthenticated ? '/' : '/(auth)/login'} />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <ActivityIndicator size="large" color="#8B5CF6" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F172A',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  Switch,
+  Alert,
+} from 'react-native';
+import { Redirect, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore, TwoFactorMethod, REMEMBER_DEVICE_DAYS } from '../../stores/authStore';
+
+const METHOD_LABELS: Record<TwoFactorMethod, string> = {
+  totp: 'Authenticator',
+  sms: 'Text message',
+  recovery: 'Recovery code',
+};
+
+export default function TwoFactorScreen() {
+  const { twoFactorChallenge, verifyTwoFactor, sendTwoFactorCode, cancelTwoFactor, isLoading, error } =
+    useAuthStore();
+  const [method, setMethod] = useState<TwoFactorMethod>(twoFactorChallenge?.methods[0] ?? 'totp');
+  const [code, setCode] = useState('');
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+
+  if (!twoFactorChallenge) {
+    return <Redirect href="/(auth)/login" />;
+  }
+
+  const isRecovery = method === 'recovery';
+
+  const handleVerify = async () => {
+    if (!code.trim()) {
+      Alert.alert('Error', 'Please enter your verification code');
+      return;
+    }
+
+    const success = await verifyTwoFactor(code, method, rememberDevice);
+    if (success) {
+      router.replace('/');
+    } else {
+      setCode('');
+    }
+  };
+
+  const handleSendCode = async () => {
+    if (await sendTwoFactorCode()) {
+      setCodeSent(true);
+    }
+  };
+
+  const handleChangeMethod = (next: TwoFactorMethod) => {
+    setMethod(next);
+    setCode('');
+  };
+
+  const handleCancel = () => {
+    cancelTwoFactor();
+    router.back();
+  };
+
+  const getPrompt = () => {
+    if (method === 'totp') return 'Enter the 6-digit code from your authenticator app.';
+    if (method === 'sms') {
+      return codeSent
+        ? `We sent a code to ${twoFactorChallenge.phoneHint || 'your phone'}.`
+        : `We'll text a code to ${twoFactorChallenge.phoneHint || 'your phone'}.`;
+    }
+    return 'Enter one of the recovery codes you saved when you set up two-factor authentication.';
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.content}
+      >
+        <TouchableOpacity style={styles.backButton} onPress={handleCancel}>
+          <Ionicons name="arrow-back" size={24} color="#E2E8F0" />
+        </TouchableOpacity>
+
+        <Ionicons name="shield-checkmark-outline" size={64} color="#8B5CF6" style={styles.icon} />
+        <Text style={styles.title}>Two-Factor Authentication</Text>
+        <Text style={styles.message}>{getPrompt()}</Text>
+
+        {twoFactorChallenge.methods.length > 1 && (
+          <View style={styles.methods}>
+            {twoFactorChallenge.methods.map((m) => (
+              <TouchableOpacity
+                key={m}
+                style={[styles.methodChip, method === m && styles.methodChipActive]}
+                onPress={() => handleChangeMethod(m)}
+              >
+                <Text style={[styles.methodText, method === m && styles.methodTextActive]}>
+                  {METHOD_LABELS[m]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {method === 'sms' && (
+          <TouchableOpacity style={styles.sendCode} onPress={handleSendCode}>
+            <Text style={styles.linkText}>{codeSent ? 'Resend code' : 'Send code'}</Text>
+          </TouchableOpacity>
+        )}
+
+        <TextInput
+          style={[styles.input, !isRecovery && styles.codeInput]}
+          placeholder={isRecovery ? 'xxxxx-xxxxx' : '000000'}
+          placeholderTextColor="#9CA3AF"
+          value={code}
+          onChangeText={setCode}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType={isRecovery ? 'default' : 'number-pad'}
+          textContentType="oneTimeCode"
+          autoComplete={isRecovery ? 'off' : 'sms-otp'}
+          maxLength={isRecovery ? 32 : 6}
+        />
+
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <View style={styles.rememberRow}>
+          <Text style={styles.rememberText}>Remember this device for {REMEMBER_DEVICE_DAYS} days</Text>
+          <Switch
+            value={rememberDevice}
+            onValueChange={setRememberDevice}
+            trackColor={{ false: '#334155', true: '#8B5CF6' }}
+            thumbColor="#fff"
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.button, isLoading && styles.buttonDisabled]}
+          onPress={handleVerify}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Verify</Text>
+          )}
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F172A',
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+    paddingTop: 48,
+    alignItems: 'center',
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 32,
+  },
+  icon: {
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#F8FAFC',
+    marginBottom: 12,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    color: '#94A3B8',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 24,
+  },
+  methods: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  methodChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#1E293B',
+    borderWidth: 1,
+    borderColor: '#334155',
+    margin: 4,
+  },
+  methodChipActive: {
+    backgroundColor: '#8B5CF620',
+    borderColor: '#8B5CF6',
+  },
+  methodText: {
+    color: '#94A3B8',
+    fontSize: 14,
+  },
+  methodTextActive: {
+    color: '#8B5CF6',
+    fontWeight: '600',
+  },
+  sendCode: {
+    marginBottom: 16,
+  },
+  linkText: {
+    color: '#8B5CF6',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  input: {
+    width: '100%',
+    backgroundColor: '#1E293B',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#F8FAFC',
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  codeInput: {
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  error: {
+    color: '#EF4444',
+    fontSize: 14,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  rememberRow: {
+    width: '100%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  rememberText: {
+    flex: 1,
+    color: '#E2E8F0',
+    fontSize: 14,
+    marginRight: 12,
+  },
+  button: {
+    width: '100%',
+    backgroundColor: '#8B5CF6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
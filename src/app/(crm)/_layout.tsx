@@ -1,7 +1,17 @@
-import { Tabs } from 'expo-router';
+import { Tabs, Redirect, useSegments } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore } from '../../stores/authStore';
+import { guardRoute, tabHref } from '../../lib/permissions';
 
 export default function CrmLayout() {
+  const { user } = useAuthStore();
+  const segments = useSegments();
+
+  const redirect = guardRoute(user, segments);
+  if (redirect) {
+    return <Redirect href={redirect} />;
+  }
+
   return (
     <Tabs
       screenOptions={{
@@ -118,6 +128,27 @@ export default function CrmLayout() {
           href: null,
         }}
       />
+      <Tabs.Screen
+        name="employee-detail"
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="vault-item"
+        options={{
+          href: null,
+        }}
+      />
+      {/* Shown only to users allowed to open them */}
+      <Tabs.Screen
+        name="employees"
+        options={tabHref(user, '(crm)/employees')}
+      />
+      <Tabs.Screen
+        name="vault"
+        options={tabHref(user, '(crm)/vault')}
+      />
     </Tabs>
   );
 }
@@ -5,9 +5,12 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useOrchestraStore, PendingApproval } from '../../stores/orchestra-store';
+import { useCan } from '../../hooks/useCan';
 
 export default function ApprovalsScreen() {
   const router = useRouter();
+  const can = useCan();
+  const canApprove = can('agent.approve');
   const [refreshing, setRefreshing] = useState(false);
   const [processingId, setProcessingId] = useState<string | null>(null);
 
@@ -164,28 +167,30 @@ export default function ApprovalsScreen() {
           )}
 
           {/* Actions */}
-          <View style={styles.actions}>
-            {isProcessing ? (
-              <ActivityIndicator color="#8B5CF6" />
-            ) : (
-              <>
-                <TouchableOpacity
-                  style={[styles.actionBtn, styles.rejectBtn]}
-                  onPress={() => handleReject(item)}
-                >
-                  <Ionicons name="close" size={18} color="#EF4444" />
-                  <Text style={styles.rejectBtnText}>Reject</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.actionBtn, styles.approveBtn]}
-                  onPress={() => handleApprove(item)}
-                >
-                  <Ionicons name="checkmark" size={18} color="#FFFFFF" />
-                  <Text style={styles.approveBtnText}>Approve</Text>
-                </TouchableOpacity>
-              </>
-            )}
-          </View>
+          {canApprove && (
+            <View style={styles.actions}>
+              {isProcessing ? (
+                <ActivityIndicator color="#8B5CF6" />
+              ) : (
+                <>
+                  <TouchableOpacity
+                    style={[styles.actionBtn, styles.rejectBtn]}
+                    onPress={() => handleReject(item)}
+                  >
+                    <Ionicons name="close" size={18} color="#EF4444" />
+                    <Text style={styles.rejectBtnText}>Reject</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionBtn, styles.approveBtn]}
+                    onPress={() => handleApprove(item)}
+                  >
+                    <Ionicons name="checkmark" size={18} color="#FFFFFF" />
+                    <Text style={styles.approveBtnText}>Approve</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          )}
         </View>
       </View>
     );
@@ -202,7 +207,7 @@ export default function ApprovalsScreen() {
           <Text style={styles.headerTitle}>Pending Approvals</Text>
           <Text style={styles.headerSubtitle}>{pendingApprovals.length} actions waiting</Text>
         </View>
-        {pendingApprovals.length > 1 && (
+        {canApprove && pendingApprovals.length > 1 && (
           <TouchableOpacity style={styles.approveAllBtn} onPress={handleApproveAll}>
             <Text style={styles.approveAllText}>Approve All</Text>
           </TouchableOpacity>
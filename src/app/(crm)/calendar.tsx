@@ -5,6 +5,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useCalendarStore, CalendarEvent } from '../../stores/calendarStore';
+import { syncEntity } from '../../lib/sync-engine';
 
 const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
@@ -33,7 +34,7 @@ export default function CalendarScreen() {
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchMonthEvents(selectedDate);
+    await syncEntity('events');
     setRefreshing(false);
   };
 
@@ -15,7 +15,7 @@ const STATUS_FILTERS = [
 
 export default function CallHistoryScreen() {
   const router = useRouter();
-  const { calls, callsLoading, fetchCalls } = useCallerStore();
+  const { calls, callsLoading, callsLoadingMore, fetchCalls, loadMoreCalls } = useCallerStore();
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -158,7 +158,7 @@ export default function CallHistoryScreen() {
       </View>
 
       {/* Calls List */}
-      {callsLoading && !refreshing ? (
+      {callsLoading && !refreshing && calls.length === 0 ? (
         <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />
       ) : filteredCalls.length === 0 ? (
         <View style={styles.emptyState}>
@@ -181,6 +181,11 @@ export default function CallHistoryScreen() {
             </View>
           )}
           contentContainerStyle={styles.listContainer}
+          onEndReached={loadMoreCalls}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            callsLoadingMore ? <ActivityIndicator color="#8B5CF6" style={styles.footerLoader} /> : null
+          }
           refreshControl={
             <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#8B5CF6" />
           }
@@ -213,6 +218,7 @@ const styles = StyleSheet.create({
   filterTextActive: { color: '#FFFFFF' },
 
   loader: { flex: 1, justifyContent: 'center' },
+  footerLoader: { paddingVertical: 16 },
   emptyState: { flex: 1, alignItems: 'center', justifyContent: 'center', paddingVertical: 60 },
   emptyText: { fontSize: 18, color: '#FFFFFF', marginTop: 16 },
   emptySubtext: { fontSize: 14, color: '#64748B', marginTop: 4 },
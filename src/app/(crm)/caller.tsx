@@ -205,7 +205,7 @@ export default function CallerScreen() {
         </TouchableOpacity>
       </View>
 
-      {callsLoading ? (
+      {callsLoading && calls.length === 0 ? (
         <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />
       ) : calls.length === 0 ? (
         <View style={styles.emptyState}>
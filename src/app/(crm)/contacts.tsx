@@ -1,15 +1,22 @@
 // Contacts Management Screen
 import { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator, Linking } from 'react-native';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator, Linking, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useCrmStore, Contact } from '../../stores/crmStore';
+import { isApiError } from '../../lib/api-client';
+import { syncEntity } from '../../lib/sync-engine';
 
 export default function ContactsScreen() {
-  const { contacts, contactsLoading, fetchContacts, createContact, updateContact, deleteContact } = useCrmStore();
+  const {
+    contacts, contactsLoading, contactsLoadingMore,
+    loadMoreContacts, createContact, updateContact, deleteContact,
+  } = useCrmStore();
   const [searchQuery, setSearchQuery] = useState('');
+  const [refreshing, setRefreshing] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingContact, setEditingContact] = useState<Contact | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -20,9 +27,15 @@ export default function ContactsScreen() {
   });
 
   useEffect(() => {
-    fetchContacts();
+    syncEntity('contacts');
   }, []);
 
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await syncEntity('contacts');
+    setRefreshing(false);
+  };
+
   const filteredContacts = contacts.filter(contact =>
     contact.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     contact.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -32,6 +45,7 @@ export default function ContactsScreen() {
   const openAddModal = () => {
     setEditingContact(null);
     setFormData({ name: '', email: '', phone: '', company: '', title: '', notes: '' });
+    setFieldErrors({});
     setModalVisible(true);
   };
 
@@ -45,6 +59,7 @@ export default function ContactsScreen() {
       title: contact.title || '',
       notes: contact.notes || '',
     });
+    setFieldErrors({});
     setModalVisible(true);
   };
 
@@ -61,7 +76,10 @@ export default function ContactsScreen() {
       }
       setModalVisible(false);
     } catch (error: any) {
-      Alert.alert('Error', error.message);
+      if (isApiError(error) && error.isValidationError) {
+        setFieldErrors(error.fieldErrors);
+      }
+      // Other failures are rolled back and shown as a toast by the store
     }
   };
 
@@ -85,7 +103,7 @@ export default function ContactsScreen() {
   };
 
   const renderContact = ({ item }: { item: Contact }) => (
-    <TouchableOpacity style={styles.contactCard} onPress={() => openEditModal(item)}>
+    <TouchableOpacity style={[styles.contactCard, item.pending && styles.pending]} onPress={() => openEditModal(item)}>
       <View style={styles.contactAvatar}>
         <Text style={styles.avatarText}>{item.name.charAt(0).toUpperCase()}</Text>
       </View>
@@ -163,7 +181,7 @@ export default function ContactsScreen() {
       </View>
 
       {/* List */}
-      {contactsLoading ? (
+      {contactsLoading && contacts.length === 0 ? (
         <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />
       ) : (
         <FlatList
@@ -176,6 +194,12 @@ export default function ContactsScreen() {
             </View>
           )}
           contentContainerStyle={styles.listContainer}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#8B5CF6" />}
+          onEndReached={loadMoreContacts}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            contactsLoadingMore ? <ActivityIndicator color="#8B5CF6" style={styles.footerLoader} /> : null
+          }
           ListEmptyComponent={
             <Text style={styles.emptyText}>No contacts found</Text>
           }
@@ -200,6 +224,7 @@ export default function ContactsScreen() {
               value={formData.name}
               onChangeText={(text) => setFormData({ ...formData, name: text })}
             />
+            {fieldErrors.name && <Text style={styles.fieldError}>{fieldErrors.name}</Text>}
             <TextInput
               style={styles.input}
               placeholder="Email *"
@@ -209,6 +234,7 @@ export default function ContactsScreen() {
               value={formData.email}
               onChangeText={(text) => setFormData({ ...formData, email: text })}
             />
+            {fieldErrors.email && <Text style={styles.fieldError}>{fieldErrors.email}</Text>}
             <TextInput
               style={styles.input}
               placeholder="Phone"
@@ -217,6 +243,7 @@ export default function ContactsScreen() {
               value={formData.phone}
               onChangeText={(text) => setFormData({ ...formData, phone: text })}
             />
+            {fieldErrors.phone && <Text style={styles.fieldError}>{fieldErrors.phone}</Text>}
             <TextInput
               style={styles.input}
               placeholder="Company"
@@ -224,6 +251,7 @@ export default function ContactsScreen() {
               value={formData.company}
               onChangeText={(text) => setFormData({ ...formData, company: text })}
             />
+            {fieldErrors.company && <Text style={styles.fieldError}>{fieldErrors.company}</Text>}
             <TextInput
               style={styles.input}
               placeholder="Title"
@@ -231,6 +259,7 @@ export default function ContactsScreen() {
               value={formData.title}
               onChangeText={(text) => setFormData({ ...formData, title: text })}
             />
+            {fieldErrors.title && <Text style={styles.fieldError}>{fieldErrors.title}</Text>}
             <TextInput
               style={[styles.input, styles.textArea]}
               placeholder="Notes"
@@ -240,6 +269,7 @@ export default function ContactsScreen() {
               value={formData.notes}
               onChangeText={(text) => setFormData({ ...formData, notes: text })}
             />
+            {fieldErrors.notes && <Text style={styles.fieldError}>{fieldErrors.notes}</Text>}
 
             <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
               <Text style={styles.saveButtonText}>{editingContact ? 'Update' : 'Create'} Contact</Text>
@@ -263,9 +293,11 @@ const styles = StyleSheet.create({
   statValue: { color: '#FFFFFF', fontSize: 18, fontWeight: '600', marginHorizontal: 8 },
   statLabel: { color: '#94A3B8', fontSize: 14 },
   loader: { flex: 1, justifyContent: 'center' },
+  footerLoader: { paddingVertical: 16 },
   listContainer: { paddingHorizontal: 20, paddingBottom: 20 },
   sectionHeader: { fontSize: 14, fontWeight: '600', color: '#8B5CF6', marginTop: 16, marginBottom: 8 },
   contactCard: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#1E293B', borderRadius: 12, padding: 12, marginBottom: 8 },
+  pending: { opacity: 0.6 },
   contactAvatar: { width: 48, height: 48, borderRadius: 24, backgroundColor: '#10B981', alignItems: 'center', justifyContent: 'center' },
   avatarText: { fontSize: 20, fontWeight: '600', color: '#FFFFFF' },
   contactInfo: { flex: 1, marginLeft: 12 },
@@ -281,6 +313,7 @@ const styles = StyleSheet.create({
   modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 20 },
   modalTitle: { fontSize: 20, fontWeight: '600', color: '#FFFFFF' },
   input: { backgroundColor: '#0F172A', borderRadius: 12, padding: 16, color: '#FFFFFF', fontSize: 16, marginBottom: 12 },
+  fieldError: { color: '#EF4444', fontSize: 12, marginTop: -8, marginBottom: 12, marginLeft: 4 },
   textArea: { height: 100, textAlignVertical: 'top' },
   saveButton: { backgroundColor: '#10B981', borderRadius: 12, padding: 16, alignItems: 'center', marginTop: 8 },
   saveButtonText: { color: '#FFFFFF', fontSize: 16, fontWeight: '600' },
@@ -1,9 +1,11 @@
 // Deals Pipeline Screen
 import { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator, ScrollView, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useCrmStore, Deal, Contact } from '../../stores/crmStore';
+import { isApiError } from '../../lib/api-client';
+import { syncEntity, syncEntities } from '../../lib/sync-engine';
 
 const STAGES = [
   { id: 'lead', name: 'Lead', color: '#64748B' },
@@ -15,8 +17,9 @@ const STAGES = [
 ];
 
 export default function DealsScreen() {
-  const { deals, dealsLoading, contacts, fetchDeals, fetchContacts, createDeal, updateDeal, deleteDeal, moveDealStage } = useCrmStore();
+  const { deals, dealsLoading, contacts, createDeal, updateDeal, deleteDeal, moveDealStage } = useCrmStore();
   const [selectedStage, setSelectedStage] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingDeal, setEditingDeal] = useState<Deal | null>(null);
   const [formData, setFormData] = useState({
@@ -30,10 +33,15 @@ export default function DealsScreen() {
   });
 
   useEffect(() => {
-    fetchDeals();
-    fetchContacts();
+    syncEntities(['deals', 'contacts']);
   }, []);
 
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await syncEntity('deals');
+    setRefreshing(false);
+  };
+
   const filteredDeals = selectedStage
     ? deals.filter(d => d.stage === selectedStage)
     : deals;
@@ -91,7 +99,10 @@ export default function DealsScreen() {
       }
       setModalVisible(false);
     } catch (error: any) {
-      Alert.alert('Error', error.message);
+      // Other failures are rolled back and shown as a toast by the store
+      if (isApiError(error) && error.isValidationError) {
+        Alert.alert('Error', error.message);
+      }
     }
   };
 
@@ -120,7 +131,7 @@ export default function DealsScreen() {
   const getStageColor = (stageId: string) => STAGES.find(s => s.id === stageId)?.color || '#64748B';
 
   const renderDeal = ({ item }: { item: Deal }) => (
-    <TouchableOpacity style={styles.dealCard} onPress={() => openEditModal(item)}>
+    <TouchableOpacity style={[styles.dealCard, item.pending && styles.pending]} onPress={() => openEditModal(item)}>
       <View style={styles.dealHeader}>
         <View style={[styles.stageIndicator, { backgroundColor: getStageColor(item.stage) }]} />
         <Text style={styles.dealName} numberOfLines={1}>{item.name}</Text>
@@ -187,7 +198,7 @@ export default function DealsScreen() {
       </ScrollView>
 
       {/* Deals List */}
-      {dealsLoading ? (
+      {dealsLoading && deals.length === 0 ? (
         <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />
       ) : (
         <FlatList
@@ -197,6 +208,7 @@ export default function DealsScreen() {
           numColumns={2}
           columnWrapperStyle={styles.row}
           contentContainerStyle={styles.listContainer}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#8B5CF6" />}
           ListEmptyComponent={
             <Text style={styles.emptyText}>No deals found</Text>
           }
@@ -325,6 +337,7 @@ const styles = StyleSheet.create({
   listContainer: { paddingHorizontal: 15, paddingBottom: 20 },
   row: { justifyContent: 'space-between' },
   dealCard: { width: '48%', backgroundColor: '#1E293B', borderRadius: 12, padding: 14, marginBottom: 10, marginHorizontal: '1%' },
+  pending: { opacity: 0.6 },
   dealHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
   stageIndicator: { width: 4, height: 20, borderRadius: 2, marginRight: 8 },
   dealName: { flex: 1, fontSize: 15, fontWeight: '600', color: '#FFFFFF' },
@@ -183,7 +183,7 @@ export default function EmployeesScreen() {
       </View>
 
       {/* Employee List */}
-      {employeesLoading ? (
+      {employeesLoading && employees.length === 0 ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#8B5CF6" />
         </View>
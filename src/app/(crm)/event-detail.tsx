@@ -6,6 +6,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useCalendarStore, CalendarEvent, CreateEventParams } from '../../stores/calendarStore';
 import { useCrmStore } from '../../stores/crmStore';
+import { isApiError } from '../../lib/api-client';
 
 const REMINDER_OPTIONS = [
   { label: 'None', value: 0 },
@@ -129,7 +130,10 @@ export default function EventDetailScreen() {
 
       router.back();
     } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to save event');
+      // Other failures are rolled back and shown as a toast by the store
+      if (isApiError(error) && error.isValidationError) {
+        Alert.alert('Error', error.message);
+      }
     }
     setSaving(false);
   };
@@ -149,8 +153,8 @@ export default function EventDetailScreen() {
             try {
               await deleteEvent(event.id);
               router.back();
-            } catch (error: any) {
-              Alert.alert('Error', error.message || 'Failed to delete event');
+            } catch {
+              // Rolled back and shown as a toast by the store
             }
           },
         },
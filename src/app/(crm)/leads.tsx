@@ -1,16 +1,23 @@
 // Leads Management Screen
 import { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useCrmStore, Lead } from '../../stores/crmStore';
+import { isApiError } from '../../lib/api-client';
+import { syncEntity } from '../../lib/sync-engine';
 
 export default function LeadsScreen() {
-  const { leads, leadsLoading, fetchLeads, createLead, updateLead, deleteLead } = useCrmStore();
+  const {
+    leads, leadsLoading, leadsLoadingMore,
+    loadMoreLeads, createLead, updateLead, deleteLead,
+  } = useCrmStore();
   const [searchQuery, setSearchQuery] = useState('');
+  const [refreshing, setRefreshing] = useState(false);
   const [filterStatus, setFilterStatus] = useState<string | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -21,9 +28,15 @@ export default function LeadsScreen() {
   });
 
   useEffect(() => {
-    fetchLeads();
+    syncEntity('leads');
   }, []);
 
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await syncEntity('leads');
+    setRefreshing(false);
+  };
+
   const filteredLeads = leads.filter(lead => {
     const matchesSearch = lead.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       lead.email.toLowerCase().includes(searchQuery.toLowerCase());
@@ -34,6 +47,7 @@ export default function LeadsScreen() {
   const openAddModal = () => {
     setEditingLead(null);
     setFormData({ name: '', email: '', phone: '', company: '', status: 'new', notes: '' });
+    setFieldErrors({});
     setModalVisible(true);
   };
 
@@ -47,6 +61,7 @@ export default function LeadsScreen() {
       status: lead.status,
       notes: lead.notes || '',
     });
+    setFieldErrors({});
     setModalVisible(true);
   };
 
@@ -63,7 +78,10 @@ export default function LeadsScreen() {
       }
       setModalVisible(false);
     } catch (error: any) {
-      Alert.alert('Error', error.message);
+      if (isApiError(error) && error.isValidationError) {
+        setFieldErrors(error.fieldErrors);
+      }
+      // Other failures are rolled back and shown as a toast by the store
     }
   };
 
@@ -81,7 +99,7 @@ export default function LeadsScreen() {
   const statuses = ['new', 'contacted', 'qualified', 'converted', 'lost'];
 
   const renderLead = ({ item }: { item: Lead }) => (
-    <TouchableOpacity style={styles.leadCard} onPress={() => openEditModal(item)}>
+    <TouchableOpacity style={[styles.leadCard, item.pending && styles.pending]} onPress={() => openEditModal(item)}>
       <View style={styles.leadAvatar}>
         <Text style={styles.avatarText}>{item.name.charAt(0).toUpperCase()}</Text>
       </View>
@@ -143,7 +161,7 @@ export default function LeadsScreen() {
       />
 
       {/* List */}
-      {leadsLoading ? (
+      {leadsLoading && leads.length === 0 ? (
         <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />
       ) : (
         <FlatList
@@ -151,6 +169,12 @@ export default function LeadsScreen() {
           keyExtractor={(item) => item.id.toString()}
           renderItem={renderLead}
           contentContainerStyle={styles.listContainer}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#8B5CF6" />}
+          onEndReached={loadMoreLeads}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            leadsLoadingMore ? <ActivityIndicator color="#8B5CF6" style={styles.footerLoader} /> : null
+          }
           ListEmptyComponent={
             <Text style={styles.emptyText}>No leads found</Text>
           }
@@ -175,6 +199,7 @@ export default function LeadsScreen() {
               value={formData.name}
               onChangeText={(text) => setFormData({ ...formData, name: text })}
             />
+            {fieldErrors.name && <Text style={styles.fieldError}>{fieldErrors.name}</Text>}
             <TextInput
               style={styles.input}
               placeholder="Email *"
@@ -184,6 +209,7 @@ export default function LeadsScreen() {
               value={formData.email}
               onChangeText={(text) => setFormData({ ...formData, email: text })}
             />
+            {fieldErrors.email && <Text style={styles.fieldError}>{fieldErrors.email}</Text>}
             <TextInput
               style={styles.input}
               placeholder="Phone"
@@ -192,6 +218,7 @@ export default function LeadsScreen() {
               value={formData.phone}
               onChangeText={(text) => setFormData({ ...formData, phone: text })}
             />
+            {fieldErrors.phone && <Text style={styles.fieldError}>{fieldErrors.phone}</Text>}
             <TextInput
               style={styles.input}
               placeholder="Company"
@@ -199,6 +226,7 @@ export default function LeadsScreen() {
               value={formData.company}
               onChangeText={(text) => setFormData({ ...formData, company: text })}
             />
+            {fieldErrors.company && <Text style={styles.fieldError}>{fieldErrors.company}</Text>}
 
             {/* Status Picker */}
             <Text style={styles.label}>Status</Text>
@@ -225,6 +253,7 @@ export default function LeadsScreen() {
               value={formData.notes}
               onChangeText={(text) => setFormData({ ...formData, notes: text })}
             />
+            {fieldErrors.notes && <Text style={styles.fieldError}>{fieldErrors.notes}</Text>}
 
             <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
               <Text style={styles.saveButtonText}>{editingLead ? 'Update' : 'Create'} Lead</Text>
@@ -260,8 +289,10 @@ const styles = StyleSheet.create({
   filterText: { color: '#94A3B8', fontSize: 14, fontWeight: '500', textTransform: 'capitalize' },
   filterTextActive: { color: '#FFFFFF' },
   loader: { flex: 1, justifyContent: 'center' },
+  footerLoader: { paddingVertical: 16 },
   listContainer: { paddingHorizontal: 20, paddingBottom: 20 },
   leadCard: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#1E293B', borderRadius: 12, padding: 12, marginBottom: 8 },
+  pending: { opacity: 0.6 },
   leadAvatar: { width: 48, height: 48, borderRadius: 24, backgroundColor: '#8B5CF6', alignItems: 'center', justifyContent: 'center' },
   avatarText: { fontSize: 20, fontWeight: '600', color: '#FFFFFF' },
   leadInfo: { flex: 1, marginLeft: 12 },
@@ -278,6 +309,7 @@ const styles = StyleSheet.create({
   modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 20 },
   modalTitle: { fontSize: 20, fontWeight: '600', color: '#FFFFFF' },
   input: { backgroundColor: '#0F172A', borderRadius: 12, padding: 16, color: '#FFFFFF', fontSize: 16, marginBottom: 12 },
+  fieldError: { color: '#EF4444', fontSize: 12, marginTop: -8, marginBottom: 12, marginLeft: 4 },
   textArea: { height: 100, textAlignVertical: 'top' },
   label: { color: '#94A3B8', fontSize: 14, marginBottom: 8 },
   statusPicker: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 12 },
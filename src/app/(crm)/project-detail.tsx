@@ -30,12 +30,12 @@ const taskStatusConfig: Record<TaskStatus, { label: string; color: string }> = {
 
 export default function ProjectDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { selectedProject, tasks, fetchProject, fetchTasks, setSelectedProject } =
+  const { selectedProject, tasks, fetchProject, fetchTasks, fetchLaborCosts, setSelectedProject } =
     useProjectsStore();
 
   useEffect(() => {
     if (id) {
-      fetchProject(id);
+      fetchProject(id).then(() => fetchLaborCosts());
       fetchTasks({ projectId: id });
     }
     return () => setSelectedProject(null);
@@ -176,6 +176,14 @@ export default function ProjectDetailScreen() {
                   {formatCurrency(project.spent || 0)}
                 </Text>
               </View>
+              {!!project.laborCost && (
+                <View style={styles.budgetRow}>
+                  <Text style={[styles.budgetLabel, styles.budgetSubLabel]}>
+                    Labor · {project.laborHours?.toFixed(1)}h clocked
+                  </Text>
+                  <Text style={[styles.budgetValue, styles.budgetSubValue]}>{formatCurrency(project.laborCost)}</Text>
+                </View>
+              )}
               <View style={styles.budgetRow}>
                 <Text style={styles.budgetLabel}>Remaining</Text>
                 <Text style={[styles.budgetValue, { color: '#10B981' }]}>
@@ -458,6 +466,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  budgetSubLabel: {
+    paddingLeft: 12,
+    fontSize: 13,
+  },
+  budgetSubValue: {
+    color: '#94A3B8',
+    fontSize: 13,
+  },
   teamContainer: {
     flexDirection: 'row',
     gap: 12,
@@ -103,19 +103,20 @@ function ProjectCard({ project, onPress }: { project: Project; onPress: () => vo
 }
 
 export default function ProjectsScreen() {
-  const { projects, metrics, projectsLoading, fetchProjects, fetchMetrics } = useProjectsStore();
+  const { projects, metrics, projectsLoading, fetchProjects, fetchLaborCosts, fetchMetrics } = useProjectsStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedStatus, setSelectedStatus] = useState<ProjectStatus | 'all'>('all');
   const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
-    fetchProjects();
+    fetchProjects().then(() => fetchLaborCosts());
     fetchMetrics();
   }, []);
 
   const onRefresh = async () => {
     setRefreshing(true);
     await fetchProjects();
+    await fetchLaborCosts();
     await fetchMetrics();
     setRefreshing(false);
   };
@@ -230,7 +231,7 @@ export default function ProjectsScreen() {
       </View>
 
       {/* Project List */}
-      {projectsLoading ? (
+      {projectsLoading && projects.length === 0 ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#8B5CF6" />
         </View>
@@ -43,7 +43,7 @@ function TaskCard({
     task.dueDate && task.status !== 'done' && new Date(task.dueDate) < new Date();
 
   return (
-    <TouchableOpacity style={styles.taskCard} onPress={onPress} activeOpacity={0.7}>
+    <TouchableOpacity style={[styles.taskCard, task.pending && styles.pending]} onPress={onPress} activeOpacity={0.7}>
       <TouchableOpacity
         style={[styles.statusIcon, { backgroundColor: status.bg }]}
         onPress={() => {
@@ -266,7 +266,7 @@ export default function TasksScreen() {
       </ScrollView>
 
       {/* Task List */}
-      {tasksLoading ? (
+      {tasksLoading && tasks.length === 0 ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#8B5CF6" />
         </View>
@@ -398,6 +398,9 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     gap: 12,
   },
+  pending: {
+    opacity: 0.6,
+  },
   statusIcon: {
     width: 36,
     height: 36,
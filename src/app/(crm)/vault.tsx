@@ -14,6 +14,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useVaultStore, VaultItem, VaultItemType, VaultCategory } from '../../stores';
+import { getBiometricSupport } from '../../lib/biometrics';
 
 const typeConfig: Record<VaultItemType, { icon: string; color: string; label: string }> = {
   password: { icon: 'key', color: '#3B82F6', label: 'Password' },
@@ -95,7 +96,16 @@ function VaultItemCard({
   );
 }
 
-function UnlockScreen({ onUnlock }: { onUnlock: (password: string) => void }) {
+function UnlockScreen({
+  onUnlock,
+  biometricLabel,
+  onBiometricUnlock,
+}: {
+  onUnlock: (password: string) => void;
+  // Set when biometric unlock is turned on for the vault
+  biometricLabel?: string;
+  onBiometricUnlock: () => void;
+}) {
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
@@ -149,6 +159,13 @@ function UnlockScreen({ onUnlock }: { onUnlock: (password: string) => void }) {
           )}
         </TouchableOpacity>
 
+        {biometricLabel && (
+          <TouchableOpacity style={styles.biometricButton} onPress={onBiometricUnlock}>
+            <Ionicons name="finger-print" size={20} color="#8B5CF6" />
+            <Text style={styles.biometricButtonText}>Unlock with {biometricLabel}</Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity style={styles.forgotPassword}>
           <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
         </TouchableOpacity>
@@ -160,6 +177,7 @@ function UnlockScreen({ onUnlock }: { onUnlock: (password: string) => void }) {
 export default function VaultScreen() {
   const {
     isLocked,
+    biometricUnlockEnabled,
     items,
     folders,
     metrics,
@@ -168,6 +186,9 @@ export default function VaultScreen() {
     filterCategory,
     filterType,
     unlock,
+    checkBiometricUnlock,
+    enableBiometricUnlock,
+    unlockWithBiometrics,
     fetchItems,
     fetchFolders,
     fetchMetrics,
@@ -181,6 +202,19 @@ export default function VaultScreen() {
 
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'all' | 'favorites' | 'folders'>('all');
+  const [biometricLabel, setBiometricLabel] = useState<string | null>(null);
+
+  useEffect(() => {
+    checkBiometricUnlock();
+    getBiometricSupport().then((support) => setBiometricLabel(support.available ? support.label : null));
+  }, []);
+
+  // Prompt straight away when the vault can be opened with biometrics
+  useEffect(() => {
+    if (isLocked && biometricUnlockEnabled && biometricLabel) {
+      unlockWithBiometrics();
+    }
+  }, [biometricUnlockEnabled, biometricLabel]);
 
   useEffect(() => {
     if (!isLocked) {
@@ -194,6 +228,14 @@ export default function VaultScreen() {
     const success = await unlock(password);
     if (!success) {
       Alert.alert('Error', 'Invalid master password');
+      return;
+    }
+
+    if (biometricLabel && !biometricUnlockEnabled) {
+      Alert.alert(`Use ${biometricLabel}?`, `Unlock the vault with ${biometricLabel} instead of your master password.`, [
+        { text: 'Not Now', style: 'cancel' },
+        { text: 'Turn On', onPress: () => enableBiometricUnlock(password) },
+      ]);
     }
   };
 
@@ -204,7 +246,13 @@ export default function VaultScreen() {
   };
 
   if (isLocked) {
-    return <UnlockScreen onUnlock={handleUnlock} />;
+    return (
+      <UnlockScreen
+        onUnlock={handleUnlock}
+        biometricLabel={biometricUnlockEnabled && biometricLabel ? biometricLabel : undefined}
+        onBiometricUnlock={unlockWithBiometrics}
+      />
+    );
   }
 
   const filteredItems = getFilteredItems();
@@ -704,6 +752,23 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  biometricButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#8B5CF6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    width: '100%',
+    marginTop: 12,
+    gap: 8,
+  },
+  biometricButtonText: {
+    color: '#8B5CF6',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   forgotPassword: {
     marginTop: 20,
   },
@@ -13,6 +13,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { Audio } from 'expo-av';
 import { router } from 'expo-router';
 import { api } from '../../lib/api';
+import { useCan } from '../../hooks/useCan';
+import type { Permission } from '../../lib/permissions';
 
 interface QuickAction {
   id: string;
@@ -20,6 +22,8 @@ interface QuickAction {
   description: string;
   icon: keyof typeof Ionicons.glyphMap;
   color: string;
+  // Hidden from users without it
+  permission?: Permission;
 }
 
 const quickActions: QuickAction[] = [
@@ -43,6 +47,7 @@ const quickActions: QuickAction[] = [
     description: 'Call a client with AI voice',
     icon: 'call-outline',
     color: '#8B5CF6',
+    permission: 'crm.caller',
   },
   {
     id: 'chat',
@@ -54,6 +59,7 @@ const quickActions: QuickAction[] = [
 ];
 
 export default function AIAgentScreen() {
+  const can = useCan();
   const [message, setMessage] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isProcessingVoice, setIsProcessingVoice] = useState(false);
@@ -236,7 +242,7 @@ export default function AIAgentScreen() {
 
         {/* Quick Actions */}
         <View style={styles.actionsGrid}>
-          {quickActions.map((action) => (
+          {quickActions.filter((action) => !action.permission || can(action.permission)).map((action) => (
             <TouchableOpacity
               key={action.id}
               style={styles.actionCard}
@@ -12,8 +12,13 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import * as Location from 'expo-location';
 import { useAuthStore } from '../../stores/authStore';
-import { useTimeClockStore } from '../../stores/timeClockStore';
-import { CalendarWidget } from '../../components';
+import { useTimeClockStore, getWeekEntries, BreakType, JobAllocation } from '../../stores/timeClockStore';
+import { useProjectsStore } from '../../stores/projectsStore';
+import { useCrmStore } from '../../stores/crmStore';
+import { getOpenBreak, getBreakWarnings, breakDurationMs, workedMs } from '../../lib/breaks';
+import { describeJob, getOpenSegment } from '../../lib/job-costing';
+import { summarizeWeek, hoursUntilOvertime, diffSummaries } from '../../lib/overtime';
+import { CalendarWidget, JobPicker } from '../../components';
 
 export default function TimeClockScreen() {
   const { user } = useAuthStore();
@@ -21,42 +26,71 @@ export default function TimeClockScreen() {
     isClockedIn,
     currentClock,
     weeklySummary,
+    todayEntries,
+    weekEntries,
+    overtimeRules,
     isLoading,
     clockIn,
     clockOut,
+    startBreak,
+    endBreak,
+    breakRules,
+    switchJob,
+    costCodes,
     fetchStatus,
+    fetchBreakRules,
+    fetchWeekEntries,
+    fetchOvertimeRules,
   } = useTimeClockStore();
+  const { projects } = useProjectsStore();
+  const { deals, contacts } = useCrmStore();
 
   const [location, setLocation] = useState<Location.LocationObject | null>(null);
   const [locationName, setLocationName] = useState<string>('Fetching location...');
-  const [elapsedTime, setElapsedTime] = useState<string>('00:00:00');
+  const [now, setNow] = useState(Date.now());
+  // Job to clock in with; once clocked in the shift's open segment says what's being worked on
+  const [nextJob, setNextJob] = useState<JobAllocation | null>(null);
+  const [jobPickerVisible, setJobPickerVisible] = useState(false);
 
   // Fetch status on mount
   useEffect(() => {
     fetchStatus();
+    fetchBreakRules();
+    fetchOvertimeRules().then(fetchWeekEntries);
     getLocation();
   }, []);
 
-  // Update elapsed time every second if clocked in
+  // Tick every second while clocked in, otherwise every minute so the week
+  // summary still rolls over at midnight and at the start of a new week
   useEffect(() => {
-    if (!isClockedIn || !currentClock?.clock_in_at) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), isClockedIn ? 1000 : 60000);
+    return () => clearInterval(interval);
+  }, [isClockedIn]);
 
-    const interval = setInterval(() => {
-      const clockInTime = new Date(currentClock.clock_in_at).getTime();
-      const now = Date.now();
-      const diff = now - clockInTime;
+  const formatDuration = (ms: number) => {
+    const hours = Math.floor(ms / 3600000);
+    const minutes = Math.floor((ms % 3600000) / 60000);
+    const seconds = Math.floor((ms % 60000) / 1000);
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  };
 
-      const hours = Math.floor(diff / 3600000);
-      const minutes = Math.floor((diff % 3600000) / 60000);
-      const seconds = Math.floor((diff % 60000) / 1000);
+  // Unpaid breaks don't count, so the timer stops during a meal
+  const elapsedTime = isClockedIn && currentClock ? formatDuration(workedMs(currentClock, now)) : '00:00:00';
+  const openBreak = isClockedIn ? getOpenBreak(currentClock) : null;
+  const breakWarnings = isClockedIn && currentClock ? getBreakWarnings(currentClock, breakRules, now) : [];
+  const currentJob = isClockedIn ? getOpenSegment(currentClock)?.job ?? null : nextJob;
 
-      setElapsedTime(
-        `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`
-      );
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [isClockedIn, currentClock]);
+  // Worked out on the device so it's live while clocked in and works offline
+  const entries = getWeekEntries({ weekEntries, todayEntries, currentClock });
+  const summary = summarizeWeek(entries, overtimeRules, now);
+  const untilOvertime = isClockedIn ? hoursUntilOvertime(entries, overtimeRules, now) : null;
+  // A running shift or an unsynced punch is expected to differ from the server
+  const disagreesWithServer =
+    !isClockedIn &&
+    !!weeklySummary &&
+    !entries.some((entry) => entry.pending) &&
+    diffSummaries(summary, weeklySummary).length > 0;
 
   const getLocation = async () => {
     try {
@@ -96,7 +130,9 @@ export default function TimeClockScreen() {
     await clockIn({
       latitude: location.coords.latitude,
       longitude: location.coords.longitude,
+      accuracy: location.coords.accuracy ?? undefined,
       location_name: locationName,
+      job: nextJob,
     });
   };
 
@@ -109,10 +145,47 @@ export default function TimeClockScreen() {
     await clockOut({
       latitude: location.coords.latitude,
       longitude: location.coords.longitude,
+      accuracy: location.coords.accuracy ?? undefined,
       location_name: locationName,
     });
   };
 
+  const currentCoords = () =>
+    location
+      ? {
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+          accuracy: location.coords.accuracy ?? undefined,
+          location_name: locationName,
+        }
+      : {};
+
+  const handleStartBreak = (type: BreakType) => startBreak(type, currentCoords());
+
+  const handleEndBreak = () => endBreak(currentCoords());
+
+  const handleSelectJob = (job: JobAllocation | null) => {
+    setJobPickerVisible(false);
+    if (isClockedIn) {
+      switchJob(job, currentCoords());
+    } else {
+      setNextJob(job);
+    }
+  };
+
+  const breakLabel = (type: BreakType) => (type === 'meal' ? 'Meal break' : 'Rest break');
+
+  // Round to whole minutes before splitting, so 1.999 reads 2h 0m rather than 1h 60m
+  const formatHours = (hours: number) => {
+    const minutes = Math.round(hours * 60);
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short' });
+
+  const formatClockTime = (date: string) =>
+    new Date(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
   const getGreeting = () => {
     const hour = new Date().getHours();
     if (hour < 12) return 'Good Morning';
@@ -144,7 +217,9 @@ export default function TimeClockScreen() {
         <View style={styles.clockSection}>
           {isClockedIn ? (
             <>
-              <Text style={styles.clockStatus}>Currently Working</Text>
+              <Text style={styles.clockStatus}>
+                {openBreak ? `On ${breakLabel(openBreak.type).toLowerCase()}` : 'Currently Working'}
+              </Text>
               <TouchableOpacity
                 style={[styles.clockButton, styles.clockOutButton]}
                 onPress={handleClockOut}
@@ -160,6 +235,25 @@ export default function TimeClockScreen() {
                   </>
                 )}
               </TouchableOpacity>
+
+              {/* Breaks */}
+              {openBreak ? (
+                <TouchableOpacity style={[styles.breakButton, styles.endBreakButton]} onPress={handleEndBreak}>
+                  <Ionicons name="play" size={18} color="#fff" />
+                  <Text style={styles.breakButtonText}>
+                    End {breakLabel(openBreak.type).toLowerCase()} · {formatDuration(breakDurationMs(openBreak, now))}
+                  </Text>
+                </TouchableOpacity>
+              ) : (
+                <View style={styles.breakRow}>
+                  {(['meal', 'rest'] as BreakType[]).map((type) => (
+                    <TouchableOpacity key={type} style={styles.breakButton} onPress={() => handleStartBreak(type)}>
+                      <Ionicons name={type === 'meal' ? 'restaurant-outline' : 'cafe-outline'} size={18} color="#fff" />
+                      <Text style={styles.breakButtonText}>{breakLabel(type)}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
             </>
           ) : (
             <>
@@ -183,6 +277,39 @@ export default function TimeClockScreen() {
           )}
         </View>
 
+        {/* Job */}
+        <TouchableOpacity style={styles.jobRow} onPress={() => setJobPickerVisible(true)}>
+          <Ionicons name="briefcase-outline" size={20} color="#8B5CF6" />
+          <View style={styles.jobInfo}>
+            <Text style={styles.jobLabel}>{isClockedIn ? 'Working on' : 'Clock in to'}</Text>
+            <Text style={styles.jobName} numberOfLines={1}>
+              {describeJob(currentJob, { projects, deals, contacts, costCodes })}
+            </Text>
+          </View>
+          <Text style={styles.jobChange}>{isClockedIn ? 'Switch' : 'Change'}</Text>
+        </TouchableOpacity>
+
+        {/* Required breaks */}
+        {breakWarnings.map((warning) => {
+          const missed = warning.status === 'missed';
+          const color = missed ? '#EF4444' : '#F59E0B';
+          const label = breakLabel(warning.rule.type);
+          const dueBy = formatClockTime(warning.due_at);
+          return (
+            <View
+              key={`${warning.rule.type}-${warning.rule.after_hours}`}
+              style={[styles.breakWarning, { backgroundColor: color + '20', borderColor: color }]}
+            >
+              <Ionicons name={missed ? 'alert-circle' : 'time-outline'} size={20} color={color} />
+              <Text style={[styles.breakWarningText, { color }]}>
+                {missed
+                  ? `${label} missed. It was due by ${dueBy}.`
+                  : `Take a ${warning.rule.min_minutes}-minute ${label.toLowerCase()} by ${dueBy}.`}
+              </Text>
+            </View>
+          );
+        })}
+
         {/* Location */}
         <View style={styles.locationSection}>
           <Ionicons name="location" size={20} color="#8B5CF6" />
@@ -197,44 +324,69 @@ export default function TimeClockScreen() {
           <Text style={styles.summaryTitle}>This Week</Text>
           <View style={styles.summaryGrid}>
             <View style={styles.summaryItem}>
-              <Text style={styles.summaryValue}>
-                {weeklySummary?.total_hours?.toFixed(1) || '0.0'}h
-              </Text>
+              <Text style={styles.summaryValue}>{summary.total_hours.toFixed(1)}h</Text>
               <Text style={styles.summaryLabel}>Total</Text>
             </View>
             <View style={styles.summaryItem}>
-              <Text style={styles.summaryValue}>
-                {weeklySummary?.regular_hours?.toFixed(1) || '0.0'}h
-              </Text>
+              <Text style={styles.summaryValue}>{summary.regular_hours.toFixed(1)}h</Text>
               <Text style={styles.summaryLabel}>Regular</Text>
             </View>
             <View style={styles.summaryItem}>
-              <Text style={styles.summaryValue}>
-                {weeklySummary?.overtime_hours?.toFixed(1) || '0.0'}h
-              </Text>
+              <Text style={styles.summaryValue}>{summary.overtime_hours.toFixed(1)}h</Text>
               <Text style={styles.summaryLabel}>Overtime</Text>
             </View>
+            {overtimeRules.double_time_threshold !== null || overtimeRules.seventh_day ? (
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryValue}>{(summary.double_time_hours ?? 0).toFixed(1)}h</Text>
+                <Text style={styles.summaryLabel}>Double</Text>
+              </View>
+            ) : null}
           </View>
+
+          {untilOvertime !== null && (
+            <View style={styles.overtimeProjection}>
+              <Ionicons
+                name={untilOvertime === 0 ? 'flame' : 'hourglass-outline'}
+                size={16}
+                color={untilOvertime === 0 ? '#F59E0B' : '#94A3B8'}
+              />
+              <Text style={[styles.overtimeProjectionText, untilOvertime === 0 && { color: '#F59E0B' }]}>
+                {untilOvertime === 0
+                  ? 'You are on overtime now'
+                  : `Overtime starts in ${formatHours(untilOvertime)} (at ${formatClockTime(
+                      new Date(now + untilOvertime * 3600000).toISOString()
+                    )})`}
+              </Text>
+            </View>
+          )}
+
+          {disagreesWithServer && (
+            <Text style={styles.summaryMismatch}>
+              Your timesheet shows different hours. An entry may have been edited since.
+            </Text>
+          )}
         </View>
 
         {/* Quick Stats by Day */}
-        {weeklySummary?.by_day && Object.keys(weeklySummary.by_day).length > 0 && (
+        {Object.keys(summary.by_day).length > 0 && (
           <View style={styles.daysSection}>
             <Text style={styles.daysTitle}>Daily Breakdown</Text>
-            {Object.entries(weeklySummary.by_day).map(([day, hours]) => (
-              <View key={day} style={styles.dayRow}>
-                <Text style={styles.dayName}>{day}</Text>
-                <View style={styles.dayHoursBar}>
-                  <View
-                    style={[
-                      styles.dayHoursFill,
-                      { width: `${Math.min((Number(hours) / 8) * 100, 100)}%` },
-                    ]}
-                  />
+            {Object.entries(summary.by_day)
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([day, hours]) => (
+                <View key={day} style={styles.dayRow}>
+                  <Text style={styles.dayName}>{formatDay(day)}</Text>
+                  <View style={styles.dayHoursBar}>
+                    <View
+                      style={[
+                        styles.dayHoursFill,
+                        { width: `${Math.min((hours / (overtimeRules.daily_threshold ?? 8)) * 100, 100)}%` },
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.dayHours}>{hours.toFixed(1)}h</Text>
                 </View>
-                <Text style={styles.dayHours}>{Number(hours).toFixed(1)}h</Text>
-              </View>
-            ))}
+              ))}
           </View>
         )}
 
@@ -243,6 +395,13 @@ export default function TimeClockScreen() {
           <CalendarWidget maxEvents={3} />
         </View>
       </ScrollView>
+
+      <JobPicker
+        visible={jobPickerVisible}
+        value={currentJob}
+        onSelect={handleSelectJob}
+        onClose={() => setJobPickerVisible(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -310,11 +469,75 @@ const styles = StyleSheet.create({
     color: '#fff',
     marginTop: 4,
   },
+  breakRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  breakButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#1E293B',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  endBreakButton: {
+    backgroundColor: '#8B5CF6',
+    marginTop: 20,
+  },
+  breakButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  breakWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  breakWarningText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
   tapText: {
     fontSize: 14,
     color: 'rgba(255,255,255,0.8)',
     marginTop: 4,
   },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E293B',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    gap: 12,
+  },
+  jobInfo: {
+    flex: 1,
+  },
+  jobLabel: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  jobName: {
+    fontSize: 15,
+    color: '#F8FAFC',
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  jobChange: {
+    fontSize: 14,
+    color: '#8B5CF6',
+    fontWeight: '600',
+  },
   locationSection: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -359,6 +582,23 @@ const styles = StyleSheet.create({
     color: '#94A3B8',
     marginTop: 4,
   },
+  overtimeProjection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  overtimeProjectionText: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  summaryMismatch: {
+    fontSize: 12,
+    color: '#F59E0B',
+    textAlign: 'center',
+    marginTop: 12,
+  },
   daysSection: {
     backgroundColor: '#1E293B',
     borderRadius: 16,
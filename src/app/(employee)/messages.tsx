@@ -13,21 +13,24 @@ import {
   Platform,
   Alert,
   RefreshControl,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useMessagingStore, Conversation, Message } from '../../stores/messagingStore';
 import { useCrmStore, Contact } from '../../stores/crmStore';
+import { syncEntity, syncEntities } from '../../lib/sync-engine';
 
 export default function MessagesScreen() {
   const {
-    conversations, conversationsLoading, conversationsError,
-    currentConversation, messages, messagesLoading,
+    conversations, conversationsLoading, conversationsLoadingMore, conversationsError,
+    currentConversation, messages, messagesLoading, messagesLoadingMore,
     sendingMessage, sendError,
-    fetchConversations, fetchMessages, sendMessage, sendNewMessage,
-    setCurrentConversation, markAsRead
+    loadMoreConversations, fetchMessages, loadOlderMessages,
+    sendMessage, sendNewMessage, setCurrentConversation, markAsRead
   } = useMessagingStore();
 
-  const { contacts, fetchContacts } = useCrmStore();
+  const { contacts } = useCrmStore();
 
   const [searchQuery, setSearchQuery] = useState('');
   const [showThread, setShowThread] = useState(false);
@@ -39,15 +42,16 @@ export default function MessagesScreen() {
   const [refreshing, setRefreshing] = useState(false);
 
   const flatListRef = useRef<FlatList>(null);
+  // Only auto-scroll to new messages while the user is reading the bottom of the thread
+  const isNearBottomRef = useRef(true);
 
   useEffect(() => {
-    fetchConversations();
-    fetchContacts();
+    syncEntities(['conversations', 'contacts']);
   }, []);
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchConversations();
+    await syncEntity('conversations');
     setRefreshing(false);
   };
 
@@ -67,7 +71,18 @@ export default function MessagesScreen() {
     conv.participant_name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const handleThreadScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+    isNearBottomRef.current = contentOffset.y + layoutMeasurement.height >= contentSize.height - 80;
+
+    // Page in older messages when scrolled near the top
+    if (contentOffset.y < 80) {
+      loadOlderMessages();
+    }
+  };
+
   const openConversation = (conversation: Conversation) => {
+    isNearBottomRef.current = true;
     setCurrentConversation(conversation);
     setShowThread(true);
   };
@@ -81,15 +96,20 @@ export default function MessagesScreen() {
   const handleSendMessage = async () => {
     if (!messageInput.trim() || !currentConversation) return;
 
+    // The message shows up as pending right away, so clear the input first
+    const content = messageInput.trim();
+    setMessageInput('');
+    // Scroll to bottom
+    isNearBottomRef.current = true;
+    setTimeout(() => {
+      flatListRef.current?.scrollToEnd({ animated: true });
+    }, 100);
+
     try {
-      await sendMessage(currentConversation.id, messageInput.trim(), currentConversation.channel);
-      setMessageInput('');
-      // Scroll to bottom
-      setTimeout(() => {
-        flatListRef.current?.scrollToEnd({ animated: true });
-      }, 100);
-    } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to send message');
+      await sendMessage(currentConversation.id, content, currentConversation.channel);
+    } catch {
+      // The store already showed a toast; give the user their text back
+      setMessageInput(content);
     }
   };
 
@@ -162,7 +182,7 @@ export default function MessagesScreen() {
             </Text>
             {isOutgoing && (
               <Ionicons
-                name={item.status === 'read' ? 'checkmark-done' : item.status === 'delivered' ? 'checkmark-done' : 'checkmark'}
+                name={item.status === 'pending' ? 'time-outline' : item.status === 'read' ? 'checkmark-done' : item.status === 'delivered' ? 'checkmark-done' : 'checkmark'}
                 size={14}
                 color={item.status === 'read' ? '#3B82F6' : isOutgoing ? '#E2E8F0' : '#64748B'}
                 style={{ marginLeft: 4 }}
@@ -223,7 +243,7 @@ export default function MessagesScreen() {
       </View>
 
       {/* Conversations List */}
-      {conversationsLoading && !refreshing ? (
+      {conversationsLoading && !refreshing && conversations.length === 0 ? (
         <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />
       ) : filteredConversations.length === 0 ? (
         <View style={styles.emptyState}>
@@ -240,6 +260,11 @@ export default function MessagesScreen() {
           keyExtractor={(item) => item.id.toString()}
           contentContainerStyle={styles.list}
           showsVerticalScrollIndicator={false}
+          onEndReached={loadMoreConversations}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            conversationsLoadingMore ? <ActivityIndicator color="#8B5CF6" style={styles.pageLoader} /> : null
+          }
           refreshControl={
             <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#8B5CF6" />
           }
@@ -286,7 +311,17 @@ export default function MessagesScreen() {
               keyExtractor={(item) => item.id}
               contentContainerStyle={styles.messagesList}
               showsVerticalScrollIndicator={false}
-              onContentSizeChange={() => flatListRef.current?.scrollToEnd()}
+              onScroll={handleThreadScroll}
+              scrollEventThrottle={100}
+              maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+              ListHeaderComponent={
+                messagesLoadingMore ? <ActivityIndicator color="#8B5CF6" style={styles.pageLoader} /> : null
+              }
+              onContentSizeChange={() => {
+                if (isNearBottomRef.current) {
+                  flatListRef.current?.scrollToEnd();
+                }
+              }}
             />
           )}
 
@@ -486,6 +521,9 @@ const styles = StyleSheet.create({
   loader: {
     marginTop: 48,
   },
+  pageLoader: {
+    paddingVertical: 16,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -9,6 +9,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { useAuthStore } from '../../stores/authStore';
+import { confirmSignOut } from '../../lib/sign-out';
 
 interface MenuItem {
   id: string;
@@ -19,21 +20,9 @@ interface MenuItem {
 }
 
 export default function ProfileScreen() {
-  const { user, logout } = useAuthStore();
+  const { user } = useAuthStore();
 
-  const handleLogout = () => {
-    Alert.alert('Logout', 'Are you sure you want to log out?', [
-      { text: 'Cancel', style: 'cancel' },
-      {
-        text: 'Logout',
-        style: 'destructive',
-        onPress: async () => {
-          await logout();
-          router.replace('/(auth)/login');
-        },
-      },
-    ]);
-  };
+  const handleLogout = () => confirmSignOut();
 
   const menuItems: MenuItem[] = [
     {
@@ -42,6 +31,24 @@ export default function ProfileScreen() {
       icon: 'time-outline',
       onPress: () => router.push('/time-history'),
     },
+    {
+      id: 'organizations',
+      title: 'Switch Organization',
+      icon: 'business-outline',
+      onPress: () => router.push('/organizations'),
+    },
+    {
+      id: 'security',
+      title: 'Two-Factor Authentication',
+      icon: 'shield-checkmark-outline',
+      onPress: () => router.push('/security'),
+    },
+    {
+      id: 'devices',
+      title: 'Devices & Sessions',
+      icon: 'phone-portrait-outline',
+      onPress: () => router.push('/devices'),
+    },
     {
       id: 'settings',
       title: 'Settings',
@@ -1,14 +1,21 @@
-import { Tabs, Redirect } from 'expo-router';
+import { Tabs, Redirect, useSegments } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuthStore } from '../../stores/authStore';
+import { guardRoute } from '../../lib/permissions';
 
 export default function ManagerLayout() {
-  const { isAuthenticated } = useAuthStore();
+  const { isAuthenticated, user } = useAuthStore();
+  const segments = useSegments();
 
   if (!isAuthenticated) {
     return <Redirect href="/(auth)/login" />;
   }
 
+  const redirect = guardRoute(user, segments);
+  if (redirect) {
+    return <Redirect href={redirect} />;
+  }
+
   return (
     <Tabs
       screenOptions={{
@@ -7,9 +7,14 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Alert,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { api } from '../../lib/api';
+import { useCan } from '../../hooks/useCan';
+import { useTimeClockStore, TimeCorrection } from '../../stores/timeClockStore';
+import { correctionChanges, spanHours, CORRECTION_FIELD_LABELS } from '../../lib/corrections';
 
 interface PendingEntry {
   id: number;
@@ -23,14 +28,31 @@ interface PendingEntry {
   clock_in_location_name: string | null;
 }
 
+// Corrections are listed first, next to the entries waiting for approval
+type ApprovalItem =
+  | { kind: 'correction'; correction: TimeCorrection }
+  | { kind: 'entry'; entry: PendingEntry };
+
 export default function ApprovalsScreen() {
+  const can = useCan();
+  const canApprove = can('approvals.manage');
   const [entries, setEntries] = useState<PendingEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const { teamCorrections, fetchTeamCorrections, reviewCorrection } = useTimeClockStore();
+  // The correction being denied, while the manager writes an optional note
+  const [denyingId, setDenyingId] = useState<number | null>(null);
+  const [denyNote, setDenyNote] = useState('');
 
   useEffect(() => {
     fetchPendingEntries();
+    fetchTeamCorrections();
   }, []);
 
+  const items: ApprovalItem[] = [
+    ...teamCorrections.map((correction) => ({ kind: 'correction' as const, correction })),
+    ...entries.map((entry) => ({ kind: 'entry' as const, entry })),
+  ];
+
   const fetchPendingEntries = async () => {
     setIsLoading(true);
     try {
@@ -73,6 +95,18 @@ export default function ApprovalsScreen() {
     );
   };
 
+  // Alert.prompt is iOS-only, so the note is asked for in a modal
+  const handleDenyCorrection = (id: number) => {
+    setDenyNote('');
+    setDenyingId(id);
+  };
+
+  const confirmDenyCorrection = () => {
+    if (denyingId === null) return;
+    reviewCorrection(denyingId, 'denied', denyNote.trim() || undefined);
+    setDenyingId(null);
+  };
+
   const formatDateTime = (dateString: string) => {
     return new Date(dateString).toLocaleString('en-US', {
       month: 'short',
@@ -82,7 +116,68 @@ export default function ApprovalsScreen() {
     });
   };
 
-  const renderEntry = ({ item }: { item: PendingEntry }) => (
+  const formatHours = (hours: number | null) => (hours === null ? '--' : hours.toFixed(2));
+
+  const renderCorrection = (item: TimeCorrection) => (
+    <View style={styles.entryCard}>
+      <View style={styles.entryHeader}>
+        <View style={styles.avatar}>
+          <Text style={styles.avatarText}>
+            {item.user?.first_name[0]}{item.user?.last_name[0]}
+          </Text>
+        </View>
+        <View style={styles.entryInfo}>
+          <Text style={styles.employeeName}>
+            {item.user ? `${item.user.first_name} ${item.user.last_name}` : 'Employee'}
+          </Text>
+          <View style={styles.correctionBadge}>
+            <Text style={styles.correctionBadgeText}>Correction</Text>
+          </View>
+        </View>
+        <View style={styles.hoursBox}>
+          <Text style={styles.hoursValue}>
+            {formatHours(spanHours(item.proposed_clock_in_at, item.proposed_clock_out_at))}
+          </Text>
+          <Text style={styles.hoursLabel}>
+            was {formatHours(spanHours(item.original_clock_in_at, item.original_clock_out_at))}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.diff}>
+        {correctionChanges(item).map((change) => (
+          <View key={change.field} style={styles.diffRow}>
+            <Text style={styles.diffLabel}>{CORRECTION_FIELD_LABELS[change.field]}</Text>
+            <Text style={styles.diffBefore}>{change.from ? formatDateTime(change.from) : 'Missing'}</Text>
+            <Ionicons name="arrow-forward" size={14} color="#64748B" />
+            <Text style={styles.diffAfter}>{change.to ? formatDateTime(change.to) : 'Missing'}</Text>
+          </View>
+        ))}
+        <Text style={styles.reasonText}>"{item.reason}"</Text>
+      </View>
+
+      {canApprove && (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.rejectButton]}
+            onPress={() => handleDenyCorrection(item.id)}
+          >
+            <Ionicons name="close" size={20} color="#EF4444" />
+            <Text style={styles.rejectText}>Deny</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.approveButton]}
+            onPress={() => reviewCorrection(item.id, 'approved')}
+          >
+            <Ionicons name="checkmark" size={20} color="#fff" />
+            <Text style={styles.approveText}>Approve</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderEntry = (item: PendingEntry) => (
     <View style={styles.entryCard}>
       <View style={styles.entryHeader}>
         <View style={styles.avatar}>
@@ -116,22 +211,24 @@ export default function ApprovalsScreen() {
         </View>
       </View>
 
-      <View style={styles.actions}>
-        <TouchableOpacity
-          style={[styles.actionButton, styles.rejectButton]}
-          onPress={() => handleReject(item.id)}
-        >
-          <Ionicons name="close" size={20} color="#EF4444" />
-          <Text style={styles.rejectText}>Reject</Text>
-        </TouchableOpacity>
-        <TouchableOpacity
-          style={[styles.actionButton, styles.approveButton]}
-          onPress={() => handleApprove(item.id)}
-        >
-          <Ionicons name="checkmark" size={20} color="#fff" />
-          <Text style={styles.approveText}>Approve</Text>
-        </TouchableOpacity>
-      </View>
+      {canApprove && (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.rejectButton]}
+            onPress={() => handleReject(item.id)}
+          >
+            <Ionicons name="close" size={20} color="#EF4444" />
+            <Text style={styles.rejectText}>Reject</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.approveButton]}
+            onPress={() => handleApprove(item.id)}
+          >
+            <Ionicons name="checkmark" size={20} color="#fff" />
+            <Text style={styles.approveText}>Approve</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </View>
   );
 
@@ -139,12 +236,15 @@ export default function ApprovalsScreen() {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Pending Approvals</Text>
-        <Text style={styles.subtitle}>{entries.length} entries awaiting review</Text>
+        <Text style={styles.subtitle}>
+          {entries.length} entries
+          {teamCorrections.length > 0 && `, ${teamCorrections.length} corrections`} awaiting review
+        </Text>
       </View>
 
       {isLoading ? (
         <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />
-      ) : entries.length === 0 ? (
+      ) : items.length === 0 ? (
         <View style={styles.emptyState}>
           <Ionicons name="checkmark-circle-outline" size={64} color="#10B981" />
           <Text style={styles.emptyTitle}>All caught up!</Text>
@@ -152,13 +252,44 @@ export default function ApprovalsScreen() {
         </View>
       ) : (
         <FlatList
-          data={entries}
-          renderItem={renderEntry}
-          keyExtractor={(item) => item.id.toString()}
+          data={items}
+          renderItem={({ item }) =>
+            item.kind === 'correction' ? renderCorrection(item.correction) : renderEntry(item.entry)
+          }
+          keyExtractor={(item) =>
+            item.kind === 'correction' ? `correction-${item.correction.id}` : item.entry.id.toString()
+          }
           contentContainerStyle={styles.list}
           showsVerticalScrollIndicator={false}
         />
       )}
+
+      {/* Deny note */}
+      <Modal visible={denyingId !== null} animationType="slide" transparent onRequestClose={() => setDenyingId(null)}>
+        <View style={styles.overlay}>
+          <View style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>Deny Correction</Text>
+              <TouchableOpacity onPress={() => setDenyingId(null)}>
+                <Ionicons name="close" size={24} color="#F8FAFC" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.sheetSubtitle}>Let the employee know why (optional)</Text>
+            <TextInput
+              style={styles.noteInput}
+              placeholder="e.g. The site log shows you left at 5:00"
+              placeholderTextColor="#64748B"
+              value={denyNote}
+              onChangeText={setDenyNote}
+              multiline
+              autoFocus
+            />
+            <TouchableOpacity style={styles.denyButton} onPress={confirmDenyCorrection}>
+              <Text style={styles.approveText}>Deny Correction</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -275,6 +406,51 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#E2E8F0',
   },
+  correctionBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#F59E0B20',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginTop: 4,
+  },
+  correctionBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#F59E0B',
+  },
+  diff: {
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#334155',
+    gap: 8,
+  },
+  diffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  diffLabel: {
+    width: 72,
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  diffBefore: {
+    fontSize: 14,
+    color: '#EF4444',
+    textDecorationLine: 'line-through',
+  },
+  diffAfter: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  reasonText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#E2E8F0',
+  },
   actions: {
     flexDirection: 'row',
     gap: 12,
@@ -305,4 +481,47 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#1E293B',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#F8FAFC',
+  },
+  sheetSubtitle: {
+    fontSize: 13,
+    color: '#94A3B8',
+    marginTop: 4,
+  },
+  noteInput: {
+    backgroundColor: '#0F172A',
+    borderRadius: 12,
+    padding: 12,
+    color: '#F8FAFC',
+    fontSize: 15,
+    minHeight: 72,
+    textAlignVertical: 'top',
+    marginTop: 12,
+    marginBottom: 12,
+  },
+  denyButton: {
+    backgroundColor: '#EF4444',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
 });
@@ -69,11 +69,13 @@ export default function ManagerDashboard() {
       await clockOut({
         latitude: location.coords.latitude,
         longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy ?? undefined,
       });
     } else {
       await clockIn({
         latitude: location.coords.latitude,
         longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy ?? undefined,
       });
     }
   };
@@ -273,7 +273,7 @@ export default function SchedulesScreen() {
       </View>
 
       {/* Schedule List */}
-      {schedulesLoading ? (
+      {schedulesLoading && schedules.length === 0 ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#8B5CF6" />
         </View>
@@ -9,6 +9,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { api } from '../../lib/api';
+import { isSyncedLate } from '../../stores/timeClockStore';
 
 interface TeamEntry {
   id: number;
@@ -24,6 +25,10 @@ interface TeamEntry {
   total_hours: number | null;
   status: string;
   duration_formatted: string;
+  // Set when punches were made offline and synced afterwards
+  clock_in_received_at?: string | null;
+  clock_out_received_at?: string | null;
+  clock_tampered?: boolean;
 }
 
 export default function TeamScreen() {
@@ -79,48 +84,70 @@ export default function TeamScreen() {
     }
   };
 
-  const renderEntry = ({ item }: { item: TeamEntry }) => (
-    <View style={styles.entryCard}>
-      <View style={styles.entryHeader}>
-        <View style={styles.avatar}>
-          <Text style={styles.avatarText}>
-            {item.user.first_name[0]}{item.user.last_name[0]}
-          </Text>
-        </View>
-        <View style={styles.entryInfo}>
-          <Text style={styles.employeeName}>
-            {item.user.first_name} {item.user.last_name}
-          </Text>
-          <Text style={styles.employeeEmail}>{item.user.email}</Text>
-        </View>
-        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) + '20' }]}>
-          <Text style={[styles.statusText, { color: getStatusColor(item.status) }]}>
-            {item.status.replace('_', ' ')}
-          </Text>
-        </View>
-      </View>
-      <View style={styles.entryDetails}>
-        <View style={styles.timeBlock}>
-          <Ionicons name="arrow-forward-circle" size={16} color="#10B981" />
-          <Text style={styles.timeLabel}>In: </Text>
-          <Text style={styles.timeValue}>{formatTime(item.clock_in_at)}</Text>
+  const renderEntry = ({ item }: { item: TeamEntry }) => {
+    const syncedLate =
+      isSyncedLate(item.clock_in_at, item.clock_in_received_at) ||
+      isSyncedLate(item.clock_out_at, item.clock_out_received_at);
+
+    return (
+      <View style={styles.entryCard}>
+        <View style={styles.entryHeader}>
+          <View style={styles.avatar}>
+            <Text style={styles.avatarText}>
+              {item.user.first_name[0]}{item.user.last_name[0]}
+            </Text>
+          </View>
+          <View style={styles.entryInfo}>
+            <Text style={styles.employeeName}>
+              {item.user.first_name} {item.user.last_name}
+            </Text>
+            <Text style={styles.employeeEmail}>{item.user.email}</Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) + '20' }]}>
+            <Text style={[styles.statusText, { color: getStatusColor(item.status) }]}>
+              {item.status.replace('_', ' ')}
+            </Text>
+          </View>
         </View>
-        {item.clock_out_at && (
+        <View style={styles.entryDetails}>
           <View style={styles.timeBlock}>
-            <Ionicons name="arrow-back-circle" size={16} color="#EF4444" />
-            <Text style={styles.timeLabel}>Out: </Text>
-            <Text style={styles.timeValue}>{formatTime(item.clock_out_at)}</Text>
+            <Ionicons name="arrow-forward-circle" size={16} color="#10B981" />
+            <Text style={styles.timeLabel}>In: </Text>
+            <Text style={styles.timeValue}>{formatTime(item.clock_in_at)}</Text>
+          </View>
+          {item.clock_out_at && (
+            <View style={styles.timeBlock}>
+              <Ionicons name="arrow-back-circle" size={16} color="#EF4444" />
+              <Text style={styles.timeLabel}>Out: </Text>
+              <Text style={styles.timeValue}>{formatTime(item.clock_out_at)}</Text>
+            </View>
+          )}
+          <View style={styles.totalBlock}>
+            <Text style={styles.totalLabel}>Total:</Text>
+            <Text style={styles.totalValue}>
+              {item.total_hours ? `${item.total_hours.toFixed(2)}h` : item.duration_formatted || '--'}
+            </Text>
           </View>
-        )}
-        <View style={styles.totalBlock}>
-          <Text style={styles.totalLabel}>Total:</Text>
-          <Text style={styles.totalValue}>
-            {item.total_hours ? `${item.total_hours.toFixed(2)}h` : item.duration_formatted || '--'}
-          </Text>
         </View>
+        {(syncedLate || item.clock_tampered) && (
+          <View style={styles.flags}>
+            {syncedLate && (
+              <View style={[styles.flag, { backgroundColor: '#F59E0B20' }]}>
+                <Ionicons name="cloud-upload-outline" size={12} color="#F59E0B" />
+                <Text style={[styles.flagText, { color: '#F59E0B' }]}>Synced late</Text>
+              </View>
+            )}
+            {item.clock_tampered && (
+              <View style={[styles.flag, { backgroundColor: '#EF444420' }]}>
+                <Ionicons name="warning-outline" size={12} color="#EF4444" />
+                <Text style={[styles.flagText, { color: '#EF4444' }]}>Device clock changed</Text>
+              </View>
+            )}
+          </View>
+        )}
       </View>
-    </View>
-  );
+    );
+  };
 
   return (
     <View style={styles.container}>
@@ -307,4 +334,21 @@ const styles = StyleSheet.create({
     color: '#8B5CF6',
     fontWeight: '600',
   },
+  flags: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  flag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  flagText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
 });
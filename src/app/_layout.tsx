@@ -1,13 +1,22 @@
 import { useEffect, useRef } from 'react';
-import { Stack } from 'expo-router';
+import { View } from 'react-native';
+import { Stack, router } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import * as SplashScreen from 'expo-splash-screen';
 import * as Notifications from 'expo-notifications';
-import { useAuthStore } from '../stores/authStore';
+import { useAuthStore, Impersonation } from '../stores/authStore';
 import { RealtimeProvider } from '../components/RealtimeProvider';
 import ErrorBoundary from '../components/ErrorBoundary';
+import { ToastHost } from '../components/Toast';
+import { AppLockOverlay } from '../components/AppLockOverlay';
+import { ImpersonationBanner } from '../components/ImpersonationBanner';
+import { initAppLock, cleanupAppLock, recordActivity } from '../stores/appLockStore';
 import { initOfflineQueue, cleanupOfflineQueue } from '../lib/offline-queue';
+import { hydrateStoreCaches } from '../lib/store-cache';
+import { clearStalePendingFlags } from '../lib/optimistic';
+import { initSyncEngine, cleanupSyncEngine } from '../lib/sync-engine';
 import { initSentry, setUser } from '../lib/sentry';
+import { getHomeRoute } from '../lib/permissions';
 import {
   registerForPushNotifications,
   sendPushTokenToServer,
@@ -22,14 +31,21 @@ initSentry();
 SplashScreen.preventAutoHideAsync();
 
 export default function RootLayout() {
-  const { isLoading, loadStoredAuth, user } = useAuthStore();
+  const { isLoading, loadStoredAuth, user, sessionExpired, impersonation } = useAuthStore();
   const notificationListener = useRef<Notifications.EventSubscription>();
   const responseListener = useRef<Notifications.EventSubscription>();
+  const impersonationId = useRef<Impersonation['id'] | null>();
 
   useEffect(() => {
     const init = async () => {
       await loadStoredAuth();
+      // Show cached lists on first render; screens refresh them in the background
+      await hydrateStoreCaches();
+      // Needs the cached lock settings; runs before the splash screen hides
+      initAppLock();
       await initOfflineQueue();
+      clearStalePendingFlags();
+      await initSyncEngine();
 
       // Setup notification channels (Android)
       await setupNotificationChannels();
@@ -57,11 +73,31 @@ export default function RootLayout() {
 
     return () => {
       cleanupOfflineQueue();
+      cleanupSyncEngine();
+      cleanupAppLock();
       notificationListener.current?.remove();
       responseListener.current?.remove();
     };
   }, []);
 
+  // The backend ended the session; wherever the user was, send them to sign in again
+  useEffect(() => {
+    if (sessionExpired) {
+      router.replace('/(auth)/login');
+    }
+  }, [sessionExpired]);
+
+  // Starting or ending an impersonation changes whose app this is; start over from their home screen
+  useEffect(() => {
+    if (isLoading) return;
+    const id = impersonation?.id ?? null;
+    // The first value is whatever the app launched with
+    if (impersonationId.current !== undefined && id !== impersonationId.current) {
+      router.replace(getHomeRoute(useAuthStore.getState().user));
+    }
+    impersonationId.current = id;
+  }, [isLoading, impersonation?.id]);
+
   // Update Sentry user context when user changes
   useEffect(() => {
     if (user) {
@@ -78,13 +114,30 @@ export default function RootLayout() {
   return (
     <ErrorBoundary>
       <RealtimeProvider>
-        <Stack screenOptions={{ headerShown: false }}>
-          <Stack.Screen name="(auth)" options={{ headerShown: false }} />
-          <Stack.Screen name="(employee)" options={{ headerShown: false }} />
-          <Stack.Screen name="(manager)" options={{ headerShown: false }} />
-          <Stack.Screen name="(admin)" options={{ headerShown: false }} />
-          <Stack.Screen name="(crm)" options={{ headerShown: false }} />
-        </Stack>
+        {/* Every touch resets the app lock's idle timer */}
+        <View
+          style={{ flex: 1 }}
+          onStartShouldSetResponderCapture={() => {
+            recordActivity();
+            return false;
+          }}
+        >
+          <ImpersonationBanner />
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+            <Stack.Screen name="(employee)" options={{ headerShown: false }} />
+            <Stack.Screen name="(manager)" options={{ headerShown: false }} />
+            <Stack.Screen name="(admin)" options={{ headerShown: false }} />
+            <Stack.Screen name="(crm)" options={{ headerShown: false }} />
+            <Stack.Screen name="pending-sync" options={{ headerShown: false }} />
+            <Stack.Screen name="security" options={{ headerShown: false }} />
+            <Stack.Screen name="organizations" options={{ headerShown: false }} />
+            <Stack.Screen name="devices" options={{ headerShown: false }} />
+            <Stack.Screen name="time-history" options={{ headerShown: false }} />
+          </Stack>
+        </View>
+        <ToastHost />
+        <AppLockOverlay />
         <StatusBar style="auto" />
       </RealtimeProvider>
     </ErrorBoundary>
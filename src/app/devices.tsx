@@ -0,0 +1,218 @@
+// Devices Screen - Active sessions and push devices, with remote sign-out
+// Opened from the profile for the signed-in user, or from (admin)/employees
+// with a userId to manage an employee's devices.
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter, useLocalSearchParams, Redirect } from 'expo-router';
+import { useDevicesStore, UserSession, PushDevice } from '../stores/devicesStore';
+import { useCan } from '../hooks/useCan';
+
+const PLATFORM_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
+  ios: 'phone-portrait-outline',
+  android: 'phone-portrait-outline',
+  web: 'globe-outline',
+};
+
+const platformLabel = (platform: string) =>
+  platform === 'ios' ? 'iOS' : platform.charAt(0).toUpperCase() + platform.slice(1);
+
+const formatLastSeen = (dateStr: string) => {
+  const minutes = Math.floor((Date.now() - new Date(dateStr).getTime()) / 60000);
+  if (minutes < 1) return 'Active now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(dateStr).toLocaleDateString();
+};
+
+export default function DevicesScreen() {
+  const router = useRouter();
+  const { userId, name } = useLocalSearchParams<{ userId?: string; name?: string }>();
+  const employeeId = userId ? Number(userId) : null;
+  const can = useCan();
+  // Only admins may manage someone else's devices
+  const allowed = !employeeId || can('employees.manage');
+  const { sessions, devices, isLoading, error, fetchDevices, revokeSession, revokeDevice, revokeAll } =
+    useDevicesStore();
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (allowed) {
+      fetchDevices(employeeId);
+    }
+  }, [employeeId, allowed]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchDevices(employeeId);
+    setRefreshing(false);
+  };
+
+  const handleRevokeSession = (session: UserSession) => {
+    Alert.alert('Sign Out Session', `Sign out ${session.device_name}? It will need to sign in again.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Sign Out', style: 'destructive', onPress: () => revokeSession(session.id) },
+    ]);
+  };
+
+  const handleRevokeDevice = (device: PushDevice) => {
+    Alert.alert('Remove Device', `${device.device_name} will stop receiving notifications.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => revokeDevice(device.id) },
+    ]);
+  };
+
+  const handleRevokeAll = () => {
+    Alert.alert(
+      employeeId ? 'Sign Out Everywhere' : 'Sign Out Other Sessions',
+      employeeId
+        ? `${name || 'This employee'} will be signed out on every device and stop receiving notifications.`
+        : 'Every session except this one will need to sign in again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: () => revokeAll() },
+      ]
+    );
+  };
+
+  if (!allowed) {
+    return <Redirect href="/" />;
+  }
+
+  const otherSessions = sessions.filter((session) => !session.is_current);
+
+  const renderSession = (session: UserSession) => (
+    <View key={session.id} style={styles.item}>
+      <Ionicons name={PLATFORM_ICONS[session.platform] || 'desktop-outline'} size={22} color="#94A3B8" />
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemTitle}>{session.device_name}</Text>
+        <Text style={styles.itemSubtitle}>
+          {[platformLabel(session.platform), session.location || session.ip_address].filter(Boolean).join(' · ')}
+        </Text>
+        <Text style={styles.itemSubtitle}>
+          {session.is_current ? 'This device' : formatLastSeen(session.last_active_at)}
+        </Text>
+      </View>
+      {session.is_current ? (
+        <View style={styles.currentBadge}>
+          <Text style={styles.currentBadgeText}>Current</Text>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.revokeBtn} onPress={() => handleRevokeSession(session)}>
+          <Text style={styles.revokeBtnText}>Sign Out</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderDevice = (device: PushDevice) => (
+    <View key={device.id} style={styles.item}>
+      <Ionicons name="notifications-outline" size={22} color="#94A3B8" />
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemTitle}>{device.device_name}</Text>
+        <Text style={styles.itemSubtitle}>
+          {platformLabel(device.platform)} · {formatLastSeen(device.last_seen_at)}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.revokeBtn} onPress={() => handleRevokeDevice(device)}>
+        <Text style={styles.revokeBtnText}>Remove</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <View style={styles.headerTitle}>
+          <Text style={styles.title}>Devices</Text>
+          {employeeId && name ? <Text style={styles.subtitle}>{name}</Text> : null}
+        </View>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {isLoading && !refreshing && sessions.length === 0 && devices.length === 0 ? (
+        <View style={styles.loading}>
+          <ActivityIndicator size="large" color="#8B5CF6" />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#8B5CF6" />}
+        >
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          {/* Sessions */}
+          <Text style={styles.sectionTitle}>Active Sessions</Text>
+          <View style={styles.menu}>
+            {sessions.length === 0 ? (
+              <Text style={styles.empty}>No active sessions</Text>
+            ) : (
+              sessions.map(renderSession)
+            )}
+          </View>
+
+          {/* Push devices */}
+          <Text style={styles.sectionTitle}>Notification Devices</Text>
+          <View style={styles.menu}>
+            {devices.length === 0 ? (
+              <Text style={styles.empty}>No devices registered for notifications</Text>
+            ) : (
+              devices.map(renderDevice)
+            )}
+          </View>
+
+          {(employeeId ? sessions.length > 0 || devices.length > 0 : otherSessions.length > 0) && (
+            <TouchableOpacity style={styles.dangerBtn} onPress={handleRevokeAll}>
+              <Ionicons name="log-out-outline" size={20} color="#FFFFFF" />
+              <Text style={styles.dangerBtnText}>
+                {employeeId ? 'Sign Out Everywhere' : 'Sign Out Other Sessions'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0F172A' },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: 20, paddingTop: 10, paddingBottom: 20 },
+  backBtn: { padding: 8 },
+  headerTitle: { alignItems: 'center' },
+  title: { fontSize: 24, fontWeight: '700', color: '#FFFFFF' },
+  subtitle: { fontSize: 13, color: '#94A3B8', marginTop: 2 },
+  loading: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  content: { paddingHorizontal: 20, paddingBottom: 40 },
+  error: { color: '#EF4444', fontSize: 13, marginBottom: 12 },
+
+  sectionTitle: { fontSize: 14, fontWeight: '600', color: '#8B5CF6', marginTop: 8, marginBottom: 12 },
+  menu: { backgroundColor: '#1E293B', borderRadius: 16, overflow: 'hidden', marginBottom: 16 },
+  item: { flexDirection: 'row', alignItems: 'center', padding: 16, borderBottomWidth: 1, borderBottomColor: '#334155' },
+  itemInfo: { flex: 1, marginLeft: 12 },
+  itemTitle: { fontSize: 16, fontWeight: '500', color: '#FFFFFF' },
+  itemSubtitle: { fontSize: 12, color: '#64748B', marginTop: 2 },
+  empty: { fontSize: 14, color: '#64748B', padding: 16, textAlign: 'center' },
+
+  currentBadge: { backgroundColor: '#10B98120', paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12 },
+  currentBadgeText: { color: '#10B981', fontSize: 12, fontWeight: '600' },
+  revokeBtn: { borderWidth: 1, borderColor: '#EF4444', paddingHorizontal: 12, paddingVertical: 6, borderRadius: 8 },
+  revokeBtnText: { color: '#EF4444', fontSize: 13, fontWeight: '600' },
+
+  dangerBtn: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', backgroundColor: '#EF4444', borderRadius: 12, padding: 16, marginTop: 8 },
+  dangerBtnText: { color: '#FFFFFF', fontSize: 16, fontWeight: '600', marginLeft: 8 },
+});
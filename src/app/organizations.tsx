@@ -0,0 +1,154 @@
+// Organizations Screen - Switch between the organizations a user belongs to
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useAuthStore, OrganizationMembership } from '../stores/authStore';
+import { getHomeRoute } from '../lib/permissions';
+import { getQueueCount, getDeadLetters } from '../lib/offline-queue';
+
+const formatRoles = (roles?: string[]) =>
+  roles && roles.length > 0
+    ? roles.map((role) => role.charAt(0).toUpperCase() + role.slice(1).replace('_', ' ')).join(', ')
+    : null;
+
+export default function OrganizationsScreen() {
+  const router = useRouter();
+  const { user, organizations, isSwitchingOrganization, error, fetchOrganizations, switchOrganization } =
+    useAuthStore();
+  const [refreshing, setRefreshing] = useState(false);
+  const [switchingTo, setSwitchingTo] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, []);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchOrganizations();
+    setRefreshing(false);
+  };
+
+  const handleSwitch = async (organization: OrganizationMembership) => {
+    if (isSwitchingOrganization || organization.id === user?.organization_id) return;
+
+    setSwitchingTo(organization.id);
+    const success = await switchOrganization(organization.id);
+    setSwitchingTo(null);
+    if (success) {
+      // The new organization may grant different routes
+      router.replace(getHomeRoute(useAuthStore.getState().user));
+    }
+  };
+
+  const pendingChanges = getQueueCount() + getDeadLetters().length > 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Organizations</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#8B5CF6" />}
+      >
+        <Text style={styles.intro}>
+          Switch between the organizations you belong to without signing out. Data from the current organization is
+          cleared from this device when you switch.
+        </Text>
+
+        {error && (
+          <View style={styles.errorCard}>
+            <Text style={styles.errorText}>{error}</Text>
+            {pendingChanges && (
+              <TouchableOpacity onPress={() => router.push('/pending-sync')}>
+                <Text style={styles.errorLink}>Review pending changes</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {organizations.length === 0 && !refreshing ? (
+          <View style={styles.empty}>
+            <Ionicons name="business-outline" size={48} color="#334155" />
+            <Text style={styles.emptyText}>You only belong to one organization</Text>
+          </View>
+        ) : (
+          <View style={styles.menu}>
+            {organizations.map((organization) => {
+              const isCurrent = organization.id === user?.organization_id;
+              const roles = formatRoles(organization.roles);
+              return (
+                <TouchableOpacity
+                  key={organization.id}
+                  style={styles.menuItem}
+                  onPress={() => handleSwitch(organization)}
+                  disabled={isCurrent || isSwitchingOrganization}
+                >
+                  {organization.logo_url ? (
+                    <Image source={{ uri: organization.logo_url }} style={styles.logo} />
+                  ) : (
+                    <View style={styles.logo}>
+                      <Text style={styles.logoText}>{organization.name.charAt(0).toUpperCase()}</Text>
+                    </View>
+                  )}
+                  <View style={styles.info}>
+                    <Text style={styles.name}>{organization.name}</Text>
+                    {roles && <Text style={styles.roles}>{roles}</Text>}
+                  </View>
+                  {switchingTo === organization.id ? (
+                    <ActivityIndicator color="#8B5CF6" />
+                  ) : isCurrent ? (
+                    <Ionicons name="checkmark-circle" size={22} color="#10B981" />
+                  ) : (
+                    <Ionicons name="chevron-forward" size={20} color="#64748B" />
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0F172A' },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: 20, paddingTop: 10, paddingBottom: 20 },
+  backBtn: { padding: 8 },
+  title: { fontSize: 24, fontWeight: '700', color: '#FFFFFF' },
+  content: { paddingHorizontal: 20, paddingBottom: 40 },
+
+  intro: { fontSize: 14, color: '#94A3B8', lineHeight: 20, marginBottom: 16 },
+  errorCard: { backgroundColor: '#EF444420', borderRadius: 12, padding: 12, marginBottom: 16 },
+  errorText: { color: '#EF4444', fontSize: 13 },
+  errorLink: { color: '#FFFFFF', fontSize: 13, fontWeight: '600', marginTop: 8 },
+
+  menu: { backgroundColor: '#1E293B', borderRadius: 16, overflow: 'hidden' },
+  menuItem: { flexDirection: 'row', alignItems: 'center', padding: 16, borderBottomWidth: 1, borderBottomColor: '#334155' },
+  logo: { width: 40, height: 40, borderRadius: 10, backgroundColor: '#8B5CF620', alignItems: 'center', justifyContent: 'center' },
+  logoText: { fontSize: 18, fontWeight: '700', color: '#8B5CF6' },
+  info: { flex: 1, marginLeft: 12 },
+  name: { fontSize: 16, fontWeight: '500', color: '#FFFFFF' },
+  roles: { fontSize: 12, color: '#64748B', marginTop: 2 },
+
+  empty: { alignItems: 'center', paddingVertical: 48 },
+  emptyText: { fontSize: 14, color: '#64748B', marginTop: 12 },
+});
@@ -0,0 +1,271 @@
+// Pending Sync Screen - Requests waiting to sync and requests that failed to sync
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import {
+  QueuedRequest,
+  DeadLetter,
+  getQueue,
+  getDeadLetters,
+  subscribeToQueueChanges,
+  subscribeToDeadLetterChanges,
+  retryQueuedRequest,
+  retryDeadLetter,
+  discardDeadLetter,
+  removeFromQueue,
+  isBlocked,
+} from '../lib/offline-queue';
+import { describeQueuedRequest } from '../lib/request-labels';
+
+type SyncItem =
+  | { kind: 'pending'; id: string; request: QueuedRequest }
+  | { kind: 'failed'; id: string; request: QueuedRequest; letter: DeadLetter };
+
+// Pull a readable reason out of the last error body
+const describeError = (status: number | null | undefined, body: unknown): string => {
+  const message =
+    body && typeof body === 'object'
+      ? (body as { message?: string; error?: string }).message || (body as { error?: string }).error
+      : typeof body === 'string'
+        ? body
+        : undefined;
+  if (status && message) return `${status}: ${message}`;
+  if (status) return `Server returned ${status}`;
+  return message || 'No response from server';
+};
+
+export default function PendingSyncScreen() {
+  const router = useRouter();
+  const [pending, setPending] = useState<QueuedRequest[]>(getQueue());
+  const [failed, setFailed] = useState<DeadLetter[]>(getDeadLetters());
+  const [editing, setEditing] = useState<SyncItem | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribeQueue = subscribeToQueueChanges(setPending);
+    const unsubscribeDeadLetters = subscribeToDeadLetterChanges(setFailed);
+    return () => {
+      unsubscribeQueue();
+      unsubscribeDeadLetters();
+    };
+  }, []);
+
+  const sections = [
+    {
+      title: 'Failed',
+      data: failed.map((letter): SyncItem => ({ kind: 'failed', id: letter.id, request: letter.request, letter })),
+    },
+    {
+      title: 'Waiting to sync',
+      data: pending.map((request): SyncItem => ({ kind: 'pending', id: request.id, request })),
+    },
+  ].filter((section) => section.data.length > 0);
+
+  const handleRetry = (item: SyncItem) => {
+    if (item.kind === 'failed') {
+      retryDeadLetter(item.id);
+    } else {
+      retryQueuedRequest(item.id);
+    }
+  };
+
+  const handleDiscard = (item: SyncItem) => {
+    Alert.alert(
+      'Discard Change',
+      `"${describeQueuedRequest(item.request)}" will not be sent. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => (item.kind === 'failed' ? discardDeadLetter(item.id) : removeFromQueue(item.id)),
+        },
+      ]
+    );
+  };
+
+  const openEditor = (item: SyncItem) => {
+    setEditing(item);
+    setEditText(JSON.stringify(item.request.data ?? {}, null, 2));
+    setEditError(null);
+  };
+
+  const handleSaveAndRetry = () => {
+    if (!editing) return;
+    let data: unknown;
+    try {
+      data = JSON.parse(editText);
+    } catch {
+      setEditError('Not valid JSON');
+      return;
+    }
+    if (editing.kind === 'failed') {
+      retryDeadLetter(editing.id, data);
+    } else {
+      retryQueuedRequest(editing.id, data);
+    }
+    setEditing(null);
+  };
+
+  const renderItem = ({ item }: { item: SyncItem }) => {
+    const isFailed = item.kind === 'failed';
+    const canEdit = item.request.method !== 'GET' && item.request.method !== 'DELETE';
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Ionicons
+            name={isFailed ? 'alert-circle' : 'time-outline'}
+            size={20}
+            color={isFailed ? '#EF4444' : '#F59E0B'}
+          />
+          <Text style={styles.cardTitle}>{describeQueuedRequest(item.request)}</Text>
+        </View>
+        <Text style={styles.cardMeta}>
+          {new Date(item.request.createdAt).toLocaleString()}
+          {item.request.retries > 0 ? ` · ${item.request.retries} attempt${item.request.retries === 1 ? '' : 's'}` : ''}
+        </Text>
+        {isFailed ? (
+          <Text style={styles.cardError}>
+            {item.letter.reason === 'expired'
+              ? 'Not synced within 24 hours'
+              : item.letter.reason === 'parent_failed'
+                ? 'Depends on an earlier change that failed to sync'
+                : describeError(item.letter.lastErrorStatus, item.letter.lastErrorBody)}
+          </Text>
+        ) : isBlocked(item.request) ? (
+          <Text style={styles.cardWarning}>Waiting for an earlier change to sync</Text>
+        ) : item.request.lastErrorStatus !== undefined ? (
+          <Text style={styles.cardWarning}>
+            {describeError(item.request.lastErrorStatus, item.request.lastErrorBody)}
+          </Text>
+        ) : null}
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionBtn} onPress={() => handleRetry(item)}>
+            <Ionicons name="refresh" size={16} color="#8B5CF6" />
+            <Text style={styles.actionText}>Retry</Text>
+          </TouchableOpacity>
+          {canEdit && (
+            <TouchableOpacity style={styles.actionBtn} onPress={() => openEditor(item)}>
+              <Ionicons name="create-outline" size={16} color="#8B5CF6" />
+              <Text style={styles.actionText}>Edit</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.actionBtn} onPress={() => handleDiscard(item)}>
+            <Ionicons name="trash-outline" size={16} color="#EF4444" />
+            <Text style={[styles.actionText, styles.discardText]}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Pending Sync</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {sections.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="cloud-done-outline" size={64} color="#64748B" />
+          <Text style={styles.emptyText}>Everything is synced</Text>
+          <Text style={styles.emptySubtext}>Changes made offline will show up here</Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => `${item.kind}-${item.id}`}
+          renderItem={renderItem}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionHeader}>
+              {section.title} ({section.data.length})
+            </Text>
+          )}
+          contentContainerStyle={styles.listContainer}
+          stickySectionHeadersEnabled={false}
+        />
+      )}
+
+      {/* Edit Modal */}
+      <Modal visible={editing !== null} animationType="slide" transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? describeQueuedRequest(editing.request) : ''}</Text>
+              <TouchableOpacity onPress={() => setEditing(null)}>
+                <Ionicons name="close" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              style={styles.editor}
+              value={editText}
+              onChangeText={(text) => {
+                setEditText(text);
+                setEditError(null);
+              }}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {editError && <Text style={styles.fieldError}>{editError}</Text>}
+            <TouchableOpacity style={styles.submitBtn} onPress={handleSaveAndRetry}>
+              <Text style={styles.submitBtnText}>Save & Retry</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0F172A' },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: 20, paddingTop: 10, paddingBottom: 20 },
+  backBtn: { padding: 8 },
+  title: { fontSize: 24, fontWeight: '700', color: '#FFFFFF' },
+
+  emptyState: { flex: 1, alignItems: 'center', justifyContent: 'center', paddingVertical: 60 },
+  emptyText: { fontSize: 18, color: '#FFFFFF', marginTop: 16 },
+  emptySubtext: { fontSize: 14, color: '#64748B', marginTop: 4 },
+
+  listContainer: { paddingHorizontal: 20, paddingBottom: 40 },
+  sectionHeader: { fontSize: 14, fontWeight: '600', color: '#8B5CF6', marginTop: 12, marginBottom: 12 },
+
+  card: { backgroundColor: '#1E293B', borderRadius: 12, padding: 16, marginBottom: 10 },
+  cardHeader: { flexDirection: 'row', alignItems: 'center' },
+  cardTitle: { flex: 1, fontSize: 16, fontWeight: '600', color: '#FFFFFF', marginLeft: 8 },
+  cardMeta: { fontSize: 12, color: '#64748B', marginTop: 6 },
+  cardError: { fontSize: 13, color: '#EF4444', marginTop: 6 },
+  cardWarning: { fontSize: 13, color: '#F59E0B', marginTop: 6 },
+  actions: { flexDirection: 'row', marginTop: 12, borderTopWidth: 1, borderTopColor: '#334155', paddingTop: 12 },
+  actionBtn: { flexDirection: 'row', alignItems: 'center', marginRight: 20 },
+  actionText: { fontSize: 14, color: '#8B5CF6', marginLeft: 4, fontWeight: '500' },
+  discardText: { color: '#EF4444' },
+
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'flex-end' },
+  modalContent: { backgroundColor: '#1E293B', borderTopLeftRadius: 20, borderTopRightRadius: 20, padding: 20, maxHeight: '80%' },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 20 },
+  modalTitle: { flex: 1, fontSize: 20, fontWeight: '600', color: '#FFFFFF' },
+  editor: { backgroundColor: '#0F172A', borderRadius: 12, padding: 16, color: '#FFFFFF', fontSize: 14, fontFamily: 'monospace', minHeight: 200, textAlignVertical: 'top', marginBottom: 12 },
+  fieldError: { color: '#EF4444', fontSize: 12, marginTop: -4, marginBottom: 12, marginLeft: 4 },
+  submitBtn: { backgroundColor: '#8B5CF6', borderRadius: 12, padding: 16, alignItems: 'center', marginTop: 8 },
+  submitBtnText: { color: '#FFFFFF', fontSize: 16, fontWeight: '600' },
+});
@@ -0,0 +1,546 @@
+// Security Screen - Two-factor enrollment, recovery codes, trusted devices and app lock
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  Share,
+  Linking,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useAuthStore } from '../stores/authStore';
+import { useTwoFactorStore, TwoFactorEnrollMethod } from '../stores/twoFactorStore';
+import { useAppLockStore, IDLE_TIMEOUT_OPTIONS, MIN_PIN_LENGTH } from '../stores/appLockStore';
+import { getBiometricSupport, BiometricSupport } from '../lib/biometrics';
+
+// Actions that need a current code before the backend will run them
+type CodeAction = 'disable' | 'regenerate';
+
+const METHOD_DESCRIPTIONS: Record<TwoFactorEnrollMethod, string> = {
+  totp: 'Authenticator app',
+  sms: 'Text message',
+};
+
+export default function SecurityScreen() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const {
+    status,
+    setup,
+    recoveryCodes,
+    isLoading,
+    error,
+    fetchStatus,
+    startSetup,
+    confirmSetup,
+    cancelSetup,
+    disable,
+    regenerateRecoveryCodes,
+    forgetTrustedDevices,
+    clearRecoveryCodes,
+    clearError,
+  } = useTwoFactorStore();
+  const [phone, setPhone] = useState(user?.phone || '');
+  const [setupCode, setSetupCode] = useState('');
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [actionCode, setActionCode] = useState('');
+  const appLock = useAppLockStore();
+  const [biometrics, setBiometrics] = useState<BiometricSupport | null>(null);
+  const [pinModalVisible, setPinModalVisible] = useState(false);
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStatus();
+    getBiometricSupport().then(setBiometrics);
+  }, []);
+
+  const handleToggleAppLock = (value: boolean) => {
+    if (value) {
+      setPinModalVisible(true);
+    } else {
+      appLock.disable();
+    }
+  };
+
+  const closePinModal = () => {
+    setPinModalVisible(false);
+    setNewPin('');
+    setConfirmPin('');
+    setPinError(null);
+  };
+
+  const handleSavePin = async () => {
+    if (newPin.length < MIN_PIN_LENGTH) {
+      setPinError(`Use at least ${MIN_PIN_LENGTH} digits`);
+      return;
+    }
+    if (newPin !== confirmPin) {
+      setPinError("PINs don't match");
+      return;
+    }
+    if (appLock.enabled) {
+      await appLock.changePin(newPin);
+    } else {
+      await appLock.enable(newPin);
+      appLock.setBiometricsEnabled(!!biometrics?.available);
+    }
+    closePinModal();
+  };
+
+  const handleStartSetup = async (method: TwoFactorEnrollMethod) => {
+    if (method === 'sms' && !phone.trim()) {
+      Alert.alert('Error', 'Please enter a phone number for text message codes');
+      return;
+    }
+    setSetupCode('');
+    await startSetup(method, method === 'sms' ? phone.trim() : undefined);
+  };
+
+  const handleConfirmSetup = async () => {
+    if (!setupCode.trim()) return;
+    if (await confirmSetup(setupCode)) {
+      setSetupCode('');
+    }
+  };
+
+  const handleCodeAction = async () => {
+    if (!codeAction || !actionCode.trim()) return;
+    const success =
+      codeAction === 'disable' ? await disable(actionCode) : await regenerateRecoveryCodes(actionCode);
+    if (success) {
+      setCodeAction(null);
+      setActionCode('');
+    }
+  };
+
+  const handleForgetDevices = () => {
+    Alert.alert(
+      'Forget Trusted Devices',
+      'Every device, including this one, will ask for a verification code at the next sign-in.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Forget', style: 'destructive', onPress: () => forgetTrustedDevices() },
+      ]
+    );
+  };
+
+  const handleShareCodes = () => {
+    Share.share({ message: `SystemsF1RST recovery codes:\n\n${recoveryCodes.join('\n')}` });
+  };
+
+  const closeCodeAction = () => {
+    setCodeAction(null);
+    setActionCode('');
+    clearError();
+  };
+
+  const renderSetup = () => {
+    if (!setup) return null;
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Set up {METHOD_DESCRIPTIONS[setup.method].toLowerCase()}</Text>
+        {setup.method === 'totp' ? (
+          <>
+            <Text style={styles.cardText}>
+              Add SystemsF1RST to your authenticator app, then enter the 6-digit code it shows.
+            </Text>
+            {setup.otpauth_url && (
+              <TouchableOpacity style={styles.secondaryBtn} onPress={() => Linking.openURL(setup.otpauth_url!)}>
+                <Ionicons name="open-outline" size={18} color="#8B5CF6" />
+                <Text style={styles.secondaryBtnText}>Open Authenticator App</Text>
+              </TouchableOpacity>
+            )}
+            {setup.secret && (
+              <>
+                <Text style={styles.label}>Or enter this key manually</Text>
+                <Text style={styles.secret} selectable>
+                  {setup.secret}
+                </Text>
+              </>
+            )}
+          </>
+        ) : (
+          <Text style={styles.cardText}>
+            Enter the code we sent to {setup.phone_hint || phone}.
+          </Text>
+        )}
+        <TextInput
+          style={[styles.input, styles.codeInput]}
+          placeholder="000000"
+          placeholderTextColor="#64748B"
+          value={setupCode}
+          onChangeText={setSetupCode}
+          keyboardType="number-pad"
+          textContentType="oneTimeCode"
+          maxLength={6}
+        />
+        <TouchableOpacity
+          style={[styles.primaryBtn, isLoading && styles.btnDisabled]}
+          onPress={handleConfirmSetup}
+          disabled={isLoading}
+        >
+          <Text style={styles.primaryBtnText}>Turn On</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.textBtn} onPress={cancelSetup}>
+          <Text style={styles.textBtnText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderEnroll = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardText}>
+        Protect your account with a second step at sign-in. Choose how you want to receive codes.
+      </Text>
+      <TouchableOpacity style={styles.optionRow} onPress={() => handleStartSetup('totp')}>
+        <Ionicons name="phone-portrait-outline" size={22} color="#8B5CF6" />
+        <View style={styles.optionInfo}>
+          <Text style={styles.optionTitle}>Authenticator app</Text>
+          <Text style={styles.optionSubtitle}>Recommended. Works without cell service.</Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color="#64748B" />
+      </TouchableOpacity>
+      <Text style={styles.label}>Phone number for text messages</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="+1 555 123 4567"
+        placeholderTextColor="#64748B"
+        value={phone}
+        onChangeText={setPhone}
+        keyboardType="phone-pad"
+      />
+      <TouchableOpacity style={styles.optionRow} onPress={() => handleStartSetup('sms')}>
+        <Ionicons name="chatbubble-ellipses-outline" size={22} color="#8B5CF6" />
+        <View style={styles.optionInfo}>
+          <Text style={styles.optionTitle}>Text message</Text>
+          <Text style={styles.optionSubtitle}>We'll text a code each time you sign in.</Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color="#64748B" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderManage = () => (
+    <View style={styles.menu}>
+      <TouchableOpacity style={styles.menuItem} onPress={() => setCodeAction('regenerate')}>
+        <Ionicons name="key-outline" size={22} color="#94A3B8" />
+        <View style={styles.optionInfo}>
+          <Text style={styles.menuItemText}>New Recovery Codes</Text>
+          <Text style={styles.optionSubtitle}>{status?.recovery_codes_remaining ?? 0} unused codes left</Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color="#64748B" />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.menuItem} onPress={handleForgetDevices}>
+        <Ionicons name="phone-portrait-outline" size={22} color="#94A3B8" />
+        <View style={styles.optionInfo}>
+          <Text style={styles.menuItemText}>Forget Trusted Devices</Text>
+          <Text style={styles.optionSubtitle}>
+            {status?.trusted_devices ?? 0} {status?.trusted_devices === 1 ? 'device skips' : 'devices skip'} the code
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color="#64748B" />
+      </TouchableOpacity>
+      {!status?.required && (
+        <TouchableOpacity style={styles.menuItem} onPress={() => setCodeAction('disable')}>
+          <Ionicons name="shield-outline" size={22} color="#EF4444" />
+          <Text style={[styles.menuItemText, styles.optionInfo, { color: '#EF4444' }]}>
+            Turn Off Two-Factor
+          </Text>
+          <Ionicons name="chevron-forward" size={20} color="#64748B" />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Security</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {!status && isLoading ? (
+        <View style={styles.loading}>
+          <ActivityIndicator size="large" color="#8B5CF6" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {/* Status */}
+          <View style={styles.statusCard}>
+            <Ionicons
+              name={status?.enabled ? 'shield-checkmark' : 'shield-outline'}
+              size={32}
+              color={status?.enabled ? '#10B981' : '#64748B'}
+            />
+            <View style={styles.optionInfo}>
+              <Text style={styles.cardTitle}>Two-Factor Authentication</Text>
+              <Text style={styles.optionSubtitle}>
+                {status?.enabled && status.method
+                  ? `On · ${METHOD_DESCRIPTIONS[status.method]}${status.phone_hint ? ` (${status.phone_hint})` : ''}`
+                  : 'Off'}
+              </Text>
+            </View>
+          </View>
+
+          {status?.required && !status.enabled && (
+            <View style={styles.warning}>
+              <Ionicons name="warning-outline" size={18} color="#F59E0B" />
+              <Text style={styles.warningText}>
+                Your role requires two-factor authentication. Set it up to keep access to your account.
+              </Text>
+            </View>
+          )}
+
+          {error && !codeAction && <Text style={styles.error}>{error}</Text>}
+
+          {status?.enabled ? renderManage() : setup ? renderSetup() : renderEnroll()}
+
+          {/* App Lock */}
+          <Text style={styles.sectionTitle}>App Lock</Text>
+          <View style={styles.menu}>
+            <View style={styles.menuItem}>
+              <Ionicons name="lock-closed-outline" size={22} color="#94A3B8" />
+              <View style={styles.optionInfo}>
+                <Text style={styles.menuItemText}>Lock App</Text>
+                <Text style={styles.optionSubtitle}>When idle or in the background</Text>
+              </View>
+              <Switch
+                value={appLock.enabled}
+                onValueChange={handleToggleAppLock}
+                trackColor={{ false: '#334155', true: '#8B5CF6' }}
+                thumbColor="#fff"
+              />
+            </View>
+            {appLock.enabled && (
+              <>
+                {biometrics?.available && (
+                  <View style={styles.menuItem}>
+                    <Ionicons name="finger-print" size={22} color="#94A3B8" />
+                    <Text style={[styles.menuItemText, styles.optionInfo]}>Unlock with {biometrics.label}</Text>
+                    <Switch
+                      value={appLock.biometricsEnabled}
+                      onValueChange={appLock.setBiometricsEnabled}
+                      trackColor={{ false: '#334155', true: '#8B5CF6' }}
+                      thumbColor="#fff"
+                    />
+                  </View>
+                )}
+                <View style={styles.menuItem}>
+                  <Ionicons name="timer-outline" size={22} color="#94A3B8" />
+                  <Text style={[styles.menuItemText, styles.optionInfo]}>Lock after</Text>
+                  <View style={styles.chips}>
+                    {IDLE_TIMEOUT_OPTIONS.map((minutes) => (
+                      <TouchableOpacity
+                        key={minutes}
+                        style={[styles.chip, appLock.idleTimeoutMinutes === minutes && styles.chipActive]}
+                        onPress={() => appLock.setIdleTimeout(minutes)}
+                      >
+                        <Text
+                          style={[styles.chipText, appLock.idleTimeoutMinutes === minutes && styles.chipTextActive]}
+                        >
+                          {minutes}m
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+                <TouchableOpacity style={styles.menuItem} onPress={() => setPinModalVisible(true)}>
+                  <Ionicons name="keypad-outline" size={22} color="#94A3B8" />
+                  <Text style={[styles.menuItemText, styles.optionInfo]}>Change PIN</Text>
+                  <Ionicons name="chevron-forward" size={20} color="#64748B" />
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </ScrollView>
+      )}
+
+      {/* Recovery Codes */}
+      <Modal visible={recoveryCodes.length > 0} animationType="slide" transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Save Your Recovery Codes</Text>
+            <Text style={styles.cardText}>
+              Each code signs you in once if you lose access to your phone. They won't be shown again.
+            </Text>
+            <View style={styles.codes}>
+              {recoveryCodes.map((code) => (
+                <Text key={code} style={styles.recoveryCode} selectable>
+                  {code}
+                </Text>
+              ))}
+            </View>
+            <TouchableOpacity style={styles.secondaryBtn} onPress={handleShareCodes}>
+              <Ionicons name="share-outline" size={18} color="#8B5CF6" />
+              <Text style={styles.secondaryBtnText}>Save or Share</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.primaryBtn} onPress={clearRecoveryCodes}>
+              <Text style={styles.primaryBtnText}>I've Saved These Codes</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {/* App Lock PIN */}
+      <Modal visible={pinModalVisible} animationType="slide" transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{appLock.enabled ? 'Change PIN' : 'Set a PIN'}</Text>
+              <TouchableOpacity onPress={closePinModal}>
+                <Ionicons name="close" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.cardText}>
+              {biometrics?.available
+                ? `Used when ${biometrics.label} isn't available.`
+                : 'Enter it to unlock the app.'}
+            </Text>
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              placeholder="New PIN"
+              placeholderTextColor="#64748B"
+              value={newPin}
+              onChangeText={(text) => {
+                setNewPin(text.replace(/\D/g, ''));
+                setPinError(null);
+              }}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={8}
+            />
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              placeholder="Confirm PIN"
+              placeholderTextColor="#64748B"
+              value={confirmPin}
+              onChangeText={(text) => {
+                setConfirmPin(text.replace(/\D/g, ''));
+                setPinError(null);
+              }}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={8}
+            />
+            {pinError && <Text style={styles.error}>{pinError}</Text>}
+            <TouchableOpacity style={styles.primaryBtn} onPress={handleSavePin}>
+              <Text style={styles.primaryBtnText}>Save PIN</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Verify Before Changes */}
+      <Modal visible={codeAction !== null} animationType="slide" transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {codeAction === 'disable' ? 'Turn Off Two-Factor' : 'New Recovery Codes'}
+              </Text>
+              <TouchableOpacity onPress={closeCodeAction}>
+                <Ionicons name="close" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.cardText}>
+              {codeAction === 'disable'
+                ? 'Enter a current code to confirm.'
+                : 'Enter a current code. Your old recovery codes will stop working.'}
+            </Text>
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              placeholder="000000"
+              placeholderTextColor="#64748B"
+              value={actionCode}
+              onChangeText={setActionCode}
+              keyboardType="number-pad"
+              textContentType="oneTimeCode"
+              maxLength={6}
+            />
+            {error && <Text style={styles.error}>{error}</Text>}
+            <TouchableOpacity
+              style={[
+                styles.primaryBtn,
+                codeAction === 'disable' && styles.dangerBtn,
+                isLoading && styles.btnDisabled,
+              ]}
+              onPress={handleCodeAction}
+              disabled={isLoading}
+            >
+              <Text style={styles.primaryBtnText}>{codeAction === 'disable' ? 'Turn Off' : 'Generate'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0F172A' },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: 20, paddingTop: 10, paddingBottom: 20 },
+  backBtn: { padding: 8 },
+  title: { fontSize: 24, fontWeight: '700', color: '#FFFFFF' },
+  loading: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  content: { paddingHorizontal: 20, paddingBottom: 40 },
+
+  statusCard: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#1E293B', borderRadius: 16, padding: 20, marginBottom: 16 },
+  card: { backgroundColor: '#1E293B', borderRadius: 16, padding: 20, marginBottom: 16 },
+  cardTitle: { fontSize: 16, fontWeight: '600', color: '#FFFFFF', marginBottom: 4 },
+  cardText: { fontSize: 14, color: '#94A3B8', lineHeight: 20, marginBottom: 16 },
+  warning: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#F59E0B20', borderRadius: 12, padding: 12, marginBottom: 16 },
+  warningText: { flex: 1, fontSize: 13, color: '#F59E0B', marginLeft: 8 },
+  error: { color: '#EF4444', fontSize: 13, marginBottom: 12 },
+
+  optionRow: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#0F172A', borderRadius: 12, padding: 16, marginBottom: 16 },
+  optionInfo: { flex: 1, marginLeft: 12 },
+  optionTitle: { fontSize: 16, fontWeight: '500', color: '#FFFFFF' },
+  optionSubtitle: { fontSize: 12, color: '#64748B', marginTop: 2 },
+
+  sectionTitle: { fontSize: 14, fontWeight: '600', color: '#8B5CF6', marginTop: 24, marginBottom: 12 },
+  menu: { backgroundColor: '#1E293B', borderRadius: 16, overflow: 'hidden' },
+  chips: { flexDirection: 'row' },
+  chip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 14, backgroundColor: '#0F172A', marginLeft: 6 },
+  chipActive: { backgroundColor: '#8B5CF6' },
+  chipText: { fontSize: 12, color: '#94A3B8' },
+  chipTextActive: { color: '#FFFFFF', fontWeight: '600' },
+  menuItem: { flexDirection: 'row', alignItems: 'center', padding: 16, borderBottomWidth: 1, borderBottomColor: '#334155' },
+  menuItemText: { fontSize: 16, color: '#F8FAFC' },
+
+  label: { fontSize: 13, color: '#94A3B8', marginBottom: 8 },
+  input: { backgroundColor: '#0F172A', borderRadius: 12, padding: 14, color: '#FFFFFF', fontSize: 16, marginBottom: 16, borderWidth: 1, borderColor: '#334155' },
+  codeInput: { fontSize: 22, letterSpacing: 8, textAlign: 'center' },
+  secret: { fontSize: 16, color: '#FFFFFF', fontFamily: 'monospace', backgroundColor: '#0F172A', borderRadius: 8, padding: 12, marginBottom: 16, textAlign: 'center' },
+
+  primaryBtn: { backgroundColor: '#8B5CF6', borderRadius: 12, padding: 16, alignItems: 'center', marginTop: 8 },
+  primaryBtnText: { color: '#FFFFFF', fontSize: 16, fontWeight: '600' },
+  dangerBtn: { backgroundColor: '#EF4444' },
+  btnDisabled: { opacity: 0.7 },
+  secondaryBtn: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', borderWidth: 1, borderColor: '#8B5CF6', borderRadius: 12, padding: 12, marginBottom: 16 },
+  secondaryBtnText: { color: '#8B5CF6', fontSize: 14, fontWeight: '600', marginLeft: 6 },
+  textBtn: { alignItems: 'center', padding: 12 },
+  textBtnText: { color: '#94A3B8', fontSize: 14 },
+
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'flex-end' },
+  modalContent: { backgroundColor: '#1E293B', borderTopLeftRadius: 20, borderTopRightRadius: 20, padding: 20, maxHeight: '80%' },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  modalTitle: { flex: 1, fontSize: 20, fontWeight: '600', color: '#FFFFFF', marginBottom: 8 },
+  codes: { flexDirection: 'row', flexWrap: 'wrap', backgroundColor: '#0F172A', borderRadius: 12, padding: 12, marginBottom: 16 },
+  recoveryCode: { width: '50%', fontSize: 15, color: '#FFFFFF', fontFamily: 'monospace', paddingVertical: 6, textAlign: 'center' },
+});
@@ -0,0 +1,285 @@
+// Time History Screen - Past time entries, with correction requests
+// Opened from the profile. An employee who forgot to punch can propose the
+// right in/out times for an entry; a manager reviews them in (manager)/approvals
+// and approved changes show up in the entry's audit history.
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useTimeClockStore, TimeClock, CorrectionStatus } from '../stores/timeClockStore';
+import { latestCorrection, validateCorrection, spanHours, CORRECTION_FIELD_LABELS } from '../lib/corrections';
+import { workedHours } from '../lib/breaks';
+
+const MINUTE_MS = 60 * 1000;
+
+const STATUS_COLORS: Record<CorrectionStatus, string> = {
+  pending: '#F59E0B',
+  approved: '#10B981',
+  denied: '#EF4444',
+};
+
+const STATUS_LABELS: Record<CorrectionStatus, string> = {
+  pending: 'Correction pending',
+  approved: 'Correction approved',
+  denied: 'Correction denied',
+};
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatTime = (dateStr: string | null) =>
+  dateStr ? new Date(dateStr).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }) : '--';
+
+const formatDateTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Default clock-out for an entry that was never closed: eight hours after clock-in
+const DEFAULT_SHIFT_MS = 8 * 60 * MINUTE_MS;
+
+export default function TimeHistoryScreen() {
+  const router = useRouter();
+  const { history, corrections, isLoading, error, fetchHistory, fetchCorrections, requestCorrection } =
+    useTimeClockStore();
+  const [refreshing, setRefreshing] = useState(false);
+  const [editing, setEditing] = useState<TimeClock | null>(null);
+  const [clockIn, setClockIn] = useState(0);
+  const [clockOut, setClockOut] = useState(0);
+  const [reason, setReason] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchHistory();
+    fetchCorrections();
+  }, []);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([fetchHistory(), fetchCorrections()]);
+    setRefreshing(false);
+  };
+
+  const openCorrection = (entry: TimeClock) => {
+    const start = new Date(entry.clock_in_at).getTime();
+    setEditing(entry);
+    setClockIn(start);
+    setClockOut(entry.clock_out_at ? new Date(entry.clock_out_at).getTime() : start + DEFAULT_SHIFT_MS);
+    setReason('');
+    setFormError(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!editing) return;
+    const proposed = {
+      clock_in_at: new Date(clockIn).toISOString(),
+      clock_out_at: new Date(clockOut).toISOString(),
+      reason,
+    };
+    const problem = validateCorrection(editing, proposed);
+    if (problem) {
+      setFormError(problem);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const sent = await requestCorrection(editing, proposed);
+    setIsSubmitting(false);
+    if (sent) {
+      setEditing(null);
+    } else {
+      setFormError(useTimeClockStore.getState().error);
+    }
+  };
+
+  const renderStepper = (label: string, value: number, onChange: (value: number) => void) => (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <Text style={styles.stepperValue}>{formatDateTime(new Date(value).toISOString())}</Text>
+      <View style={styles.stepperButtons}>
+        {[-60, -15, 15, 60].map((minutes) => (
+          <TouchableOpacity
+            key={minutes}
+            style={styles.stepperBtn}
+            onPress={() => onChange(value + minutes * MINUTE_MS)}
+          >
+            <Text style={styles.stepperBtnText}>
+              {minutes > 0 ? '+' : '−'}
+              {Math.abs(minutes) === 60 ? '1h' : `${Math.abs(minutes)}m`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderEntry = (entry: TimeClock) => {
+    const correction = latestCorrection(corrections, entry.id);
+    const hours = entry.clock_out_at ? workedHours(entry) : null;
+
+    return (
+      <View key={entry.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardDate}>{formatDate(entry.clock_in_at)}</Text>
+          <Text style={styles.cardHours}>{hours === null ? 'Open' : `${hours.toFixed(2)}h`}</Text>
+        </View>
+        <Text style={styles.cardTimes}>
+          {formatTime(entry.clock_in_at)} – {formatTime(entry.clock_out_at)}
+        </Text>
+
+        {correction && (
+          <View style={[styles.statusBadge, { backgroundColor: `${STATUS_COLORS[correction.status]}20` }]}>
+            <Text style={[styles.statusText, { color: STATUS_COLORS[correction.status] }]}>
+              {STATUS_LABELS[correction.status]}
+              {correction.pending ? ' · not sent yet' : ''}
+            </Text>
+          </View>
+        )}
+        {correction?.status === 'denied' && correction.review_note ? (
+          <Text style={styles.reviewNote}>"{correction.review_note}"</Text>
+        ) : null}
+
+        {(entry.audit_history ?? []).map((audit) => (
+          <Text key={audit.id} style={styles.auditLine}>
+            {CORRECTION_FIELD_LABELS[audit.field]} {formatTime(audit.from)} → {formatTime(audit.to)} by{' '}
+            {audit.changed_by.first_name} {audit.changed_by.last_name} · {formatDate(audit.changed_at)}
+          </Text>
+        ))}
+
+        {correction?.status !== 'pending' && (
+          <TouchableOpacity style={styles.correctBtn} onPress={() => openCorrection(entry)}>
+            <Ionicons name="create-outline" size={16} color="#8B5CF6" />
+            <Text style={styles.correctBtnText}>Request Correction</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const proposedHours = spanHours(new Date(clockIn).toISOString(), new Date(clockOut).toISOString());
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Time History</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {isLoading && !refreshing && history.length === 0 ? (
+        <View style={styles.loading}>
+          <ActivityIndicator size="large" color="#8B5CF6" />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#8B5CF6" />}
+        >
+          {error && !editing && <Text style={styles.error}>{error}</Text>}
+          {history.length === 0 ? <Text style={styles.empty}>No time entries yet</Text> : history.map(renderEntry)}
+        </ScrollView>
+      )}
+
+      {/* Correction request */}
+      <Modal visible={!!editing} animationType="slide" transparent onRequestClose={() => setEditing(null)}>
+        <View style={styles.overlay}>
+          <View style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>Request Correction</Text>
+              <TouchableOpacity onPress={() => setEditing(null)}>
+                <Ionicons name="close" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+            {editing && (
+              <Text style={styles.sheetSubtitle}>
+                Recorded {formatTime(editing.clock_in_at)} – {formatTime(editing.clock_out_at)} on{' '}
+                {formatDate(editing.clock_in_at)}
+              </Text>
+            )}
+
+            {renderStepper('Clock in', clockIn, setClockIn)}
+            {renderStepper('Clock out', clockOut, setClockOut)}
+            <Text style={styles.proposedHours}>
+              {proposedHours !== null && proposedHours > 0 ? `${proposedHours.toFixed(2)} hours` : ''}
+            </Text>
+
+            <TextInput
+              style={styles.reasonInput}
+              placeholder="What happened? e.g. Forgot to clock out"
+              placeholderTextColor="#64748B"
+              value={reason}
+              onChangeText={setReason}
+              multiline
+            />
+            {formError && <Text style={styles.error}>{formError}</Text>}
+
+            <TouchableOpacity
+              style={[styles.submitBtn, isSubmitting && styles.submitBtnDisabled]}
+              onPress={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.submitBtnText}>Send to Manager</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0F172A' },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: 20, paddingTop: 10, paddingBottom: 20 },
+  backBtn: { padding: 8 },
+  title: { fontSize: 24, fontWeight: '700', color: '#FFFFFF' },
+  loading: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  content: { paddingHorizontal: 20, paddingBottom: 40 },
+  error: { color: '#EF4444', fontSize: 13, marginBottom: 12 },
+  empty: { fontSize: 14, color: '#64748B', padding: 16, textAlign: 'center' },
+
+  card: { backgroundColor: '#1E293B', borderRadius: 16, padding: 16, marginBottom: 12 },
+  cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  cardDate: { fontSize: 16, fontWeight: '600', color: '#F8FAFC' },
+  cardHours: { fontSize: 16, fontWeight: '700', color: '#8B5CF6' },
+  cardTimes: { fontSize: 14, color: '#94A3B8', marginTop: 4 },
+  statusBadge: { alignSelf: 'flex-start', paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12, marginTop: 10 },
+  statusText: { fontSize: 12, fontWeight: '600' },
+  reviewNote: { fontSize: 13, fontStyle: 'italic', color: '#E2E8F0', marginTop: 6 },
+  auditLine: { fontSize: 12, color: '#64748B', marginTop: 6 },
+  correctBtn: { flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 12, alignSelf: 'flex-start' },
+  correctBtnText: { color: '#8B5CF6', fontSize: 14, fontWeight: '600' },
+
+  overlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'flex-end' },
+  sheet: { backgroundColor: '#1E293B', borderTopLeftRadius: 20, borderTopRightRadius: 20, padding: 20 },
+  sheetHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  sheetTitle: { fontSize: 20, fontWeight: '600', color: '#FFFFFF' },
+  sheetSubtitle: { fontSize: 13, color: '#94A3B8', marginTop: 4, marginBottom: 8 },
+  stepper: { backgroundColor: '#0F172A', borderRadius: 12, padding: 12, marginTop: 12 },
+  stepperLabel: { fontSize: 12, fontWeight: '600', color: '#64748B', textTransform: 'uppercase' },
+  stepperValue: { fontSize: 18, fontWeight: '600', color: '#FFFFFF', marginTop: 4 },
+  stepperButtons: { flexDirection: 'row', gap: 8, marginTop: 10 },
+  stepperBtn: { flex: 1, backgroundColor: '#334155', borderRadius: 8, paddingVertical: 8, alignItems: 'center' },
+  stepperBtnText: { color: '#E2E8F0', fontSize: 13, fontWeight: '600' },
+  proposedHours: { fontSize: 13, color: '#94A3B8', textAlign: 'right', marginTop: 8 },
+  reasonInput: { backgroundColor: '#0F172A', borderRadius: 12, padding: 12, color: '#FFFFFF', fontSize: 15, minHeight: 72, textAlignVertical: 'top', marginTop: 8, marginBottom: 12 },
+  submitBtn: { backgroundColor: '#8B5CF6', borderRadius: 12, padding: 16, alignItems: 'center' },
+  submitBtnDisabled: { opacity: 0.6 },
+  submitBtnText: { color: '#FFFFFF', fontSize: 16, fontWeight: '600' },
+});
@@ -0,0 +1,224 @@
+// AppLockOverlay - Lock screen drawn over every route while the app lock is engaged
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  AppState,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useAppLockStore, MAX_PIN_ATTEMPTS } from '../stores/appLockStore';
+import { useAuthStore } from '../stores/authStore';
+import { getBiometricSupport } from '../lib/biometrics';
+import { confirmSignOut } from '../lib/sign-out';
+
+export function AppLockOverlay() {
+  const { isAuthenticated, user, logout } = useAuthStore();
+  const { isLocked, biometricsEnabled, failedAttempts, unlockWithPin, unlockWithBiometrics } = useAppLockStore();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [biometricLabel, setBiometricLabel] = useState<string | null>(null);
+
+  const showing = isAuthenticated && isLocked;
+
+  useEffect(() => {
+    if (biometricsEnabled) {
+      getBiometricSupport().then((support) => setBiometricLabel(support.available ? support.label : null));
+    }
+  }, [biometricsEnabled]);
+
+  // Prompt for biometrics as soon as the lock screen is in front of the user
+  useEffect(() => {
+    if (!showing || !biometricLabel) return;
+
+    if (AppState.currentState === 'active') {
+      unlockWithBiometrics();
+    }
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active' && useAppLockStore.getState().isLocked) {
+        unlockWithBiometrics();
+      }
+    });
+    return () => subscription.remove();
+  }, [showing, biometricLabel]);
+
+  useEffect(() => {
+    if (!showing) {
+      setPin('');
+      setError(null);
+    }
+  }, [showing]);
+
+  const signOut = async () => {
+    await logout();
+    router.replace('/(auth)/login');
+  };
+
+  const handleSubmitPin = async () => {
+    if (!pin) return;
+    const success = await unlockWithPin(pin);
+    setPin('');
+    if (success) return;
+
+    const remaining = MAX_PIN_ATTEMPTS - useAppLockStore.getState().failedAttempts;
+    if (remaining <= 0) {
+      await signOut();
+      return;
+    }
+    setError(`Incorrect PIN. ${remaining} ${remaining === 1 ? 'attempt' : 'attempts'} left.`);
+  };
+
+  if (!showing) {
+    return null;
+  }
+
+  return (
+    <View style={styles.overlay}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.content}
+      >
+        <View style={styles.icon}>
+          <Ionicons name="lock-closed" size={40} color="#8B5CF6" />
+        </View>
+        <Text style={styles.title}>SystemsF1RST is Locked</Text>
+        <Text style={styles.subtitle}>
+          {user?.first_name ? `Welcome back, ${user.first_name}. ` : ''}Enter your PIN to continue.
+        </Text>
+
+        <TextInput
+          style={styles.pinInput}
+          value={pin}
+          onChangeText={(text) => {
+            setPin(text.replace(/\D/g, ''));
+            setError(null);
+          }}
+          onSubmitEditing={handleSubmitPin}
+          placeholder="PIN"
+          placeholderTextColor="#64748B"
+          keyboardType="number-pad"
+          secureTextEntry
+          maxLength={8}
+          autoFocus={!biometricLabel}
+        />
+        {error ? (
+          <Text style={styles.error}>{error}</Text>
+        ) : failedAttempts > 0 ? (
+          <Text style={styles.error}>
+            {MAX_PIN_ATTEMPTS - failedAttempts} attempts left before you're signed out.
+          </Text>
+        ) : null}
+
+        <TouchableOpacity style={styles.unlockButton} onPress={handleSubmitPin}>
+          <Text style={styles.unlockButtonText}>Unlock</Text>
+        </TouchableOpacity>
+
+        {biometricLabel && (
+          <TouchableOpacity style={styles.biometricButton} onPress={unlockWithBiometrics}>
+            <Ionicons name="finger-print" size={20} color="#8B5CF6" />
+            <Text style={styles.biometricButtonText}>Use {biometricLabel}</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity style={styles.signOut} onPress={() => confirmSignOut({ canReview: false })}>
+          <Text style={styles.signOutText}>Sign Out</Text>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#0F172A',
+    zIndex: 1000,
+    elevation: 1000,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  icon: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#8B5CF620',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 24,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  subtitle: {
+    color: '#94A3B8',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  pinInput: {
+    width: '100%',
+    backgroundColor: '#1E293B',
+    borderRadius: 12,
+    paddingVertical: 14,
+    color: '#FFFFFF',
+    fontSize: 24,
+    letterSpacing: 12,
+    textAlign: 'center',
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  error: {
+    color: '#EF4444',
+    fontSize: 13,
+    marginTop: 12,
+  },
+  unlockButton: {
+    width: '100%',
+    backgroundColor: '#8B5CF6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  unlockButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  biometricButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '100%',
+    borderWidth: 1,
+    borderColor: '#8B5CF6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 12,
+    gap: 8,
+  },
+  biometricButtonText: {
+    color: '#8B5CF6',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  signOut: {
+    marginTop: 24,
+  },
+  signOutText: {
+    color: '#64748B',
+    fontSize: 14,
+  },
+});
@@ -1,39 +1,83 @@
 // ConnectionStatus - Shows real-time connection status indicator
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import { useRealtimeContext } from './RealtimeProvider';
+import { useConnectivity } from '../hooks/useConnectivity';
+import {
+  getQueueCount,
+  getDeadLetters,
+  subscribeToQueueChanges,
+  subscribeToDeadLetterChanges,
+} from '../lib/offline-queue';
 
 interface ConnectionStatusProps {
   compact?: boolean;
 }
 
 export function ConnectionStatus({ compact = false }: ConnectionStatusProps) {
-  const { isConnected, connectionError, reconnect } = useRealtimeContext();
+  const router = useRouter();
+  const { isConnected: isRealtimeConnected, connectionError, reconnect } = useRealtimeContext();
+  const network = useConnectivity();
+  const [pendingCount, setPendingCount] = useState(getQueueCount());
+  const [failedCount, setFailedCount] = useState(getDeadLetters().length);
+
+  useEffect(() => {
+    const unsubscribeQueue = subscribeToQueueChanges((queue) => setPendingCount(queue.length));
+    const unsubscribeDeadLetters = subscribeToDeadLetterChanges((letters) => setFailedCount(letters.length));
+    return () => {
+      unsubscribeQueue();
+      unsubscribeDeadLetters();
+    };
+  }, []);
+
+  const hasUnsynced = pendingCount + failedCount > 0;
+  // Without a usable network the realtime state is moot; show why instead
+  const isConnected = network === 'online' && isRealtimeConnected;
+  const isLimited = network === 'limited';
+  const label =
+    network === 'offline' ? 'No network'
+      : isLimited ? 'Limited connection'
+        : isConnected ? 'Live'
+          : connectionError || 'Offline';
+  const color = isConnected ? '#10B981' : isLimited ? '#F59E0B' : '#EF4444';
+
+  // Unsynced work takes priority: tapping opens the pending-sync screen
+  const handlePress = () => {
+    if (hasUnsynced) {
+      router.push('/pending-sync');
+    } else if (network === 'online' && !isConnected) {
+      reconnect();
+    }
+  };
 
   if (compact) {
     return (
-      <View style={[styles.compactContainer, isConnected ? styles.connected : styles.disconnected]}>
-        <View style={[styles.dot, isConnected ? styles.dotConnected : styles.dotDisconnected]} />
+      <View style={[styles.compactContainer, { backgroundColor: `${color}20` }]}>
+        <View style={[styles.dot, { backgroundColor: color }]} />
       </View>
     );
   }
 
   return (
     <TouchableOpacity
-      style={[styles.container, isConnected ? styles.connected : styles.disconnected]}
-      onPress={!isConnected ? reconnect : undefined}
-      disabled={isConnected}
+      style={[styles.container, { backgroundColor: `${color}20` }]}
+      onPress={handlePress}
+      disabled={(isConnected || network !== 'online') && !hasUnsynced}
     >
       <Ionicons
-        name={isConnected ? 'cloud-done' : 'cloud-offline'}
+        name={isConnected ? 'cloud-done' : isLimited ? 'warning-outline' : 'cloud-offline'}
         size={16}
-        color={isConnected ? '#10B981' : '#EF4444'}
+        color={color}
       />
-      <Text style={[styles.text, isConnected ? styles.textConnected : styles.textDisconnected]}>
-        {isConnected ? 'Live' : connectionError || 'Offline'}
-      </Text>
-      {!isConnected && (
+      <Text style={[styles.text, { color }]}>{label}</Text>
+      {hasUnsynced && (
+        <View style={[styles.badge, failedCount > 0 ? styles.badgeFailed : styles.badgePending]}>
+          <Text style={styles.badgeText}>{failedCount > 0 ? `${failedCount} failed` : `${pendingCount} pending`}</Text>
+        </View>
+      )}
+      {network === 'online' && !isConnected && !hasUnsynced && (
         <Ionicons name="refresh" size={14} color="#EF4444" style={styles.refreshIcon} />
       )}
     </TouchableOpacity>
@@ -55,37 +99,36 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
-  connected: {
-    backgroundColor: '#10B98120',
-  },
-  disconnected: {
-    backgroundColor: '#EF444420',
-  },
   dot: {
     width: 8,
     height: 8,
     borderRadius: 4,
   },
-  dotConnected: {
-    backgroundColor: '#10B981',
-  },
-  dotDisconnected: {
-    backgroundColor: '#EF4444',
-  },
   text: {
     fontSize: 12,
     fontWeight: '500',
     marginLeft: 6,
   },
-  textConnected: {
-    color: '#10B981',
-  },
-  textDisconnected: {
-    color: '#EF4444',
-  },
   refreshIcon: {
     marginLeft: 4,
   },
+  badge: {
+    marginLeft: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 8,
+  },
+  badgePending: {
+    backgroundColor: '#F59E0B',
+  },
+  badgeFailed: {
+    backgroundColor: '#EF4444',
+  },
+  badgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
 });
 
 export default ConnectionStatus;
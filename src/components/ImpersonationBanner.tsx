@@ -0,0 +1,78 @@
+// ImpersonationBanner - Shown above every route while an admin views the app as an employee
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useAuthStore } from '../stores/authStore';
+
+export function ImpersonationBanner() {
+  const { user, impersonation, isSwitchingUser, stopImpersonation } = useAuthStore();
+  const insets = useSafeAreaInsets();
+
+  if (!impersonation || !user) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top + 8 }]}>
+      <Ionicons name="eye-outline" size={18} color="#0F172A" />
+      <View style={styles.info}>
+        <Text style={styles.title} numberOfLines={1}>
+          Viewing as {user.first_name} {user.last_name}
+        </Text>
+        <Text style={styles.subtitle} numberOfLines={1}>
+          {impersonation.allow_changes ? 'Changes allowed' : 'View only'} · recorded in the audit log
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.endBtn}
+        onPress={stopImpersonation}
+        disabled={isSwitchingUser}
+        accessibilityLabel={`Stop viewing as ${user.first_name}`}
+      >
+        {isSwitchingUser ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <Text style={styles.endBtnText}>End</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F59E0B',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  info: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#0F172A',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#334155',
+    marginTop: 1,
+  },
+  endBtn: {
+    backgroundColor: '#0F172A',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    minWidth: 56,
+    alignItems: 'center',
+  },
+  endBtnText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,239 @@
+// JobPicker - Choose what time is charged to: a project, client or deal, and/or a cost code
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useProjectsStore } from '../stores/projectsStore';
+import { useCrmStore } from '../stores/crmStore';
+import { useTimeClockStore, JobAllocation } from '../stores/timeClockStore';
+import { hasJob } from '../lib/job-costing';
+import { useCan } from '../hooks/useCan';
+import { syncEntities } from '../lib/sync-engine';
+
+interface JobPickerProps {
+  visible: boolean;
+  value: JobAllocation | null;
+  onSelect: (job: JobAllocation | null) => void;
+  onClose: () => void;
+}
+
+type WorkItemField = 'project_id' | 'deal_id' | 'contact_id';
+
+interface Option {
+  key: string;
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+export function JobPicker({ visible, value, onSelect, onClose }: JobPickerProps) {
+  const { projects, fetchProjects } = useProjectsStore();
+  const { deals, contacts } = useCrmStore();
+  const { costCodes, fetchCostCodes } = useTimeClockStore();
+  const can = useCan();
+  const canSeeCrm = can('crm.access');
+  const [draft, setDraft] = useState<JobAllocation>({});
+
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(value ?? {});
+    fetchProjects();
+    fetchCostCodes();
+    if (canSeeCrm) {
+      syncEntities(['deals', 'contacts']);
+    }
+  }, [visible]);
+
+  // One project, client or deal at a time; the cost code is picked separately
+  const pickWorkItem = (field: WorkItemField, id: string | number) => {
+    const selected = draft[field] === id;
+    setDraft({ cost_code: draft.cost_code, [field]: selected ? null : id });
+  };
+
+  const renderSection = (title: string, options: Option[]) =>
+    options.length > 0 && (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.option, option.selected && styles.optionSelected]}
+            onPress={option.onPress}
+          >
+            <Text style={[styles.optionText, option.selected && styles.optionTextSelected]} numberOfLines={1}>
+              {option.label}
+            </Text>
+            {option.selected && <Ionicons name="checkmark" size={18} color="#8B5CF6" />}
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>What are you working on?</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list}>
+            {renderSection(
+              'Projects',
+              projects
+                .filter((project) => project.status === 'active' || project.status === 'planning')
+                .map((project) => ({
+                  key: `project-${project.id}`,
+                  label: project.name,
+                  selected: draft.project_id === project.id,
+                  onPress: () => pickWorkItem('project_id', project.id),
+                }))
+            )}
+            {canSeeCrm &&
+              renderSection(
+                'Clients',
+                contacts.map((contact) => ({
+                  key: `contact-${contact.id}`,
+                  label: contact.company ? `${contact.name} · ${contact.company}` : contact.name,
+                  selected: draft.contact_id === contact.id,
+                  onPress: () => pickWorkItem('contact_id', contact.id),
+                }))
+              )}
+            {canSeeCrm &&
+              renderSection(
+                'Deals',
+                deals
+                  .filter((deal) => deal.stage !== 'lost')
+                  .map((deal) => ({
+                    key: `deal-${deal.id}`,
+                    label: deal.name,
+                    selected: draft.deal_id === deal.id,
+                    onPress: () => pickWorkItem('deal_id', deal.id),
+                  }))
+              )}
+            {renderSection(
+              'Cost Codes',
+              costCodes.map((costCode) => ({
+                key: `cost-${costCode.code}`,
+                label: `${costCode.code} · ${costCode.name}`,
+                selected: draft.cost_code === costCode.code,
+                onPress: () =>
+                  setDraft({ ...draft, cost_code: draft.cost_code === costCode.code ? null : costCode.code }),
+              }))
+            )}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.clearButton} onPress={() => onSelect(null)}>
+              <Text style={styles.clearButtonText}>No Job</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.doneButton, !hasJob(draft) && styles.doneButtonDisabled]}
+              onPress={() => onSelect(draft)}
+              disabled={!hasJob(draft)}
+            >
+              <Text style={styles.doneButtonText}>Use This Job</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#1E293B',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  section: {
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#0F172A',
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: '#0F172A',
+  },
+  optionSelected: {
+    borderColor: '#8B5CF6',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#E2E8F0',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  clearButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#334155',
+  },
+  clearButtonText: {
+    color: '#E2E8F0',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  doneButton: {
+    flex: 2,
+    padding: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#8B5CF6',
+  },
+  doneButtonDisabled: {
+    opacity: 0.5,
+  },
+  doneButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,74 @@
+// ToastHost - Renders toasts from the toast store above the current screen
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useToastStore, ToastType } from '../stores/toastStore';
+
+const TOAST_COLORS: Record<ToastType, string> = {
+  error: '#EF4444',
+  success: '#10B981',
+  info: '#8B5CF6',
+};
+
+const TOAST_ICONS: Record<ToastType, string> = {
+  error: 'alert-circle',
+  success: 'checkmark-circle',
+  info: 'information-circle',
+};
+
+export function ToastHost() {
+  const { toasts, dismissToast } = useToastStore();
+  const insets = useSafeAreaInsets();
+
+  if (toasts.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, { bottom: insets.bottom + 16 }]} pointerEvents="box-none">
+      {toasts.map((toast) => (
+        <TouchableOpacity
+          key={toast.id}
+          style={[styles.toast, { borderLeftColor: TOAST_COLORS[toast.type] }]}
+          onPress={() => dismissToast(toast.id)}
+          activeOpacity={0.8}
+        >
+          <Ionicons name={TOAST_ICONS[toast.type] as any} size={20} color={TOAST_COLORS[toast.type]} />
+          <Text style={styles.message}>{toast.message}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E293B',
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginTop: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginLeft: 10,
+  },
+});
+
+export default ToastHost;
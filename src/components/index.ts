@@ -1,4 +1,8 @@
 // Components index
 export { RealtimeProvider, useRealtimeContext } from './RealtimeProvider';
 export { ConnectionStatus } from './ConnectionStatus';
+export { ToastHost } from './Toast';
+export { AppLockOverlay } from './AppLockOverlay';
+export { ImpersonationBanner } from './ImpersonationBanner';
+export { JobPicker } from './JobPicker';
 export { default as CalendarWidget } from './CalendarWidget';
@@ -1,2 +1,4 @@
 // Hooks index
 export { useRealtime } from './useRealtime';
+export { useConnectivity } from './useConnectivity';
+export { useCan } from './useCan';
@@ -0,0 +1,11 @@
+// Hook returning `can` bound to the signed-in user; re-renders when the user changes
+import { useCallback } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { can, Permission } from '../lib/permissions';
+
+export function useCan(): (permission: Permission) => boolean {
+  const user = useAuthStore((state) => state.user);
+  return useCallback((permission: Permission) => can(permission, user), [user]);
+}
+
+export default useCan;
@@ -0,0 +1,17 @@
+// Hook exposing the debounced network status from the connectivity service
+import { useEffect, useState } from 'react';
+import { ConnectivityStatus, getConnectivity, subscribeToConnectivity } from '../lib/connectivity';
+
+export function useConnectivity(): ConnectivityStatus {
+  const [status, setStatus] = useState<ConnectivityStatus>(getConnectivity());
+
+  useEffect(() => {
+    // Catch a change that landed between render and subscribe
+    setStatus(getConnectivity());
+    return subscribeToConnectivity(setStatus);
+  }, []);
+
+  return status;
+}
+
+export default useConnectivity;
@@ -1,6 +1,7 @@
 // Hook to integrate realtime WebSocket updates with stores
 import { useEffect, useState, useCallback } from 'react';
 import { realtimeService, CrmUpdateEvent, CalendarUpdateEvent, AgentUpdateEvent, NotificationEvent } from '../lib/realtime';
+import { syncAll } from '../lib/sync-engine';
 import { useCrmStore, useCalendarStore, useOrchestraStore, useAuthStore } from '../stores';
 import { Alert, Vibration, Platform } from 'react-native';
 
@@ -59,6 +60,11 @@ export function useRealtime(options: UseRealtimeOptions = {}) {
   const handleConnectionChange = useCallback((connected: boolean) => {
     setIsConnected(connected);
     setConnectionError(connected ? null : 'Disconnected from server');
+
+    // Catch up on anything broadcast while the socket was down
+    if (connected) {
+      syncAll();
+    }
   }, []);
 
   // Connect/disconnect based on auth state
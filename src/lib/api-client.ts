@@ -0,0 +1,341 @@
+// Typed API client for SystemsF1RST Mobile
+// One method per backend endpoint, built on top of the shared axios instance.
+// Every Laravel envelope is normalized here so stores never touch response.data directly.
+
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+import api from './api';
+import type { Lead, Contact, Deal, Communication } from '../stores/crmStore';
+import type { AICall, Voice, CallScript } from '../stores/callerStore';
+import type { Conversation, Message } from '../stores/messagingStore';
+import type { CalendarEvent, ExternalCalendar, CreateEventParams } from '../stores/calendarStore';
+import type { AgentSession, AgentTool, PendingApproval } from '../stores/orchestra-store';
+
+// Pagination metadata, flattened from Laravel's `meta`/`links` (or the top-level
+// length-aware paginator fields when the resource isn't wrapped)
+export interface PageMeta {
+  currentPage?: number;
+  lastPage?: number;
+  perPage?: number;
+  total?: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface ApiResult<T> {
+  data: T;
+  meta?: PageMeta;
+  message?: string;
+}
+
+// Normalized error shape for every failed request
+export class ApiError extends Error {
+  status: number | null;
+  code: string | null;
+  // Laravel validation errors, keyed by field (422 responses)
+  errors: Record<string, string[]>;
+  isNetworkError: boolean;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number | null;
+      code?: string | null;
+      errors?: Record<string, string[]>;
+      isNetworkError?: boolean;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status ?? null;
+    this.code = options.code ?? null;
+    this.errors = options.errors ?? {};
+    this.isNetworkError = options.isNetworkError ?? false;
+  }
+
+  get isValidationError(): boolean {
+    return this.status === 422;
+  }
+
+  // First message per field, ready to render under a form input
+  get fieldErrors(): Record<string, string> {
+    const fields: Record<string, string> = {};
+    Object.entries(this.errors).forEach(([field, messages]) => {
+      if (messages.length > 0) {
+        fields[field] = messages[0];
+      }
+    });
+    return fields;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Convert anything thrown by axios (or a mocked client) into an ApiError
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  const err = error as {
+    message?: string;
+    code?: string;
+    response?: { status?: number; data?: any };
+  };
+  const body = err?.response?.data;
+  const rawErrors = body && typeof body === 'object' ? body.errors : undefined;
+
+  const errors: Record<string, string[]> = {};
+  if (rawErrors && typeof rawErrors === 'object' && !Array.isArray(rawErrors)) {
+    Object.entries(rawErrors).forEach(([field, value]) => {
+      errors[field] = Array.isArray(value) ? value.map(String) : [String(value)];
+    });
+  }
+
+  const message =
+    (body && typeof body === 'object' && (body.message || body.error)) ||
+    err?.message ||
+    'Request failed';
+
+  return new ApiError(message, {
+    status: err?.response?.status ?? null,
+    code: err?.code ?? null,
+    errors,
+    isNetworkError: !err?.response && (err?.code === 'ERR_NETWORK' || err?.message === 'Network Error'),
+  });
+};
+
+const parseCursor = (url: unknown): string | null => {
+  if (typeof url !== 'string') return null;
+  const match = url.match(/[?&]cursor=([^&]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+const buildPageMeta = (body: any): PageMeta | undefined => {
+  const meta = body.meta && typeof body.meta === 'object' ? body.meta : body;
+  const links = body.links && typeof body.links === 'object' && !Array.isArray(body.links) ? body.links : body;
+
+  const isPaginated =
+    meta.current_page !== undefined ||
+    meta.next_cursor !== undefined ||
+    links.next !== undefined ||
+    body.next_page_url !== undefined;
+  if (!isPaginated) return undefined;
+
+  const nextUrl = links.next ?? body.next_page_url ?? meta.next_page_url ?? null;
+  const nextCursor = meta.next_cursor ?? parseCursor(nextUrl);
+  const currentPage = meta.current_page;
+  const lastPage = meta.last_page;
+
+  return {
+    currentPage,
+    lastPage,
+    perPage: meta.per_page,
+    total: meta.total,
+    nextCursor: nextCursor ?? null,
+    hasMore:
+      nextCursor != null ||
+      nextUrl != null ||
+      (currentPage !== undefined && lastPage !== undefined && currentPage < lastPage),
+  };
+};
+
+/**
+ * Normalize a Laravel response body into an ApiResult.
+ * Handles `{ data }`, paginated `{ data, meta, links }`, bare arrays/objects,
+ * and endpoint-specific keys like `{ voices: [...] }` via `key`.
+ */
+export const normalizeEnvelope = <T>(body: any, key?: string): ApiResult<T> => {
+  if (body === null || body === undefined || typeof body !== 'object' || Array.isArray(body)) {
+    return { data: body as T };
+  }
+
+  let data: any;
+  if (key && body[key] !== undefined) {
+    data = body[key];
+  } else if (body.data !== undefined) {
+    data = body.data;
+  } else {
+    data = body;
+  }
+
+  return {
+    data: data as T,
+    meta: buildPageMeta(body),
+    message: typeof body.message === 'string' ? body.message : undefined,
+  };
+};
+
+// A record deleted on the server since the last sync
+export interface Tombstone {
+  id: string | number;
+  deleted_at?: string;
+}
+
+// Records changed since a high-water mark, split into updates and tombstones
+export interface DeltaResult<T> {
+  changed: T[];
+  deleted: Tombstone[];
+  // Server clock when the query ran; the next high-water mark
+  serverTime: string | null;
+  meta?: PageMeta;
+}
+
+/**
+ * Normalize an `updated_since` response. Tombstones may come as a `deleted`
+ * list (ids or `{ id, deleted_at }`) or as soft-deleted rows in `data`.
+ */
+export const normalizeDelta = <T>(body: any, key?: string): DeltaResult<T> => {
+  const { data, meta } = normalizeEnvelope<any>(body, key);
+  // Some endpoints nest a paginator under their key, e.g. { entries: { data: [...] } }
+  const records: any[] = Array.isArray(data) ? data : Array.isArray(data?.data) ? data.data : [];
+  const source = body && typeof body === 'object' ? body : {};
+  const rawDeleted: unknown[] = source.deleted ?? source.meta?.deleted ?? [];
+
+  const deleted: Tombstone[] = [
+    ...rawDeleted.map((item) => (item && typeof item === 'object' ? (item as Tombstone) : { id: item as string | number })),
+    ...records.filter((record) => record?.deleted_at).map((record) => ({ id: record.id, deleted_at: record.deleted_at })),
+  ];
+
+  return {
+    changed: records.filter((record) => !record?.deleted_at) as T[],
+    deleted,
+    serverTime: source.server_time ?? source.meta?.server_time ?? null,
+    meta,
+  };
+};
+
+// Run a request and normalize both outcomes
+const send = <T>(request: Promise<AxiosResponse>, key?: string): Promise<ApiResult<T>> =>
+  request.then(
+    (response) => normalizeEnvelope<T>(response?.data, key),
+    (error) => {
+      throw toApiError(error);
+    }
+  );
+
+type QueryParams = Record<string, unknown>;
+
+export const apiClient = {
+  crm: {
+    listLeads: (params?: QueryParams) =>
+      send<Lead[]>(api.get('/crm/leads', { params })),
+    createLead: (data: Partial<Lead>, config?: AxiosRequestConfig) =>
+      send<Lead>(api.post('/crm/leads', data, config)),
+    updateLead: (id: number, data: Partial<Lead>, config?: AxiosRequestConfig) =>
+      send<Lead>(api.put(`/crm/leads/${id}`, data, config)),
+    deleteLead: (id: number, config?: AxiosRequestConfig) =>
+      send<void>(api.delete(`/crm/leads/${id}`, config)),
+
+    listContacts: (params?: QueryParams) =>
+      send<Contact[]>(api.get('/crm/contacts', { params })),
+    createContact: (data: Partial<Contact>, config?: AxiosRequestConfig) =>
+      send<Contact>(api.post('/crm/contacts', data, config)),
+    updateContact: (id: number, data: Partial<Contact>, config?: AxiosRequestConfig) =>
+      send<Contact>(api.put(`/crm/contacts/${id}`, data, config)),
+    deleteContact: (id: number, config?: AxiosRequestConfig) =>
+      send<void>(api.delete(`/crm/contacts/${id}`, config)),
+
+    listDeals: (params?: QueryParams) =>
+      send<Deal[]>(api.get('/crm/deals', { params })),
+    createDeal: (data: Partial<Deal>, config?: AxiosRequestConfig) =>
+      send<Deal>(api.post('/crm/deals', data, config)),
+    updateDeal: (id: number, data: Partial<Deal>, config?: AxiosRequestConfig) =>
+      send<Deal>(api.put(`/crm/deals/${id}`, data, config)),
+    deleteDeal: (id: number, config?: AxiosRequestConfig) =>
+      send<void>(api.delete(`/crm/deals/${id}`, config)),
+    moveDealStage: (id: number, stage: string, config?: AxiosRequestConfig) =>
+      send<Deal>(api.post(`/crm/deals/${id}/move-stage`, { stage }, config)),
+
+    listCommunications: (params?: { contact_id?: number; deal_id?: number }) =>
+      send<Communication[]>(api.get('/crm/communications', { params })),
+    createCommunication: (data: Partial<Communication>) =>
+      send<Communication>(api.post('/crm/communications', data)),
+  },
+
+  caller: {
+    listCalls: (params?: QueryParams) =>
+      send<AICall[]>(api.get('/sales/conversational-ai/calls', { params })),
+    listVoices: () => send<Voice[]>(api.get('/sales/elevenlabs/voices'), 'voices'),
+    listScripts: () => send<CallScript[]>(api.get('/sales/conversational-ai/scripts')),
+    initiateCall: (data: {
+      contact_id?: number;
+      phone_number?: string;
+      call_type: AICall['type'];
+      voice_id?: string;
+      script?: string;
+    }) => send<AICall>(api.post('/sales/conversational-ai/call', data)),
+    getCall: (callId: string) => send<AICall>(api.get(`/sales/conversational-ai/call/${callId}`)),
+    getTranscript: (callId: string) =>
+      send<string>(api.get(`/sales/conversational-ai/call/${callId}/transcript`), 'transcript'),
+    cancelCall: (callId: string) => send<void>(api.post(`/sales/conversational-ai/call/${callId}/cancel`)),
+  },
+
+  messaging: {
+    listConversations: (params?: QueryParams) =>
+      send<Conversation[]>(api.get('/customer/conversations', { params })),
+    listMessages: (conversationId: string, params?: QueryParams) =>
+      send<Message[]>(api.get(`/customer/conversations/${conversationId}/messages`, { params })),
+    sendMessage: (
+      conversationId: string,
+      data: { content: string; type: 'sms' | 'email' },
+      config?: AxiosRequestConfig
+    ) => send<Message>(api.post(`/customer/conversations/${conversationId}/messages`, data, config)),
+    sendNewMessage: (data: { to: string; content: string; type: 'sms' | 'email'; subject?: string }) =>
+      send<Message>(api.post('/customer/messages/send', data)),
+    markMessageRead: (conversationId: string, messageId: string) =>
+      send<void>(api.post(`/customer/conversations/${conversationId}/messages/${messageId}/read`)),
+    markConversationRead: (conversationId: string) =>
+      send<void>(api.post(`/customer/conversations/${conversationId}/read`)),
+    archiveConversation: (conversationId: string, config?: AxiosRequestConfig) =>
+      send<void>(api.post(`/customer/conversations/${conversationId}/archive`, undefined, config)),
+  },
+
+  calendar: {
+    listEvents: (params: { start: string; end: string }) =>
+      send<CalendarEvent[]>(api.get('/calendar/events', { params })),
+    createEvent: (data: CreateEventParams, config?: AxiosRequestConfig) =>
+      send<CalendarEvent>(api.post('/calendar/events', data, config)),
+    updateEvent: (eventId: string, data: Partial<CreateEventParams>, config?: AxiosRequestConfig) =>
+      send<CalendarEvent>(api.put(`/calendar/events/${eventId}`, data, config)),
+    deleteEvent: (eventId: string, config?: AxiosRequestConfig) =>
+      send<void>(api.delete(`/calendar/events/${eventId}`, config)),
+    listCalendars: () => send<ExternalCalendar[]>(api.get('/calendar-sync/calendars')),
+    getOAuthUrl: async (provider: ExternalCalendar['provider']) => {
+      const result = await send<{ url?: string }>(api.get(`/calendar-sync/oauth/${provider}/authorize`));
+      return result.data?.url;
+    },
+    disconnectCalendar: (calendarId: string) =>
+      send<void>(api.delete(`/calendar-sync/calendars/${calendarId}`)),
+    syncCalendar: (calendarId: string) => send<void>(api.post(`/calendar-sync/calendars/${calendarId}/sync`)),
+  },
+
+  sync: {
+    // Any list endpoint that accepts `updated_since`
+    changes: <T>(path: string, params: QueryParams, key?: string) =>
+      api.get(path, { params }).then(
+        (response) => normalizeDelta<T>(response?.data, key),
+        (error) => {
+          throw toApiError(error);
+        }
+      ),
+  },
+
+  agent: {
+    chat: (data: { message: string; session_id?: string }) => send<any>(api.post('/agent/chat', data)),
+    listPendingApprovals: () => send<PendingApproval[]>(api.get('/agent/pending')),
+    approve: (approvalId: string) => send<void>(api.post('/agent/approve', { approval_id: approvalId })),
+    reject: (approvalId: string, reason?: string) =>
+      send<void>(api.post('/agent/reject', { approval_id: approvalId, reason })),
+    listTools: () => send<AgentTool[]>(api.get('/agent/tools')),
+    execute: (approvalId: string) =>
+      send<{ success: boolean; result?: any; error?: string }>(
+        api.post('/agent/execute', { approval_id: approvalId })
+      ),
+    listSessions: () => send<AgentSession[]>(api.get('/agent/sessions')),
+    getSession: (sessionId: string) => send<AgentSession>(api.get(`/agent/sessions/${sessionId}`)),
+  },
+};
+
+export type ApiClient = typeof apiClient;
+
+export default apiClient;
@@ -1,6 +1,9 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import Constants from 'expo-constants';
+import { secureStorage, migrateFromAsyncStorage } from './secure-storage';
+import { emitAuthEvent } from './auth-events';
+import { getTokenExpiry, isTokenExpiring } from './jwt';
+import { recordServerTime } from './device-clock';
 
 // API configuration from app.json extra config
 const extra = Constants.expoConfig?.extra ?? {};
@@ -15,33 +18,67 @@ export const api = axios.create({
   },
 });
 
-// Token storage keys
+// Token storage keys (kept in secure storage, see lib/secure-storage)
 const AUTH_TOKEN_KEY = 'sf_auth_token';
 const REFRESH_TOKEN_KEY = 'sf_refresh_token';
 const USER_KEY = 'sf_user';
+// "Remember this device" token from two-factor login; outlives sign-out on purpose
+const DEVICE_TOKEN_KEY = 'sf_device_token';
+// Organization chosen in the switcher, for users who belong to several
+const ORGANIZATION_KEY = 'sf_organization_id';
+// An admin viewing the app as an employee: the impersonation details, and the
+// admin's own session set aside until it ends
+const IMPERSONATION_KEY = 'sf_impersonation';
+const IMPERSONATOR_TOKEN_KEY = 'sf_impersonator_token';
+const IMPERSONATOR_REFRESH_TOKEN_KEY = 'sf_impersonator_refresh_token';
+const IMPERSONATOR_USER_KEY = 'sf_impersonator_user';
+const IMPERSONATION_KEYS = [
+  IMPERSONATION_KEY,
+  IMPERSONATOR_TOKEN_KEY,
+  IMPERSONATOR_REFRESH_TOKEN_KEY,
+  IMPERSONATOR_USER_KEY,
+];
 
-// Flag to prevent multiple refresh attempts
-let isRefreshing = false;
-let failedQueue: Array<{
-  resolve: (token: string | null) => void;
-  reject: (error: Error) => void;
-}> = [];
-
-// Process queued requests after token refresh
-const processQueue = (error: Error | null, token: string | null = null) => {
-  failedQueue.forEach((prom) => {
-    if (error) {
-      prom.reject(error);
-    } else {
-      prom.resolve(token);
-    }
-  });
-  failedQueue = [];
+// Tells the backend which tenant a request is for; without it the user's default organization is used
+export const ORGANIZATION_HEADER = 'X-Organization-Id';
+
+// Refresh this long before the access token expires, so requests never go out with a dead token
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Auth endpoints answer 401 for bad credentials; refreshing wouldn't help
+const NO_REFRESH_URLS = [
+  '/auth/login',
+  '/auth/two-factor/challenge',
+  '/auth/sso',
+  '/auth/magic-link',
+  '/auth/reset-password',
+  '/auth/refresh',
+];
+
+const skipsRefresh = (url?: string) => NO_REFRESH_URLS.some((path) => url?.includes(path));
+
+// Rejected before sending when an impersonating admin hasn't allowed changes
+export const IMPERSONATION_READ_ONLY = 'ERR_IMPERSONATION_READ_ONLY';
+
+// Ending the impersonation or signing out must always get through
+const IMPERSONATION_ALLOWED_URLS = ['/auth/impersonation', '/auth/logout'];
+
+const isReadOnlyBlocked = async (config: InternalAxiosRequestConfig): Promise<boolean> => {
+  const method = (config.method ?? 'get').toLowerCase();
+  if (method === 'get' || method === 'head' || method === 'options') return false;
+  if (IMPERSONATION_ALLOWED_URLS.some((path) => config.url?.includes(path))) return false;
+
+  const impersonation = await secureStorage.getItem(IMPERSONATION_KEY);
+  return !!impersonation && !JSON.parse(impersonation).allow_changes;
 };
 
-// Refresh token function
+/**
+ * Exchange the refresh token for a new access token.
+ * Resolves null when there is no refresh token or the backend rejects it;
+ * throws on network errors so a device that's offline keeps its session.
+ */
 const refreshAuthToken = async (): Promise<string | null> => {
-  const refreshToken = await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+  const refreshToken = await secureStorage.getItem(REFRESH_TOKEN_KEY);
   if (!refreshToken) {
     return null;
   }
@@ -52,29 +89,115 @@ const refreshAuthToken = async (): Promise<string | null> => {
     });
 
     const { token, refresh_token: newRefreshToken } = response.data;
+    if (!token) {
+      return null;
+    }
 
-    if (token) {
-      await AsyncStorage.setItem(AUTH_TOKEN_KEY, token);
-      if (newRefreshToken) {
-        await AsyncStorage.setItem(REFRESH_TOKEN_KEY, newRefreshToken);
-      }
-      return token;
+    await secureStorage.setItem(AUTH_TOKEN_KEY, token);
+    if (newRefreshToken) {
+      await secureStorage.setItem(REFRESH_TOKEN_KEY, newRefreshToken);
+    }
+    emitAuthEvent({ type: 'token_refreshed', token });
+    return token;
+  } catch (error) {
+    if (axios.isAxiosError(error) && !error.response) {
+      throw error;
     }
-    return null;
-  } catch {
-    // Refresh failed - clear all auth data
-    await AsyncStorage.multiRemove([AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY]);
     return null;
   }
 };
 
+// The refresh token is gone or rejected: drop the auth data and tell the app
+const expireSession = async () => {
+  // Impersonation tokens can't be refreshed; when one runs out the admin gets their own session back
+  if (await endImpersonationSession()) {
+    emitAuthEvent({ type: 'impersonation_ended' });
+    return;
+  }
+  await secureStorage.multiRemove([AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY, ORGANIZATION_KEY]);
+  emitAuthEvent({ type: 'session_expired' });
+};
+
+// In-flight refresh; requests that need one meanwhile wait for the same result
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshSession = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = refreshAuthToken()
+      .then(async (token) => {
+        if (!token) {
+          await expireSession();
+        }
+        return token;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// Also refresh ahead of expiry while the app sits idle, so realtime channel auth keeps working
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let scheduledToken: string | null = null;
+// setTimeout can't wait longer than this
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const scheduleRefresh = (token: string | null) => {
+  if (token === scheduledToken) return;
+  scheduledToken = token;
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+
+  const expiry = token ? getTokenExpiry(token) : null;
+  if (expiry === null) return;
+
+  const delay = Math.max(expiry - REFRESH_MARGIN_MS - Date.now(), 0);
+  if (delay > MAX_TIMER_DELAY_MS) return;
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshSession().catch(() => {
+      // Offline; the next request tries again
+    });
+  }, delay);
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   async (config) => {
-    const token = await AsyncStorage.getItem(AUTH_TOKEN_KEY);
+    let token = await secureStorage.getItem(AUTH_TOKEN_KEY);
+
+    // Refresh before sending rather than waiting for the 401
+    if (
+      token &&
+      !skipsRefresh(config.url) &&
+      isTokenExpiring(token, REFRESH_MARGIN_MS) &&
+      (await secureStorage.getItem(REFRESH_TOKEN_KEY))
+    ) {
+      try {
+        token = await refreshSession();
+      } catch {
+        // Offline; send it with the token we have
+      }
+      if (!token) {
+        throw new AxiosError('Session expired', 'ERR_SESSION_EXPIRED', config);
+      }
+    }
+
+    if (await isReadOnlyBlocked(config)) {
+      throw new AxiosError("Changes are turned off while you're viewing as another user", IMPERSONATION_READ_ONLY, config);
+    }
+
+    scheduleRefresh(token);
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    const organizationId = await secureStorage.getItem(ORGANIZATION_KEY);
+    if (organizationId) {
+      config.headers[ORGANIZATION_HEADER] = organizationId;
+    }
     // Add app identifier
     config.headers['X-App'] = 'systemsf1rst-mobile';
     return config;
@@ -84,57 +207,36 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle auth errors with token refresh
+// Response interceptor: a 401 gets one refresh and one retry
 api.interceptors.response.use(
-  (response) => response,
+  (response) => {
+    // Keeps the offline punch clock check anchored to server time
+    recordServerTime(response.headers?.date);
+    return response;
+  },
   async (error: AxiosError) => {
     const originalRequest = error.config as InternalAxiosRequestConfig & { _retry?: boolean };
 
-    // Only attempt refresh for 401 errors on non-auth endpoints
     if (
       error.response?.status === 401 &&
       originalRequest &&
       !originalRequest._retry &&
-      !originalRequest.url?.includes('/auth/login') &&
-      !originalRequest.url?.includes('/auth/refresh')
+      !skipsRefresh(originalRequest.url)
     ) {
-      if (isRefreshing) {
-        // Queue this request while refresh is in progress
-        return new Promise((resolve, reject) => {
-          failedQueue.push({ resolve, reject });
-        })
-          .then((token) => {
-            if (token && originalRequest.headers) {
-              originalRequest.headers.Authorization = `Bearer ${token}`;
-            }
-            return api(originalRequest);
-          })
-          .catch((err) => Promise.reject(err));
-      }
-
       originalRequest._retry = true;
-      isRefreshing = true;
 
+      let newToken: string | null;
       try {
-        const newToken = await refreshAuthToken();
-
-        if (newToken) {
-          // Refresh successful - retry original request
-          if (originalRequest.headers) {
-            originalRequest.headers.Authorization = `Bearer ${newToken}`;
-          }
-          processQueue(null, newToken);
-          return api(originalRequest);
-        } else {
-          // Refresh failed - clear auth and reject
-          processQueue(new Error('Token refresh failed'), null);
-          await AsyncStorage.multiRemove([AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY]);
+        newToken = await refreshSession();
+      } catch {
+        return Promise.reject(error);
+      }
+
+      if (newToken) {
+        if (originalRequest.headers) {
+          originalRequest.headers.Authorization = `Bearer ${newToken}`;
         }
-      } catch (refreshError) {
-        processQueue(refreshError as Error, null);
-        await AsyncStorage.multiRemove([AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY]);
-      } finally {
-        isRefreshing = false;
+        return api(originalRequest);
       }
     }
 
@@ -144,53 +246,146 @@ api.interceptors.response.use(
 
 // Auth helper functions
 export const setAuthToken = async (token: string) => {
-  await AsyncStorage.setItem(AUTH_TOKEN_KEY, token);
+  await secureStorage.setItem(AUTH_TOKEN_KEY, token);
 };
 
 export const getAuthToken = async (): Promise<string | null> => {
-  return AsyncStorage.getItem(AUTH_TOKEN_KEY);
+  return secureStorage.getItem(AUTH_TOKEN_KEY);
 };
 
 export const clearAuthToken = async () => {
-  await AsyncStorage.removeItem(AUTH_TOKEN_KEY);
+  await secureStorage.removeItem(AUTH_TOKEN_KEY);
 };
 
 export const setStoredUser = async (user: object) => {
-  await AsyncStorage.setItem(USER_KEY, JSON.stringify(user));
+  await secureStorage.setItem(USER_KEY, JSON.stringify(user));
 };
 
 export const getStoredUser = async (): Promise<object | null> => {
-  const userStr = await AsyncStorage.getItem(USER_KEY);
+  const userStr = await secureStorage.getItem(USER_KEY);
   return userStr ? JSON.parse(userStr) : null;
 };
 
 export const clearStoredUser = async () => {
-  await AsyncStorage.removeItem(USER_KEY);
+  await secureStorage.removeItem(USER_KEY);
 };
 
 export const clearAuth = async () => {
-  await AsyncStorage.multiRemove([AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY]);
+  scheduleRefresh(null);
+  await secureStorage.multiRemove([
+    AUTH_TOKEN_KEY,
+    REFRESH_TOKEN_KEY,
+    USER_KEY,
+    ORGANIZATION_KEY,
+    ...IMPERSONATION_KEYS,
+  ]);
 };
 
 // Refresh token helpers
 export const setRefreshToken = async (token: string) => {
-  await AsyncStorage.setItem(REFRESH_TOKEN_KEY, token);
+  await secureStorage.setItem(REFRESH_TOKEN_KEY, token);
 };
 
 export const getRefreshToken = async (): Promise<string | null> => {
-  return AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+  return secureStorage.getItem(REFRESH_TOKEN_KEY);
 };
 
 export const clearRefreshToken = async () => {
-  await AsyncStorage.removeItem(REFRESH_TOKEN_KEY);
+  await secureStorage.removeItem(REFRESH_TOKEN_KEY);
 };
 
 // Set both tokens at once (useful after login)
 export const setAuthTokens = async (accessToken: string, refreshToken: string) => {
-  await AsyncStorage.multiSet([
+  await secureStorage.multiSet([
     [AUTH_TOKEN_KEY, accessToken],
     [REFRESH_TOKEN_KEY, refreshToken],
   ]);
 };
 
+// Trusted-device token that lets login skip the two-factor step
+export const setDeviceToken = async (token: string) => {
+  await secureStorage.setItem(DEVICE_TOKEN_KEY, token);
+};
+
+export const getDeviceToken = async (): Promise<string | null> => {
+  return secureStorage.getItem(DEVICE_TOKEN_KEY);
+};
+
+export const clearDeviceToken = async () => {
+  await secureStorage.removeItem(DEVICE_TOKEN_KEY);
+};
+
+// Active organization, sent with every request (cleared with the rest of the auth data)
+export const setActiveOrganization = async (organizationId: number) => {
+  await secureStorage.setItem(ORGANIZATION_KEY, String(organizationId));
+};
+
+export const getActiveOrganization = async (): Promise<number | null> => {
+  const organizationId = await secureStorage.getItem(ORGANIZATION_KEY);
+  return organizationId ? Number(organizationId) : null;
+};
+
+export const clearActiveOrganization = async () => {
+  await secureStorage.removeItem(ORGANIZATION_KEY);
+};
+
+/**
+ * Switch to an impersonation token, keeping the admin's session aside.
+ * The scoped token has no refresh token; it's used until it expires or the admin ends it.
+ */
+export const startImpersonationSession = async (token: string, user: object, impersonation: object) => {
+  const [adminToken, adminRefreshToken, adminUser] = await Promise.all([
+    secureStorage.getItem(AUTH_TOKEN_KEY),
+    secureStorage.getItem(REFRESH_TOKEN_KEY),
+    secureStorage.getItem(USER_KEY),
+  ]);
+  if (!adminToken) {
+    throw new Error('Not signed in');
+  }
+
+  const saved: Array<[string, string]> = [[IMPERSONATOR_TOKEN_KEY, adminToken]];
+  if (adminRefreshToken) saved.push([IMPERSONATOR_REFRESH_TOKEN_KEY, adminRefreshToken]);
+  if (adminUser) saved.push([IMPERSONATOR_USER_KEY, adminUser]);
+
+  await secureStorage.multiSet([
+    ...saved,
+    [AUTH_TOKEN_KEY, token],
+    [USER_KEY, JSON.stringify(user)],
+    [IMPERSONATION_KEY, JSON.stringify(impersonation)],
+  ]);
+  await secureStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+/**
+ * Put the admin's own session back. Resolves false when nobody was being impersonated.
+ */
+export const endImpersonationSession = async (): Promise<boolean> => {
+  const [adminToken, adminRefreshToken, adminUser] = await Promise.all([
+    secureStorage.getItem(IMPERSONATOR_TOKEN_KEY),
+    secureStorage.getItem(IMPERSONATOR_REFRESH_TOKEN_KEY),
+    secureStorage.getItem(IMPERSONATOR_USER_KEY),
+  ]);
+  if (!adminToken) {
+    return false;
+  }
+
+  const restored: Array<[string, string]> = [[AUTH_TOKEN_KEY, adminToken]];
+  if (adminRefreshToken) restored.push([REFRESH_TOKEN_KEY, adminRefreshToken]);
+  if (adminUser) restored.push([USER_KEY, adminUser]);
+
+  await secureStorage.multiSet(restored);
+  await secureStorage.multiRemove(IMPERSONATION_KEYS);
+  return true;
+};
+
+export const getImpersonation = async (): Promise<object | null> => {
+  const impersonation = await secureStorage.getItem(IMPERSONATION_KEY);
+  return impersonation ? JSON.parse(impersonation) : null;
+};
+
+// Older builds kept the tokens and user in plain AsyncStorage
+export const migrateStoredAuth = async () => {
+  await migrateFromAsyncStorage([AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY]);
+};
+
 export default api;
@@ -0,0 +1,32 @@
+// Auth events
+// The http layer announces session changes here; authStore and the realtime
+// service listen, so nothing keeps using a token that has been replaced or
+// a session the backend has ended.
+
+export type AuthEvent =
+  // A refresh produced a new access token
+  | { type: 'token_refreshed'; token: string }
+  // The refresh token was rejected; tokens are already gone
+  | { type: 'session_expired' }
+  // An impersonation token ran out; the admin's own tokens are back in place
+  | { type: 'impersonation_ended' };
+
+type AuthEventListener = (event: AuthEvent) => void;
+
+const listeners: Set<AuthEventListener> = new Set();
+
+export const onAuthEvent = (listener: AuthEventListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// One listener failing doesn't keep the event from the rest
+export const emitAuthEvent = (event: AuthEvent): void => {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[AuthEvents] Listener failed:', event.type, error);
+    }
+  });
+};
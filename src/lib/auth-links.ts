@@ -0,0 +1,101 @@
+// Email links
+// Password-reset and passwordless sign-in emails link into the app:
+//   systemsf1rst://reset-password?token=...
+//   systemsf1rst://magic-login?token=...
+// Each opens the (auth) screen of the same name. Tokens are single-use and
+// short-lived, so both screens need to explain an expired or used link.
+
+import { api } from './api';
+
+export type LinkTokenError = 'expired' | 'used' | 'invalid';
+
+export const LINK_TOKEN_MESSAGES: Record<LinkTokenError, string> = {
+  expired: 'This link has expired. Request a new one and use it within the hour.',
+  used: 'This link has already been used. Request a new one if you still need it.',
+  invalid: "This link isn't valid. Make sure you opened the latest email we sent.",
+};
+
+/**
+ * Why the backend refused a link token, or null for any other failure
+ * (network, server error) where trying again may help.
+ */
+export const getLinkTokenError = (error: any): LinkTokenError | null => {
+  const code = error?.response?.data?.code;
+  if (code === 'token_expired') return 'expired';
+  if (code === 'token_used') return 'used';
+  if (code === 'token_invalid') return 'invalid';
+
+  switch (error?.response?.status) {
+    case 410:
+      return 'expired';
+    case 409:
+      return 'used';
+    case 400:
+    case 404:
+    case 422:
+      return 'invalid';
+    default:
+      return null;
+  }
+};
+
+export interface PasswordRule {
+  id: 'length' | 'upper' | 'lower' | 'number' | 'symbol';
+  label: string;
+  test: (password: string) => boolean;
+}
+
+// Same rules the backend enforces on /auth/reset-password
+export const PASSWORD_RULES: PasswordRule[] = [
+  { id: 'length', label: 'At least 8 characters', test: (password) => password.length >= 8 },
+  { id: 'upper', label: 'An uppercase letter', test: (password) => /[A-Z]/.test(password) },
+  { id: 'lower', label: 'A lowercase letter', test: (password) => /[a-z]/.test(password) },
+  { id: 'number', label: 'A number', test: (password) => /\d/.test(password) },
+  { id: 'symbol', label: 'A symbol', test: (password) => /[^A-Za-z0-9]/.test(password) },
+];
+
+export type PasswordStrength = 'weak' | 'fair' | 'good' | 'strong';
+
+export interface PasswordCheck {
+  // Rules the password doesn't meet yet
+  failed: PasswordRule['id'][];
+  strength: PasswordStrength;
+  valid: boolean;
+}
+
+export const checkPassword = (password: string): PasswordCheck => {
+  const failed = PASSWORD_RULES.filter((rule) => !rule.test(password)).map((rule) => rule.id);
+  const passed = PASSWORD_RULES.length - failed.length;
+
+  let strength: PasswordStrength = 'weak';
+  if (failed.length === 0) {
+    // Length beyond the minimum is what makes a password hard to guess
+    strength = password.length >= 12 ? 'strong' : 'good';
+  } else if (passed >= 3 && !failed.includes('length')) {
+    strength = 'fair';
+  }
+
+  return { failed, strength, valid: failed.length === 0 };
+};
+
+/**
+ * Check a reset token before asking for a new password.
+ * Resolves the account's email so the screen can show whose password changes.
+ */
+export const validateResetToken = async (token: string): Promise<{ email?: string }> => {
+  const response = await api.post('/auth/reset-password/validate', { token });
+  return { email: response.data.email };
+};
+
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+  await api.post('/auth/reset-password', {
+    token,
+    password,
+    password_confirmation: password,
+  });
+};
+
+// Email a one-time sign-in link (opens systemsf1rst://magic-login)
+export const requestMagicLink = async (email: string): Promise<void> => {
+  await api.post('/auth/magic-link', { email: email.trim(), app: 'systemsf1rst-mobile' });
+};
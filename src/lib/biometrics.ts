@@ -0,0 +1,56 @@
+// Biometric prompt (Face ID, Touch ID, fingerprint)
+// Shared by the app lock and the vault so both unlock the same way.
+
+import { Platform } from 'react-native';
+import * as LocalAuthentication from 'expo-local-authentication';
+
+export interface BiometricSupport {
+  // Hardware present and at least one biometric enrolled
+  available: boolean;
+  // What to call it in the UI, e.g. "Face ID"
+  label: string;
+}
+
+const NO_BIOMETRICS: BiometricSupport = { available: false, label: 'Biometrics' };
+
+export const getBiometricSupport = async (): Promise<BiometricSupport> => {
+  try {
+    const [hasHardware, isEnrolled, types] = await Promise.all([
+      LocalAuthentication.hasHardwareAsync(),
+      LocalAuthentication.isEnrolledAsync(),
+      LocalAuthentication.supportedAuthenticationTypesAsync(),
+    ]);
+    if (!hasHardware || !isEnrolled) return NO_BIOMETRICS;
+
+    const { FACIAL_RECOGNITION, FINGERPRINT } = LocalAuthentication.AuthenticationType;
+    const ios = Platform.OS === 'ios';
+    const label = types.includes(FACIAL_RECOGNITION)
+      ? ios ? 'Face ID' : 'Face Unlock'
+      : types.includes(FINGERPRINT)
+        ? ios ? 'Touch ID' : 'Fingerprint'
+        : 'Biometrics';
+    return { available: true, label };
+  } catch (error) {
+    console.error('[Biometrics] Failed to check support:', error);
+    return NO_BIOMETRICS;
+  }
+};
+
+/**
+ * Show the system biometric prompt.
+ * The device passcode fallback is disabled; callers offer their own fallback
+ * (the app lock PIN, the vault master password).
+ */
+export const authenticateWithBiometrics = async (promptMessage: string): Promise<boolean> => {
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      cancelLabel: 'Cancel',
+      disableDeviceFallback: true,
+    });
+    return result.success;
+  } catch (error) {
+    console.error('[Biometrics] Prompt failed:', error);
+    return false;
+  }
+};
@@ -0,0 +1,104 @@
+// Breaks and meal periods
+// Rest breaks are usually paid and meal periods unpaid; unpaid time comes off
+// the hours worked. Each organization sets its required breaks, e.g. a
+// 30-minute meal before the end of the 5th hour (California), and the app
+// warns when one is coming due or was missed.
+
+import type { TimeClock, ShiftBreak, BreakType } from '../stores/timeClockStore';
+
+// A break the organization requires once a shift runs long enough
+export interface BreakRule {
+  type: BreakType;
+  // Must start before this many hours after clock-in
+  after_hours: number;
+  // Shorter breaks don't count
+  min_minutes: number;
+  paid: boolean;
+}
+
+export type BreakWarningStatus = 'due' | 'missed';
+
+export interface BreakWarning {
+  rule: BreakRule;
+  status: BreakWarningStatus;
+  // Latest time the break may start
+  due_at: string;
+}
+
+// Warn this long before a required break is due
+export const BREAK_DUE_SOON_MS = 30 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const toMs = (date: string) => new Date(date).getTime();
+
+// Without a rule saying otherwise, rest breaks are paid and meals aren't
+export const isPaidBreak = (type: BreakType, rules: BreakRule[]): boolean =>
+  rules.find((rule) => rule.type === type)?.paid ?? type === 'rest';
+
+export const getOpenBreak = (clock: TimeClock | null): ShiftBreak | null =>
+  clock?.breaks?.find((shiftBreak) => !shiftBreak.ended_at) ?? null;
+
+export const breakDurationMs = (shiftBreak: ShiftBreak, now: number = Date.now()): number =>
+  Math.max((shiftBreak.ended_at ? toMs(shiftBreak.ended_at) : now) - toMs(shiftBreak.started_at), 0);
+
+export const unpaidBreakMs = (clock: TimeClock, now: number = Date.now()): number =>
+  (clock.breaks ?? [])
+    .filter((shiftBreak) => !shiftBreak.paid)
+    .reduce((total, shiftBreak) => total + breakDurationMs(shiftBreak, now), 0);
+
+/**
+ * Time worked in a shift: clock-in to clock-out (or now) minus unpaid breaks.
+ */
+export const workedMs = (clock: TimeClock, now: number = Date.now()): number => {
+  const end = clock.clock_out_at ? toMs(clock.clock_out_at) : now;
+  return Math.max(end - toMs(clock.clock_in_at) - unpaidBreakMs(clock, now), 0);
+};
+
+export const workedHours = (clock: TimeClock, now: number = Date.now()): number =>
+  Math.round((workedMs(clock, now) / HOUR_MS) * 100) / 100;
+
+/**
+ * Required breaks that are due soon or were missed in a shift.
+ * Rules of the same type are matched in order to that type's breaks, so a
+ * second meal rule (after 10 hours) needs a second meal.
+ */
+export const getBreakWarnings = (
+  clock: TimeClock,
+  rules: BreakRule[],
+  now: number = Date.now()
+): BreakWarning[] => {
+  const end = clock.clock_out_at ? toMs(clock.clock_out_at) : now;
+  const shiftMs = end - toMs(clock.clock_in_at);
+  const warnings: BreakWarning[] = [];
+  const used: Partial<Record<BreakType, number>> = {};
+
+  [...rules]
+    .sort((a, b) => a.after_hours - b.after_hours)
+    .forEach((rule) => {
+      const dueMs = rule.after_hours * HOUR_MS;
+      const dueAt = toMs(clock.clock_in_at) + dueMs;
+
+      // Breaks of this type long enough to count, oldest first; an open break counts
+      const qualifying = (clock.breaks ?? [])
+        .filter(
+          (shiftBreak) =>
+            shiftBreak.type === rule.type &&
+            (!shiftBreak.ended_at || breakDurationMs(shiftBreak, end) >= rule.min_minutes * 60 * 1000)
+        )
+        .sort((a, b) => toMs(a.started_at) - toMs(b.started_at));
+      const index = used[rule.type] ?? 0;
+      const taken = qualifying[index];
+      used[rule.type] = index + 1;
+
+      if (taken && toMs(taken.started_at) <= dueAt) return;
+      // A late break is still a missed break
+      if (taken || shiftMs > dueMs) {
+        warnings.push({ rule, status: 'missed', due_at: new Date(dueAt).toISOString() });
+      } else if (!clock.clock_out_at && dueMs - shiftMs <= BREAK_DUE_SOON_MS) {
+        warnings.push({ rule, status: 'due', due_at: new Date(dueAt).toISOString() });
+      }
+    });
+
+  return warnings;
+};
@@ -0,0 +1,125 @@
+// Connectivity Service
+// Single source of truth for network state, driven by expo-network change events
+// instead of polling. Shared by the offline queue, the realtime service and the
+// connection indicator.
+
+import * as Network from 'expo-network';
+import { AppState, AppStateStatus } from 'react-native';
+
+// Dev-only logging helper
+const devLog = (...args: unknown[]) => {
+  if (__DEV__) {
+    console.log(...args);
+  }
+};
+
+// 'limited' means a network is up but the internet isn't reachable (e.g. a captive portal)
+export type ConnectivityStatus = 'online' | 'offline' | 'limited';
+
+type ConnectivityListener = (status: ConnectivityStatus, previous: ConnectivityStatus) => void;
+
+// Coming back online settles fast so queued work replays within a second;
+// dropping out waits a little longer so a brief blip doesn't flip the UI
+const ONLINE_DEBOUNCE_MS = 300;
+const OFFLINE_DEBOUNCE_MS = 2000;
+
+// Assume online until told otherwise, so nothing is queued needlessly at startup
+let status: ConnectivityStatus = 'online';
+let pendingStatus: ConnectivityStatus | null = null;
+let debounceTimeout: ReturnType<typeof setTimeout> | null = null;
+let networkSubscription: { remove: () => void } | null = null;
+let appStateSubscription: ReturnType<typeof AppState.addEventListener> | null = null;
+const listeners: Set<ConnectivityListener> = new Set();
+
+// Map a raw network state to a status
+export const toConnectivityStatus = (state: Network.NetworkState): ConnectivityStatus => {
+  if (!state.isConnected) return 'offline';
+  // isInternetReachable is undefined while the OS is still probing; don't treat that as limited
+  if (state.isInternetReachable === false) return 'limited';
+  return 'online';
+};
+
+const cancelPending = () => {
+  if (debounceTimeout) {
+    clearTimeout(debounceTimeout);
+    debounceTimeout = null;
+  }
+  pendingStatus = null;
+};
+
+const commitStatus = (next: ConnectivityStatus) => {
+  cancelPending();
+  if (next === status) return;
+  const previous = status;
+  status = next;
+  devLog('[Connectivity]', previous, '->', next);
+  listeners.forEach((listener) => listener(next, previous));
+};
+
+// Apply a new reading after it has held steady for the debounce window
+const scheduleStatus = (next: ConnectivityStatus) => {
+  if (next === status) {
+    cancelPending();
+    return;
+  }
+  if (next === pendingStatus) return;
+
+  cancelPending();
+  pendingStatus = next;
+  debounceTimeout = setTimeout(
+    () => commitStatus(next),
+    next === 'online' ? ONLINE_DEBOUNCE_MS : OFFLINE_DEBOUNCE_MS
+  );
+};
+
+/**
+ * Read the network state right now and apply it without debouncing.
+ * Used at startup and when the app returns to the foreground, where the
+ * native listener may have missed changes while suspended.
+ */
+export const refreshConnectivity = async (): Promise<ConnectivityStatus> => {
+  try {
+    commitStatus(toConnectivityStatus(await Network.getNetworkStateAsync()));
+  } catch {
+    commitStatus('offline');
+  }
+  return status;
+};
+
+const handleAppStateChange = (nextState: AppStateStatus) => {
+  if (nextState === 'active') {
+    refreshConnectivity();
+  }
+};
+
+// Start listening for network changes (idempotent)
+export const initConnectivity = async (): Promise<ConnectivityStatus> => {
+  if (!networkSubscription) {
+    networkSubscription = Network.addNetworkStateListener((state) => {
+      scheduleStatus(toConnectivityStatus(state));
+    });
+    appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+  }
+  return refreshConnectivity();
+};
+
+// Stop listening (status and listeners are kept)
+export const cleanupConnectivity = (): void => {
+  cancelPending();
+  networkSubscription?.remove();
+  networkSubscription = null;
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+};
+
+// Current debounced status
+export const getConnectivity = (): ConnectivityStatus => status;
+
+// Whether requests can be expected to reach the server
+export const isOnline = (): boolean => status === 'online';
+
+// Subscribe to debounced status changes
+export const subscribeToConnectivity = (listener: ConnectivityListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
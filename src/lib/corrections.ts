@@ -0,0 +1,63 @@
+// Timesheet corrections
+// An employee who forgot to punch proposes different in/out times for an
+// entry, with a reason. A manager approves or denies it. Approving changes the
+// entry on the server and records what changed and who approved it in the
+// entry's audit_history; denied requests leave the entry alone.
+
+import type { TimeClock, TimeCorrection } from '../stores/timeClockStore';
+
+export type CorrectionField = 'clock_in_at' | 'clock_out_at';
+
+export interface CorrectionChange {
+  field: CorrectionField;
+  from: string | null;
+  to: string | null;
+}
+
+export const CORRECTION_FIELD_LABELS: Record<CorrectionField, string> = {
+  clock_in_at: 'Clock in',
+  clock_out_at: 'Clock out',
+};
+
+const sameTime = (a: string | null, b: string | null) =>
+  a === b || (!!a && !!b && new Date(a).getTime() === new Date(b).getTime());
+
+/**
+ * The fields a correction would change, for showing it as a before/after diff.
+ */
+export const correctionChanges = (correction: TimeCorrection): CorrectionChange[] =>
+  [
+    { field: 'clock_in_at' as const, from: correction.original_clock_in_at, to: correction.proposed_clock_in_at },
+    { field: 'clock_out_at' as const, from: correction.original_clock_out_at, to: correction.proposed_clock_out_at },
+  ].filter((change) => !sameTime(change.from, change.to));
+
+export const spanHours = (clockIn: string, clockOut: string | null): number | null =>
+  clockOut ? Math.round(((new Date(clockOut).getTime() - new Date(clockIn).getTime()) / 3600000) * 100) / 100 : null;
+
+/**
+ * Why proposed times can't be sent, or null when they can.
+ */
+export const validateCorrection = (
+  entry: TimeClock,
+  proposed: { clock_in_at: string; clock_out_at: string; reason: string },
+  now: number = Date.now()
+): string | null => {
+  const clockIn = new Date(proposed.clock_in_at).getTime();
+  const clockOut = new Date(proposed.clock_out_at).getTime();
+
+  if (!proposed.reason.trim()) return 'Add a reason so your manager knows what happened.';
+  if (clockOut <= clockIn) return 'Clock-out must be after clock-in.';
+  if (clockOut > now) return "Clock-out can't be in the future.";
+  if (sameTime(proposed.clock_in_at, entry.clock_in_at) && sameTime(proposed.clock_out_at, entry.clock_out_at)) {
+    return 'Change at least one of the times.';
+  }
+  return null;
+};
+
+/**
+ * The most recent correction requested for an entry.
+ */
+export const latestCorrection = (corrections: TimeCorrection[], entryId: number): TimeCorrection | null =>
+  corrections
+    .filter((correction) => correction.time_clock_id === entryId)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0] ?? null;
@@ -0,0 +1,81 @@
+// Device clock
+// Punches made offline carry the device's own timestamp, and anyone can change
+// the device time in Settings. To catch that, we pair the wall clock with the
+// monotonic clock (performance.now, which ignores clock changes) at an anchor:
+// the last server response, or app start when there hasn't been one.
+//
+// Two checks come out of it:
+// - `clock_tampered`: at punch time the monotonic clock says where the device's
+//   own wall clock should be. The monotonic clock pauses while the phone sleeps,
+//   so a wall clock that ran ahead is normal; one that fell behind can only
+//   mean the time was set back since the anchor.
+// - `clock_skew_ms`: how far the device is from the server's clock. A phone
+//   that simply runs a few minutes slow has a constant skew and isn't flagged;
+//   the server decides what to make of it.
+
+// Dev-only logging helper
+const devLog = (...args: unknown[]) => {
+  if (__DEV__) {
+    console.log(...args);
+  }
+};
+
+// How far behind the wall clock may fall before the punch is flagged
+export const CLOCK_TAMPER_THRESHOLD_MS = 2 * 60 * 1000;
+
+export type ClockSource = 'server' | 'device';
+
+interface ClockAnchor {
+  // Trusted time: the server's when there is one, else the device's
+  time: number;
+  // Device wall clock at the same moment
+  wall: number;
+  monotonic: number;
+  source: ClockSource;
+}
+
+// Timestamp and clock check sent with a punch
+export interface CapturedTime {
+  // Device wall clock when the punch was made
+  captured_at: string;
+  // Device time minus the trusted time the monotonic clock expects; positive when ahead
+  clock_skew_ms: number;
+  // What the expected time is based on
+  clock_source: ClockSource;
+  // The wall clock was set back since the anchor
+  clock_tampered: boolean;
+}
+
+const monotonicNow = (): number => performance.now();
+
+const startedAt = Date.now();
+let anchor: ClockAnchor = { time: startedAt, wall: startedAt, monotonic: monotonicNow(), source: 'device' };
+
+/**
+ * Re-anchor to the server's clock from an HTTP Date header.
+ * Called for every api response; ignores missing or unparsable headers.
+ */
+export const recordServerTime = (dateHeader?: string | null): void => {
+  const time = dateHeader ? Date.parse(dateHeader) : NaN;
+  if (Number.isNaN(time)) return;
+  anchor = { time, wall: Date.now(), monotonic: monotonicNow(), source: 'server' };
+};
+
+export const captureTime = (): CapturedTime => {
+  const now = Date.now();
+  const elapsed = monotonicNow() - anchor.monotonic;
+  const skew = Math.round(now - (anchor.time + elapsed));
+  const drift = Math.round(now - (anchor.wall + elapsed));
+  const tampered = drift < -CLOCK_TAMPER_THRESHOLD_MS;
+
+  if (tampered) {
+    devLog('[DeviceClock] Wall clock is behind the monotonic clock by', -drift, 'ms');
+  }
+
+  return {
+    captured_at: new Date(now).toISOString(),
+    clock_skew_ms: skew,
+    clock_source: anchor.source,
+    clock_tampered: tampered,
+  };
+};
@@ -0,0 +1,116 @@
+// Job costing
+// A shift is split into segments, one per job the employee worked on: a
+// project, a client or deal from the CRM, and/or a cost code. Switching jobs
+// mid-shift ends one segment and starts the next. Hours per job come from the
+// segments, less any unpaid break time inside them, and the server prices them
+// into labor cost per job and per project (Project.spent).
+
+import type { TimeClock, JobAllocation, JobSegment, LaborCost } from '../stores/timeClockStore';
+import type { Project } from '../stores/projectsStore';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const toMs = (date: string) => new Date(date).getTime();
+
+export const hasJob = (job?: JobAllocation | null): job is JobAllocation =>
+  !!job && !!(job.project_id || job.deal_id || job.contact_id || job.cost_code);
+
+// Stable key for grouping; two allocations with the same key are the same job
+export const jobKey = (job?: JobAllocation | null): string =>
+  [job?.project_id ?? '', job?.deal_id ?? '', job?.contact_id ?? '', job?.cost_code ?? ''].join('|');
+
+export const getOpenSegment = (clock: TimeClock | null): JobSegment | null =>
+  clock?.segments?.find((segment) => !segment.ended_at) ?? null;
+
+/**
+ * Time worked in a segment: its span minus the unpaid breaks that overlap it.
+ */
+export const segmentWorkedMs = (segment: JobSegment, clock: TimeClock, now: number = Date.now()): number => {
+  const start = toMs(segment.started_at);
+  const end = segment.ended_at ? toMs(segment.ended_at) : now;
+  const unpaid = (clock.breaks ?? [])
+    .filter((shiftBreak) => !shiftBreak.paid)
+    .reduce((total, shiftBreak) => {
+      const breakEnd = shiftBreak.ended_at ? toMs(shiftBreak.ended_at) : now;
+      return total + Math.max(Math.min(end, breakEnd) - Math.max(start, toMs(shiftBreak.started_at)), 0);
+    }, 0);
+  return Math.max(end - start - unpaid, 0);
+};
+
+export interface JobHours {
+  job: JobAllocation;
+  hours: number;
+}
+
+/**
+ * Hours per job across time entries, most hours first.
+ */
+export const hoursByJob = (entries: TimeClock[], now: number = Date.now()): JobHours[] => {
+  const totals = new Map<string, { job: JobAllocation; ms: number }>();
+
+  entries.forEach((entry) =>
+    (entry.segments ?? []).forEach((segment) => {
+      const key = jobKey(segment.job);
+      const total = totals.get(key) ?? { job: segment.job, ms: 0 };
+      total.ms += segmentWorkedMs(segment, entry, now);
+      totals.set(key, total);
+    })
+  );
+
+  return [...totals.values()]
+    .map(({ job, ms }) => ({ job, hours: Math.round((ms / HOUR_MS) * 100) / 100 }))
+    .sort((a, b) => b.hours - a.hours);
+};
+
+// Names to show a job by; anything not found falls back to its id
+export interface JobLookups {
+  projects?: { id: string; name: string }[];
+  deals?: { id: number; name: string }[];
+  contacts?: { id: number; name: string }[];
+  costCodes?: { code: string; name: string }[];
+}
+
+export const describeJob = (job: JobAllocation | null | undefined, lookups: JobLookups = {}): string => {
+  if (!hasJob(job)) return 'No job';
+
+  const parts: string[] = [];
+  if (job.project_id) {
+    parts.push(lookups.projects?.find((p) => p.id === job.project_id)?.name ?? `Project ${job.project_id}`);
+  }
+  if (job.deal_id) {
+    parts.push(lookups.deals?.find((d) => d.id === job.deal_id)?.name ?? `Deal ${job.deal_id}`);
+  }
+  if (job.contact_id) {
+    parts.push(lookups.contacts?.find((c) => c.id === job.contact_id)?.name ?? `Client ${job.contact_id}`);
+  }
+  if (job.cost_code) {
+    const costCode = lookups.costCodes?.find((c) => c.code === job.cost_code);
+    parts.push(costCode ? `${costCode.code} ${costCode.name}` : job.cost_code);
+  }
+  return parts.join(' · ');
+};
+
+/**
+ * Fold labor cost per project into each project's spend.
+ * Projects remember the labor cost already counted in `spent`, so applying a
+ * newer total replaces it instead of adding to it.
+ */
+export const rollUpLaborCosts = (projects: Project[], costs: LaborCost[]): Project[] => {
+  const byProject = new Map<string, { hours: number; cost: number }>();
+  costs.forEach(({ job, hours, cost }) => {
+    if (!job.project_id) return;
+    const total = byProject.get(job.project_id) ?? { hours: 0, cost: 0 };
+    byProject.set(job.project_id, { hours: total.hours + hours, cost: total.cost + cost });
+  });
+
+  return projects.map((project) => {
+    const labor = byProject.get(project.id) ?? { hours: 0, cost: 0 };
+    if (labor.cost === (project.laborCost ?? 0) && labor.hours === (project.laborHours ?? 0)) return project;
+    return {
+      ...project,
+      spent: (project.spent ?? 0) - (project.laborCost ?? 0) + labor.cost,
+      laborHours: labor.hours,
+      laborCost: labor.cost,
+    };
+  });
+};
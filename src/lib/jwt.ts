@@ -0,0 +1,33 @@
+// JWT helpers
+// Reads the expiry from an access token so it can be refreshed before it
+// lapses. The signature isn't checked here; the backend does that.
+
+export const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    // atob gives one char per byte; decode them as UTF-8
+    const json = decodeURIComponent(
+      Array.from(atob(padded), (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+    );
+    const decoded = JSON.parse(json);
+    return decoded && typeof decoded === 'object' ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+// Expiry in ms since the epoch; null for tokens that aren't JWTs or don't expire
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+// Whether a token has expired or will within `marginMs`
+export const isTokenExpiring = (token: string, marginMs: number, now: number = Date.now()): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - marginMs <= now;
+};
@@ -1,8 +1,21 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as Network from 'expo-network';
 import { AxiosRequestConfig } from 'axios';
-import { AppState, AppStateStatus } from 'react-native';
 import api from './api';
+import { normalizeEnvelope, toApiError } from './api-client';
+import {
+  TempIdMap,
+  rewriteTempIds,
+  rewriteTempIdsInUrl,
+  collectTempIds,
+} from './temp-ids';
+import {
+  ConnectivityStatus,
+  initConnectivity,
+  cleanupConnectivity,
+  refreshConnectivity,
+  subscribeToConnectivity,
+  isOnline,
+} from './connectivity';
 
 // Dev-only logging helper
 const devLog = (...args: unknown[]) => {
@@ -11,8 +24,13 @@ const devLog = (...args: unknown[]) => {
   }
 };
 
-// Storage key for persisted queue
+// Storage keys for persisted queue and dead letters
 const OFFLINE_QUEUE_KEY = 'sf_offline_queue';
+const DEAD_LETTER_KEY = 'sf_offline_dead_letters';
+const TEMP_ID_MAP_KEY = 'sf_offline_temp_ids';
+
+// Header the backend uses to de-duplicate replayed writes
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
 
 // Queue item interface
 export interface QueuedRequest {
@@ -21,10 +39,40 @@ export interface QueuedRequest {
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   data?: unknown;
   headers?: Record<string, string>;
+  // Generated once, sent on the first attempt and on every replay
+  idempotencyKey: string;
   retries: number;
   maxRetries: number;
   createdAt: number;
   lastAttempt?: number;
+  // Last server reply, kept so a dead letter can explain why it failed
+  lastErrorStatus?: number | null;
+  lastErrorBody?: unknown;
+  // Set on creates made offline: the temp ID the server's response resolves
+  tempId?: string;
+  // Also the key the response wraps the entity in, when it has one (e.g. `clock_in`)
+  entityType?: string;
+  // Temp IDs of other queued creates this request references; it waits for them
+  dependsOn?: string[];
+}
+
+// Emitted when a queued create succeeds and its temp ID has a real ID
+export interface TempIdResolution {
+  tempId: string;
+  realId: string | number;
+  entityType?: string;
+  entity: unknown;
+}
+
+// Requests the queue gave up on, kept until the user retries or discards them
+export interface DeadLetter {
+  id: string;
+  request: QueuedRequest;
+  // parent_failed: a create it references was given up on, so it can never be sent
+  reason: 'max_retries' | 'expired' | 'parent_failed';
+  failedAt: number;
+  lastErrorStatus: number | null;
+  lastErrorBody: unknown;
 }
 
 // Configuration
@@ -35,18 +83,59 @@ const QUEUE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
 
 // In-memory queue
 let requestQueue: QueuedRequest[] = [];
+let deadLetters: DeadLetter[] = [];
+let resolvedIds: TempIdMap = {};
 let isProcessingQueue = false;
-let isOnline = true;
 
 // Listeners
 type QueueChangeListener = (queue: QueuedRequest[]) => void;
 const listeners: Set<QueueChangeListener> = new Set();
+type DeadLetterChangeListener = (deadLetters: DeadLetter[]) => void;
+const deadLetterListeners: Set<DeadLetterChangeListener> = new Set();
+type TempIdListener = (resolution: TempIdResolution) => void;
+const tempIdListeners: Set<TempIdListener> = new Set();
+
+// One-shot callbacks for a specific queued request (in memory only). Registering
+// again from onFailed follows a dead letter through a retry, until it's discarded.
+export interface QueuedRequestCallbacks {
+  onSynced?: (responseBody: unknown) => void;
+  onFailed?: (letter: DeadLetter) => void;
+}
+const settleCallbacks: Map<string, QueuedRequestCallbacks> = new Map();
 
 // Generate unique ID
 const generateId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
 
+// Generate an RFC 4122 v4 style key for the Idempotency-Key header
+export const generateIdempotencyKey = (): string => {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+};
+
+// Read an existing key from request headers (case-insensitive)
+const getIdempotencyKey = (headers?: unknown): string | undefined => {
+  if (!headers || typeof headers !== 'object') return undefined;
+  const entry = Object.entries(headers as Record<string, unknown>).find(
+    ([name]) => name.toLowerCase() === IDEMPOTENCY_HEADER.toLowerCase()
+  );
+  return typeof entry?.[1] === 'string' ? entry[1] : undefined;
+};
+
+// The server already applied this request on an earlier attempt
+const isAlreadyProcessed = (error: unknown): boolean => {
+  const response = (error as { response?: { status?: number; data?: any } })?.response;
+  if (!response) return false;
+  if (response.status === 409) return true;
+
+  const message = typeof response.data === 'object' ? response.data?.message : response.data;
+  return typeof message === 'string' && /already (been )?processed/i.test(message);
+};
+
 // Calculate exponential backoff delay
 const getBackoffDelay = (retries: number): number => {
   const delay = BASE_DELAY_MS * Math.pow(2, retries);
@@ -58,17 +147,133 @@ const notifyListeners = () => {
   listeners.forEach((listener) => listener([...requestQueue]));
 };
 
-// Load queue from storage
+const notifyDeadLetterListeners = () => {
+  deadLetterListeners.forEach((listener) => listener([...deadLetters]));
+};
+
+// Save dead letters to storage
+const saveDeadLetters = async (): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(DEAD_LETTER_KEY, JSON.stringify(deadLetters));
+  } catch (error) {
+    console.error('[OfflineQueue] Failed to save dead letters:', error);
+  }
+};
+
+// Save resolved temp IDs to storage
+const saveResolvedIds = async (): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(TEMP_ID_MAP_KEY, JSON.stringify(resolvedIds));
+  } catch (error) {
+    console.error('[OfflineQueue] Failed to save temp IDs:', error);
+  }
+};
+
+// Whether a request is still waiting on a parent create
+export const isBlocked = (request: QueuedRequest): boolean =>
+  (request.dependsOn ?? []).some((tempId) => resolvedIds[tempId] === undefined);
+
+// Blocked on a create that is no longer queued (dead-lettered, discarded, or
+// synced without returning an id); nothing will ever unblock it
+const isOrphaned = (request: QueuedRequest): boolean =>
+  (request.dependsOn ?? []).some(
+    (tempId) => resolvedIds[tempId] === undefined && !requestQueue.some((r) => r.tempId === tempId)
+  );
+
+// Rewrite resolved temp IDs in a request's URL and body
+const withResolvedIds = (request: QueuedRequest): QueuedRequest => ({
+  ...request,
+  url: rewriteTempIdsInUrl(request.url, resolvedIds),
+  data: rewriteTempIds(request.data, resolvedIds),
+});
+
+/**
+ * Record the real ID for a queued create and rewrite every request that
+ * referenced its temp ID, then let the stores swap their temp entities.
+ */
+const resolveTempId = async (request: QueuedRequest, responseBody: unknown): Promise<void> => {
+  if (!request.tempId) return;
+
+  const entity = normalizeEnvelope<{ id?: string | number }>(responseBody, request.entityType).data;
+  const realId = entity?.id;
+  if (realId === undefined || realId === null) {
+    console.error('[OfflineQueue] Create response had no id, dependents stay blocked:', request.id);
+    return;
+  }
+
+  devLog('[OfflineQueue] Resolved temp ID:', request.tempId, '->', realId);
+  resolvedIds = { ...resolvedIds, [request.tempId]: realId };
+  requestQueue = requestQueue.map(withResolvedIds);
+  deadLetters = deadLetters.map((letter) => ({ ...letter, request: withResolvedIds(letter.request) }));
+
+  await saveResolvedIds();
+  await saveQueue();
+  await saveDeadLetters();
+
+  const resolution: TempIdResolution = {
+    tempId: request.tempId,
+    realId,
+    entityType: request.entityType,
+    entity,
+  };
+  tempIdListeners.forEach((listener) => listener(resolution));
+};
+
+// Move a request out of the queue into the dead-letter list
+const moveToDeadLetter = async (request: QueuedRequest, reason: DeadLetter['reason']): Promise<void> => {
+  devLog('[OfflineQueue] Moving to dead letters:', request.id, reason);
+  const letter: DeadLetter = {
+    id: request.id,
+    request,
+    reason,
+    failedAt: Date.now(),
+    lastErrorStatus: request.lastErrorStatus ?? null,
+    lastErrorBody: request.lastErrorBody ?? null,
+  };
+  deadLetters = [...deadLetters.filter((l) => l.id !== request.id), letter];
+  await saveDeadLetters();
+  notifyDeadLetterListeners();
+
+  const callbacks = settleCallbacks.get(request.id);
+  settleCallbacks.delete(request.id);
+  callbacks?.onFailed?.(letter);
+};
+
+// Load queue and dead letters from storage
 export const loadQueue = async (): Promise<void> => {
   try {
+    const storedDeadLetters = await AsyncStorage.getItem(DEAD_LETTER_KEY);
+    deadLetters = storedDeadLetters ? JSON.parse(storedDeadLetters) : [];
+    const storedIds = await AsyncStorage.getItem(TEMP_ID_MAP_KEY);
+    resolvedIds = storedIds ? JSON.parse(storedIds) : {};
+
     const stored = await AsyncStorage.getItem(OFFLINE_QUEUE_KEY);
     if (stored) {
       const parsed: QueuedRequest[] = JSON.parse(stored);
-      // Filter out expired items
+      // Expired items go to the dead-letter list instead of being dropped
       const now = Date.now();
-      requestQueue = parsed.filter((item) => now - item.createdAt < QUEUE_EXPIRY_MS);
+      const expired = parsed.filter((item) => now - item.createdAt >= QUEUE_EXPIRY_MS);
+      requestQueue = parsed
+        .filter((item) => now - item.createdAt < QUEUE_EXPIRY_MS)
+        .map((item) => {
+          // Items persisted before idempotency keys existed get one now
+          const idempotencyKey = item.idempotencyKey || getIdempotencyKey(item.headers) || generateIdempotencyKey();
+          return {
+            ...item,
+            idempotencyKey,
+            headers: { ...item.headers, [IDEMPOTENCY_HEADER]: idempotencyKey },
+          };
+        });
+
+      for (const item of expired) {
+        await moveToDeadLetter(item, 'expired');
+      }
+      if (expired.length > 0) {
+        await saveQueue();
+      }
       notifyListeners();
     }
+    notifyDeadLetterListeners();
   } catch (error) {
     console.error('[OfflineQueue] Failed to load queue:', error);
   }
@@ -83,17 +288,37 @@ const saveQueue = async (): Promise<void> => {
   }
 };
 
-// Add request to queue
-export const queueRequest = async (config: AxiosRequestConfig): Promise<string> => {
+// Temp IDs in a request that don't have a real ID yet
+export const unresolvedTempIds = (config: AxiosRequestConfig): string[] =>
+  collectTempIds(config.url || '', config.data).filter((tempId) => resolvedIds[tempId] === undefined);
+
+/**
+ * Add request to queue, keeping the idempotency key of an earlier attempt if there was one.
+ * Pass `tempId` for a create whose response resolves that temp ID; any temp IDs the
+ * request references become dependencies it waits on.
+ */
+export const queueRequest = async (
+  config: AxiosRequestConfig,
+  options: { tempId?: number | string; entityType?: string } = {}
+): Promise<string> => {
+  const idempotencyKey = getIdempotencyKey(config.headers) || generateIdempotencyKey();
+  const tempId = options.tempId !== undefined ? String(options.tempId) : undefined;
+  const url = rewriteTempIdsInUrl(config.url || '', resolvedIds);
+  const data = rewriteTempIds(config.data, resolvedIds);
+  const dependsOn = unresolvedTempIds({ url, data }).filter((id) => id !== tempId);
+
   const queuedRequest: QueuedRequest = {
     id: generateId(),
-    url: config.url || '',
+    url,
     method: (config.method?.toUpperCase() as QueuedRequest['method']) || 'GET',
-    data: config.data,
-    headers: config.headers as Record<string, string>,
+    data,
+    headers: { ...(config.headers as Record<string, string>), [IDEMPOTENCY_HEADER]: idempotencyKey },
+    idempotencyKey,
     retries: 0,
     maxRetries: MAX_RETRIES,
     createdAt: Date.now(),
+    ...(tempId && { tempId, entityType: options.entityType }),
+    ...(dependsOn.length > 0 && { dependsOn }),
   };
 
   requestQueue.push(queuedRequest);
@@ -115,7 +340,10 @@ export const removeFromQueue = async (id: string): Promise<void> => {
 // Clear entire queue
 export const clearQueue = async (): Promise<void> => {
   requestQueue = [];
+  resolvedIds = {};
+  settleCallbacks.clear();
   await saveQueue();
+  await saveResolvedIds();
   notifyListeners();
 };
 
@@ -124,156 +352,232 @@ export const getQueue = (): QueuedRequest[] => {
   return [...requestQueue];
 };
 
+// Get requests the queue gave up on
+export const getDeadLetters = (): DeadLetter[] => {
+  return [...deadLetters];
+};
+
+// Discard a dead letter for good
+export const discardDeadLetter = async (id: string): Promise<void> => {
+  deadLetters = deadLetters.filter((letter) => letter.id !== id);
+  settleCallbacks.delete(id);
+  await saveDeadLetters();
+  notifyDeadLetterListeners();
+};
+
+// Clear all dead letters
+export const clearDeadLetters = async (): Promise<void> => {
+  deadLetters.forEach((letter) => settleCallbacks.delete(letter.id));
+  deadLetters = [];
+  await saveDeadLetters();
+  notifyDeadLetterListeners();
+};
+
+/**
+ * Put a dead letter back on the queue.
+ * Passing `data` edits the body first; an edited request is a new write,
+ * so it gets a fresh idempotency key.
+ */
+export const retryDeadLetter = async (id: string, data?: unknown): Promise<void> => {
+  const letter = deadLetters.find((l) => l.id === id);
+  if (!letter) return;
+
+  const idempotencyKey = data !== undefined ? generateIdempotencyKey() : letter.request.idempotencyKey;
+  requestQueue.push({
+    ...letter.request,
+    data: data !== undefined ? data : letter.request.data,
+    headers: { ...letter.request.headers, [IDEMPOTENCY_HEADER]: idempotencyKey },
+    idempotencyKey,
+    retries: 0,
+    createdAt: Date.now(),
+    lastAttempt: undefined,
+  });
+  deadLetters = deadLetters.filter((l) => l.id !== id);
+
+  await saveQueue();
+  await saveDeadLetters();
+  notifyListeners();
+  notifyDeadLetterListeners();
+
+  await processQueue();
+};
+
+// Retry a pending request now, skipping its backoff; `data` edits the body first
+export const retryQueuedRequest = async (id: string, data?: unknown): Promise<void> => {
+  const index = requestQueue.findIndex((r) => r.id === id);
+  if (index === -1) return;
+
+  const request = requestQueue[index];
+  if (data !== undefined) {
+    const idempotencyKey = generateIdempotencyKey();
+    requestQueue[index] = {
+      ...request,
+      data,
+      headers: { ...request.headers, [IDEMPOTENCY_HEADER]: idempotencyKey },
+      idempotencyKey,
+      lastAttempt: undefined,
+    };
+  } else {
+    requestQueue[index] = { ...request, lastAttempt: undefined };
+  }
+
+  await saveQueue();
+  notifyListeners();
+
+  await processQueue();
+};
+
 // Get queue count
 export const getQueueCount = (): number => {
   return requestQueue.length;
 };
 
+// Outcome of a single replay attempt
+type AttemptResult = { ok: true; body: unknown } | { ok: false; status: number | null; body: unknown };
+
 // Process a single request
-const processRequest = async (request: QueuedRequest): Promise<boolean> => {
+const processRequest = async (request: QueuedRequest): Promise<AttemptResult> => {
   try {
-    await api({
+    const response = await api({
       url: request.url,
       method: request.method,
       data: request.data,
-      headers: request.headers,
+      headers: { ...request.headers, [IDEMPOTENCY_HEADER]: request.idempotencyKey },
     });
 
     devLog('[OfflineQueue] Request succeeded:', request.id);
-    return true;
+    return { ok: true, body: response?.data };
   } catch (error) {
+    // A lost response to an earlier attempt means the server already has it;
+    // servers that replay the original response let us resolve temp IDs too
+    if (isAlreadyProcessed(error)) {
+      devLog('[OfflineQueue] Request already processed:', request.id);
+      return { ok: true, body: (error as { response?: { data?: unknown } }).response?.data };
+    }
     console.error('[OfflineQueue] Request failed:', request.id, error);
-    return false;
+    const response = (error as { response?: { status?: number; data?: unknown } })?.response;
+    return { ok: false, status: response?.status ?? null, body: response?.data ?? null };
   }
 };
 
 // Process the entire queue
 export const processQueue = async (): Promise<void> => {
-  if (isProcessingQueue || !isOnline || requestQueue.length === 0) {
+  if (isProcessingQueue || !isOnline() || requestQueue.length === 0) {
     return;
   }
 
   isProcessingQueue = true;
   devLog('[OfflineQueue] Processing queue, items:', requestQueue.length);
 
-  const toProcess = [...requestQueue];
+  // A listener or store callback that throws must not leave the queue stuck as "processing"
+  try {
+    const toProcess = [...requestQueue];
+
+    for (const queued of toProcess) {
+      // Earlier items in this pass may have rewritten or removed this one
+      const current = requestQueue.find((r) => r.id === queued.id);
+      if (!current) continue;
+      if (isOrphaned(current)) {
+        // Shown with its parent on the pending-sync screen instead of waiting forever
+        await moveToDeadLetter(current, 'parent_failed');
+        await removeFromQueue(current.id);
+        continue;
+      }
+      if (isBlocked(current)) {
+        continue; // Waiting for a parent create to get its real ID
+      }
+      const request = withResolvedIds(current);
 
-  for (const request of toProcess) {
-    // Check if still online before each request
-    const state = await Network.getNetworkStateAsync();
-    if (!state.isConnected) {
-      devLog('[OfflineQueue] Lost connection, stopping queue processing');
-      isProcessingQueue = false;
-      return;
-    }
+      // Stop if connectivity dropped during this pass; it resumes when it returns
+      if (!isOnline()) {
+        devLog('[OfflineQueue] Lost connection, stopping queue processing');
+        return;
+      }
 
-    // Check backoff delay
-    if (request.lastAttempt) {
-      const delay = getBackoffDelay(request.retries);
-      const timeSinceLastAttempt = Date.now() - request.lastAttempt;
-      if (timeSinceLastAttempt < delay) {
-        continue; // Skip this request, not ready for retry yet
+      // Check backoff delay
+      if (request.lastAttempt) {
+        const delay = getBackoffDelay(request.retries);
+        const timeSinceLastAttempt = Date.now() - request.lastAttempt;
+        if (timeSinceLastAttempt < delay) {
+          continue; // Skip this request, not ready for retry yet
+        }
       }
-    }
 
-    const success = await processRequest(request);
-
-    if (success) {
-      await removeFromQueue(request.id);
-    } else {
-      // Update retry count
-      const index = requestQueue.findIndex((r) => r.id === request.id);
-      if (index !== -1) {
-        requestQueue[index].retries += 1;
-        requestQueue[index].lastAttempt = Date.now();
-
-        // Remove if max retries exceeded
-        if (requestQueue[index].retries >= requestQueue[index].maxRetries) {
-          devLog('[OfflineQueue] Max retries exceeded, removing:', request.id);
-          await removeFromQueue(request.id);
-        } else {
-          await saveQueue();
+      const result = await processRequest(request);
+
+      if (result.ok) {
+        await resolveTempId(request, result.body);
+        await removeFromQueue(request.id);
+
+        const callbacks = settleCallbacks.get(request.id);
+        settleCallbacks.delete(request.id);
+        callbacks?.onSynced?.(result.body);
+      } else {
+        // Update retry count
+        const index = requestQueue.findIndex((r) => r.id === request.id);
+        if (index !== -1) {
+          requestQueue[index].retries += 1;
+          requestQueue[index].lastAttempt = Date.now();
+          requestQueue[index].lastErrorStatus = result.status;
+          requestQueue[index].lastErrorBody = result.body;
+
+          // Dead-letter if max retries exceeded
+          if (requestQueue[index].retries >= requestQueue[index].maxRetries) {
+            devLog('[OfflineQueue] Max retries exceeded:', request.id);
+            await moveToDeadLetter(requestQueue[index], 'max_retries');
+            await removeFromQueue(request.id);
+          } else {
+            await saveQueue();
+          }
         }
       }
     }
+  } catch (error) {
+    // The rest of the queue is tried again on the next pass
+    console.error('[OfflineQueue] Queue processing stopped:', error);
+  } finally {
+    isProcessingQueue = false;
   }
-
-  isProcessingQueue = false;
   notifyListeners();
 };
 
-// Check if device is online
+// Check if device is online, reading the network state now rather than the last event
 export const checkOnlineStatus = async (): Promise<boolean> => {
-  try {
-    const state = await Network.getNetworkStateAsync();
-    isOnline = state.isConnected ?? false;
-  } catch {
-    isOnline = false;
-  }
-  return isOnline;
+  return (await refreshConnectivity()) === 'online';
 };
 
-// Handle app state changes (to check network when app becomes active)
-const handleAppStateChange = async (nextState: AppStateStatus): Promise<void> => {
-  if (nextState === 'active') {
-    const wasOffline = !isOnline;
-    await checkOnlineStatus();
-
-    devLog('[OfflineQueue] App became active, network status:', isOnline ? 'online' : 'offline');
-
-    // Process queue when coming back online
-    if (wasOffline && isOnline && requestQueue.length > 0) {
-      devLog('[OfflineQueue] Back online, processing queue');
-      setTimeout(() => processQueue(), 1000);
-    }
+// Replay the queue as soon as connectivity comes back
+const handleConnectivityChange = (status: ConnectivityStatus): void => {
+  if (status === 'online' && requestQueue.length > 0) {
+    devLog('[OfflineQueue] Network restored, processing queue');
+    processQueue();
   }
 };
 
-// Periodic network check interval
-let networkCheckInterval: ReturnType<typeof setInterval> | null = null;
-let appStateSubscription: ReturnType<typeof AppState.addEventListener> | null = null;
+let connectivitySubscription: (() => void) | null = null;
 
 export const initOfflineQueue = async (): Promise<void> => {
   // Load persisted queue
   await loadQueue();
 
-  // Check initial online status
-  await checkOnlineStatus();
-
-  // Subscribe to app state changes
-  appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
-
-  // Periodic network check every 30 seconds when queue has items
-  networkCheckInterval = setInterval(async () => {
-    if (requestQueue.length > 0) {
-      const wasOffline = !isOnline;
-      await checkOnlineStatus();
-
-      if (wasOffline && isOnline) {
-        devLog('[OfflineQueue] Network restored, processing queue');
-        processQueue();
-      }
-    }
-  }, 30000);
+  // Start watching the network
+  connectivitySubscription?.();
+  connectivitySubscription = subscribeToConnectivity(handleConnectivityChange);
+  await initConnectivity();
 
   // Process any pending requests if online
-  if (isOnline && requestQueue.length > 0) {
-    setTimeout(() => processQueue(), 2000);
+  if (isOnline() && requestQueue.length > 0) {
+    processQueue();
   }
 
-  devLog('[OfflineQueue] Initialized, queue size:', requestQueue.length, 'online:', isOnline);
+  devLog('[OfflineQueue] Initialized, queue size:', requestQueue.length, 'online:', isOnline());
 };
 
 // Cleanup
 export const cleanupOfflineQueue = (): void => {
-  if (appStateSubscription) {
-    appStateSubscription.remove();
-    appStateSubscription = null;
-  }
-  if (networkCheckInterval) {
-    clearInterval(networkCheckInterval);
-    networkCheckInterval = null;
-  }
+  connectivitySubscription?.();
+  connectivitySubscription = null;
+  cleanupConnectivity();
 };
 
 // Subscribe to queue changes
@@ -282,26 +586,50 @@ export const subscribeToQueueChanges = (listener: QueueChangeListener): (() => v
   return () => listeners.delete(listener);
 };
 
+// Subscribe to dead-letter changes
+export const subscribeToDeadLetterChanges = (listener: DeadLetterChangeListener): (() => void) => {
+  deadLetterListeners.add(listener);
+  return () => deadLetterListeners.delete(listener);
+};
+
+// Be told when a specific queued request syncs or is dead-lettered
+export const onQueuedRequestSettled = (queueId: string, callbacks: QueuedRequestCallbacks): void => {
+  settleCallbacks.set(queueId, callbacks);
+};
+
+// Subscribe to temp IDs being resolved to real IDs
+export const subscribeToTempIdResolution = (listener: TempIdListener): (() => void) => {
+  tempIdListeners.add(listener);
+  return () => tempIdListeners.delete(listener);
+};
+
 // Check if online
 export const isNetworkOnline = (): boolean => {
-  return isOnline;
+  return isOnline();
 };
 
 // Wrapper for API calls with offline support
 export const makeOfflineAwareRequest = async <T>(
   config: AxiosRequestConfig
 ): Promise<T | { queued: true; queueId: string }> => {
-  // Check network status
-  const online = await checkOnlineStatus();
+  // Key the request up front so the first attempt and any replay share it
+  const keyedConfig: AxiosRequestConfig = {
+    ...config,
+    headers: {
+      ...(config.headers as Record<string, string>),
+      [IDEMPOTENCY_HEADER]: getIdempotencyKey(config.headers) || generateIdempotencyKey(),
+    },
+  };
 
-  if (!online) {
+  // Requests pointing at unsynced entities wait for them in the queue
+  if (!isOnline() || unresolvedTempIds(keyedConfig).length > 0) {
     // Queue the request for later
-    const queueId = await queueRequest(config);
+    const queueId = await queueRequest(keyedConfig);
     return { queued: true, queueId };
   }
 
   try {
-    const response = await api(config);
+    const response = await api(keyedConfig);
     return response.data;
   } catch (error) {
     // Check if it's a network error
@@ -310,11 +638,48 @@ export const makeOfflineAwareRequest = async <T>(
       (error as { code?: string })?.code === 'ERR_NETWORK';
 
     if (isNetworkError) {
-      // Queue the request for later
-      const queueId = await queueRequest(config);
+      // Queue the request for later; it may already have reached the server
+      const queueId = await queueRequest(keyedConfig);
       return { queued: true, queueId };
     }
 
     throw error;
   }
 };
+
+/**
+ * Send a mutation now, or queue it when offline, on a network error, or when it
+ * references an entity that only exists locally. Like makeOfflineAwareRequest,
+ * but `send` goes through the typed client so the result is already normalized.
+ * Creates pass the placeholder's `tempId` (and `entityType`) so dependents can
+ * wait on it and stores can swap it on `subscribeToTempIdResolution`.
+ */
+export const sendOfflineAware = async <T>(
+  config: AxiosRequestConfig,
+  send: (headers: Record<string, string>) => Promise<{ data: T }>,
+  options: { tempId?: number | string; entityType?: string } = {}
+): Promise<T | { queued: true; queueId: string }> => {
+  const headers = { [IDEMPOTENCY_HEADER]: generateIdempotencyKey() };
+  const keyedConfig: AxiosRequestConfig = { ...config, headers };
+
+  if (!isOnline() || unresolvedTempIds(config).length > 0) {
+    const queueId = await queueRequest(keyedConfig, options);
+    return { queued: true, queueId };
+  }
+
+  try {
+    const { data } = await send(headers);
+    return data;
+  } catch (error) {
+    if (toApiError(error).isNetworkError) {
+      // It may already have reached the server; the replay reuses the key
+      const queueId = await queueRequest(keyedConfig, options);
+      return { queued: true, queueId };
+    }
+    throw error;
+  }
+};
+
+// Whether an offline-aware call was queued rather than sent
+export const isQueuedResult = (value: unknown): value is { queued: true; queueId: string } =>
+  !!value && typeof value === 'object' && (value as { queued?: unknown }).queued === true;
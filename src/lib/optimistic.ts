@@ -0,0 +1,155 @@
+// Optimistic mutations shared by the stores
+// Apply a change locally right away, then reconcile with the server's answer or
+// roll back with a toast. Queued (offline) mutations stay applied until they sync
+// or end up in the dead-letter list, and come back if a dead letter is retried.
+
+import { toApiError, normalizeEnvelope } from './api-client';
+import {
+  isQueuedResult,
+  onQueuedRequestSettled,
+  getQueue,
+  subscribeToQueueChanges,
+  QueuedRequest,
+} from './offline-queue';
+import { clearPendingFlags, getPendingEntities } from './store-cache';
+import { showToast } from '../stores/toastStore';
+
+// Entities touched by a mutation that hasn't been confirmed by the server yet
+export interface PendingFlag {
+  pending?: boolean;
+}
+
+export interface OptimisticMutation<S, R> {
+  // Local change applied immediately; mark touched entities with `pending: true`
+  apply: (state: S) => Partial<S>;
+  // Undo the local change against the current state, so unrelated updates survive
+  rollback: (state: S) => Partial<S>;
+  // The server call; may resolve as queued when offline
+  commit: () => Promise<R | { queued: true; queueId: string }>;
+  // Merge the server's answer and clear the pending flag
+  reconcile?: (state: S, result: R) => Partial<S>;
+  // Toast shown when the change is rolled back, e.g. "Couldn't move deal"
+  errorMessage: string;
+}
+
+const failureToast = (errorMessage: string, error: unknown) => {
+  const apiError = toApiError(error);
+  // Forms show validation errors inline next to the field
+  if (apiError.isValidationError) return;
+  showToast(`${errorMessage}: ${apiError.message}`);
+};
+
+// A rolled-back dead letter can still be retried from the pending-sync screen.
+// If the retry goes through, put the change back and merge the server's answer;
+// if it fails again, it is already rolled back, so just keep waiting.
+const reapplyOnRetry = <S, R>(
+  get: () => S,
+  set: (partial: Partial<S>) => void,
+  mutation: OptimisticMutation<S, R>,
+  queueId: string
+) => {
+  onQueuedRequestSettled(queueId, {
+    onSynced: (body) => {
+      set(mutation.apply(get()));
+      if (mutation.reconcile) {
+        set(mutation.reconcile(get(), normalizeEnvelope<R>(body).data));
+      }
+    },
+    onFailed: () => reapplyOnRetry(get, set, mutation, queueId),
+  });
+};
+
+/**
+ * Run a mutation optimistically against a zustand store.
+ * Resolves with the server result, or null when the mutation was queued.
+ * Rejects with the original error after rolling back.
+ */
+export const runOptimistic = async <S, R>(
+  get: () => S,
+  set: (partial: Partial<S>) => void,
+  mutation: OptimisticMutation<S, R>
+): Promise<R | null> => {
+  set(mutation.apply(get()));
+
+  let result: R | { queued: true; queueId: string };
+  try {
+    result = await mutation.commit();
+  } catch (error) {
+    set(mutation.rollback(get()));
+    failureToast(mutation.errorMessage, error);
+    throw error;
+  }
+
+  if (isQueuedResult(result)) {
+    onQueuedRequestSettled(result.queueId, {
+      onSynced: (body) => {
+        if (mutation.reconcile) {
+          set(mutation.reconcile(get(), normalizeEnvelope<R>(body).data));
+        }
+      },
+      onFailed: (letter) => {
+        set(mutation.rollback(get()));
+        failureToast(mutation.errorMessage, {
+          response: { status: letter.lastErrorStatus, data: letter.lastErrorBody },
+        });
+        reapplyOnRetry(get, set, mutation, letter.id);
+      },
+    });
+    return null;
+  }
+
+  if (mutation.reconcile) {
+    set(mutation.reconcile(get(), result));
+  }
+  return result;
+};
+
+/**
+ * Clear the `pending` flags cached from an earlier run once the queue is empty.
+ * Settle callbacks only live in memory, so after a restart nothing reconciles
+ * the entities of mutations queued before it, and delta syncs skip pending
+ * items. An empty queue means every one of those mutations has settled.
+ * Only the entities flagged when this is called are cleared; mutations made
+ * since then replace their entity and settle through their own callbacks.
+ * Call right after the caches and the queue are loaded; it runs once per launch.
+ */
+export const clearStalePendingFlags = (): void => {
+  const restored = getPendingEntities();
+  if (restored.size === 0) return;
+
+  let unsubscribe: (() => void) | null = null;
+  const check = (queue: QueuedRequest[]) => {
+    if (queue.length > 0 || !unsubscribe) return;
+    unsubscribe();
+    unsubscribe = null;
+    clearPendingFlags(restored);
+  };
+  unsubscribe = subscribeToQueueChanges(check);
+  check(getQueue());
+};
+
+// List helpers for writing apply/rollback/reconcile
+
+// Patch one item by id
+export const patchById = <T extends { id: string | number }>(items: T[], id: T['id'], patch: Partial<T>): T[] =>
+  items.map((item) => (item.id === id ? { ...item, ...patch } : item));
+
+// Replace one item by id
+export const replaceById = <T extends { id: string | number }>(items: T[], id: T['id'], next: T): T[] =>
+  items.map((item) => (item.id === id ? next : item));
+
+// Put a removed item back where it was (or at the end if the list moved on)
+export const restoreAt = <T extends { id: string | number }>(items: T[], item: T, index: number): T[] => {
+  if (items.some((i) => i.id === item.id)) return items;
+  const next = [...items];
+  next.splice(Math.min(Math.max(index, 0), next.length), 0, item);
+  return next;
+};
+
+// Drop the pending flag once a change is confirmed
+export const clearPending = <T extends { id: string | number } & PendingFlag>(items: T[], id: T['id']): T[] =>
+  items.map((item) => {
+    if (item.id !== id || item.pending === undefined) return item;
+    const { pending: _pending, ...confirmed } = item;
+    return confirmed as T;
+  });
@@ -0,0 +1,274 @@
+// Overtime
+// Splits hours into regular, overtime (1.5x) and double time (2x) by the
+// organization's rules, the way payroll does:
+// - Daily: hours past daily_threshold in a workday are overtime, hours past
+//   double_time_threshold double time.
+// - Weekly: regular hours past weekly_threshold in the workweek become
+//   overtime. Hours already paid as daily overtime don't count twice.
+// - Seventh day (California): on the 7th consecutive workday of a workweek the
+//   first 8 hours are overtime and the rest double time.
+// A shift belongs to the local calendar day it was clocked in on. The server
+// stays the source of truth; this lets the app show hours offline and catch
+// disagreements.
+
+import type { TimeClock, WeeklySummary } from '../stores/timeClockStore';
+import { workedMs } from './breaks';
+
+export type OvertimePreset = 'federal' | 'CA' | 'CO' | 'AK' | 'NV';
+
+export interface OvertimeRules {
+  // The preset these rules started from, if any
+  preset?: OvertimePreset | null;
+  // Hours; null turns the rule off
+  weekly_threshold: number | null;
+  daily_threshold: number | null;
+  double_time_threshold: number | null;
+  seventh_day: boolean;
+  // First day of the workweek, 0 = Sunday
+  week_starts_on: number;
+}
+
+export const OVERTIME_PRESETS: Record<OvertimePreset, OvertimeRules> = {
+  federal: {
+    preset: 'federal',
+    weekly_threshold: 40,
+    daily_threshold: null,
+    double_time_threshold: null,
+    seventh_day: false,
+    week_starts_on: 0,
+  },
+  CA: {
+    preset: 'CA',
+    weekly_threshold: 40,
+    daily_threshold: 8,
+    double_time_threshold: 12,
+    seventh_day: true,
+    week_starts_on: 0,
+  },
+  CO: {
+    preset: 'CO',
+    weekly_threshold: 40,
+    daily_threshold: 12,
+    double_time_threshold: null,
+    seventh_day: false,
+    week_starts_on: 0,
+  },
+  AK: {
+    preset: 'AK',
+    weekly_threshold: 40,
+    daily_threshold: 8,
+    double_time_threshold: null,
+    seventh_day: false,
+    week_starts_on: 0,
+  },
+  NV: {
+    preset: 'NV',
+    weekly_threshold: 40,
+    daily_threshold: 8,
+    double_time_threshold: null,
+    seventh_day: false,
+    week_starts_on: 0,
+  },
+};
+
+export const OVERTIME_PRESET_LABELS: Record<OvertimePreset, string> = {
+  federal: 'Federal (FLSA)',
+  CA: 'California',
+  CO: 'Colorado',
+  AK: 'Alaska',
+  NV: 'Nevada',
+};
+
+// Hours on the seventh consecutive day paid at 1.5x before double time
+const SEVENTH_DAY_OVERTIME_HOURS = 8;
+
+// Local and server summaries this close are considered the same
+export const SUMMARY_TOLERANCE_HOURS = 0.05;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Local calendar date as YYYY-MM-DD
+export const toDateKey = (date: Date | number | string): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Local midnight starting the workweek that contains `date`
+export const getWeekStart = (date: Date | number, weekStartsOn: number): Date => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() - weekStartsOn + 7) % 7));
+  return d;
+};
+
+export interface HoursSplit {
+  regular: number;
+  overtime: number;
+  double_time: number;
+}
+
+export interface WeekSplit extends HoursSplit {
+  by_day: Record<string, HoursSplit>;
+}
+
+/**
+ * Split one workweek's hours per day (keyed by YYYY-MM-DD) by the rules.
+ */
+export const splitWeek = (hoursByDay: Record<string, number>, rules: OvertimeRules): WeekSplit => {
+  const days = Object.keys(hoursByDay).sort();
+  const worked = days.filter((day) => hoursByDay[day] > 0);
+  // A workweek has seven days, so the seventh consecutive one needs all of them worked
+  const seventhDay = rules.seventh_day && worked.length === 7 ? worked[6] : null;
+
+  const result: WeekSplit = { regular: 0, overtime: 0, double_time: 0, by_day: {} };
+  let weekRegular = 0;
+
+  days.forEach((day) => {
+    const hours = hoursByDay[day];
+    let regular = hours;
+    let overtime = 0;
+    let doubleTime = 0;
+
+    if (day === seventhDay) {
+      regular = 0;
+      overtime = Math.min(hours, SEVENTH_DAY_OVERTIME_HOURS);
+      doubleTime = hours - overtime;
+    } else {
+      if (rules.double_time_threshold !== null && hours > rules.double_time_threshold) {
+        doubleTime = hours - rules.double_time_threshold;
+      }
+      if (rules.daily_threshold !== null && hours > rules.daily_threshold) {
+        regular = rules.daily_threshold;
+      }
+      overtime = hours - regular - doubleTime;
+    }
+
+    // Regular hours past the weekly threshold are overtime too
+    if (rules.weekly_threshold !== null && weekRegular + regular > rules.weekly_threshold) {
+      const excess = weekRegular + regular - Math.max(rules.weekly_threshold, weekRegular);
+      regular -= excess;
+      overtime += excess;
+    }
+    weekRegular += regular;
+
+    result.by_day[day] = { regular: round(regular), overtime: round(overtime), double_time: round(doubleTime) };
+    result.regular += regular;
+    result.overtime += overtime;
+    result.double_time += doubleTime;
+  });
+
+  result.regular = round(result.regular);
+  result.overtime = round(result.overtime);
+  result.double_time = round(result.double_time);
+  return result;
+};
+
+/**
+ * Hours worked per day of clock-in, open shifts counted up to now.
+ */
+export const hoursByDay = (entries: TimeClock[], now: number = Date.now()): Record<string, number> =>
+  entries.reduce<Record<string, number>>((days, entry) => {
+    const day = toDateKey(entry.clock_in_at);
+    days[day] = (days[day] ?? 0) + workedMs(entry, now) / HOUR_MS;
+    return days;
+  }, {});
+
+/**
+ * The week summary the server would send, worked out from the entries.
+ * Only entries clocked in during the workweek containing `now` count.
+ */
+export const summarizeWeek = (
+  entries: TimeClock[],
+  rules: OvertimeRules,
+  now: number = Date.now()
+): WeeklySummary => {
+  const start = getWeekStart(now, rules.week_starts_on).getTime();
+  const week = entries.filter((entry) => {
+    const clockIn = new Date(entry.clock_in_at).getTime();
+    return clockIn >= start && clockIn < start + 7 * DAY_MS;
+  });
+  const hours = hoursByDay(week, now);
+  const split = splitWeek(hours, rules);
+
+  return {
+    total_hours: round(split.regular + split.overtime + split.double_time),
+    regular_hours: split.regular,
+    overtime_hours: split.overtime,
+    double_time_hours: split.double_time,
+    by_day: Object.fromEntries(Object.entries(hours).map(([day, total]) => [day, round(total)])),
+    entries_count: week.length,
+  };
+};
+
+/**
+ * Hours left before overtime starts, counting the open shift up to now.
+ * Zero once in overtime; null when no rule would ever kick in.
+ */
+export const hoursUntilOvertime = (
+  entries: TimeClock[],
+  rules: OvertimeRules,
+  now: number = Date.now()
+): number | null => {
+  const start = getWeekStart(now, rules.week_starts_on).getTime();
+  const today = toDateKey(now);
+  const hours = hoursByDay(
+    entries.filter((entry) => new Date(entry.clock_in_at).getTime() >= start),
+    now
+  );
+  hours[today] = hours[today] ?? 0;
+
+  const split = splitWeek(hours, rules);
+  const todaySplit = split.by_day[today];
+  if (todaySplit.overtime > 0 || todaySplit.double_time > 0) return 0;
+
+  const limits = [
+    rules.daily_threshold !== null ? rules.daily_threshold - hours[today] : null,
+    rules.weekly_threshold !== null ? rules.weekly_threshold - split.regular : null,
+  ].filter((limit): limit is number => limit !== null);
+  if (limits.length === 0) return null;
+
+  return round(Math.max(Math.min(...limits), 0));
+};
+
+/**
+ * Overtime and double time for one shift, given the rest of its week.
+ * Earlier shifts take the regular hours first, so a shift that pushes the day
+ * or week past a threshold carries the overtime.
+ */
+export const splitShift = (entry: TimeClock, others: TimeClock[], rules: OvertimeRules): HoursSplit => {
+  const end = entry.clock_out_at ? new Date(entry.clock_out_at).getTime() : Date.now();
+  const start = getWeekStart(new Date(entry.clock_in_at), rules.week_starts_on).getTime();
+  const before = others.filter((other) => {
+    const clockIn = new Date(other.clock_in_at).getTime();
+    return other.id !== entry.id && clockIn >= start && clockIn < new Date(entry.clock_in_at).getTime();
+  });
+
+  const without = splitWeek(hoursByDay(before, end), rules);
+  const withEntry = splitWeek(hoursByDay([...before, entry], end), rules);
+
+  return {
+    regular: round(withEntry.regular - without.regular),
+    overtime: round(withEntry.overtime - without.overtime),
+    double_time: round(withEntry.double_time - without.double_time),
+  };
+};
+
+/**
+ * Where the server's summary disagrees with the one worked out from entries:
+ * 'total', 'overtime', or a day key. Empty when they match.
+ */
+export const diffSummaries = (local: WeeklySummary, server: WeeklySummary): string[] => {
+  const differs = (a?: number, b?: number) => Math.abs((a ?? 0) - (b ?? 0)) > SUMMARY_TOLERANCE_HOURS;
+  const days = new Set([...Object.keys(local.by_day), ...Object.keys(server.by_day ?? {})]);
+
+  return [
+    ...(differs(local.total_hours, server.total_hours) ? ['total'] : []),
+    ...(differs(local.overtime_hours, server.overtime_hours) ? ['overtime'] : []),
+    ...[...days].filter((day) => differs(local.by_day[day], server.by_day?.[day])),
+  ];
+};
@@ -0,0 +1,47 @@
+// Pagination helpers shared by the list stores
+// Cursors are opaque strings: either a backend cursor token or a page number
+
+import type { PageMeta } from './api-client';
+
+export const PAGE_SIZE = 50;
+
+// Query params for the page a cursor points at (first page when cursor is null)
+export const pageParams = (cursor: string | null = null, perPage: number = PAGE_SIZE) => {
+  if (cursor === null) {
+    return { per_page: perPage };
+  }
+  return /^\d+$/.test(cursor)
+    ? { per_page: perPage, page: Number(cursor) }
+    : { per_page: perPage, cursor };
+};
+
+// Cursor for the page after the one described by `meta`, or null at the end
+export const nextCursorFrom = (meta?: PageMeta): string | null => {
+  if (!meta || !meta.hasMore) return null;
+  if (meta.nextCursor) return meta.nextCursor;
+  if (meta.currentPage !== undefined) return String(meta.currentPage + 1);
+  return null;
+};
+
+/**
+ * Merge a page into an existing list without duplicates.
+ * Items already present (e.g. inserted by a realtime event) are replaced in place;
+ * new items are appended or prepended.
+ */
+export const mergeById = <T extends { id: string | number }>(
+  existing: T[],
+  incoming: T[],
+  position: 'append' | 'prepend' = 'append'
+): T[] => {
+  const incomingById = new Map(incoming.map((item) => [item.id, item]));
+  const merged = existing.map((item) => {
+    const replacement = incomingById.get(item.id);
+    if (replacement) {
+      incomingById.delete(item.id);
+      return replacement;
+    }
+    return item;
+  });
+  const added = incoming.filter((item) => incomingById.get(item.id) === item);
+  return position === 'append' ? [...merged, ...added] : [...added, ...merged];
+};
@@ -0,0 +1,136 @@
+// Permissions
+// One place that decides what a user may see and do. Roles grant a default set
+// of permissions; `User.permissions` from the backend adds explicit grants on
+// top. Layouts guard their routes with `guardRoute`, screens hide tabs and
+// buttons with `can` (or the useCan hook).
+
+import type { Href } from 'expo-router';
+import { useAuthStore, User } from '../stores/authStore';
+
+export type Permission =
+  // Route groups
+  | 'admin.access'
+  | 'manager.access'
+  | 'crm.access'
+  // Features
+  | 'employees.manage'
+  | 'users.impersonate'
+  | 'locations.manage'
+  | 'reports.view'
+  | 'settings.manage'
+  | 'approvals.manage'
+  | 'crm.caller'
+  | 'agent.approve'
+  | 'vault.access';
+
+// Every permission, for roles that get all of them
+const ALL_PERMISSIONS: Permission[] = [
+  'admin.access',
+  'manager.access',
+  'crm.access',
+  'employees.manage',
+  'users.impersonate',
+  'locations.manage',
+  'reports.view',
+  'settings.manage',
+  'approvals.manage',
+  'crm.caller',
+  'agent.approve',
+  'vault.access',
+];
+
+const SALES_PERMISSIONS: Permission[] = ['crm.access', 'crm.caller'];
+
+export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  super_admin: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  sales_admin: [
+    'admin.access',
+    'employees.manage',
+    'reports.view',
+    'settings.manage',
+    'agent.approve',
+    'vault.access',
+    ...SALES_PERMISSIONS,
+  ],
+  manager: ['manager.access', 'approvals.manage'],
+  pt_manager: ['manager.access', 'approvals.manage'],
+  sales_manager: ['manager.access', 'approvals.manage', 'agent.approve', ...SALES_PERMISSIONS],
+  // Team leads see their team but can't approve time
+  team_lead: ['manager.access'],
+  sales_rep: SALES_PERMISSIONS,
+  employee: [],
+};
+
+// Roles from the backend, falling back to the single `role` field
+export const getUserRoles = (user: User | null): string[] => {
+  if (!user) return [];
+  if (user.roles && user.roles.length > 0) return user.roles;
+  return [user.role || 'employee'];
+};
+
+/**
+ * Whether a user holds a permission. Defaults to the signed-in user.
+ */
+export const can = (permission: Permission, user: User | null = useAuthStore.getState().user): boolean => {
+  if (!user) return false;
+  if (user.permissions?.includes(permission)) return true;
+  return getUserRoles(user).some((role) => ROLE_PERMISSIONS[role]?.includes(permission));
+};
+
+// Permission each route group needs; groups not listed are open to any signed-in user
+const GROUP_PERMISSIONS: Record<string, Permission> = {
+  '(admin)': 'admin.access',
+  '(manager)': 'manager.access',
+  '(crm)': 'crm.access',
+};
+
+// Screens that need more than their group does
+export const SCREEN_PERMISSIONS: Record<string, Permission> = {
+  '(admin)/employees': 'employees.manage',
+  '(admin)/geofence': 'locations.manage',
+  '(admin)/reports': 'reports.view',
+  '(admin)/settings': 'settings.manage',
+  '(crm)/caller': 'crm.caller',
+  '(crm)/call-history': 'crm.caller',
+  '(crm)/call-detail': 'crm.caller',
+  '(crm)/employees': 'employees.manage',
+  '(crm)/employee-detail': 'employees.manage',
+  '(crm)/vault': 'vault.access',
+  '(crm)/vault-item': 'vault.access',
+};
+
+// Where a user lands after sign-in (and when sent away from a route)
+export const getHomeRoute = (user: User | null): Href => {
+  if (can('admin.access', user)) return '/(admin)';
+  if (can('manager.access', user)) return '/(manager)';
+  return '/(employee)';
+};
+
+// Whether a user may open a route, given as expo-router segments, e.g. ['(admin)', 'geofence']
+export const canAccessRoute = (user: User | null, segments: string[]): boolean => {
+  const [group, screen] = segments;
+  const groupPermission = GROUP_PERMISSIONS[group];
+  if (groupPermission && !can(groupPermission, user)) return false;
+
+  const screenPermission = screen ? SCREEN_PERMISSIONS[`${group}/${screen}`] : undefined;
+  return !screenPermission || can(screenPermission, user);
+};
+
+/**
+ * Where a layout should send the user instead of rendering the route, or
+ * null to render it. Signed-out users go to login, users without the group's
+ * permission go home, and users without a screen's permission go to the
+ * group's first screen.
+ */
+export const guardRoute = (user: User | null, segments: string[]): Href | null => {
+  if (!user) return '/(auth)/login';
+  if (canAccessRoute(user, segments)) return null;
+
+  const [group] = segments;
+  return canAccessRoute(user, [group]) ? (`/${group}` as Href) : getHomeRoute(user);
+};
+
+// Tab options for screens the user can't open: hidden from the tab bar
+export const tabHref = (user: User | null, route: string): { href?: null } =>
+  canAccessRoute(user, route.split('/')) ? {} : { href: null };
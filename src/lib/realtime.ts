@@ -4,6 +4,8 @@
 import Pusher, { Channel } from 'pusher-js/react-native';
 import Constants from 'expo-constants';
 import { getAuthToken } from './api';
+import { onAuthEvent } from './auth-events';
+import { ConnectivityStatus, isOnline, subscribeToConnectivity } from './connectivity';
 
 // Dev-only logging helper
 const devLog = (...args: unknown[]) => {
@@ -56,6 +58,9 @@ class RealtimeService {
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private reconnectTimeout: NodeJS.Timeout | null = null;
+  private connectivityUnsubscribe: (() => void) | null = null;
+  // Sent when authorizing private channels; kept current by token refreshes
+  private authToken: string | null = null;
 
   // Event listeners
   private crmListeners: EventCallback<CrmUpdateEvent>[] = [];
@@ -78,9 +83,10 @@ class RealtimeService {
 
     this.organizationId = organizationId;
     this.userId = userId;
+    this.connectivityUnsubscribe = subscribeToConnectivity((status) => this.handleConnectivityChange(status));
 
     try {
-      const token = await getAuthToken();
+      this.authToken = await getAuthToken();
 
       this.pusher = new Pusher(APP_KEY, {
         cluster: APP_CLUSTER,
@@ -89,12 +95,14 @@ class RealtimeService {
         wssPort: WS_PORT,
         forceTLS: true,
         enabledTransports: ['ws', 'wss'],
-        authEndpoint: `https://${WS_HOST}/api/broadcasting/auth`,
-        auth: {
-          headers: {
-            Authorization: `Bearer ${token}`,
+        channelAuthorization: {
+          transport: 'ajax',
+          endpoint: `https://${WS_HOST}/api/broadcasting/auth`,
+          // Read on every authorization, so resubscribing after a refresh uses the new token
+          headersProvider: () => ({
+            Authorization: `Bearer ${this.authToken}`,
             'X-App': 'systemsf1rst-mobile',
-          },
+          }),
         },
       });
 
@@ -140,6 +148,9 @@ class RealtimeService {
       this.reconnectTimeout = null;
     }
 
+    this.connectivityUnsubscribe?.();
+    this.connectivityUnsubscribe = null;
+
     this.channels.forEach((channel, name) => {
       channel.unbind_all();
       this.pusher?.unsubscribe(name);
@@ -153,6 +164,7 @@ class RealtimeService {
 
     this.isConnected = false;
     this.organizationId = null;
+    this.authToken = null;
     this.userId = null;
     this.reconnectAttempts = 0;
     this.notifyConnectionListeners(false);
@@ -237,23 +249,63 @@ class RealtimeService {
    * Attempt to reconnect after disconnection
    */
   private attemptReconnect(): void {
+    // Without a network there's nothing to retry; handleConnectivityChange reconnects when it returns
+    if (!isOnline()) {
+      devLog('[Realtime] Offline, waiting for network to reconnect');
+      return;
+    }
+
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.error('[Realtime] Max reconnection attempts reached');
+      console.error('[Realtime] Max reconnection attempts reached, waiting for network change');
       return;
     }
 
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+    }
+
     const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
     this.reconnectAttempts++;
 
     console.log(`[Realtime] Attempting reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
 
     this.reconnectTimeout = setTimeout(() => {
-      if (this.organizationId && this.userId && !this.isConnected) {
-        this.connect(this.organizationId, this.userId);
-      }
+      this.reconnectTimeout = null;
+      this.reconnectNow();
     }, delay);
   }
 
+  /**
+   * Reconnect immediately when the network comes back, with a fresh attempt budget
+   */
+  private handleConnectivityChange(status: ConnectivityStatus): void {
+    if (status !== 'online' || this.isConnected) return;
+
+    devLog('[Realtime] Network restored, reconnecting');
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnectAttempts = 0;
+    this.reconnectNow();
+  }
+
+  private reconnectNow(): void {
+    if (!this.organizationId || !this.userId || this.isConnected) return;
+
+    const attempts = this.reconnectAttempts;
+    this.connect(this.organizationId, this.userId)
+      .then(() => {
+        // connect() starts a fresh session; keep counting until it actually connects
+        if (!this.isConnected) this.reconnectAttempts = attempts;
+      })
+      .catch((error) => {
+        console.error('[Realtime] Reconnect failed:', error);
+        this.reconnectAttempts = attempts;
+        this.attemptReconnect();
+      });
+  }
+
   // Event handlers
   private handleCrmEvent(entity: CrmUpdateEvent['entity'], action: CrmUpdateEvent['action'], data: any): void {
     const event: CrmUpdateEvent = { entity, action, data };
@@ -325,6 +377,13 @@ class RealtimeService {
     };
   }
 
+  /**
+   * Use a refreshed access token for channel authorization from now on
+   */
+  setAuthToken(token: string): void {
+    this.authToken = token;
+  }
+
   // Getters
   getConnectionStatus(): boolean {
     return this.isConnected;
@@ -338,4 +397,10 @@ class RealtimeService {
 // Singleton instance
 export const realtimeService = new RealtimeService();
 
+onAuthEvent((event) => {
+  if (event.type === 'token_refreshed') {
+    realtimeService.setAuthToken(event.token);
+  }
+});
+
 export default realtimeService;
@@ -0,0 +1,93 @@
+// Human-readable labels for queued requests
+// Used by the pending-sync screen so users see "Clock out at 5:02pm", not "POST /time-clock/clock-out"
+
+import type { QueuedRequest } from './offline-queue';
+
+// 5:02pm style, matching how field techs talk about punches
+export const formatShortTime = (timestamp: number | string): string => {
+  const date = new Date(timestamp);
+  const hours = date.getHours();
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  const suffix = hours >= 12 ? 'pm' : 'am';
+  return `${hours % 12 || 12}:${minutes}${suffix}`;
+};
+
+const parseData = (data: unknown): Record<string, any> => {
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data) ?? {};
+    } catch {
+      return {};
+    }
+  }
+  return data && typeof data === 'object' ? (data as Record<string, any>) : {};
+};
+
+const nameOf = (data: Record<string, any>): string | undefined =>
+  data.name ||
+  [data.first_name, data.last_name].filter(Boolean).join(' ') ||
+  data.title ||
+  undefined;
+
+const recipientOf = (data: Record<string, any>): string =>
+  data.to_name || data.contact_name || data.to || 'customer';
+
+// When a punch was made; `createdAt` moves when a dead letter is retried, `captured_at` never does
+const punchTime = (data: Record<string, any>, request: QueuedRequest): string =>
+  formatShortTime(data.captured_at ?? request.createdAt);
+
+type LabelRule = {
+  method: string;
+  pattern: RegExp;
+  label: (data: Record<string, any>, request: QueuedRequest) => string;
+};
+
+const RULES: LabelRule[] = [
+  { method: 'POST', pattern: /^\/time-clock\/clock-in$/, label: (data, r) => `Clock in at ${punchTime(data, r)}` },
+  { method: 'POST', pattern: /^\/time-clock\/clock-out$/, label: (data, r) => `Clock out at ${punchTime(data, r)}` },
+  {
+    method: 'POST',
+    pattern: /^\/time-clock\/break\/start$/,
+    label: (data, r) => `Start ${data.type === 'meal' ? 'meal' : 'rest'} break at ${punchTime(data, r)}`,
+  },
+  { method: 'POST', pattern: /^\/time-clock\/break\/end$/, label: (data, r) => `End break at ${punchTime(data, r)}` },
+  {
+    method: 'POST',
+    pattern: /^\/time-clock\/switch-job$/,
+    label: (data, r) => `${data.job ? 'Switch job' : 'Stop job'} at ${punchTime(data, r)}`,
+  },
+  { method: 'POST', pattern: /^\/time-clock\/[^/]+\/corrections$/, label: () => 'Timesheet correction request' },
+  {
+    method: 'POST',
+    pattern: /^\/time-clock\/corrections\/[^/]+\/(approve|deny)$/,
+    label: (_, r) => `${r.url.endsWith('/approve') ? 'Approve' : 'Deny'} timesheet correction`,
+  },
+  {
+    method: 'POST',
+    pattern: /^\/customer\/(messages\/send|conversations\/[^/]+\/messages)$/,
+    label: (data) => `${data.type === 'email' ? 'Email' : 'SMS'} to ${recipientOf(data)}`,
+  },
+  { method: 'POST', pattern: /^\/crm\/leads$/, label: (data) => `New lead: ${nameOf(data) || 'Untitled'}` },
+  { method: 'PUT', pattern: /^\/crm\/leads\/[^/]+$/, label: (data) => `Update lead${nameOf(data) ? `: ${nameOf(data)}` : ''}` },
+  { method: 'POST', pattern: /^\/crm\/contacts$/, label: (data) => `New contact: ${nameOf(data) || 'Untitled'}` },
+  { method: 'PUT', pattern: /^\/crm\/contacts\/[^/]+$/, label: (data) => `Update contact${nameOf(data) ? `: ${nameOf(data)}` : ''}` },
+  { method: 'POST', pattern: /^\/crm\/deals$/, label: (data) => `New deal: ${nameOf(data) || 'Untitled'}` },
+  { method: 'PUT', pattern: /^\/crm\/deals\/[^/]+$/, label: (data) => `Update deal${nameOf(data) ? `: ${nameOf(data)}` : ''}` },
+  { method: 'POST', pattern: /^\/crm\/deals\/[^/]+\/move-stage$/, label: (data) => `Move deal to ${data.stage || 'new stage'}` },
+  { method: 'POST', pattern: /^\/crm\/communications$/, label: (data) => `Log ${data.type || 'communication'}` },
+  { method: 'POST', pattern: /^\/calendar\/events$/, label: (data) => `New event: ${nameOf(data) || 'Untitled'}` },
+  { method: 'PUT', pattern: /^\/calendar\/events\/[^/]+$/, label: (data) => `Update event${nameOf(data) ? `: ${nameOf(data)}` : ''}` },
+];
+
+// Describe a queued request; falls back to "METHOD /url" for endpoints without a rule
+export const describeQueuedRequest = (request: QueuedRequest): string => {
+  const method = request.method.toUpperCase();
+  const path = request.url.split('?')[0];
+  const rule = RULES.find((r) => r.method === method && r.pattern.test(path));
+  if (rule) {
+    return rule.label(parseData(request.data), request);
+  }
+  return `${method} ${path}`;
+};
+
+export default describeQueuedRequest;
@@ -0,0 +1,86 @@
+// Secure Storage
+// Secrets (auth tokens, the signed-in user) live in the platform keystore:
+// the iOS Keychain and Android Keystore-backed encrypted preferences.
+// Non-sensitive preferences and caches stay in AsyncStorage.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+// Dev-only logging helper
+const devLog = (...args: unknown[]) => {
+  if (__DEV__) {
+    console.log(...args);
+  }
+};
+
+export interface KeyValueStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+// Readable after the first unlock so background refreshes still work, and
+// never restored onto another device from a backup
+const KEYSTORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+export const keystoreStorage: KeyValueStorage = {
+  getItem: (key) => SecureStore.getItemAsync(key, KEYSTORE_OPTIONS),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value, KEYSTORE_OPTIONS),
+  removeItem: (key) => SecureStore.deleteItemAsync(key, KEYSTORE_OPTIONS),
+};
+
+// Non-persistent storage for tests
+export const createMemoryStorage = (): KeyValueStorage => {
+  const items: Map<string, string> = new Map();
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+let storage: KeyValueStorage = keystoreStorage;
+
+// Swap the backing storage (tests use createMemoryStorage)
+export const setSecureStorage = (next: KeyValueStorage): void => {
+  storage = next;
+};
+
+export const secureStorage = {
+  getItem: (key: string): Promise<string | null> => storage.getItem(key),
+  setItem: (key: string, value: string): Promise<void> => storage.setItem(key, value),
+  removeItem: (key: string): Promise<void> => storage.removeItem(key),
+
+  multiSet: async (pairs: Array<[string, string]>): Promise<void> => {
+    await Promise.all(pairs.map(([key, value]) => storage.setItem(key, value)));
+  },
+
+  multiRemove: async (keys: string[]): Promise<void> => {
+    await Promise.all(keys.map((key) => storage.removeItem(key)));
+  },
+};
+
+/**
+ * Move keys written to AsyncStorage by older builds into secure storage.
+ * A value already in secure storage wins over the legacy copy; either way the
+ * plain-text copy is deleted. Safe to call on every launch.
+ */
+export const migrateFromAsyncStorage = async (keys: string[]): Promise<void> => {
+  const entries = await AsyncStorage.multiGet(keys);
+  const legacy = entries.filter(([, value]) => value !== null) as Array<[string, string]>;
+  if (legacy.length === 0) return;
+
+  for (const [key, value] of legacy) {
+    if ((await storage.getItem(key)) === null) {
+      await storage.setItem(key, value);
+    }
+  }
+  await AsyncStorage.multiRemove(legacy.map(([key]) => key));
+  devLog('[SecureStorage] Moved', legacy.length, 'keys out of AsyncStorage');
+};
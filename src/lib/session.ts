@@ -0,0 +1,67 @@
+// Session teardown
+// Wipes everything the previous user left behind so the next person to sign
+// in on a shared device starts clean: store state, on-disk caches, the offline
+// queue, sync marks, scheduled notifications, realtime subscriptions and the
+// app lock PIN / vault biometric secret. Switching organizations drops only
+// the tenant's share of that and keeps the user's own settings.
+
+import { resetStores } from '../stores/registry';
+import { useAppLockStore } from '../stores/appLockStore';
+import { useVaultStore } from '../stores/vaultStore';
+import { clearStoreCaches } from './store-cache';
+import { clearQueue, clearDeadLetters } from './offline-queue';
+import { resetSyncCursors } from './sync-engine';
+import { realtimeService } from './realtime';
+import { cancelAllScheduledNotifications, clearAllNotifications, setBadgeCount } from './notifications';
+
+// Each step is independent; one failing doesn't stop the rest
+const runResetSteps = async (steps: Promise<unknown>[]): Promise<void> => {
+  const results = await Promise.allSettled(steps);
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      console.error('[Session] Reset step failed:', result.reason);
+    }
+  });
+};
+
+/**
+ * Reset every store and wipe cached tenant data.
+ * Called on logout and when the refresh token is rejected.
+ */
+export const resetAll = async (): Promise<void> => {
+  realtimeService.disconnect();
+  resetStores();
+  clearStoreCaches();
+
+  await runResetSteps([
+    clearQueue(),
+    clearDeadLetters(),
+    resetSyncCursors(),
+    cancelAllScheduledNotifications(),
+    clearAllNotifications(),
+    setBadgeCount(0),
+    useAppLockStore.getState().disable(),
+    useVaultStore.getState().disableBiometricUnlock(),
+  ]);
+};
+
+/**
+ * Drop the active organization's data before switching to another one.
+ * User-scoped stores (app lock, 2FA) are kept. The offline queue is left
+ * alone; switching waits until it has drained (see switchOrganization).
+ * Realtime reconnects to the new organization's channels once the user's
+ * organization_id changes (see useRealtime).
+ */
+export const resetOrganization = async (): Promise<void> => {
+  realtimeService.disconnect();
+  resetStores('organization');
+  clearStoreCaches('organization');
+
+  await runResetSteps([
+    resetSyncCursors(),
+    cancelAllScheduledNotifications(),
+    clearAllNotifications(),
+    setBadgeCount(0),
+    useVaultStore.getState().disableBiometricUnlock(),
+  ]);
+};
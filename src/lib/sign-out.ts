@@ -0,0 +1,35 @@
+// Sign-out confirmation
+// Signing out deletes the offline queue and dead letters along with the rest of
+// the session (see session.ts), so an unsynced clock-out would be lost. The
+// confirmation says how many changes are waiting and offers the pending-sync
+// screen before going ahead.
+
+import { Alert } from 'react-native';
+import { router } from 'expo-router';
+import { useAuthStore, pendingChangesError } from '../stores/authStore';
+
+const signOut = async () => {
+  await useAuthStore.getState().logout();
+  router.replace('/(auth)/login');
+};
+
+/**
+ * Ask before signing out, warning about changes that haven't synced.
+ * Pass `canReview: false` where the pending-sync screen can't be reached (the app lock).
+ */
+export const confirmSignOut = ({ canReview = true }: { canReview?: boolean } = {}): void => {
+  const pendingError = pendingChangesError('signing out');
+  if (!pendingError) {
+    Alert.alert('Logout', 'Are you sure you want to log out?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Logout', style: 'destructive', onPress: signOut },
+    ]);
+    return;
+  }
+
+  Alert.alert('Unsynced Changes', `${pendingError}. Signing out now deletes them from this device.`, [
+    { text: 'Cancel', style: 'cancel' },
+    ...(canReview ? [{ text: 'Review', onPress: () => router.push('/pending-sync') }] : []),
+    { text: 'Sign Out Anyway', style: 'destructive' as const, onPress: signOut },
+  ]);
+};
@@ -0,0 +1,162 @@
+// Single sign-on
+// Enterprise tenants sign employees in through their own identity provider
+// using the OAuth 2.0 authorization code flow with PKCE (RFC 7636). The app
+// keeps the code verifier; the backend exchanges the code with the provider
+// and answers with the usual token pair.
+
+import Constants from 'expo-constants';
+import * as Crypto from 'expo-crypto';
+import * as WebBrowser from 'expo-web-browser';
+import { api } from './api';
+
+// Dev-only logging helper
+const devLog = (...args: unknown[]) => {
+  if (__DEV__) {
+    console.log(...args);
+  }
+};
+
+// Identity provider configured for an email domain
+export interface SsoProvider {
+  id: string;
+  // Shown on the button, e.g. "Okta"
+  name: string;
+  authorization_url: string;
+  client_id: string;
+  scopes?: string[];
+}
+
+// What the provider sent back, ready to exchange with the backend
+export interface SsoAuthorization {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+// The provider redirects to the app scheme declared in app.json
+const APP_SCHEME = Constants.expoConfig?.scheme ?? 'systemsf1rst';
+export const SSO_REDIRECT_URI = `${APP_SCHEME}://sso-callback`;
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+
+export const getEmailDomain = (email: string): string | null => {
+  const match = email.trim().toLowerCase().match(/^[^@\s]+@([^@\s]+\.[^@\s]+)$/);
+  return match ? match[1] : null;
+};
+
+// Base64 without padding, using - and _ (RFC 4648 §5)
+const toBase64Url = (base64: string): string =>
+  base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const bytesToBase64Url = (bytes: Uint8Array): string =>
+  toBase64Url(btoa(String.fromCharCode(...Array.from(bytes))));
+
+// 32 random bytes make a 43-character verifier, the shortest RFC 7636 allows
+export const createCodeVerifier = (): string => bytesToBase64Url(Crypto.getRandomBytes(32));
+
+// S256 challenge: BASE64URL(SHA256(verifier))
+export const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, codeVerifier, {
+    encoding: Crypto.CryptoEncoding.BASE64,
+  });
+  return toBase64Url(digest);
+};
+
+// Random value tying the redirect back to the request that started it
+const createState = (): string => bytesToBase64Url(Crypto.getRandomBytes(16));
+
+export const buildAuthorizationUrl = (
+  provider: SsoProvider,
+  params: { redirectUri: string; state: string; codeChallenge: string; loginHint?: string }
+): string => {
+  const query: Record<string, string> = {
+    response_type: 'code',
+    client_id: provider.client_id,
+    redirect_uri: params.redirectUri,
+    scope: (provider.scopes ?? DEFAULT_SCOPES).join(' '),
+    state: params.state,
+    code_challenge: params.codeChallenge,
+    code_challenge_method: 'S256',
+    ...(params.loginHint ? { login_hint: params.loginHint } : {}),
+  };
+  const separator = provider.authorization_url.includes('?') ? '&' : '?';
+  return (
+    provider.authorization_url +
+    separator +
+    Object.entries(query)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+      .join('&')
+  );
+};
+
+// Query (and fragment) parameters of the redirect URL
+export const parseRedirectParams = (url: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  const queryStart = url.search(/[?#]/);
+  if (queryStart === -1) return params;
+
+  url
+    .slice(queryStart + 1)
+    .split(/[&#]/)
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, value = ''] = pair.split('=');
+      params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+    });
+  return params;
+};
+
+/**
+ * Find the identity provider for an email's domain.
+ * Returns null when the domain signs in with a password.
+ */
+export const discoverSsoProvider = async (email: string): Promise<SsoProvider | null> => {
+  const domain = getEmailDomain(email);
+  if (!domain) return null;
+
+  try {
+    const response = await api.get('/auth/sso/discover', { params: { domain } });
+    return response.data.provider ?? null;
+  } catch (error: any) {
+    if (error.response?.status === 404) return null;
+    throw error;
+  }
+};
+
+/**
+ * Send the user to the provider's sign-in page and wait for the redirect.
+ * Resolves null if the user closes the browser.
+ */
+export const authorizeWithProvider = async (
+  provider: SsoProvider,
+  loginHint?: string
+): Promise<SsoAuthorization | null> => {
+  const codeVerifier = createCodeVerifier();
+  const state = createState();
+  const url = buildAuthorizationUrl(provider, {
+    redirectUri: SSO_REDIRECT_URI,
+    state,
+    codeChallenge: await createCodeChallenge(codeVerifier),
+    loginHint,
+  });
+
+  devLog('[SSO] Opening', provider.name);
+  const result = await WebBrowser.openAuthSessionAsync(url, SSO_REDIRECT_URI);
+  if (result.type !== 'success') {
+    devLog('[SSO] Browser closed:', result.type);
+    return null;
+  }
+
+  const params = parseRedirectParams(result.url);
+  if (params.error) {
+    throw new Error(params.error_description || `Sign-in was refused (${params.error})`);
+  }
+  if (params.state !== state) {
+    throw new Error('Sign-in response did not match the request. Please try again.');
+  }
+  if (!params.code) {
+    throw new Error('Sign-in response was missing an authorization code');
+  }
+
+  return { code: params.code, codeVerifier, redirectUri: SSO_REDIRECT_URI };
+};
@@ -0,0 +1,194 @@
+// Persisted store caches
+// Stores wrapped with `cached` keep their data in AsyncStorage so screens can
+// render the last known lists immediately (e.g. in a basement with no signal)
+// while the usual fetch refreshes them in the background.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StateCreator } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { StoreScope } from '../stores/registry';
+
+// Dev-only logging helper
+const devLog = (...args: unknown[]) => {
+  if (__DEV__) {
+    console.log(...args);
+  }
+};
+
+export const CACHE_KEY_PREFIX = 'sf_cache_';
+
+// Long lists are trimmed so a cache never grows without bound
+export const MAX_CACHED_ITEMS = 200;
+
+// Upgrades a cache from the version it's keyed by to the next one
+export type CacheMigration = (state: any) => any;
+
+export interface CacheOptions<S> {
+  // Storage key suffix, e.g. 'crm' -> sf_cache_crm
+  name: string;
+  // Bump whenever the cached shape changes
+  version: number;
+  // Data worth keeping; leave out loading/error flags and cursors
+  partialize: (state: S) => Partial<S>;
+  // Steps keyed by the version they upgrade from; a cache with no path to
+  // `version` is dropped and the store starts empty
+  migrations?: Record<number, CacheMigration>;
+}
+
+// A store created with `cached` (only the parts of the persist API we use)
+interface CachedStore {
+  getState: () => any;
+  setState: (partial: Record<string, unknown>) => void;
+  persist: {
+    rehydrate: () => Promise<void> | void;
+    clearStorage: () => void;
+    getOptions: () => { name?: string; partialize?: (state: any) => unknown };
+  };
+}
+
+const cachedStores: { store: CachedStore; scope: StoreScope }[] = [];
+
+/**
+ * Run a persisted cache through its migrations.
+ * Returns an empty object (i.e. drop the cache) when there's no way forward.
+ */
+export const migrateCache = (
+  persisted: unknown,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Record<number, CacheMigration> = {}
+): Record<string, unknown> => {
+  if (fromVersion > toVersion) return {};
+
+  let state = persisted;
+  for (let version = fromVersion; version < toVersion; version++) {
+    const step = migrations[version];
+    if (!step) {
+      devLog('[StoreCache] No migration from version', version, '- dropping cache');
+      return {};
+    }
+    state = step(state);
+  }
+  return (state ?? {}) as Record<string, unknown>;
+};
+
+// Keep the newest entries of a list for the cache
+export const capList = <T>(items: T[], max: number = MAX_CACHED_ITEMS): T[] =>
+  items.length > max ? items.slice(0, max) : items;
+
+/**
+ * Wrap a store creator so its data is cached on disk:
+ *   create<State>()(cached((set, get) => ({ ... }), { name, version, partialize }))
+ * Hydration is deferred to `hydrateStoreCaches` so launch can wait for it.
+ */
+export const cached = <S>(
+  creator: StateCreator<S, [['zustand/persist', unknown]], []>,
+  options: CacheOptions<S>
+) =>
+  persist<S, [], [], Partial<S>>(creator, {
+    name: `${CACHE_KEY_PREFIX}${options.name}`,
+    storage: createJSONStorage(() => AsyncStorage),
+    version: options.version,
+    partialize: options.partialize,
+    migrate: (persisted, version) =>
+      migrateCache(persisted, version, options.version, options.migrations) as Partial<S>,
+    skipHydration: true,
+  });
+
+// Called once per cached store, next to its `create` (scope as in registerStore)
+export const registerCachedStore = (store: CachedStore, scope: StoreScope = 'organization'): void => {
+  cachedStores.push({ store, scope });
+};
+
+// Load every cache from disk; a broken cache is logged and skipped
+export const hydrateStoreCaches = async (): Promise<void> => {
+  await Promise.all(
+    cachedStores.map(async ({ store }) => {
+      try {
+        await store.persist.rehydrate();
+      } catch (error) {
+        console.error('[StoreCache] Failed to hydrate', store.persist.getOptions().name, error);
+      }
+    })
+  );
+};
+
+// Remove caches from disk, all of them unless a scope is given (in-memory state is left alone)
+export const clearStoreCaches = (scope?: StoreScope): void => {
+  cachedStores
+    .filter((entry) => !scope || entry.scope === scope)
+    .forEach(({ store }) => store.persist.clearStorage());
+};
+
+// The persisted part of each cached store, by data key
+const persistedEntries = (store: CachedStore): [string, unknown][] => {
+  const state = store.getState();
+  const { partialize } = store.persist.getOptions();
+  const persisted = (partialize ? partialize(state) : state) as Record<string, unknown>;
+  return Object.keys(persisted).map((key) => [key, state[key]]);
+};
+
+// Collect every object under `value` that carries a `pending` flag
+const collectPending = (value: unknown, found: Set<object>): void => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectPending(item, found));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  Object.entries(value).forEach(([key, field]) => {
+    if (key === 'pending' && field === true) found.add(value);
+    else collectPending(field, found);
+  });
+};
+
+// Copy of a cached value with the `pending` flag dropped from the given objects;
+// unchanged values keep their identity
+const withoutPending = (value: unknown, entities: Set<object>): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => withoutPending(item, entities));
+    return items.some((item, i) => item !== value[i]) ? items : value;
+  }
+  if (!value || typeof value !== 'object') return value;
+
+  let changed = false;
+  const next: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, field]) => {
+    if (key === 'pending' && entities.has(value)) {
+      changed = true;
+      return;
+    }
+    next[key] = withoutPending(field, entities);
+    changed = changed || next[key] !== field;
+  });
+  return changed ? next : value;
+};
+
+// Every entity in the cached stores that is currently flagged `pending`
+export const getPendingEntities = (): Set<object> => {
+  const found = new Set<object>();
+  cachedStores.forEach(({ store }) => {
+    persistedEntries(store).forEach(([, value]) => collectPending(value, found));
+  });
+  return found;
+};
+
+/**
+ * Drop the `pending` flag from the given entities (as returned by
+ * `getPendingEntities`), e.g. flags restored from disk whose mutation synced in
+ * an earlier run (see optimistic.ts). An entity that has since been replaced,
+ * say by a new optimistic change, is a different object and keeps its flag.
+ */
+export const clearPendingFlags = (entities: Set<object>): void => {
+  if (entities.size === 0) return;
+  cachedStores.forEach(({ store }) => {
+    const patch: Record<string, unknown> = {};
+    persistedEntries(store).forEach(([key, value]) => {
+      const next = withoutPending(value, entities);
+      if (next !== value) patch[key] = next;
+    });
+    if (Object.keys(patch).length > 0) {
+      store.setState(patch);
+    }
+  });
+};
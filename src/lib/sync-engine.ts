@@ -0,0 +1,252 @@
+// Delta Sync Engine
+// Keeps a per-entity high-water mark and asks the backend only for records
+// changed or deleted since then, merging them into the cached stores.
+// Stores register the entities they own; the engine runs on app foreground,
+// on realtime reconnect (see useRealtime) and when a screen pulls to refresh.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import apiClient, { DeltaResult } from './api-client';
+import { pageParams, nextCursorFrom } from './pagination';
+import { isOnline } from './connectivity';
+import type { PendingFlag } from './optimistic';
+
+// Dev-only logging helper
+const devLog = (...args: unknown[]) => {
+  if (__DEV__) {
+    console.log(...args);
+  }
+};
+
+const CURSORS_STORAGE_KEY = 'sf_sync_cursors';
+const RESUME_STORAGE_KEY = 'sf_sync_resume';
+
+// A full refresh has no server time to go by, so its mark is backdated to
+// cover clock skew; re-applying a few records twice is harmless
+const CLOCK_SKEW_MARGIN_MS = 5 * 60 * 1000;
+
+// Stop following pages after this many in one sync; the next sync resumes from
+// the page it stopped at, and the mark only moves once the last page is in
+export const MAX_PAGES_PER_SYNC = 20;
+
+type EntityId = string | number;
+
+export interface SyncEntity<T extends { id: EntityId }> {
+  // Unique name, e.g. 'leads'
+  name: string;
+  // List endpoint that accepts `updated_since`
+  path: string;
+  // Response key when the list isn't under `data`
+  key?: string;
+  // Full fetch, used for the first sync or when the local copy is empty
+  refresh: () => Promise<void>;
+  // The store's error for this list; store fetches record failures there instead of throwing
+  error: () => string | null;
+  hasLocalData: () => boolean;
+  // The store pages this list and keeps its page cursor in memory only; the first
+  // sync after launch fetches the first page again so loading more can continue
+  paged?: boolean;
+  // Merge a batch of changes into the store
+  apply: (changed: T[], deletedIds: T['id'][]) => void;
+}
+
+const entities: Map<string, SyncEntity<any>> = new Map();
+const inFlight: Map<string, Promise<void>> = new Map();
+// Paged entities whose first page was fetched since launch
+const pagedSinceLaunch: Set<string> = new Set();
+let cursors: Record<string, string> = {};
+let cursorsLoaded = false;
+
+// A delta sync that stopped at MAX_PAGES_PER_SYNC: the query it was paging
+// through and the mark to save once it reaches the last page
+interface ResumePoint {
+  since: string;
+  cursor: string;
+  mark: string | null;
+}
+let resumePoints: Record<string, ResumePoint> = {};
+
+/**
+ * Merge changed records into a list and drop deleted ones.
+ * New records go first (lists are newest-first); local copies with a pending
+ * change are left alone, since their queued mutation will reconcile them.
+ */
+export const applyDelta = <T extends { id: EntityId } & PendingFlag>(
+  items: T[],
+  changed: T[],
+  deletedIds: EntityId[]
+): T[] => {
+  const deleted = new Set(deletedIds.map(String));
+  const incoming = new Map(changed.map((item) => [String(item.id), item]));
+
+  const merged = items.flatMap((item) => {
+    const key = String(item.id);
+    if (deleted.has(key)) return [];
+    const update = incoming.get(key);
+    incoming.delete(key);
+    return update && !item.pending ? [update] : [item];
+  });
+  const added = [...incoming.values()].filter((item) => !deleted.has(String(item.id)));
+  return [...added, ...merged];
+};
+
+export const registerSyncEntity = <T extends { id: EntityId }>(entity: SyncEntity<T>): void => {
+  entities.set(entity.name, entity);
+};
+
+const loadCursors = async (): Promise<void> => {
+  if (cursorsLoaded) return;
+  try {
+    const stored = await AsyncStorage.getItem(CURSORS_STORAGE_KEY);
+    cursors = stored ? { ...JSON.parse(stored), ...cursors } : cursors;
+    const storedResume = await AsyncStorage.getItem(RESUME_STORAGE_KEY);
+    resumePoints = storedResume ? { ...JSON.parse(storedResume), ...resumePoints } : resumePoints;
+  } catch (error) {
+    console.error('[Sync] Failed to load cursors:', error);
+  }
+  cursorsLoaded = true;
+};
+
+const saveCursor = async (name: string, mark: string): Promise<void> => {
+  cursors = { ...cursors, [name]: mark };
+  try {
+    await AsyncStorage.setItem(CURSORS_STORAGE_KEY, JSON.stringify(cursors));
+  } catch (error) {
+    console.error('[Sync] Failed to save cursors:', error);
+  }
+};
+
+const saveResumePoint = async (name: string, point: ResumePoint | null): Promise<void> => {
+  if (!point && !resumePoints[name]) return;
+  const { [name]: _done, ...others } = resumePoints;
+  resumePoints = point ? { ...others, [name]: point } : others;
+  try {
+    await AsyncStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(resumePoints));
+  } catch (error) {
+    console.error('[Sync] Failed to save resume point:', error);
+  }
+};
+
+// High-water mark for an entity (null before its first sync)
+export const getSyncCursor = (name: string): string | null => cursors[name] ?? null;
+
+// Newest `updated_at` in a batch, as a fallback mark when the server doesn't send its time
+const latestUpdatedAt = (records: unknown[]): string | null =>
+  records.reduce<string | null>((latest, record) => {
+    const updatedAt = (record as { updated_at?: string })?.updated_at;
+    return updatedAt && (!latest || updatedAt > latest) ? updatedAt : latest;
+  }, null);
+
+/**
+ * Page through changes since the mark, starting where an earlier sync stopped.
+ * Returns the mark for the query and, when the page cap cut it short, the
+ * cursor of the next page.
+ */
+const fetchChanges = async (
+  entity: SyncEntity<any>,
+  since: string,
+  resume: ResumePoint | null
+): Promise<{ mark: string | null; cursor: string | null }> => {
+  let cursor: string | null = resume?.cursor ?? null;
+  let mark: string | null = resume?.mark ?? null;
+
+  for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+    const result: DeltaResult<{ id: EntityId }> = await apiClient.sync.changes(
+      entity.path,
+      { ...pageParams(cursor), updated_since: since, include_deleted: 1 },
+      entity.key
+    );
+    // The first page's server time covers every later page of the same query
+    mark = mark ?? result.serverTime ?? latestUpdatedAt(result.changed);
+
+    if (result.changed.length > 0 || result.deleted.length > 0) {
+      entity.apply(result.changed, result.deleted.map((tombstone) => tombstone.id));
+    }
+
+    cursor = nextCursorFrom(result.meta);
+    if (cursor === null) break;
+  }
+
+  return { mark, cursor };
+};
+
+const runSync = async (entity: SyncEntity<any>): Promise<void> => {
+  await loadCursors();
+  const since = getSyncCursor(entity.name);
+
+  try {
+    const needsFirstPage = entity.paged && !pagedSinceLaunch.has(entity.name);
+    if (since && entity.hasLocalData() && !needsFirstPage) {
+      const resumeAt = resumePoints[entity.name]?.since === since ? resumePoints[entity.name] : null;
+      const { mark, cursor } = await fetchChanges(entity, since, resumeAt);
+      if (cursor) {
+        // Records on the pages not fetched yet are older than the mark; keep it until they are in
+        await saveResumePoint(entity.name, { since, cursor, mark });
+        devLog('[Sync]', entity.name, 'stopped at the page limit, resuming next time');
+      } else {
+        await saveResumePoint(entity.name, null);
+        if (mark) await saveCursor(entity.name, mark);
+        devLog('[Sync]', entity.name, 'synced since', since);
+      }
+    } else {
+      const startedAt = Date.now();
+      await entity.refresh();
+      if (!entity.error()) {
+        pagedSinceLaunch.add(entity.name);
+        await saveResumePoint(entity.name, null);
+        await saveCursor(entity.name, new Date(startedAt - CLOCK_SKEW_MARGIN_MS).toISOString());
+      }
+      devLog('[Sync]', entity.name, 'refreshed');
+    }
+  } catch (error) {
+    // Keep the old mark so the next sync asks for the same window again
+    console.error(`[Sync] Failed to sync ${entity.name}:`, error);
+  }
+};
+
+// Sync one entity; concurrent calls share the same run
+export const syncEntity = (name: string): Promise<void> => {
+  const entity = entities.get(name);
+  if (!entity || !isOnline()) return Promise.resolve();
+
+  const running = inFlight.get(name);
+  if (running) return running;
+
+  const run = runSync(entity).finally(() => inFlight.delete(name));
+  inFlight.set(name, run);
+  return run;
+};
+
+export const syncEntities = async (names: string[]): Promise<void> => {
+  await Promise.all(names.map(syncEntity));
+};
+
+export const syncAll = (): Promise<void> => syncEntities([...entities.keys()]);
+
+// Forget every high-water mark so the next sync is a full refresh
+export const resetSyncCursors = async (): Promise<void> => {
+  cursors = {};
+  resumePoints = {};
+  cursorsLoaded = true;
+  pagedSinceLaunch.clear();
+  await AsyncStorage.multiRemove([CURSORS_STORAGE_KEY, RESUME_STORAGE_KEY]);
+};
+
+const handleAppStateChange = (nextState: AppStateStatus) => {
+  if (nextState === 'active') {
+    syncAll();
+  }
+};
+
+let appStateSubscription: ReturnType<typeof AppState.addEventListener> | null = null;
+
+export const initSyncEngine = async (): Promise<void> => {
+  await loadCursors();
+  cleanupSyncEngine();
+  appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+};
+
+export const cleanupSyncEngine = (): void => {
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+};
@@ -0,0 +1,118 @@
+// Temporary IDs for entities created offline
+// A temp ID stands in for the server ID until the queued create succeeds.
+// They are large negative integers so they fit both numeric and string ID fields,
+// can never collide with a real (positive) server ID, and are unlikely to be
+// mistaken for an ordinary negative number in a request body.
+
+const TEMP_ID_PATTERN = /^-\d{13,}$/;
+// Temp IDs used as URL path segments
+const TEMP_ID_SEGMENT = /\/(-\d{13,})(?=\/|\?|$)/g;
+
+let lastTempId = 0;
+
+// Generate a new temp ID (always negative, always unique within this install)
+export const generateTempId = (): number => {
+  const candidate = -Date.now() * 1000;
+  lastTempId = candidate < lastTempId ? candidate : lastTempId - 1;
+  return lastTempId;
+};
+
+// Whether a value (number or numeric string) is a temp ID
+export const isTempId = (value: unknown): boolean =>
+  (typeof value === 'number' && Number.isInteger(value) && value <= -1e12) ||
+  (typeof value === 'string' && TEMP_ID_PATTERN.test(value));
+
+// Map of temp ID (as string) to the real ID returned by the server
+export type TempIdMap = Record<string, string | number>;
+
+// Keep the caller's type: numeric fields stay numbers, string fields stay strings
+const resolvedValue = (original: string | number, realId: string | number): string | number => {
+  if (typeof original === 'string') return String(realId);
+  return typeof realId === 'number' || !/^\d+$/.test(realId) ? realId : Number(realId);
+};
+
+/**
+ * Replace temp IDs anywhere in a value (objects, arrays, primitives).
+ * Returns the same reference when nothing changed.
+ */
+export const rewriteTempIds = <T>(value: T, ids: TempIdMap): T => {
+  if ((typeof value === 'number' || typeof value === 'string') && isTempId(value)) {
+    const realId = ids[String(value)];
+    return (realId === undefined ? value : resolvedValue(value, realId)) as T;
+  }
+  if (Array.isArray(value)) {
+    let changed = false;
+    const next = value.map((item) => {
+      const rewritten = rewriteTempIds(item, ids);
+      if (rewritten !== item) changed = true;
+      return rewritten;
+    });
+    return (changed ? next : value) as T;
+  }
+  if (value && typeof value === 'object') {
+    let changed = false;
+    const next: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+      const rewritten = rewriteTempIds(item, ids);
+      if (rewritten !== item) changed = true;
+      next[key] = rewritten;
+    });
+    return (changed ? next : value) as T;
+  }
+  return value;
+};
+
+// Replace temp IDs used as path segments, e.g. /crm/deals/-1700000000000000/move-stage
+export const rewriteTempIdsInUrl = (url: string, ids: TempIdMap): string =>
+  url.replace(TEMP_ID_SEGMENT, (segment, id: string) =>
+    ids[id] === undefined ? segment : `/${ids[id]}`
+  );
+
+// Every temp ID referenced by a URL and body
+export const collectTempIds = (url: string, data: unknown): string[] => {
+  const found = new Set<string>();
+  const visit = (value: unknown) => {
+    if (isTempId(value)) {
+      found.add(String(value));
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value as Record<string, unknown>).forEach(visit);
+    }
+  };
+  visit(data);
+  url.replace(TEMP_ID_SEGMENT, (segment, id: string) => {
+    found.add(id);
+    return segment;
+  });
+  return [...found];
+};
+
+// Local stand-in for an entity whose create is still queued
+export const buildPlaceholder = <T>(data: Partial<T>, id: T extends { id: infer I } ? I : never): T => {
+  const now = new Date().toISOString();
+  return { created_at: now, updated_at: now, ...data, id } as T;
+};
+
+/**
+ * Apply a resolved temp ID to a store list: rewrite the ID and any references
+ * to it, then replace the placeholder with the server's entity. If the server
+ * entity already arrived (e.g. via realtime), the duplicate is dropped.
+ */
+export const swapTempEntity = <T extends { id: string | number }>(
+  items: T[],
+  ids: TempIdMap,
+  entity?: T | null
+): T[] => {
+  const rewritten = rewriteTempIds(items, ids);
+  if (!entity) return rewritten;
+
+  let seen = false;
+  const swapped = rewritten.flatMap((item) => {
+    if (String(item.id) !== String(entity.id)) return [item];
+    if (seen) return [];
+    seen = true;
+    return [entity];
+  });
+  return seen ? swapped : rewritten;
+};
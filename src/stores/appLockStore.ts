@@ -0,0 +1,159 @@
+// App Lock Store for SystemsF1RST Mobile
+// Covers the app with a lock screen after a stretch of inactivity or whenever
+// it goes to the background. Unlocks with biometrics, falling back to a PIN.
+// Settings are cached like store data; the PIN lives in secure storage.
+
+import { create } from 'zustand';
+import { AppState, AppStateStatus } from 'react-native';
+import { registerStore } from './registry';
+import { cached, registerCachedStore } from '../lib/store-cache';
+import { secureStorage } from '../lib/secure-storage';
+import { authenticateWithBiometrics } from '../lib/biometrics';
+
+const PIN_KEY = 'sf_app_lock_pin';
+
+// Idle timeouts offered in settings, in minutes
+export const IDLE_TIMEOUT_OPTIONS = [1, 5, 15, 30];
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 5;
+
+export const MIN_PIN_LENGTH = 4;
+// Wrong PINs allowed before the user is signed out
+export const MAX_PIN_ATTEMPTS = 5;
+
+// How often to compare the last touch against the idle timeout
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
+interface AppLockState {
+  // Settings
+  enabled: boolean;
+  biometricsEnabled: boolean;
+  idleTimeoutMinutes: number;
+
+  isLocked: boolean;
+  // Kept across restarts so killing the app doesn't reset the count
+  failedAttempts: number;
+
+  // Settings actions
+  enable: (pin: string) => Promise<void>;
+  disable: () => Promise<void>;
+  changePin: (pin: string) => Promise<void>;
+  setBiometricsEnabled: (enabled: boolean) => void;
+  setIdleTimeout: (minutes: number) => void;
+
+  // Lock actions
+  lock: () => void;
+  unlockWithPin: (pin: string) => Promise<boolean>;
+  unlockWithBiometrics: () => Promise<boolean>;
+}
+
+export const useAppLockStore = create<AppLockState>()(cached((set, get) => ({
+  enabled: false,
+  biometricsEnabled: false,
+  idleTimeoutMinutes: DEFAULT_IDLE_TIMEOUT_MINUTES,
+  isLocked: false,
+  failedAttempts: 0,
+
+  enable: async (pin) => {
+    await secureStorage.setItem(PIN_KEY, pin);
+    recordActivity();
+    set({ enabled: true, isLocked: false, failedAttempts: 0 });
+  },
+
+  disable: async () => {
+    await secureStorage.removeItem(PIN_KEY);
+    set({ enabled: false, biometricsEnabled: false, isLocked: false, failedAttempts: 0 });
+  },
+
+  changePin: async (pin) => {
+    await secureStorage.setItem(PIN_KEY, pin);
+  },
+
+  setBiometricsEnabled: (enabled) => set({ biometricsEnabled: enabled }),
+
+  setIdleTimeout: (minutes) => set({ idleTimeoutMinutes: minutes }),
+
+  lock: () => {
+    if (get().enabled && !get().isLocked) {
+      set({ isLocked: true });
+    }
+  },
+
+  unlockWithPin: async (pin) => {
+    const storedPin = await secureStorage.getItem(PIN_KEY);
+    if (storedPin !== null && pin === storedPin) {
+      recordActivity();
+      set({ isLocked: false, failedAttempts: 0 });
+      return true;
+    }
+    set({ failedAttempts: get().failedAttempts + 1 });
+    return false;
+  },
+
+  unlockWithBiometrics: async () => {
+    if (!get().biometricsEnabled) return false;
+
+    const success = await authenticateWithBiometrics('Unlock SystemsF1RST');
+    if (success) {
+      recordActivity();
+      set({ isLocked: false, failedAttempts: 0 });
+    }
+    return success;
+  },
+}), {
+  name: 'app_lock',
+  version: 1,
+  partialize: (state) => ({
+    enabled: state.enabled,
+    biometricsEnabled: state.biometricsEnabled,
+    idleTimeoutMinutes: state.idleTimeoutMinutes,
+    failedAttempts: state.failedAttempts,
+  }),
+}));
+
+registerCachedStore(useAppLockStore, 'user');
+registerStore(useAppLockStore, 'user');
+
+// Idle tracking; the root layout reports touches through recordActivity
+let lastActivityAt = Date.now();
+
+export const recordActivity = (): void => {
+  lastActivityAt = Date.now();
+};
+
+// Lock if nothing has been touched for longer than the idle timeout
+export const checkIdle = (now: number = Date.now()): void => {
+  const { enabled, idleTimeoutMinutes, lock } = useAppLockStore.getState();
+  if (enabled && now - lastActivityAt >= idleTimeoutMinutes * 60 * 1000) {
+    lock();
+  }
+};
+
+const handleAppStateChange = (nextState: AppStateStatus) => {
+  if (nextState === 'background') {
+    // Locking before the OS snapshots the app keeps data out of the app switcher
+    useAppLockStore.getState().lock();
+  } else if (nextState === 'active') {
+    checkIdle();
+  }
+};
+
+let appStateSubscription: ReturnType<typeof AppState.addEventListener> | null = null;
+let idleInterval: ReturnType<typeof setInterval> | null = null;
+
+// Start watching for background and idle; locks straight away on launch
+export const initAppLock = (): void => {
+  cleanupAppLock();
+  useAppLockStore.getState().lock();
+  recordActivity();
+  appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+  idleInterval = setInterval(() => checkIdle(), IDLE_CHECK_INTERVAL_MS);
+};
+
+export const cleanupAppLock = (): void => {
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+  if (idleInterval) {
+    clearInterval(idleInterval);
+    idleInterval = null;
+  }
+};
@@ -2,11 +2,28 @@ import { create } from 'zustand';
 import {
   api,
   setAuthToken,
+  setAuthTokens,
   getAuthToken,
   setStoredUser,
   getStoredUser,
+  getDeviceToken,
+  setDeviceToken,
   clearAuth,
+  migrateStoredAuth,
+  getActiveOrganization,
+  setActiveOrganization,
+  clearActiveOrganization,
+  startImpersonationSession,
+  endImpersonationSession,
+  getImpersonation,
 } from '../lib/api';
+import { resetAll, resetOrganization } from '../lib/session';
+import { toApiError } from '../lib/api-client';
+import { onAuthEvent } from '../lib/auth-events';
+import { getQueueCount, getDeadLetters, clearQueue, clearDeadLetters } from '../lib/offline-queue';
+import { discoverSsoProvider, authorizeWithProvider, getEmailDomain } from '../lib/sso';
+import { getLinkTokenError, LinkTokenError, LINK_TOKEN_MESSAGES } from '../lib/auth-links';
+import { showToast } from './toastStore';
 
 export interface User {
   id: number;
@@ -23,61 +40,328 @@ export interface User {
   studio_id?: number;
 }
 
+// An organization (white-labeled CRM) the user belongs to
+export interface OrganizationMembership {
+  id: number;
+  name: string;
+  logo_url?: string;
+  // The user's roles in this organization
+  roles?: string[];
+}
+
+// An admin viewing the app as an employee; `user` is the employee meanwhile
+export interface Impersonation {
+  // Audit record on the backend, closed when the impersonation ends
+  id: number | string;
+  // The admin, whose session comes back when it ends
+  impersonator: User;
+  // Writes are rejected unless the admin allowed changes when starting
+  allow_changes: boolean;
+  started_at: string;
+  expires_at?: string;
+}
+
+export type TwoFactorMethod = 'totp' | 'sms' | 'recovery';
+
+// Second login step, returned by /auth/login instead of a token when 2FA is on
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  methods: TwoFactorMethod[];
+  // Masked number SMS codes go to, e.g. "•••• 1234"
+  phoneHint?: string;
+}
+
+export type LoginResult = 'authenticated' | 'two_factor_required' | 'failed';
+
+// How long "remember this device" skips the second step
+export const REMEMBER_DEVICE_DAYS = 30;
+
 interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  // Signed out because the session ended, not by the user; login says so
+  sessionExpired: boolean;
+  // Why the last magic sign-in link was refused
+  linkError: LinkTokenError | null;
+  twoFactorChallenge: TwoFactorChallenge | null;
+  organizations: OrganizationMembership[];
+  isSwitchingOrganization: boolean;
+  impersonation: Impersonation | null;
+  isSwitchingUser: boolean;
 
   // Actions
-  login: (email: string, password: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  // Sign in through the identity provider configured for the email's domain
+  loginWithSso: (email: string) => Promise<LoginResult>;
+  // Sign in with the token from an emailed link (systemsf1rst://magic-login)
+  loginWithMagicLink: (token: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string, method: TwoFactorMethod, rememberDevice: boolean) => Promise<boolean>;
+  sendTwoFactorCode: () => Promise<boolean>;
+  cancelTwoFactor: () => void;
   logout: () => Promise<void>;
+  handleSessionExpired: () => Promise<void>;
   loadStoredAuth: () => Promise<void>;
   updateUser: (userData: Partial<User>) => void;
+  fetchOrganizations: () => Promise<void>;
+  switchOrganization: (organizationId: number) => Promise<boolean>;
+  startImpersonation: (userId: number, options?: { allowChanges?: boolean }) => Promise<boolean>;
+  stopImpersonation: () => Promise<void>;
+  // The impersonation token ran out; the admin's tokens are already back
+  handleImpersonationEnded: () => Promise<void>;
 }
 
+const toChallenge = (data: any): TwoFactorChallenge => {
+  const methods: TwoFactorMethod[] = Array.isArray(data.methods) && data.methods.length > 0 ? data.methods : ['totp'];
+  return {
+    challengeToken: data.challenge_token,
+    // A recovery code is always accepted
+    methods: methods.includes('recovery') ? methods : [...methods, 'recovery'],
+    phoneHint: data.phone_hint,
+  };
+};
+
+// Store the session from a login, two-factor or SSO response
+const completeLogin = async (
+  data: { token: string; refresh_token?: string; user: User },
+  set: (state: Partial<AuthState>) => void
+) => {
+  if (data.refresh_token) {
+    await setAuthTokens(data.token, data.refresh_token);
+  } else {
+    await setAuthToken(data.token);
+  }
+  await setStoredUser(data.user);
+
+  set({
+    user: data.user,
+    token: data.token,
+    isAuthenticated: true,
+    isLoading: false,
+    error: null,
+    sessionExpired: false,
+    twoFactorChallenge: null,
+  });
+};
+
+// /auth/me answers for the organization in the request header; make sure the user says so too
+const withActiveOrganization = (user: User, organizationId: number | null): User =>
+  organizationId ? { ...user, organization_id: organizationId } : user;
+
+// The server turned the stored session down, as opposed to not being reachable.
+// A failed refresh ends in the 401 it was retrying, or ERR_SESSION_EXPIRED when
+// the request interceptor refreshed ahead of sending.
+const isAuthRejection = (error: unknown): boolean => {
+  const { status, code } = toApiError(error);
+  return status === 401 || status === 403 || code === 'ERR_SESSION_EXPIRED';
+};
+
+// Queued writes would be replayed under whoever is signed in next
+export const pendingChangesError = (action: string): string | null => {
+  const pending = getQueueCount() + getDeadLetters().length;
+  return pending > 0 ? `Sync or discard ${pending} pending ${pending === 1 ? 'change' : 'changes'} before ${action}` : null;
+};
+
+// Tell the backend the impersonation is over (it records the end in the
+// audit trail) and put the admin's tokens back
+const closeImpersonation = async (impersonation: Impersonation) => {
+  try {
+    await api.delete(`/auth/impersonation/${impersonation.id}`);
+  } catch (error) {
+    // The backend also closes it when the token expires
+    console.error('[Auth] Failed to end impersonation:', error);
+  }
+  await endImpersonationSession();
+};
+
+// Back to the admin's own view, without anything the employee's session loaded
+const restoreImpersonator = async (
+  impersonation: Impersonation,
+  set: (state: Partial<AuthState>) => void
+) => {
+  // Writes made as the employee can't be replayed with the admin's token
+  await clearQueue();
+  await clearDeadLetters();
+  await resetOrganization();
+
+  const admin = ((await getStoredUser()) as User | null) ?? impersonation.impersonator;
+  set({
+    user: admin,
+    token: await getAuthToken(),
+    impersonation: null,
+    isSwitchingUser: false,
+  });
+};
+
 export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
   token: null,
   isAuthenticated: false,
   isLoading: true,
   error: null,
+  sessionExpired: false,
+  linkError: null,
+  twoFactorChallenge: null,
+  organizations: [],
+  isSwitchingOrganization: false,
+  impersonation: null,
+  isSwitchingUser: false,
 
   login: async (email: string, password: string) => {
-    set({ isLoading: true, error: null });
+    set({ isLoading: true, error: null, sessionExpired: false, twoFactorChallenge: null });
     try {
       const response = await api.post('/auth/login', {
         email,
         password,
         app: 'systemsf1rst-mobile',
+        device_token: (await getDeviceToken()) ?? undefined,
       });
 
-      const { token, user } = response.data;
+      if (response.data.two_factor_required) {
+        set({ twoFactorChallenge: toChallenge(response.data), isLoading: false });
+        return 'two_factor_required';
+      }
 
-      await setAuthToken(token);
-      await setStoredUser(user);
+      await completeLogin(response.data, set);
+      return 'authenticated';
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Login failed';
+      set({
+        isLoading: false,
+        error: errorMessage,
+      });
+      return 'failed';
+    }
+  },
 
+  loginWithSso: async (email: string) => {
+    set({ isLoading: true, error: null, sessionExpired: false, twoFactorChallenge: null });
+    try {
+      const provider = await discoverSsoProvider(email);
+      if (!provider) {
+        const domain = getEmailDomain(email);
+        set({
+          isLoading: false,
+          error: domain
+            ? `Single sign-on isn't set up for ${domain}. Sign in with your password instead.`
+            : 'Please enter your work email',
+        });
+        return 'failed';
+      }
+
+      const authorization = await authorizeWithProvider(provider, email.trim());
+      if (!authorization) {
+        // Closed the browser; nothing to report
+        set({ isLoading: false });
+        return 'failed';
+      }
+
+      const response = await api.post('/auth/sso/token', {
+        provider: provider.id,
+        code: authorization.code,
+        code_verifier: authorization.codeVerifier,
+        redirect_uri: authorization.redirectUri,
+        app: 'systemsf1rst-mobile',
+      });
+
+      await completeLogin(response.data, set);
+      return 'authenticated';
+    } catch (error: any) {
       set({
-        user,
+        isLoading: false,
+        error: error.response?.data?.message || error.message || 'Single sign-on failed',
+      });
+      return 'failed';
+    }
+  },
+
+  loginWithMagicLink: async (token: string) => {
+    set({ isLoading: true, error: null, linkError: null, sessionExpired: false, twoFactorChallenge: null });
+    try {
+      const response = await api.post('/auth/magic-link/verify', {
         token,
-        isAuthenticated: true,
+        app: 'systemsf1rst-mobile',
+        device_token: (await getDeviceToken()) ?? undefined,
+      });
+
+      // The link replaces the password, not the second step
+      if (response.data.two_factor_required) {
+        set({ twoFactorChallenge: toChallenge(response.data), isLoading: false });
+        return 'two_factor_required';
+      }
+
+      await completeLogin(response.data, set);
+      return 'authenticated';
+    } catch (error: any) {
+      const linkError = getLinkTokenError(error);
+      set({
         isLoading: false,
-        error: null,
+        linkError,
+        error: linkError ? LINK_TOKEN_MESSAGES[linkError] : error.response?.data?.message || 'Sign-in failed',
+      });
+      return 'failed';
+    }
+  },
+
+  verifyTwoFactor: async (code, method, rememberDevice) => {
+    const challenge = get().twoFactorChallenge;
+    if (!challenge) return false;
+
+    set({ isLoading: true, error: null });
+    try {
+      const response = await api.post('/auth/two-factor/challenge', {
+        challenge_token: challenge.challengeToken,
+        method,
+        code: code.trim(),
+        remember_device: rememberDevice,
+        app: 'systemsf1rst-mobile',
       });
 
+      if (rememberDevice && response.data.device_token) {
+        await setDeviceToken(response.data.device_token);
+      }
+      await completeLogin(response.data, set);
       return true;
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || 'Login failed';
+      // The challenge only lives a few minutes; start over from the password step
+      const expired = error.response?.status === 410;
       set({
         isLoading: false,
-        error: errorMessage,
+        error: expired
+          ? 'Your sign-in attempt expired. Please sign in again.'
+          : error.response?.data?.message || 'Invalid verification code',
+        ...(expired ? { twoFactorChallenge: null } : {}),
       });
       return false;
     }
   },
 
+  sendTwoFactorCode: async () => {
+    const challenge = get().twoFactorChallenge;
+    if (!challenge) return false;
+
+    try {
+      await api.post('/auth/two-factor/challenge/sms', { challenge_token: challenge.challengeToken });
+      return true;
+    } catch (error: any) {
+      set({ error: error.response?.data?.message || 'Failed to send code' });
+      return false;
+    }
+  },
+
+  cancelTwoFactor: () => {
+    set({ twoFactorChallenge: null, error: null });
+  },
+
   logout: async () => {
+    // Sign out the admin, not just the employee they're viewing as
+    const impersonation = get().impersonation;
+    if (impersonation) {
+      await closeImpersonation(impersonation);
+    }
+
     try {
       await api.post('/auth/logout');
     } catch (error) {
@@ -85,25 +369,48 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
 
     await clearAuth();
+    await resetAll();
     set({
       user: null,
       token: null,
       isAuthenticated: false,
       error: null,
+      organizations: [],
+      impersonation: null,
+    });
+  },
+
+  // The refresh token was rejected; tokens are already gone, drop the rest of the session
+  handleSessionExpired: async () => {
+    if (!get().isAuthenticated) return;
+
+    await resetAll();
+    set({
+      user: null,
+      token: null,
+      isAuthenticated: false,
+      error: 'Your session has expired. Please sign in again.',
+      sessionExpired: true,
+      organizations: [],
+      impersonation: null,
     });
   },
 
   loadStoredAuth: async () => {
     set({ isLoading: true });
     try {
+      // First launch after upgrading from a build that used AsyncStorage
+      await migrateStoredAuth();
+
       const token = await getAuthToken();
       const storedUser = await getStoredUser();
+      const impersonation = (await getImpersonation()) as Impersonation | null;
 
       if (token && storedUser) {
         // Verify token is still valid
         try {
           const response = await api.get('/auth/me');
-          const user = response.data.user || response.data;
+          const user = withActiveOrganization(response.data.user || response.data, await getActiveOrganization());
 
           await setStoredUser(user);
 
@@ -112,11 +419,33 @@ export const useAuthStore = create<AuthState>((set, get) => ({
             token,
             isAuthenticated: true,
             isLoading: false,
+            impersonation,
           });
           return;
         } catch (error) {
-          // Token invalid, clear auth
+          // The impersonation token ran out while the app was closed and the
+          // admin's tokens are back; sign in as the admin instead
+          if (impersonation && !(await getImpersonation())) {
+            await clearQueue();
+            await clearDeadLetters();
+            await resetOrganization();
+            return get().loadStoredAuth();
+          }
+          // Offline or the server is down: start from the cached session and keep
+          // everything queued on this device. Only a real rejection signs out.
+          if (!isAuthRejection(error)) {
+            set({
+              user: storedUser as User,
+              token,
+              isAuthenticated: true,
+              isLoading: false,
+              impersonation,
+            });
+            return;
+          }
+          // Token invalid, clear auth and whatever the last session cached
           await clearAuth();
+          await resetAll();
         }
       }
 
@@ -144,4 +473,124 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       setStoredUser(updatedUser);
     }
   },
+
+  fetchOrganizations: async () => {
+    set({ error: null });
+    try {
+      const response = await api.get('/auth/organizations');
+      set({ organizations: response.data.organizations || response.data || [] });
+    } catch (error: any) {
+      set({ error: error.response?.data?.message || 'Failed to load organizations' });
+    }
+  },
+
+  switchOrganization: async (organizationId: number) => {
+    const currentUser = get().user;
+    if (!currentUser) return false;
+    if (currentUser.organization_id === organizationId) return true;
+
+    // Queued writes belong to the current organization; replaying them after
+    // the switch would send them to the new one
+    const pendingError = pendingChangesError('switching organizations');
+    if (pendingError) {
+      set({ error: pendingError });
+      return false;
+    }
+
+    set({ isSwitchingOrganization: true, error: null });
+    const previousOrganizationId = await getActiveOrganization();
+    try {
+      await setActiveOrganization(organizationId);
+      // Roles and permissions differ per organization
+      const response = await api.get('/auth/me');
+      const user = withActiveOrganization(response.data.user || response.data, organizationId);
+
+      await resetOrganization();
+      await setStoredUser(user);
+      set({ user, isSwitchingOrganization: false });
+      return true;
+    } catch (error: any) {
+      // Stay in the organization we were in
+      if (previousOrganizationId) {
+        await setActiveOrganization(previousOrganizationId);
+      } else {
+        await clearActiveOrganization();
+      }
+      set({
+        isSwitchingOrganization: false,
+        error: error.response?.data?.message || 'Failed to switch organization',
+      });
+      return false;
+    }
+  },
+
+  startImpersonation: async (userId, options = {}) => {
+    const admin = get().user;
+    if (!admin || get().impersonation) return false;
+
+    const pendingError = pendingChangesError('viewing as another user');
+    if (pendingError) {
+      set({ error: pendingError });
+      return false;
+    }
+
+    set({ isSwitchingUser: true, error: null });
+    try {
+      // The backend checks the admin may do this, records the start and
+      // answers with a token scoped to the employee
+      const response = await api.post('/auth/impersonation', {
+        user_id: userId,
+        allow_changes: !!options.allowChanges,
+      });
+      const { token, user: employee, impersonation: record } = response.data;
+
+      const impersonation: Impersonation = {
+        id: record.id,
+        impersonator: admin,
+        allow_changes: record.allow_changes ?? !!options.allowChanges,
+        started_at: record.started_at ?? new Date().toISOString(),
+        expires_at: record.expires_at,
+      };
+      const user = withActiveOrganization(employee, await getActiveOrganization());
+
+      await startImpersonationSession(token, user, impersonation);
+      // Nothing the admin loaded should show up in the employee's view
+      await resetOrganization();
+      set({ user, token, impersonation, isSwitchingUser: false });
+      return true;
+    } catch (error: any) {
+      set({
+        isSwitchingUser: false,
+        error: error.response?.data?.message || 'Failed to view as this user',
+      });
+      return false;
+    }
+  },
+
+  stopImpersonation: async () => {
+    const impersonation = get().impersonation;
+    if (!impersonation) return;
+
+    set({ isSwitchingUser: true });
+    await closeImpersonation(impersonation);
+    await restoreImpersonator(impersonation, set);
+  },
+
+  handleImpersonationEnded: async () => {
+    const impersonation = get().impersonation;
+    if (!impersonation) return;
+
+    await restoreImpersonator(impersonation, set);
+    showToast('Your view-as session expired', 'info');
+  },
 }));
+
+onAuthEvent((event) => {
+  if (event.type === 'token_refreshed') {
+    useAuthStore.setState({ token: event.token });
+  } else if (event.type === 'session_expired') {
+    useAuthStore.getState().handleSessionExpired();
+  } else if (event.type === 'impersonation_ended') {
+    useAuthStore.getState().handleImpersonationEnded();
+  }
+});
@@ -2,7 +2,13 @@
 // Manages calendar events, external calendar sync, and views
 
 import { create } from 'zustand';
-import api from '../lib/api';
+import apiClient, { toApiError } from '../lib/api-client';
+import { sendOfflineAware, subscribeToTempIdResolution, TempIdResolution } from '../lib/offline-queue';
+import { buildPlaceholder, generateTempId, swapTempEntity } from '../lib/temp-ids';
+import { runOptimistic, patchById, replaceById, restoreAt, PendingFlag } from '../lib/optimistic';
+import { cached, capList, registerCachedStore } from '../lib/store-cache';
+import { registerStore } from './registry';
+import { registerSyncEntity, applyDelta } from '../lib/sync-engine';
 
 // Types
 export interface Attendee {
@@ -12,7 +18,7 @@ export interface Attendee {
   status: 'pending' | 'accepted' | 'declined' | 'tentative';
 }
 
-export interface CalendarEvent {
+export interface CalendarEvent extends PendingFlag {
   id: string;
   title: string;
   description?: string;
@@ -92,6 +98,7 @@ interface CalendarState {
   setSelectedEvent: (event: CalendarEvent | null) => void;
   refreshEvents: () => void;
   getEventsForDate: (date: Date) => CalendarEvent[];
+  handleTempIdResolved: (resolution: TempIdResolution) => void;
 }
 
 // Helper functions
@@ -113,7 +120,7 @@ const getWeekRange = (date: Date) => {
   return { start, end };
 };
 
-export const useCalendarStore = create<CalendarState>((set, get) => ({
+export const useCalendarStore = create<CalendarState>()(cached((set, get) => ({
   // Initial state
   events: [],
   eventsLoading: false,
@@ -130,17 +137,14 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
   fetchEvents: async (startDate: Date, endDate: Date) => {
     set({ eventsLoading: true, eventsError: null });
     try {
-      const response = await api.get('/calendar/events', {
-        params: {
-          start: formatDate(startDate),
-          end: formatDate(endDate),
-        },
+      const { data: events } = await apiClient.calendar.listEvents({
+        start: formatDate(startDate),
+        end: formatDate(endDate),
       });
-      const events = response.data.data || response.data || [];
-      set({ events, eventsLoading: false });
-    } catch (error: any) {
+      set({ events: events ?? [], eventsLoading: false });
+    } catch (error) {
       console.error('Failed to fetch events:', error);
-      set({ eventsError: error.message, eventsLoading: false });
+      set({ eventsError: toApiError(error).message, eventsLoading: false });
     }
   },
 
@@ -170,13 +174,30 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
 
   // Create event
   createEvent: async (params: CreateEventParams) => {
-    try {
-      const response = await api.post('/calendar/events', params);
-      const event = response.data.data || response.data;
+    const tempId = String(generateTempId());
+    const placeholder: CalendarEvent = {
+      ...buildPlaceholder<CalendarEvent>(
+        { ...params, attendees: undefined, all_day: params.all_day ?? false, source: 'local' },
+        tempId
+      ),
+      pending: true,
+    };
 
-      set({ events: [...get().events, event] });
-      return event;
-    } catch (error: any) {
+    try {
+      const event = await runOptimistic(get, set, {
+        apply: (state) => ({ events: [...state.events, placeholder] }),
+        rollback: (state) => ({ events: state.events.filter(e => e.id !== tempId) }),
+        commit: () =>
+          sendOfflineAware<CalendarEvent>(
+            { url: '/calendar/events', method: 'post', data: params },
+            (headers) => apiClient.calendar.createEvent(params, { headers }),
+            { tempId, entityType: 'event' }
+          ),
+        reconcile: (state, created) => ({ events: swapTempEntity(state.events, { [tempId]: created.id }, created) }),
+        errorMessage: "Couldn't create event",
+      });
+      return event ?? placeholder;
+    } catch (error) {
       console.error('Failed to create event:', error);
       throw error;
     }
@@ -184,15 +205,36 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
 
   // Update event
   updateEvent: async (eventId: string, updates: Partial<CreateEventParams>) => {
-    try {
-      const response = await api.put(`/calendar/events/${eventId}`, updates);
-      const updatedEvent = response.data.data || response.data;
+    const { events, selectedEvent } = get();
+    const previous = events.find(e => e.id === eventId);
+    const previousSelected = selectedEvent?.id === eventId ? selectedEvent : null;
+    // Attendees are sent as emails but stored as records; the server's copy replaces them
+    const { attendees, ...fields } = updates;
 
-      set({
-        events: get().events.map(e => e.id === eventId ? updatedEvent : e),
-        selectedEvent: get().selectedEvent?.id === eventId ? updatedEvent : get().selectedEvent,
+    try {
+      await runOptimistic(get, set, {
+        apply: (state) => ({
+          events: patchById(state.events, eventId, { ...fields, pending: true }),
+          selectedEvent: state.selectedEvent?.id === eventId
+            ? { ...state.selectedEvent, ...fields, pending: true }
+            : state.selectedEvent,
+        }),
+        rollback: (state) => ({
+          events: previous ? replaceById(state.events, eventId, previous) : state.events,
+          selectedEvent: previousSelected && state.selectedEvent?.id === eventId ? previousSelected : state.selectedEvent,
+        }),
+        commit: () =>
+          sendOfflineAware<CalendarEvent>(
+            { url: `/calendar/events/${eventId}`, method: 'put', data: updates },
+            (headers) => apiClient.calendar.updateEvent(eventId, updates, { headers })
+          ),
+        reconcile: (state, updatedEvent) => ({
+          events: replaceById(state.events, updatedEvent.id, updatedEvent),
+          selectedEvent: state.selectedEvent?.id === updatedEvent.id ? updatedEvent : state.selectedEvent,
+        }),
+        errorMessage: "Couldn't update event",
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to update event:', error);
       throw error;
     }
@@ -200,14 +242,29 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
 
   // Delete event
   deleteEvent: async (eventId: string) => {
-    try {
-      await api.delete(`/calendar/events/${eventId}`);
+    const { events, selectedEvent } = get();
+    const index = events.findIndex(e => e.id === eventId);
+    const previous = events[index];
+    const previousSelected = selectedEvent?.id === eventId ? selectedEvent : null;
 
-      set({
-        events: get().events.filter(e => e.id !== eventId),
-        selectedEvent: get().selectedEvent?.id === eventId ? null : get().selectedEvent,
+    try {
+      await runOptimistic(get, set, {
+        apply: (state) => ({
+          events: state.events.filter(e => e.id !== eventId),
+          selectedEvent: state.selectedEvent?.id === eventId ? null : state.selectedEvent,
+        }),
+        rollback: (state) => ({
+          events: previous ? restoreAt(state.events, previous, index) : state.events,
+          selectedEvent: state.selectedEvent ?? previousSelected,
+        }),
+        commit: () =>
+          sendOfflineAware<void>(
+            { url: `/calendar/events/${eventId}`, method: 'delete' },
+            (headers) => apiClient.calendar.deleteEvent(eventId, { headers })
+          ),
+        errorMessage: "Couldn't delete event",
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to delete event:', error);
       throw error;
     }
@@ -217,10 +274,9 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
   fetchConnectedCalendars: async () => {
     set({ calendarsLoading: true });
     try {
-      const response = await api.get('/calendar-sync/calendars');
-      const calendars = response.data.data || response.data || [];
-      set({ connectedCalendars: calendars, calendarsLoading: false });
-    } catch (error: any) {
+      const { data: calendars } = await apiClient.calendar.listCalendars();
+      set({ connectedCalendars: calendars ?? [], calendarsLoading: false });
+    } catch (error) {
       console.error('Failed to fetch calendars:', error);
       set({ calendarsLoading: false });
     }
@@ -229,9 +285,9 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
   // Connect external calendar (returns OAuth URL)
   connectExternalCalendar: async (provider: 'google' | 'apple' | 'outlook') => {
     try {
-      const response = await api.get(`/calendar-sync/oauth/${provider}/authorize`);
-      return response.data.url || response.data.data?.url;
-    } catch (error: any) {
+      const url = await apiClient.calendar.getOAuthUrl(provider);
+      return url ?? '';
+    } catch (error) {
       console.error('Failed to get OAuth URL:', error);
       throw error;
     }
@@ -240,11 +296,11 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
   // Disconnect external calendar
   disconnectExternalCalendar: async (calendarId: string) => {
     try {
-      await api.delete(`/calendar-sync/calendars/${calendarId}`);
+      await apiClient.calendar.disconnectCalendar(calendarId);
       set({
         connectedCalendars: get().connectedCalendars.filter(c => c.id !== calendarId),
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to disconnect calendar:', error);
       throw error;
     }
@@ -253,7 +309,7 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
   // Sync external calendar
   syncExternalCalendar: async (calendarId: string) => {
     try {
-      await api.post(`/calendar-sync/calendars/${calendarId}/sync`);
+      await apiClient.calendar.syncCalendar(calendarId);
 
       // Update last synced time
       set({
@@ -273,7 +329,7 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
       } else {
         await get().fetchDayEvents(selectedDate);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to sync calendar:', error);
       throw error;
     }
@@ -331,4 +387,38 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
       return dateStr >= eventStart && dateStr <= eventEnd;
     });
   },
+
+  // Swap placeholders created offline (and their contact/deal references) for real IDs
+  handleTempIdResolved: ({ tempId, realId, entityType, entity }) => {
+    const ids = { [tempId]: realId };
+    const serverEvent = entityType === 'event' ? (entity as CalendarEvent) : null;
+    const { events, selectedEvent } = get();
+    set({
+      events: swapTempEntity(events, ids, serverEvent),
+      selectedEvent: selectedEvent ? swapTempEntity([selectedEvent], ids, serverEvent)[0] : null,
+    });
+  },
+}), {
+  name: 'calendar',
+  version: 1,
+  partialize: (state) => ({
+    events: capList(state.events),
+    viewMode: state.viewMode,
+    connectedCalendars: state.connectedCalendars,
+  }),
 }));
+
+registerCachedStore(useCalendarStore);
+registerStore(useCalendarStore);
+
+registerSyncEntity<CalendarEvent>({
+  name: 'events',
+  path: '/calendar/events',
+  refresh: () => useCalendarStore.getState().fetchMonthEvents(useCalendarStore.getState().selectedDate),
+  error: () => useCalendarStore.getState().eventsError,
+  hasLocalData: () => useCalendarStore.getState().events.length > 0,
+  apply: (changed, deleted) =>
+    useCalendarStore.setState((state) => ({ events: applyDelta(state.events, changed, deleted) })),
+});
+
+subscribeToTempIdResolution((resolution) => useCalendarStore.getState().handleTempIdResolved(resolution));
@@ -2,7 +2,10 @@
 // Manages AI voice calls through ElevenLabs/Twilio
 
 import { create } from 'zustand';
-import api from '../lib/api';
+import apiClient, { toApiError } from '../lib/api-client';
+import { pageParams, nextCursorFrom, mergeById } from '../lib/pagination';
+import { cached, capList, registerCachedStore } from '../lib/store-cache';
+import { registerStore } from './registry';
 
 // Types
 export interface Voice {
@@ -47,6 +50,9 @@ interface CallerState {
   currentCall: AICall | null;
   callsLoading: boolean;
   callsError: string | null;
+  callsHasMore: boolean;
+  callsNextCursor: string | null;
+  callsLoadingMore: boolean;
 
   // Voices
   voices: Voice[];
@@ -59,6 +65,7 @@ interface CallerState {
 
   // Actions
   fetchCalls: () => Promise<void>;
+  loadMoreCalls: () => Promise<void>;
   fetchVoices: () => Promise<void>;
   fetchScripts: () => Promise<void>;
   initiateCall: (params: {
@@ -75,12 +82,15 @@ interface CallerState {
   clearCurrentCall: () => void;
 }
 
-export const useCallerStore = create<CallerState>((set, get) => ({
+export const useCallerStore = create<CallerState>()(cached((set, get) => ({
   // Initial state
   calls: [],
   currentCall: null,
   callsLoading: false,
   callsError: null,
+  callsHasMore: false,
+  callsNextCursor: null,
+  callsLoadingMore: false,
 
   voices: [],
   voicesLoading: false,
@@ -93,13 +103,38 @@ export const useCallerStore = create<CallerState>((set, get) => ({
   fetchCalls: async () => {
     set({ callsLoading: true, callsError: null });
     try {
-      const response = await api.get('/sales/conversational-ai/calls');
-      const calls = response.data.data || response.data || [];
-      set({ calls, callsLoading: false });
-    } catch (error: any) {
-      set({ callsError: error.message, callsLoading: false });
+      const { data: calls, meta } = await apiClient.caller.listCalls(pageParams());
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        calls: calls ?? [],
+        callsHasMore: nextCursor !== null,
+        callsNextCursor: nextCursor,
+        callsLoading: false,
+      });
+    } catch (error) {
+      set({ callsError: toApiError(error).message, callsLoading: false });
       // Return empty array on error (endpoint might not exist yet)
-      set({ calls: [] });
+      set({ calls: [], callsHasMore: false, callsNextCursor: null });
+    }
+  },
+
+  // Fetch the next page of call history
+  loadMoreCalls: async () => {
+    const { callsHasMore, callsNextCursor, callsLoading, callsLoadingMore } = get();
+    if (!callsHasMore || callsLoading || callsLoadingMore) return;
+
+    set({ callsLoadingMore: true, callsError: null });
+    try {
+      const { data: calls, meta } = await apiClient.caller.listCalls(pageParams(callsNextCursor));
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        calls: mergeById(get().calls, calls ?? []),
+        callsHasMore: nextCursor !== null,
+        callsNextCursor: nextCursor,
+        callsLoadingMore: false,
+      });
+    } catch (error) {
+      set({ callsError: toApiError(error).message, callsLoadingMore: false });
     }
   },
 
@@ -107,15 +142,15 @@ export const useCallerStore = create<CallerState>((set, get) => ({
   fetchVoices: async () => {
     set({ voicesLoading: true });
     try {
-      const response = await api.get('/sales/elevenlabs/voices');
-      const voices = response.data.voices || response.data.data || response.data || [];
+      const { data } = await apiClient.caller.listVoices();
+      const voices = data ?? [];
       set({ voices, voicesLoading: false });
 
       // Set default voice if none selected
       if (!get().selectedVoice && voices.length > 0) {
         set({ selectedVoice: voices[0] });
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to fetch voices:', error);
       set({ voicesLoading: false });
       // Set default fallback voices
@@ -131,10 +166,9 @@ export const useCallerStore = create<CallerState>((set, get) => ({
   fetchScripts: async () => {
     set({ scriptsLoading: true });
     try {
-      const response = await api.get('/sales/conversational-ai/scripts');
-      const scripts = response.data.data || response.data || [];
-      set({ scripts, scriptsLoading: false });
-    } catch (error: any) {
+      const { data: scripts } = await apiClient.caller.listScripts();
+      set({ scripts: scripts ?? [], scriptsLoading: false });
+    } catch (error) {
       console.error('Failed to fetch scripts:', error);
       set({ scriptsLoading: false });
       // Set default scripts
@@ -165,7 +199,7 @@ export const useCallerStore = create<CallerState>((set, get) => ({
   initiateCall: async (params) => {
     set({ callsLoading: true, callsError: null });
     try {
-      const response = await api.post('/sales/conversational-ai/call', {
+      const { data: call } = await apiClient.caller.initiateCall({
         contact_id: params.contact_id,
         phone_number: params.phone_number,
         call_type: params.type,
@@ -173,24 +207,23 @@ export const useCallerStore = create<CallerState>((set, get) => ({
         script: params.script,
       });
 
-      const call = response.data.data || response.data;
       set({
         currentCall: call,
-        calls: [call, ...get().calls],
+        calls: mergeById(get().calls, [call], 'prepend'),
         callsLoading: false
       });
       return call;
-    } catch (error: any) {
-      set({ callsError: error.response?.data?.message || error.message, callsLoading: false });
-      throw error;
+    } catch (error) {
+      const apiError = toApiError(error);
+      set({ callsError: apiError.message, callsLoading: false });
+      throw apiError;
     }
   },
 
   // Get call status
   getCallStatus: async (callId) => {
     try {
-      const response = await api.get(`/sales/conversational-ai/call/${callId}`);
-      const call = response.data.data || response.data;
+      const { data: call } = await apiClient.caller.getCall(callId);
 
       // Update in list and current call
       set({
@@ -199,7 +232,7 @@ export const useCallerStore = create<CallerState>((set, get) => ({
       });
 
       return call;
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to get call status:', error);
       throw error;
     }
@@ -208,8 +241,8 @@ export const useCallerStore = create<CallerState>((set, get) => ({
   // Get call transcript
   getCallTranscript: async (callId) => {
     try {
-      const response = await api.get(`/sales/conversational-ai/call/${callId}/transcript`);
-      const transcript = response.data.transcript || response.data.data || '';
+      const result = await apiClient.caller.getTranscript(callId);
+      const transcript = typeof result.data === 'string' ? result.data : '';
 
       // Update call with transcript
       set({
@@ -217,7 +250,7 @@ export const useCallerStore = create<CallerState>((set, get) => ({
       });
 
       return transcript;
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to get transcript:', error);
       throw error;
     }
@@ -226,12 +259,12 @@ export const useCallerStore = create<CallerState>((set, get) => ({
   // Cancel a call
   cancelCall: async (callId) => {
     try {
-      await api.post(`/sales/conversational-ai/call/${callId}/cancel`);
+      await apiClient.caller.cancelCall(callId);
       set({
         calls: get().calls.map(c => c.id === callId ? { ...c, status: 'failed' } : c),
         currentCall: get().currentCall?.id === callId ? null : get().currentCall
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to cancel call:', error);
       throw error;
     }
@@ -246,4 +279,16 @@ export const useCallerStore = create<CallerState>((set, get) => ({
   clearCurrentCall: () => {
     set({ currentCall: null });
   },
+}), {
+  name: 'caller',
+  version: 1,
+  partialize: (state) => ({
+    calls: capList(state.calls),
+    voices: state.voices,
+    selectedVoice: state.selectedVoice,
+    scripts: state.scripts,
+  }),
 }));
+
+registerCachedStore(useCallerStore);
+registerStore(useCallerStore);
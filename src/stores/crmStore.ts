@@ -2,10 +2,17 @@
 // Manages leads, contacts, deals, and communications
 
 import { create } from 'zustand';
-import api from '../lib/api';
+import apiClient, { toApiError } from '../lib/api-client';
+import { pageParams, nextCursorFrom, mergeById } from '../lib/pagination';
+import { sendOfflineAware, subscribeToTempIdResolution, TempIdResolution } from '../lib/offline-queue';
+import { buildPlaceholder, generateTempId, rewriteTempIds, swapTempEntity } from '../lib/temp-ids';
+import { runOptimistic, patchById, replaceById, restoreAt, PendingFlag } from '../lib/optimistic';
+import { cached, capList, registerCachedStore } from '../lib/store-cache';
+import { registerStore } from './registry';
+import { registerSyncEntity, applyDelta } from '../lib/sync-engine';
 
 // Types
-export interface Lead {
+export interface Lead extends PendingFlag {
   id: number;
   name: string;
   email: string;
@@ -18,7 +25,7 @@ export interface Lead {
   updated_at: string;
 }
 
-export interface Contact {
+export interface Contact extends PendingFlag {
   id: number;
   name: string;
   email: string;
@@ -30,7 +37,7 @@ export interface Contact {
   updated_at: string;
 }
 
-export interface Deal {
+export interface Deal extends PendingFlag {
   id: number;
   name: string;
   value: number;
@@ -59,16 +66,25 @@ interface CrmState {
   leads: Lead[];
   leadsLoading: boolean;
   leadsError: string | null;
+  leadsHasMore: boolean;
+  leadsNextCursor: string | null;
+  leadsLoadingMore: boolean;
 
   // Contacts
   contacts: Contact[];
   contactsLoading: boolean;
   contactsError: string | null;
+  contactsHasMore: boolean;
+  contactsNextCursor: string | null;
+  contactsLoadingMore: boolean;
 
   // Deals
   deals: Deal[];
   dealsLoading: boolean;
   dealsError: string | null;
+  dealsHasMore: boolean;
+  dealsNextCursor: string | null;
+  dealsLoadingMore: boolean;
 
   // Communications
   communications: Communication[];
@@ -77,18 +93,21 @@ interface CrmState {
 
   // Actions - Leads
   fetchLeads: () => Promise<void>;
+  loadMoreLeads: () => Promise<void>;
   createLead: (data: Partial<Lead>) => Promise<Lead>;
   updateLead: (id: number, data: Partial<Lead>) => Promise<Lead>;
   deleteLead: (id: number) => Promise<void>;
 
   // Actions - Contacts
   fetchContacts: () => Promise<void>;
+  loadMoreContacts: () => Promise<void>;
   createContact: (data: Partial<Contact>) => Promise<Contact>;
   updateContact: (id: number, data: Partial<Contact>) => Promise<Contact>;
   deleteContact: (id: number) => Promise<void>;
 
   // Actions - Deals
   fetchDeals: () => Promise<void>;
+  loadMoreDeals: () => Promise<void>;
   createDeal: (data: Partial<Deal>) => Promise<Deal>;
   updateDeal: (id: number, data: Partial<Deal>) => Promise<Deal>;
   deleteDeal: (id: number) => Promise<void>;
@@ -100,21 +119,33 @@ interface CrmState {
 
   // Real-time update handler
   handleRealtimeUpdate: (update: { entity: string; action: string; data: any }) => void;
+
+  // Swap placeholders created offline once the server assigns real IDs
+  handleTempIdResolved: (resolution: TempIdResolution) => void;
 }
 
-export const useCrmStore = create<CrmState>((set, get) => ({
+export const useCrmStore = create<CrmState>()(cached((set, get) => ({
   // Initial state
   leads: [],
   leadsLoading: false,
   leadsError: null,
+  leadsHasMore: false,
+  leadsNextCursor: null,
+  leadsLoadingMore: false,
 
   contacts: [],
   contactsLoading: false,
   contactsError: null,
+  contactsHasMore: false,
+  contactsNextCursor: null,
+  contactsLoadingMore: false,
 
   deals: [],
   dealsLoading: false,
   dealsError: null,
+  dealsHasMore: false,
+  dealsNextCursor: null,
+  dealsLoadingMore: false,
 
   communications: [],
   communicationsLoading: false,
@@ -124,113 +155,286 @@ export const useCrmStore = create<CrmState>((set, get) => ({
   fetchLeads: async () => {
     set({ leadsLoading: true, leadsError: null });
     try {
-      const response = await api.get('/crm/leads');
-      set({ leads: response.data.data || response.data, leadsLoading: false });
-    } catch (error: any) {
-      set({ leadsError: error.message, leadsLoading: false });
+      const { data, meta } = await apiClient.crm.listLeads(pageParams());
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        leads: data ?? [],
+        leadsHasMore: nextCursor !== null,
+        leadsNextCursor: nextCursor,
+        leadsLoading: false,
+      });
+    } catch (error) {
+      set({ leadsError: toApiError(error).message, leadsLoading: false });
+    }
+  },
+
+  loadMoreLeads: async () => {
+    const { leadsHasMore, leadsNextCursor, leadsLoading, leadsLoadingMore } = get();
+    if (!leadsHasMore || leadsLoading || leadsLoadingMore) return;
+
+    set({ leadsLoadingMore: true, leadsError: null });
+    try {
+      const { data, meta } = await apiClient.crm.listLeads(pageParams(leadsNextCursor));
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        leads: mergeById(get().leads, data ?? []),
+        leadsHasMore: nextCursor !== null,
+        leadsNextCursor: nextCursor,
+        leadsLoadingMore: false,
+      });
+    } catch (error) {
+      set({ leadsError: toApiError(error).message, leadsLoadingMore: false });
     }
   },
 
   createLead: async (data) => {
-    const response = await api.post('/crm/leads', data);
-    const lead = response.data.data || response.data;
-    set({ leads: [...get().leads, lead] });
-    return lead;
+    const tempId = generateTempId();
+    const placeholder: Lead = { ...buildPlaceholder<Lead>(data, tempId), pending: true };
+    const lead = await runOptimistic(get, set, {
+      apply: (state) => ({ leads: mergeById(state.leads, [placeholder]) }),
+      rollback: (state) => ({ leads: state.leads.filter(l => l.id !== tempId) }),
+      commit: () =>
+        sendOfflineAware<Lead>(
+          { url: '/crm/leads', method: 'post', data },
+          (headers) => apiClient.crm.createLead(data, { headers }),
+          { tempId, entityType: 'lead' }
+        ),
+      reconcile: (state, created) => ({ leads: swapTempEntity(state.leads, { [tempId]: created.id }, created) }),
+      errorMessage: "Couldn't create lead",
+    });
+    return lead ?? placeholder;
   },
 
   updateLead: async (id, data) => {
-    const response = await api.put(`/crm/leads/${id}`, data);
-    const lead = response.data.data || response.data;
-    set({ leads: get().leads.map(l => l.id === id ? lead : l) });
-    return lead;
+    const previous = get().leads.find(l => l.id === id);
+    const lead = await runOptimistic(get, set, {
+      apply: (state) => ({ leads: patchById(state.leads, id, { ...data, pending: true }) }),
+      rollback: (state) => ({ leads: previous ? replaceById(state.leads, id, previous) : state.leads }),
+      commit: () =>
+        sendOfflineAware<Lead>(
+          { url: `/crm/leads/${id}`, method: 'put', data },
+          (headers) => apiClient.crm.updateLead(id, data, { headers })
+        ),
+      reconcile: (state, updated) => ({ leads: replaceById(state.leads, updated.id, updated) }),
+      errorMessage: "Couldn't update lead",
+    });
+    return lead ?? get().leads.find(l => l.id === id)!;
   },
 
   deleteLead: async (id) => {
-    await api.delete(`/crm/leads/${id}`);
-    set({ leads: get().leads.filter(l => l.id !== id) });
+    const index = get().leads.findIndex(l => l.id === id);
+    const previous = get().leads[index];
+    await runOptimistic(get, set, {
+      apply: (state) => ({ leads: state.leads.filter(l => l.id !== id) }),
+      rollback: (state) => ({ leads: previous ? restoreAt(state.leads, previous, index) : state.leads }),
+      commit: () =>
+        sendOfflineAware<void>(
+          { url: `/crm/leads/${id}`, method: 'delete' },
+          (headers) => apiClient.crm.deleteLead(id, { headers })
+        ),
+      errorMessage: "Couldn't delete lead",
+    });
   },
 
   // Contacts Actions
   fetchContacts: async () => {
     set({ contactsLoading: true, contactsError: null });
     try {
-      const response = await api.get('/crm/contacts');
-      set({ contacts: response.data.data || response.data, contactsLoading: false });
-    } catch (error: any) {
-      set({ contactsError: error.message, contactsLoading: false });
+      const { data, meta } = await apiClient.crm.listContacts(pageParams());
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        contacts: data ?? [],
+        contactsHasMore: nextCursor !== null,
+        contactsNextCursor: nextCursor,
+        contactsLoading: false,
+      });
+    } catch (error) {
+      set({ contactsError: toApiError(error).message, contactsLoading: false });
+    }
+  },
+
+  loadMoreContacts: async () => {
+    const { contactsHasMore, contactsNextCursor, contactsLoading, contactsLoadingMore } = get();
+    if (!contactsHasMore || contactsLoading || contactsLoadingMore) return;
+
+    set({ contactsLoadingMore: true, contactsError: null });
+    try {
+      const { data, meta } = await apiClient.crm.listContacts(pageParams(contactsNextCursor));
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        contacts: mergeById(get().contacts, data ?? []),
+        contactsHasMore: nextCursor !== null,
+        contactsNextCursor: nextCursor,
+        contactsLoadingMore: false,
+      });
+    } catch (error) {
+      set({ contactsError: toApiError(error).message, contactsLoadingMore: false });
     }
   },
 
   createContact: async (data) => {
-    const response = await api.post('/crm/contacts', data);
-    const contact = response.data.data || response.data;
-    set({ contacts: [...get().contacts, contact] });
-    return contact;
+    const tempId = generateTempId();
+    const placeholder: Contact = { ...buildPlaceholder<Contact>(data, tempId), pending: true };
+    const contact = await runOptimistic(get, set, {
+      apply: (state) => ({ contacts: mergeById(state.contacts, [placeholder]) }),
+      rollback: (state) => ({ contacts: state.contacts.filter(c => c.id !== tempId) }),
+      commit: () =>
+        sendOfflineAware<Contact>(
+          { url: '/crm/contacts', method: 'post', data },
+          (headers) => apiClient.crm.createContact(data, { headers }),
+          { tempId, entityType: 'contact' }
+        ),
+      reconcile: (state, created) => ({ contacts: swapTempEntity(state.contacts, { [tempId]: created.id }, created) }),
+      errorMessage: "Couldn't create contact",
+    });
+    return contact ?? placeholder;
   },
 
   updateContact: async (id, data) => {
-    const response = await api.put(`/crm/contacts/${id}`, data);
-    const contact = response.data.data || response.data;
-    set({ contacts: get().contacts.map(c => c.id === id ? contact : c) });
-    return contact;
+    const previous = get().contacts.find(c => c.id === id);
+    const contact = await runOptimistic(get, set, {
+      apply: (state) => ({ contacts: patchById(state.contacts, id, { ...data, pending: true }) }),
+      rollback: (state) => ({ contacts: previous ? replaceById(state.contacts, id, previous) : state.contacts }),
+      commit: () =>
+        sendOfflineAware<Contact>(
+          { url: `/crm/contacts/${id}`, method: 'put', data },
+          (headers) => apiClient.crm.updateContact(id, data, { headers })
+        ),
+      reconcile: (state, updated) => ({ contacts: replaceById(state.contacts, updated.id, updated) }),
+      errorMessage: "Couldn't update contact",
+    });
+    return contact ?? get().contacts.find(c => c.id === id)!;
   },
 
   deleteContact: async (id) => {
-    await api.delete(`/crm/contacts/${id}`);
-    set({ contacts: get().contacts.filter(c => c.id !== id) });
+    const index = get().contacts.findIndex(c => c.id === id);
+    const previous = get().contacts[index];
+    await runOptimistic(get, set, {
+      apply: (state) => ({ contacts: state.contacts.filter(c => c.id !== id) }),
+      rollback: (state) => ({ contacts: previous ? restoreAt(state.contacts, previous, index) : state.contacts }),
+      commit: () =>
+        sendOfflineAware<void>(
+          { url: `/crm/contacts/${id}`, method: 'delete' },
+          (headers) => apiClient.crm.deleteContact(id, { headers })
+        ),
+      errorMessage: "Couldn't delete contact",
+    });
   },
 
   // Deals Actions
   fetchDeals: async () => {
     set({ dealsLoading: true, dealsError: null });
     try {
-      const response = await api.get('/crm/deals');
-      set({ deals: response.data.data || response.data, dealsLoading: false });
-    } catch (error: any) {
-      set({ dealsError: error.message, dealsLoading: false });
+      const { data, meta } = await apiClient.crm.listDeals(pageParams());
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        deals: data ?? [],
+        dealsHasMore: nextCursor !== null,
+        dealsNextCursor: nextCursor,
+        dealsLoading: false,
+      });
+    } catch (error) {
+      set({ dealsError: toApiError(error).message, dealsLoading: false });
+    }
+  },
+
+  loadMoreDeals: async () => {
+    const { dealsHasMore, dealsNextCursor, dealsLoading, dealsLoadingMore } = get();
+    if (!dealsHasMore || dealsLoading || dealsLoadingMore) return;
+
+    set({ dealsLoadingMore: true, dealsError: null });
+    try {
+      const { data, meta } = await apiClient.crm.listDeals(pageParams(dealsNextCursor));
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        deals: mergeById(get().deals, data ?? []),
+        dealsHasMore: nextCursor !== null,
+        dealsNextCursor: nextCursor,
+        dealsLoadingMore: false,
+      });
+    } catch (error) {
+      set({ dealsError: toApiError(error).message, dealsLoadingMore: false });
     }
   },
 
   createDeal: async (data) => {
-    const response = await api.post('/crm/deals', data);
-    const deal = response.data.data || response.data;
-    set({ deals: [...get().deals, deal] });
-    return deal;
+    const tempId = generateTempId();
+    const placeholder: Deal = { ...buildPlaceholder<Deal>(data, tempId), pending: true };
+    const deal = await runOptimistic(get, set, {
+      apply: (state) => ({ deals: mergeById(state.deals, [placeholder]) }),
+      rollback: (state) => ({ deals: state.deals.filter(d => d.id !== tempId) }),
+      commit: () =>
+        sendOfflineAware<Deal>(
+          { url: '/crm/deals', method: 'post', data },
+          (headers) => apiClient.crm.createDeal(data, { headers }),
+          { tempId, entityType: 'deal' }
+        ),
+      reconcile: (state, created) => ({ deals: swapTempEntity(state.deals, { [tempId]: created.id }, created) }),
+      errorMessage: "Couldn't create deal",
+    });
+    return deal ?? placeholder;
   },
 
   updateDeal: async (id, data) => {
-    const response = await api.put(`/crm/deals/${id}`, data);
-    const deal = response.data.data || response.data;
-    set({ deals: get().deals.map(d => d.id === id ? deal : d) });
-    return deal;
+    const previous = get().deals.find(d => d.id === id);
+    const deal = await runOptimistic(get, set, {
+      apply: (state) => ({ deals: patchById(state.deals, id, { ...data, pending: true }) }),
+      rollback: (state) => ({ deals: previous ? replaceById(state.deals, id, previous) : state.deals }),
+      commit: () =>
+        sendOfflineAware<Deal>(
+          { url: `/crm/deals/${id}`, method: 'put', data },
+          (headers) => apiClient.crm.updateDeal(id, data, { headers })
+        ),
+      reconcile: (state, updated) => ({ deals: replaceById(state.deals, updated.id, updated) }),
+      errorMessage: "Couldn't update deal",
+    });
+    return deal ?? get().deals.find(d => d.id === id)!;
   },
 
   deleteDeal: async (id) => {
-    await api.delete(`/crm/deals/${id}`);
-    set({ deals: get().deals.filter(d => d.id !== id) });
+    const index = get().deals.findIndex(d => d.id === id);
+    const previous = get().deals[index];
+    await runOptimistic(get, set, {
+      apply: (state) => ({ deals: state.deals.filter(d => d.id !== id) }),
+      rollback: (state) => ({ deals: previous ? restoreAt(state.deals, previous, index) : state.deals }),
+      commit: () =>
+        sendOfflineAware<void>(
+          { url: `/crm/deals/${id}`, method: 'delete' },
+          (headers) => apiClient.crm.deleteDeal(id, { headers })
+        ),
+      errorMessage: "Couldn't delete deal",
+    });
   },
 
   moveDealStage: async (id, stage) => {
-    const response = await api.post(`/crm/deals/${id}/move-stage`, { stage });
-    const deal = response.data.data || response.data;
-    set({ deals: get().deals.map(d => d.id === id ? deal : d) });
-    return deal;
+    const previous = get().deals.find(d => d.id === id);
+    const deal = await runOptimistic(get, set, {
+      apply: (state) => ({ deals: patchById(state.deals, id, { stage, pending: true }) }),
+      rollback: (state) => ({ deals: previous ? replaceById(state.deals, id, previous) : state.deals }),
+      commit: () =>
+        sendOfflineAware<Deal>(
+          { url: `/crm/deals/${id}/move-stage`, method: 'post', data: { stage } },
+          (headers) => apiClient.crm.moveDealStage(id, stage, { headers })
+        ),
+      reconcile: (state, moved) => ({ deals: replaceById(state.deals, moved.id, moved) }),
+      errorMessage: "Couldn't move deal",
+    });
+    return deal ?? get().deals.find(d => d.id === id)!;
   },
 
   // Communications Actions
   fetchCommunications: async (params) => {
     set({ communicationsLoading: true, communicationsError: null });
     try {
-      const response = await api.get('/crm/communications', { params });
-      set({ communications: response.data.data || response.data, communicationsLoading: false });
-    } catch (error: any) {
-      set({ communicationsError: error.message, communicationsLoading: false });
+      const { data } = await apiClient.crm.listCommunications(params);
+      set({ communications: data ?? [], communicationsLoading: false });
+    } catch (error) {
+      set({ communicationsError: toApiError(error).message, communicationsLoading: false });
     }
   },
 
   createCommunication: async (data) => {
-    const response = await api.post('/crm/communications', data);
-    const comm = response.data.data || response.data;
+    const { data: comm } = await apiClient.crm.createCommunication(data);
     set({ communications: [comm, ...get().communications] });
     return comm;
   },
@@ -242,7 +446,7 @@ export const useCrmStore = create<CrmState>((set, get) => ({
     switch (entity) {
       case 'lead':
         if (action === 'created') {
-          set({ leads: [...get().leads, data] });
+          set({ leads: mergeById(get().leads, [data]) });
         } else if (action === 'updated') {
           set({ leads: get().leads.map(l => l.id === data.id ? data : l) });
         } else if (action === 'deleted') {
@@ -252,7 +456,7 @@ export const useCrmStore = create<CrmState>((set, get) => ({
 
       case 'contact':
         if (action === 'created') {
-          set({ contacts: [...get().contacts, data] });
+          set({ contacts: mergeById(get().contacts, [data]) });
         } else if (action === 'updated') {
           set({ contacts: get().contacts.map(c => c.id === data.id ? data : c) });
         } else if (action === 'deleted') {
@@ -262,7 +466,7 @@ export const useCrmStore = create<CrmState>((set, get) => ({
 
       case 'deal':
         if (action === 'created') {
-          set({ deals: [...get().deals, data] });
+          set({ deals: mergeById(get().deals, [data]) });
         } else if (action === 'updated') {
           set({ deals: get().deals.map(d => d.id === data.id ? data : d) });
         } else if (action === 'deleted') {
@@ -272,9 +476,64 @@ export const useCrmStore = create<CrmState>((set, get) => ({
 
       case 'communication':
         if (action === 'created') {
-          set({ communications: [data, ...get().communications] });
+          set({ communications: mergeById(get().communications, [data], 'prepend') });
         }
         break;
     }
   },
+
+  handleTempIdResolved: ({ tempId, realId, entityType, entity }) => {
+    const ids = { [tempId]: realId };
+    const { leads, contacts, deals, communications } = get();
+    set({
+      leads: swapTempEntity(leads, ids, entityType === 'lead' ? (entity as Lead) : null),
+      contacts: swapTempEntity(contacts, ids, entityType === 'contact' ? (entity as Contact) : null),
+      deals: swapTempEntity(deals, ids, entityType === 'deal' ? (entity as Deal) : null),
+      communications: rewriteTempIds(communications, ids),
+    });
+  },
+}), {
+  name: 'crm',
+  version: 1,
+  partialize: (state) => ({
+    leads: capList(state.leads),
+    contacts: capList(state.contacts),
+    deals: capList(state.deals),
+  }),
 }));
+
+registerCachedStore(useCrmStore);
+registerStore(useCrmStore);
+
+registerSyncEntity<Lead>({
+  name: 'leads',
+  path: '/crm/leads',
+  refresh: () => useCrmStore.getState().fetchLeads(),
+  error: () => useCrmStore.getState().leadsError,
+  hasLocalData: () => useCrmStore.getState().leads.length > 0,
+  paged: true,
+  apply: (changed, deleted) => useCrmStore.setState((state) => ({ leads: applyDelta(state.leads, changed, deleted) })),
+});
+
+registerSyncEntity<Contact>({
+  name: 'contacts',
+  path: '/crm/contacts',
+  refresh: () => useCrmStore.getState().fetchContacts(),
+  error: () => useCrmStore.getState().contactsError,
+  hasLocalData: () => useCrmStore.getState().contacts.length > 0,
+  paged: true,
+  apply: (changed, deleted) =>
+    useCrmStore.setState((state) => ({ contacts: applyDelta(state.contacts, changed, deleted) })),
+});
+
+registerSyncEntity<Deal>({
+  name: 'deals',
+  path: '/crm/deals',
+  refresh: () => useCrmStore.getState().fetchDeals(),
+  error: () => useCrmStore.getState().dealsError,
+  hasLocalData: () => useCrmStore.getState().deals.length > 0,
+  paged: true,
+  apply: (changed, deleted) => useCrmStore.setState((state) => ({ deals: applyDelta(state.deals, changed, deleted) })),
+});
+
+subscribeToTempIdResolution((resolution) => useCrmStore.getState().handleTempIdResolved(resolution));
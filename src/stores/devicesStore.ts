@@ -0,0 +1,135 @@
+// Devices Store for SystemsF1RST Mobile
+// Signed-in sessions and registered push devices, for the signed-in user or,
+// for admins, any employee. Either can be revoked remotely (e.g. a lost phone).
+
+import { create } from 'zustand';
+import { api } from '../lib/api';
+import { registerStore } from './registry';
+
+// Types
+export interface UserSession {
+  id: string;
+  device_name: string;
+  platform: string;
+  ip_address?: string;
+  location?: string;
+  last_active_at: string;
+  created_at: string;
+  // The session this request was made with
+  is_current?: boolean;
+}
+
+// A push token registered by sendPushTokenToServer
+export interface PushDevice {
+  id: number;
+  device_name: string;
+  platform: string;
+  last_seen_at: string;
+  created_at: string;
+}
+
+interface DevicesState {
+  // Employee being viewed; null for the signed-in user
+  userId: number | null;
+  sessions: UserSession[];
+  devices: PushDevice[];
+
+  // Loading states
+  isLoading: boolean;
+
+  // Error states
+  error: string | null;
+
+  // Actions
+  fetchDevices: (userId?: number | null) => Promise<void>;
+  revokeSession: (sessionId: string) => Promise<boolean>;
+  revokeDevice: (deviceId: number) => Promise<boolean>;
+  // Every session but the current one; for an employee, every session and device
+  revokeAll: () => Promise<boolean>;
+
+  // Utility actions
+  clearError: () => void;
+}
+
+const errorMessage = (error: any, fallback: string): string =>
+  error.response?.data?.message || error.message || fallback;
+
+// Own sessions live under /auth, an employee's under /hr/employees
+const sessionsPath = (userId: number | null) =>
+  userId ? `/hr/employees/${userId}/sessions` : '/auth/sessions';
+
+const devicesPath = (userId: number | null) =>
+  userId ? `/hr/employees/${userId}/push-tokens` : '/push-tokens';
+
+export const useDevicesStore = create<DevicesState>((set, get) => ({
+  userId: null,
+  sessions: [],
+  devices: [],
+  isLoading: false,
+  error: null,
+
+  fetchDevices: async (userId = null) => {
+    // Don't show the previous person's devices while loading
+    if (userId !== get().userId) {
+      set({ userId, sessions: [], devices: [] });
+    }
+    set({ isLoading: true, error: null });
+    try {
+      const [sessionsResponse, devicesResponse] = await Promise.all([
+        api.get(sessionsPath(userId)),
+        api.get(devicesPath(userId)),
+      ]);
+      set({
+        sessions: sessionsResponse.data.sessions || sessionsResponse.data || [],
+        devices: devicesResponse.data.push_tokens || devicesResponse.data || [],
+        isLoading: false,
+      });
+    } catch (error: any) {
+      set({ error: errorMessage(error, 'Failed to load devices'), isLoading: false });
+    }
+  },
+
+  revokeSession: async (sessionId) => {
+    try {
+      await api.delete(`${sessionsPath(get().userId)}/${sessionId}`);
+      set({ sessions: get().sessions.filter((session) => session.id !== sessionId) });
+      return true;
+    } catch (error: any) {
+      set({ error: errorMessage(error, 'Failed to sign out session') });
+      return false;
+    }
+  },
+
+  revokeDevice: async (deviceId) => {
+    try {
+      await api.delete(`${devicesPath(get().userId)}/${deviceId}`);
+      set({ devices: get().devices.filter((device) => device.id !== deviceId) });
+      return true;
+    } catch (error: any) {
+      set({ error: errorMessage(error, 'Failed to remove device') });
+      return false;
+    }
+  },
+
+  revokeAll: async () => {
+    const { userId } = get();
+    try {
+      await api.delete(sessionsPath(userId));
+      if (userId) {
+        // A lost phone shouldn't keep getting notifications either
+        await api.delete(devicesPath(userId));
+        set({ sessions: [], devices: [] });
+      } else {
+        set({ sessions: get().sessions.filter((session) => session.is_current) });
+      }
+      return true;
+    } catch (error: any) {
+      set({ error: errorMessage(error, 'Failed to sign out sessions') });
+      return false;
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
+
+registerStore(useDevicesStore);
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { api } from '../lib/api';
+import { cached, capList, registerCachedStore } from '../lib/store-cache';
+import { registerStore } from './registry';
 
 // Types
 export type EmploymentType = 'full_time' | 'part_time' | 'contractor' | 'intern';
@@ -162,7 +164,7 @@ const mockDepartments: Department[] = [
   { id: '5', name: 'Finance', employeeCount: 4 },
 ];
 
-export const useHRStore = create<HRState>((set, get) => ({
+export const useHRStore = create<HRState>()(cached((set, get) => ({
   // Initial state
   employees: [],
   departments: [],
@@ -484,4 +486,16 @@ export const useHRStore = create<HRState>((set, get) => ({
   // Utility actions
   setSelectedEmployee: (employee) => set({ selectedEmployee: employee }),
   clearError: () => set({ error: null }),
+}), {
+  name: 'hr',
+  version: 1,
+  partialize: (state) => ({
+    employees: capList(state.employees),
+    departments: state.departments,
+    schedules: capList(state.schedules),
+    timeOffRequests: capList(state.timeOffRequests),
+  }),
 }));
+
+registerCachedStore(useHRStore);
+registerStore(useHRStore);
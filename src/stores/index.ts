@@ -8,9 +8,25 @@ export { useCalendarStore } from './calendarStore';
 export { useHRStore } from './hrStore';
 export { useProjectsStore } from './projectsStore';
 export { useVaultStore } from './vaultStore';
+export { useToastStore, showToast } from './toastStore';
+export { useTwoFactorStore } from './twoFactorStore';
+export { useAppLockStore } from './appLockStore';
+export { useDevicesStore } from './devicesStore';
 
-export type { User } from './authStore';
-export type { TimeClock, WeeklySummary } from './timeClockStore';
+export type { User, TwoFactorMethod, TwoFactorChallenge, LoginResult, OrganizationMembership, Impersonation } from './authStore';
+export type {
+  TimeClock,
+  WeeklySummary,
+  ShiftBreak,
+  BreakType,
+  JobAllocation,
+  JobSegment,
+  CostCode,
+  LaborCost,
+  TimeCorrection,
+  TimeClockAudit,
+  CorrectionStatus,
+} from './timeClockStore';
 export type { Lead, Contact, Deal, Communication } from './crmStore';
 export type { AICall, Voice, CallScript } from './callerStore';
 export type { Conversation, Message, Participant } from './messagingStore';
@@ -19,3 +35,6 @@ export type { CalendarEvent, ExternalCalendar, Attendee, CreateEventParams } fro
 export type { Employee, Department, Schedule, TimeOffRequest, EmployeeStatus, EmploymentType } from './hrStore';
 export type { Project, Task, TeamMember, SubTask, TaskComment, ProjectStatus, TaskStatus, TaskPriority } from './projectsStore';
 export type { VaultItem, VaultFolder, VaultItemType, VaultCategory, VaultMetrics } from './vaultStore';
+export type { Toast, ToastType } from './toastStore';
+export type { TwoFactorStatus, TwoFactorSetup, TwoFactorEnrollMethod } from './twoFactorStore';
+export type { UserSession, PushDevice } from './devicesStore';
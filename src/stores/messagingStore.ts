@@ -2,7 +2,14 @@
 // Manages SMS, email, and conversation threads
 
 import { create } from 'zustand';
-import api from '../lib/api';
+import apiClient, { toApiError } from '../lib/api-client';
+import { pageParams, nextCursorFrom, mergeById } from '../lib/pagination';
+import { sendOfflineAware } from '../lib/offline-queue';
+import { generateTempId, swapTempEntity } from '../lib/temp-ids';
+import { runOptimistic, patchById } from '../lib/optimistic';
+import { cached, capList, registerCachedStore } from '../lib/store-cache';
+import { registerStore } from './registry';
+import { registerSyncEntity, applyDelta } from '../lib/sync-engine';
 
 // Types
 export interface Participant {
@@ -52,12 +59,19 @@ interface MessagingState {
   conversations: Conversation[];
   conversationsLoading: boolean;
   conversationsError: string | null;
+  conversationsHasMore: boolean;
+  conversationsNextCursor: string | null;
+  conversationsLoadingMore: boolean;
 
   // Current thread
   currentConversation: Conversation | null;
   messages: Message[];
   messagesLoading: boolean;
   messagesError: string | null;
+  // Older messages are paged in when the thread is scrolled up
+  messagesHasMore: boolean;
+  messagesNextCursor: string | null;
+  messagesLoadingMore: boolean;
 
   // Sending state
   sendingMessage: boolean;
@@ -65,7 +79,9 @@ interface MessagingState {
 
   // Actions
   fetchConversations: () => Promise<void>;
+  loadMoreConversations: () => Promise<void>;
   fetchMessages: (conversationId: string) => Promise<void>;
+  loadOlderMessages: () => Promise<void>;
   sendMessage: (conversationId: string, content: string, type?: 'sms' | 'email') => Promise<Message>;
   sendNewMessage: (params: {
     to: string;
@@ -82,16 +98,26 @@ interface MessagingState {
   handleMessageStatusUpdate: (messageId: string, status: Message['status']) => void;
 }
 
-export const useMessagingStore = create<MessagingState>((set, get) => ({
+// Threads render oldest-first; pages may arrive in either order
+const sortByCreatedAt = (messages: Message[]): Message[] =>
+  [...messages].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+export const useMessagingStore = create<MessagingState>()(cached((set, get) => ({
   // Initial state
   conversations: [],
   conversationsLoading: false,
   conversationsError: null,
+  conversationsHasMore: false,
+  conversationsNextCursor: null,
+  conversationsLoadingMore: false,
 
   currentConversation: null,
   messages: [],
   messagesLoading: false,
   messagesError: null,
+  messagesHasMore: false,
+  messagesNextCursor: null,
+  messagesLoadingMore: false,
 
   sendingMessage: false,
   sendError: null,
@@ -100,14 +126,41 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
   fetchConversations: async () => {
     set({ conversationsLoading: true, conversationsError: null });
     try {
-      const response = await api.get('/customer/conversations');
-      const conversations = response.data.data || response.data || [];
-      set({ conversations, conversationsLoading: false });
-    } catch (error: any) {
+      const { data: conversations, meta } = await apiClient.messaging.listConversations(pageParams());
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        conversations: conversations ?? [],
+        conversationsHasMore: nextCursor !== null,
+        conversationsNextCursor: nextCursor,
+        conversationsLoading: false,
+      });
+    } catch (error) {
       console.error('Failed to fetch conversations:', error);
-      set({ conversationsError: error.message, conversationsLoading: false });
+      set({ conversationsError: toApiError(error).message, conversationsLoading: false });
       // Return empty array on error (endpoint might not exist)
-      set({ conversations: [] });
+      set({ conversations: [], conversationsHasMore: false, conversationsNextCursor: null });
+    }
+  },
+
+  // Fetch the next page of conversations
+  loadMoreConversations: async () => {
+    const { conversationsHasMore, conversationsNextCursor, conversationsLoading, conversationsLoadingMore } = get();
+    if (!conversationsHasMore || conversationsLoading || conversationsLoadingMore) return;
+
+    set({ conversationsLoadingMore: true, conversationsError: null });
+    try {
+      const { data: conversations, meta } = await apiClient.messaging.listConversations(
+        pageParams(conversationsNextCursor)
+      );
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        conversations: mergeById(get().conversations, conversations ?? []),
+        conversationsHasMore: nextCursor !== null,
+        conversationsNextCursor: nextCursor,
+        conversationsLoadingMore: false,
+      });
+    } catch (error) {
+      set({ conversationsError: toApiError(error).message, conversationsLoadingMore: false });
     }
   },
 
@@ -115,43 +168,96 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
   fetchMessages: async (conversationId: string) => {
     set({ messagesLoading: true, messagesError: null });
     try {
-      const response = await api.get(`/customer/conversations/${conversationId}/messages`);
-      const messages = response.data.data || response.data || [];
-      set({ messages, messagesLoading: false });
-    } catch (error: any) {
+      const { data: messages, meta } = await apiClient.messaging.listMessages(conversationId, pageParams());
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        messages: sortByCreatedAt(messages ?? []),
+        messagesHasMore: nextCursor !== null,
+        messagesNextCursor: nextCursor,
+        messagesLoading: false,
+      });
+    } catch (error) {
       console.error('Failed to fetch messages:', error);
-      set({ messagesError: error.message, messagesLoading: false });
+      set({ messagesError: toApiError(error).message, messagesLoading: false });
     }
   },
 
-  // Send a message in existing conversation
-  sendMessage: async (conversationId, content, type = 'sms') => {
-    set({ sendingMessage: true, sendError: null });
+  // Fetch the next page of older messages for the open thread
+  loadOlderMessages: async () => {
+    const { currentConversation, messagesHasMore, messagesNextCursor, messagesLoading, messagesLoadingMore } = get();
+    if (!currentConversation || !messagesHasMore || messagesLoading || messagesLoadingMore) return;
+
+    const conversationId = currentConversation.id;
+    set({ messagesLoadingMore: true, messagesError: null });
     try {
-      const response = await api.post(`/customer/conversations/${conversationId}/messages`, {
-        content,
-        type,
+      const { data: older, meta } = await apiClient.messaging.listMessages(
+        conversationId,
+        pageParams(messagesNextCursor)
+      );
+      // Ignore the page if the user switched threads while it was loading
+      if (get().currentConversation?.id !== conversationId) return;
+
+      const nextCursor = nextCursorFrom(meta);
+      set({
+        messages: sortByCreatedAt(mergeById(get().messages, older ?? [], 'prepend')),
+        messagesHasMore: nextCursor !== null,
+        messagesNextCursor: nextCursor,
+        messagesLoadingMore: false,
       });
-      const message = response.data.data || response.data;
+    } catch (error) {
+      set({ messagesError: toApiError(error).message, messagesLoadingMore: false });
+    }
+  },
 
-      // Add to messages list
-      set({ messages: [...get().messages, message] });
+  // Send a message in existing conversation (shown right away as pending)
+  sendMessage: async (conversationId, content, type = 'sms') => {
+    const tempId = String(generateTempId());
+    const placeholder: Message = {
+      id: tempId,
+      conversation_id: conversationId,
+      sender_type: 'user',
+      content,
+      type,
+      status: 'pending',
+      created_at: new Date().toISOString(),
+    };
+    const previousConversation = get().conversations.find(c => c.id === conversationId);
 
-      // Update conversation last message
-      set({
-        conversations: get().conversations.map(c =>
-          c.id === conversationId
-            ? { ...c, last_message: content, last_message_at: new Date().toISOString() }
-            : c
-        ),
-        sendingMessage: false
+    set({ sendingMessage: true, sendError: null });
+    try {
+      const message = await runOptimistic(get, set, {
+        apply: (state) => ({
+          messages: mergeById(state.messages, [placeholder]),
+          conversations: patchById(state.conversations, conversationId, {
+            last_message: content,
+            last_message_at: placeholder.created_at,
+          }),
+        }),
+        rollback: (state) => ({
+          messages: state.messages.filter(m => m.id !== tempId),
+          conversations: previousConversation
+            ? patchById(state.conversations, conversationId, {
+                last_message: previousConversation.last_message,
+                last_message_at: previousConversation.last_message_at,
+              })
+            : state.conversations,
+        }),
+        commit: () =>
+          sendOfflineAware<Message>(
+            { url: `/customer/conversations/${conversationId}/messages`, method: 'post', data: { content, type } },
+            (headers) => apiClient.messaging.sendMessage(conversationId, { content, type }, { headers })
+          ),
+        // Realtime may have delivered it already
+        reconcile: (state, sent) => ({ messages: swapTempEntity(state.messages, { [tempId]: sent.id }, sent) }),
+        errorMessage: "Couldn't send message",
       });
 
-      return message;
-    } catch (error: any) {
-      const errorMsg = error.response?.data?.message || error.message;
-      set({ sendError: errorMsg, sendingMessage: false });
-      throw new Error(errorMsg);
+      set({ sendingMessage: false });
+      return message ?? placeholder;
+    } catch (error) {
+      const apiError = toApiError(error);
+      set({ sendError: apiError.message, sendingMessage: false });
+      throw apiError;
     }
   },
 
@@ -159,23 +265,22 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
   sendNewMessage: async (params) => {
     set({ sendingMessage: true, sendError: null });
     try {
-      const response = await api.post('/customer/messages/send', {
+      const { data: message } = await apiClient.messaging.sendNewMessage({
         to: params.to,
         content: params.content,
         type: params.type,
         subject: params.subject,
       });
-      const message = response.data.data || response.data;
 
       // Refresh conversations to get new thread
       await get().fetchConversations();
 
       set({ sendingMessage: false });
       return message;
-    } catch (error: any) {
-      const errorMsg = error.response?.data?.message || error.message;
-      set({ sendError: errorMsg, sendingMessage: false });
-      throw new Error(errorMsg);
+    } catch (error) {
+      const apiError = toApiError(error);
+      set({ sendError: apiError.message, sendingMessage: false });
+      throw apiError;
     }
   },
 
@@ -183,7 +288,7 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
   markAsRead: async (conversationId, messageId) => {
     try {
       if (messageId) {
-        await api.post(`/customer/conversations/${conversationId}/messages/${messageId}/read`);
+        await apiClient.messaging.markMessageRead(conversationId, messageId);
         set({
           messages: get().messages.map(m =>
             m.id === messageId ? { ...m, status: 'read', read_at: new Date().toISOString() } : m
@@ -191,7 +296,7 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
         });
       } else {
         // Mark all as read
-        await api.post(`/customer/conversations/${conversationId}/read`);
+        await apiClient.messaging.markConversationRead(conversationId);
         set({
           messages: get().messages.map(m => ({ ...m, status: 'read', read_at: new Date().toISOString() })),
           conversations: get().conversations.map(c =>
@@ -206,14 +311,25 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
 
   // Archive a conversation
   archiveConversation: async (conversationId) => {
+    const previousStatus = get().conversations.find(c => c.id === conversationId)?.status;
     try {
-      await api.post(`/customer/conversations/${conversationId}/archive`);
-      set({
-        conversations: get().conversations.map(c =>
-          c.id === conversationId ? { ...c, status: 'archived' } : c
-        )
+      await runOptimistic(get, set, {
+        apply: (state) => ({
+          conversations: patchById(state.conversations, conversationId, { status: 'archived' }),
+        }),
+        rollback: (state) => ({
+          conversations: previousStatus
+            ? patchById(state.conversations, conversationId, { status: previousStatus })
+            : state.conversations,
+        }),
+        commit: () =>
+          sendOfflineAware<void>(
+            { url: `/customer/conversations/${conversationId}/archive`, method: 'post' },
+            (headers) => apiClient.messaging.archiveConversation(conversationId, { headers })
+          ),
+        errorMessage: "Couldn't archive conversation",
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to archive:', error);
       throw error;
     }
@@ -221,7 +337,13 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
 
   // Set current conversation
   setCurrentConversation: (conversation) => {
-    set({ currentConversation: conversation, messages: [] });
+    set({
+      currentConversation: conversation,
+      messages: [],
+      messagesHasMore: false,
+      messagesNextCursor: null,
+      messagesLoadingMore: false,
+    });
     if (conversation) {
       get().fetchMessages(conversation.id);
       get().markAsRead(conversation.id);
@@ -234,7 +356,7 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
 
     // Add to current thread if in that conversation
     if (currentConversation?.id === message.conversation_id) {
-      set({ messages: [...get().messages, message] });
+      set({ messages: mergeById(get().messages, [message]) });
     }
 
     // Update conversation list
@@ -260,4 +382,24 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
       )
     });
   },
+}), {
+  name: 'messaging',
+  version: 1,
+  partialize: (state) => ({
+    conversations: capList(state.conversations),
+  }),
 }));
+
+registerCachedStore(useMessagingStore);
+registerStore(useMessagingStore);
+
+registerSyncEntity<Conversation>({
+  name: 'conversations',
+  path: '/customer/conversations',
+  refresh: () => useMessagingStore.getState().fetchConversations(),
+  error: () => useMessagingStore.getState().conversationsError,
+  hasLocalData: () => useMessagingStore.getState().conversations.length > 0,
+  paged: true,
+  apply: (changed, deleted) =>
+    useMessagingStore.setState((state) => ({ conversations: applyDelta(state.conversations, changed, deleted) })),
+});
@@ -3,7 +3,8 @@
 // Unified naming across all 4 SystemsF1RST apps
 
 import { create } from 'zustand';
-import api from '../lib/api';
+import apiClient, { toApiError } from '../lib/api-client';
+import { registerStore } from './registry';
 
 // Types
 export interface ToolCall {
@@ -118,12 +119,11 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
   sendMessage: async (message: string, sessionId?: string) => {
     set({ sendingMessage: true, sendError: null });
     try {
-      const response = await api.post('/agent/chat', {
+      const { data } = await apiClient.agent.chat({
         message,
         session_id: sessionId || get().currentSession?.id,
       });
 
-      const data = response.data.data || response.data;
       const assistantMessage: AgentMessage = {
         id: data.message_id || Date.now().toString(),
         role: 'assistant',
@@ -173,9 +173,8 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
       }
 
       return assistantMessage;
-    } catch (error: any) {
-      const errorMsg = error.response?.data?.message || error.message || 'Failed to send message';
-      set({ sendError: errorMsg, sendingMessage: false });
+    } catch (error) {
+      set({ sendError: toApiError(error).message || 'Failed to send message', sendingMessage: false });
       return null;
     }
   },
@@ -184,19 +183,18 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
   fetchPendingApprovals: async () => {
     set({ approvalsLoading: true, approvalsError: null });
     try {
-      const response = await api.get('/agent/pending');
-      const approvals = response.data.data || response.data || [];
-      set({ pendingApprovals: approvals, approvalsLoading: false });
-    } catch (error: any) {
+      const { data: approvals } = await apiClient.agent.listPendingApprovals();
+      set({ pendingApprovals: approvals ?? [], approvalsLoading: false });
+    } catch (error) {
       console.error('Failed to fetch pending approvals:', error);
-      set({ approvalsError: error.message, approvalsLoading: false });
+      set({ approvalsError: toApiError(error).message, approvalsLoading: false });
     }
   },
 
   // Approve an action
   approveAction: async (approvalId: string) => {
     try {
-      await api.post('/agent/approve', { approval_id: approvalId });
+      await apiClient.agent.approve(approvalId);
 
       // Remove from pending list
       set({
@@ -221,7 +219,7 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
           currentSession: { ...currentSession, messages: updatedMessages },
         });
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to approve action:', error);
       throw error;
     }
@@ -230,7 +228,7 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
   // Reject an action
   rejectAction: async (approvalId: string, reason?: string) => {
     try {
-      await api.post('/agent/reject', { approval_id: approvalId, reason });
+      await apiClient.agent.reject(approvalId, reason);
 
       // Remove from pending list
       set({
@@ -259,7 +257,7 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
           },
         });
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to reject action:', error);
       throw error;
     }
@@ -269,10 +267,9 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
   fetchTools: async () => {
     set({ toolsLoading: true });
     try {
-      const response = await api.get('/agent/tools');
-      const tools = response.data.data || response.data || [];
-      set({ availableTools: tools, toolsLoading: false });
-    } catch (error: any) {
+      const { data: tools } = await apiClient.agent.listTools();
+      set({ availableTools: tools ?? [], toolsLoading: false });
+    } catch (error) {
       console.error('Failed to fetch tools:', error);
       set({ toolsLoading: false });
     }
@@ -281,8 +278,7 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
   // Execute an approved tool
   executeApprovedTool: async (approvalId: string) => {
     try {
-      const response = await api.post('/agent/execute', { approval_id: approvalId });
-      const result = response.data.data || response.data;
+      const { data: result } = await apiClient.agent.execute(approvalId);
 
       // Update tool call with result
       const currentSession = get().currentSession;
@@ -308,7 +304,7 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
           currentSession: { ...currentSession, messages: updatedMessages },
         });
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to execute tool:', error);
       throw error;
     }
@@ -318,22 +314,20 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
   fetchSessionHistory: async () => {
     set({ sessionsLoading: true, sessionsError: null });
     try {
-      const response = await api.get('/agent/sessions');
-      const sessions = response.data.data || response.data || [];
-      set({ sessions, sessionsLoading: false });
-    } catch (error: any) {
+      const { data: sessions } = await apiClient.agent.listSessions();
+      set({ sessions: sessions ?? [], sessionsLoading: false });
+    } catch (error) {
       console.error('Failed to fetch session history:', error);
-      set({ sessionsError: error.message, sessionsLoading: false });
+      set({ sessionsError: toApiError(error).message, sessionsLoading: false });
     }
   },
 
   // Fetch a specific session
   fetchSession: async (sessionId: string) => {
     try {
-      const response = await api.get(`/agent/sessions/${sessionId}`);
-      const session = response.data.data || response.data;
+      const { data: session } = await apiClient.agent.getSession(sessionId);
       set({ currentSession: session });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to fetch session:', error);
     }
   },
@@ -378,5 +372,7 @@ export const useOrchestraStore = create<AgentState>((set, get) => ({
   },
 }));
 
+registerStore(useOrchestraStore);
+
 // Backwards compatibility alias
 export const useAgentStore = useOrchestraStore;
@@ -1,12 +1,17 @@
 import { create } from 'zustand';
 import { api } from '../lib/api';
+import { runOptimistic, patchById, replaceById, restoreAt, clearPending, PendingFlag } from '../lib/optimistic';
+import { cached, capList, registerCachedStore } from '../lib/store-cache';
+import { registerStore } from './registry';
+import { rollUpLaborCosts } from '../lib/job-costing';
+import type { LaborCost } from './timeClockStore';
 
 // Types
 export type ProjectStatus = 'planning' | 'active' | 'on_hold' | 'completed' | 'cancelled';
 export type TaskStatus = 'todo' | 'in_progress' | 'review' | 'done';
 export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
 
-export interface Project {
+export interface Project extends PendingFlag {
   id: string;
   name: string;
   description?: string;
@@ -15,6 +20,9 @@ export interface Project {
   endDate?: string;
   budget?: number;
   spent?: number;
+  // Time clocked to the project and what it cost; already included in spent
+  laborHours?: number;
+  laborCost?: number;
   progress: number; // 0-100
   managerId?: string;
   managerName?: string;
@@ -35,7 +43,7 @@ export interface TeamMember {
   role: string;
 }
 
-export interface Task {
+export interface Task extends PendingFlag {
   id: string;
   projectId: string;
   projectName?: string;
@@ -110,6 +118,7 @@ interface ProjectsState {
   createProject: (data: Partial<Project>) => Promise<Project>;
   updateProject: (id: string, data: Partial<Project>) => Promise<void>;
   deleteProject: (id: string) => Promise<void>;
+  fetchLaborCosts: () => Promise<void>;
 
   // Task actions
   fetchTasks: (params?: { projectId?: string; assigneeId?: string; status?: TaskStatus }) => Promise<void>;
@@ -288,7 +297,33 @@ const mockTasks: Task[] = [
   },
 ];
 
-export const useProjectsStore = create<ProjectsState>((set, get) => ({
+// Simulated latency until the projects API is wired up
+const mockRequest = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Apply task count changes to one project and recompute its progress
+const adjustProjectCounts = (
+  projects: Project[],
+  projectId: string | undefined,
+  taskDelta: number,
+  completedDelta: number
+): Project[] => {
+  if (!projectId || (taskDelta === 0 && completedDelta === 0)) return projects;
+  return projects.map(p => {
+    if (p.id !== projectId) return p;
+    const taskCount = p.taskCount + taskDelta;
+    const completedTaskCount = p.completedTaskCount + completedDelta;
+    return {
+      ...p,
+      taskCount,
+      completedTaskCount,
+      progress: completedDelta === 0 || taskCount === 0
+        ? p.progress
+        : Math.round((completedTaskCount / taskCount) * 100),
+    };
+  });
+};
+
+export const useProjectsStore = create<ProjectsState>()(cached((set, get) => ({
   // Initial state
   projects: [],
   tasks: [],
@@ -336,26 +371,49 @@ export const useProjectsStore = create<ProjectsState>((set, get) => ({
     }
   },
 
-  createProject: async (data) => {
+  // Labor comes from real time entries, so this one already hits the API
+  fetchLaborCosts: async () => {
     try {
-      // TODO: Replace with real API call
-      await new Promise(resolve => setTimeout(resolve, 300));
+      const response = await api.get('/time-clock/labor-costs', { params: { group_by: 'project' } });
+      const costs: LaborCost[] = response.data.jobs || [];
+
+      set((state) => ({
+        projects: rollUpLaborCosts(state.projects, costs),
+        selectedProject: state.selectedProject
+          ? rollUpLaborCosts([state.selectedProject], costs)[0]
+          : state.selectedProject,
+      }));
+    } catch (error: any) {
+      // Spend without labor is still worth showing
+      console.error('Failed to fetch labor costs:', error);
+    }
+  },
 
-      const newProject: Project = {
-        id: Date.now().toString(),
-        name: data.name || 'New Project',
-        status: 'planning',
-        startDate: data.startDate || new Date().toISOString().split('T')[0],
-        progress: 0,
-        teamMembers: data.teamMembers || [],
-        taskCount: 0,
-        completedTaskCount: 0,
-        ...data,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+  createProject: async (data) => {
+    const now = new Date().toISOString();
+    const newProject: Project = {
+      id: Date.now().toString(),
+      name: data.name || 'New Project',
+      status: 'planning',
+      startDate: data.startDate || now.split('T')[0],
+      progress: 0,
+      teamMembers: data.teamMembers || [],
+      taskCount: 0,
+      completedTaskCount: 0,
+      ...data,
+      createdAt: now,
+      updatedAt: now,
+    };
 
-      set({ projects: [...get().projects, newProject] });
+    try {
+      await runOptimistic(get, set, {
+        apply: (state) => ({ projects: [...state.projects, { ...newProject, pending: true }] }),
+        rollback: (state) => ({ projects: state.projects.filter(p => p.id !== newProject.id) }),
+        // TODO: Replace with real API call
+        commit: () => mockRequest(300),
+        reconcile: (state) => ({ projects: clearPending(state.projects, newProject.id) }),
+        errorMessage: "Couldn't create project",
+      });
       return newProject;
     } catch (error: any) {
       console.error('Failed to create project:', error);
@@ -364,17 +422,26 @@ export const useProjectsStore = create<ProjectsState>((set, get) => ({
   },
 
   updateProject: async (id, data) => {
-    try {
-      // TODO: Replace with real API call
-      await new Promise(resolve => setTimeout(resolve, 300));
+    const previous = get().projects.find(p => p.id === id);
+    const previousSelected = get().selectedProject?.id === id ? get().selectedProject : null;
+    const patch = { ...data, updatedAt: new Date().toISOString() };
 
-      set({
-        projects: get().projects.map(p =>
-          p.id === id ? { ...p, ...data, updatedAt: new Date().toISOString() } : p
-        ),
-        selectedProject: get().selectedProject?.id === id
-          ? { ...get().selectedProject!, ...data, updatedAt: new Date().toISOString() }
-          : get().selectedProject,
+    try {
+      await runOptimistic(get, set, {
+        apply: (state) => ({
+          projects: patchById(state.projects, id, { ...patch, pending: true }),
+          selectedProject: state.selectedProject?.id === id
+            ? { ...state.selectedProject, ...patch }
+            : state.selectedProject,
+        }),
+        rollback: (state) => ({
+          projects: previous ? replaceById(state.projects, id, previous) : state.projects,
+          selectedProject: previousSelected && state.selectedProject?.id === id ? previousSelected : state.selectedProject,
+        }),
+        // TODO: Replace with real API call
+        commit: () => mockRequest(300),
+        reconcile: (state) => ({ projects: clearPending(state.projects, id) }),
+        errorMessage: "Couldn't update project",
       });
     } catch (error: any) {
       console.error('Failed to update project:', error);
@@ -383,14 +450,27 @@ export const useProjectsStore = create<ProjectsState>((set, get) => ({
   },
 
   deleteProject: async (id) => {
-    try {
-      // TODO: Replace with real API call
-      await new Promise(resolve => setTimeout(resolve, 300));
+    const { projects, tasks, selectedProject } = get();
+    const index = projects.findIndex(p => p.id === id);
+    const previous = projects[index];
+    const previousTasks = tasks.filter(t => t.projectId === id);
+    const previousSelected = selectedProject?.id === id ? selectedProject : null;
 
-      set({
-        projects: get().projects.filter(p => p.id !== id),
-        tasks: get().tasks.filter(t => t.projectId !== id),
-        selectedProject: get().selectedProject?.id === id ? null : get().selectedProject,
+    try {
+      await runOptimistic(get, set, {
+        apply: (state) => ({
+          projects: state.projects.filter(p => p.id !== id),
+          tasks: state.tasks.filter(t => t.projectId !== id),
+          selectedProject: state.selectedProject?.id === id ? null : state.selectedProject,
+        }),
+        rollback: (state) => ({
+          projects: previous ? restoreAt(state.projects, previous, index) : state.projects,
+          tasks: [...state.tasks, ...previousTasks.filter(t => !state.tasks.some(s => s.id === t.id))],
+          selectedProject: state.selectedProject ?? previousSelected,
+        }),
+        // TODO: Replace with real API call
+        commit: () => mockRequest(300),
+        errorMessage: "Couldn't delete project",
       });
     } catch (error: any) {
       console.error('Failed to delete project:', error);
@@ -441,37 +521,33 @@ export const useProjectsStore = create<ProjectsState>((set, get) => ({
   },
 
   createTask: async (data) => {
-    try {
-      // TODO: Replace with real API call
-      await new Promise(resolve => setTimeout(resolve, 300));
-
-      const newTask: Task = {
-        id: Date.now().toString(),
-        projectId: data.projectId || '',
-        title: data.title || 'New Task',
-        status: 'todo',
-        priority: data.priority || 'medium',
-        ...data,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      set({ tasks: [...get().tasks, newTask] });
-
-      // Update project task count
-      if (data.projectId) {
-        const project = get().projects.find(p => p.id === data.projectId);
-        if (project) {
-          set({
-            projects: get().projects.map(p =>
-              p.id === data.projectId
-                ? { ...p, taskCount: p.taskCount + 1 }
-                : p
-            ),
-          });
-        }
-      }
+    const now = new Date().toISOString();
+    const newTask: Task = {
+      id: Date.now().toString(),
+      projectId: data.projectId || '',
+      title: data.title || 'New Task',
+      status: 'todo',
+      priority: data.priority || 'medium',
+      ...data,
+      createdAt: now,
+      updatedAt: now,
+    };
 
+    try {
+      await runOptimistic(get, set, {
+        apply: (state) => ({
+          tasks: [...state.tasks, { ...newTask, pending: true }],
+          projects: adjustProjectCounts(state.projects, data.projectId, 1, 0),
+        }),
+        rollback: (state) => ({
+          tasks: state.tasks.filter(t => t.id !== newTask.id),
+          projects: adjustProjectCounts(state.projects, data.projectId, -1, 0),
+        }),
+        // TODO: Replace with real API call
+        commit: () => mockRequest(300),
+        reconcile: (state) => ({ tasks: clearPending(state.tasks, newTask.id) }),
+        errorMessage: "Couldn't create task",
+      });
       return newTask;
     } catch (error: any) {
       console.error('Failed to create task:', error);
@@ -480,17 +556,24 @@ export const useProjectsStore = create<ProjectsState>((set, get) => ({
   },
 
   updateTask: async (id, data) => {
-    try {
-      // TODO: Replace with real API call
-      await new Promise(resolve => setTimeout(resolve, 300));
+    const previous = get().tasks.find(t => t.id === id);
+    const previousSelected = get().selectedTask?.id === id ? get().selectedTask : null;
+    const patch = { ...data, updatedAt: new Date().toISOString() };
 
-      set({
-        tasks: get().tasks.map(t =>
-          t.id === id ? { ...t, ...data, updatedAt: new Date().toISOString() } : t
-        ),
-        selectedTask: get().selectedTask?.id === id
-          ? { ...get().selectedTask!, ...data, updatedAt: new Date().toISOString() }
-          : get().selectedTask,
+    try {
+      await runOptimistic(get, set, {
+        apply: (state) => ({
+          tasks: patchById(state.tasks, id, { ...patch, pending: true }),
+          selectedTask: state.selectedTask?.id === id ? { ...state.selectedTask, ...patch } : state.selectedTask,
+        }),
+        rollback: (state) => ({
+          tasks: previous ? replaceById(state.tasks, id, previous) : state.tasks,
+          selectedTask: previousSelected && state.selectedTask?.id === id ? previousSelected : state.selectedTask,
+        }),
+        // TODO: Replace with real API call
+        commit: () => mockRequest(300),
+        reconcile: (state) => ({ tasks: clearPending(state.tasks, id) }),
+        errorMessage: "Couldn't update task",
       });
     } catch (error: any) {
       console.error('Failed to update task:', error);
@@ -499,72 +582,60 @@ export const useProjectsStore = create<ProjectsState>((set, get) => ({
   },
 
   deleteTask: async (id) => {
-    try {
-      // TODO: Replace with real API call
-      await new Promise(resolve => setTimeout(resolve, 300));
-
-      const task = get().tasks.find(t => t.id === id);
+    const { tasks, selectedTask } = get();
+    const index = tasks.findIndex(t => t.id === id);
+    const task = tasks[index];
+    const previousSelected = selectedTask?.id === id ? selectedTask : null;
+    const completedDelta = task?.status === 'done' ? 1 : 0;
 
-      set({
-        tasks: get().tasks.filter(t => t.id !== id),
-        selectedTask: get().selectedTask?.id === id ? null : get().selectedTask,
+    try {
+      await runOptimistic(get, set, {
+        apply: (state) => ({
+          tasks: state.tasks.filter(t => t.id !== id),
+          selectedTask: state.selectedTask?.id === id ? null : state.selectedTask,
+          projects: adjustProjectCounts(state.projects, task?.projectId, -1, -completedDelta),
+        }),
+        rollback: (state) => ({
+          tasks: task ? restoreAt(state.tasks, task, index) : state.tasks,
+          selectedTask: state.selectedTask ?? previousSelected,
+          projects: adjustProjectCounts(state.projects, task?.projectId, 1, completedDelta),
+        }),
+        // TODO: Replace with real API call
+        commit: () => mockRequest(300),
+        errorMessage: "Couldn't delete task",
       });
-
-      // Update project task count
-      if (task?.projectId) {
-        set({
-          projects: get().projects.map(p =>
-            p.id === task.projectId
-              ? {
-                  ...p,
-                  taskCount: p.taskCount - 1,
-                  completedTaskCount: task.status === 'done'
-                    ? p.completedTaskCount - 1
-                    : p.completedTaskCount,
-                }
-              : p
-          ),
-        });
-      }
     } catch (error: any) {
       console.error('Failed to delete task:', error);
       throw error;
     }
   },
 
+  // Kanban drag: the card lands in its new column immediately
   moveTask: async (taskId, newStatus) => {
-    try {
-      // TODO: Replace with real API call
-      await new Promise(resolve => setTimeout(resolve, 200));
-
-      const task = get().tasks.find(t => t.id === taskId);
-      const wasComplete = task?.status === 'done';
-      const isNowComplete = newStatus === 'done';
+    const task = get().tasks.find(t => t.id === taskId);
+    const wasComplete = task?.status === 'done';
+    const isNowComplete = newStatus === 'done';
+    const completedDelta = wasComplete === isNowComplete ? 0 : isNowComplete ? 1 : -1;
 
-      set({
-        tasks: get().tasks.map(t =>
-          t.id === taskId ? { ...t, status: newStatus, updatedAt: new Date().toISOString() } : t
-        ),
+    try {
+      await runOptimistic(get, set, {
+        apply: (state) => ({
+          tasks: patchById(state.tasks, taskId, {
+            status: newStatus,
+            updatedAt: new Date().toISOString(),
+            pending: true,
+          }),
+          projects: adjustProjectCounts(state.projects, task?.projectId, 0, completedDelta),
+        }),
+        rollback: (state) => ({
+          tasks: task ? replaceById(state.tasks, taskId, task) : state.tasks,
+          projects: adjustProjectCounts(state.projects, task?.projectId, 0, -completedDelta),
+        }),
+        // TODO: Replace with real API call
+        commit: () => mockRequest(200),
+        reconcile: (state) => ({ tasks: clearPending(state.tasks, taskId) }),
+        errorMessage: "Couldn't move task",
       });
-
-      // Update project completed count if status changed to/from done
-      if (task?.projectId && wasComplete !== isNowComplete) {
-        set({
-          projects: get().projects.map(p =>
-            p.id === task.projectId
-              ? {
-                  ...p,
-                  completedTaskCount: isNowComplete
-                    ? p.completedTaskCount + 1
-                    : p.completedTaskCount - 1,
-                  progress: Math.round(
-                    ((isNowComplete ? p.completedTaskCount + 1 : p.completedTaskCount - 1) / p.taskCount) * 100
-                  ),
-                }
-              : p
-          ),
-        });
-      }
     } catch (error: any) {
       console.error('Failed to move task:', error);
       throw error;
@@ -678,4 +749,15 @@ export const useProjectsStore = create<ProjectsState>((set, get) => ({
   setSelectedProject: (project) => set({ selectedProject: project }),
   setSelectedTask: (task) => set({ selectedTask: task }),
   clearError: () => set({ error: null }),
+}), {
+  name: 'projects',
+  version: 1,
+  partialize: (state) => ({
+    projects: capList(state.projects),
+    tasks: capList(state.tasks),
+    metrics: state.metrics,
+  }),
 }));
+
+registerCachedStore(useProjectsStore);
+registerStore(useProjectsStore);
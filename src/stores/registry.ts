@@ -0,0 +1,31 @@
+// Store Registry for SystemsF1RST Mobile
+// Every store holding per-user or per-tenant data registers here, so a session
+// can be wiped in one call (see resetAll in lib/session).
+
+import type { StoreApi } from 'zustand';
+
+// 'organization' data belongs to the active tenant and is dropped when the
+// user switches organizations; 'user' data (app lock, 2FA) follows the person
+export type StoreScope = 'organization' | 'user';
+
+interface ResettableStore {
+  getInitialState: () => unknown;
+  setState: (state: any, replace?: boolean) => void;
+}
+
+const stores: { store: ResettableStore; scope: StoreScope }[] = [];
+
+// Called once per store, next to its `create`
+export const registerStore = <S>(
+  store: Pick<StoreApi<S>, 'getInitialState' | 'setState'>,
+  scope: StoreScope = 'organization'
+): void => {
+  stores.push({ store: store as ResettableStore, scope });
+};
+
+// Put registered stores back to their initial state (actions included); all of them unless a scope is given
+export const resetStores = (scope?: StoreScope): void => {
+  stores
+    .filter((entry) => !scope || entry.scope === scope)
+    .forEach(({ store }) => store.setState(store.getInitialState(), true));
+};
@@ -1,8 +1,104 @@
 import { create } from 'zustand';
 import { api } from '../lib/api';
 import { Alert } from 'react-native';
+import { cached, capList, registerCachedStore } from '../lib/store-cache';
+import { registerStore } from './registry';
+import { registerSyncEntity, applyDelta } from '../lib/sync-engine';
+import {
+  sendOfflineAware,
+  isQueuedResult,
+  getQueue,
+  subscribeToTempIdResolution,
+  TempIdResolution,
+} from '../lib/offline-queue';
+import { runOptimistic, restoreAt, PendingFlag } from '../lib/optimistic';
+import { generateTempId, buildPlaceholder, rewriteTempIds } from '../lib/temp-ids';
+import { captureTime, CapturedTime } from '../lib/device-clock';
+import { toApiError } from '../lib/api-client';
+import { showToast } from './toastStore';
+import { BreakRule, getOpenBreak, isPaidBreak, workedHours } from '../lib/breaks';
+import { getOpenSegment, hasJob, jobKey } from '../lib/job-costing';
+import { OvertimeRules, OVERTIME_PRESETS, getWeekStart, splitShift, toDateKey } from '../lib/overtime';
+import type { User } from './authStore';
 
-export interface TimeClock {
+export type BreakType = 'meal' | 'rest';
+
+export interface ShiftBreak extends PendingFlag {
+  id: number;
+  type: BreakType;
+  // Unpaid breaks don't count toward total_hours and regular_hours
+  paid: boolean;
+  started_at: string;
+  ended_at: string | null;
+}
+
+// What a stretch of a shift was worked on; any of the fields may be set
+export interface JobAllocation {
+  project_id?: string | null;
+  deal_id?: number | null;
+  // The client, from CRM contacts
+  contact_id?: number | null;
+  cost_code?: string | null;
+}
+
+// Part of a shift spent on one job; switching jobs ends one and starts the next
+export interface JobSegment extends PendingFlag {
+  id: number;
+  job: JobAllocation;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface CostCode {
+  code: string;
+  name: string;
+}
+
+// Hours and labor cost for one job over a period, priced by the server
+export interface LaborCost {
+  job: JobAllocation;
+  label?: string;
+  hours: number;
+  cost: number;
+}
+
+export type CorrectionStatus = 'pending' | 'approved' | 'denied';
+
+type Person = Pick<User, 'id' | 'first_name' | 'last_name'>;
+
+// An employee's request to change an entry's times, reviewed by a manager
+export interface TimeCorrection extends PendingFlag {
+  id: number;
+  time_clock_id: number;
+  // Who asked; set on the manager's list
+  user?: Person;
+  // The entry's times when the request was made
+  original_clock_in_at: string;
+  original_clock_out_at: string | null;
+  proposed_clock_in_at: string;
+  proposed_clock_out_at: string;
+  reason: string;
+  status: CorrectionStatus;
+  reviewed_by?: Person | null;
+  reviewed_at?: string | null;
+  review_note?: string | null;
+  created_at: string;
+}
+
+// One change made to an entry after the fact; kept for good
+export interface TimeClockAudit {
+  id: number;
+  field: 'clock_in_at' | 'clock_out_at';
+  from: string | null;
+  to: string | null;
+  changed_by: Person;
+  changed_at: string;
+  // Set when the change came from an approved correction
+  correction_id?: number | null;
+  reason?: string | null;
+}
+
+export interface TimeClock extends PendingFlag {
   id: number;
   user_id: number;
   organization_id: number;
@@ -15,12 +111,22 @@ export interface TimeClock {
   overtime_hours: number | null;
   status: 'clocked_in' | 'clocked_out' | 'approved' | 'rejected';
   notes: string | null;
+  // When each punch reached the server; later than the punch itself if it was made offline
+  clock_in_received_at?: string | null;
+  clock_out_received_at?: string | null;
+  // The device clock was set back before a punch (see lib/device-clock)
+  clock_tampered?: boolean;
+  breaks?: ShiftBreak[];
+  segments?: JobSegment[];
+  audit_history?: TimeClockAudit[];
 }
 
 export interface WeeklySummary {
   total_hours: number;
   regular_hours: number;
   overtime_hours: number;
+  double_time_hours?: number;
+  // Hours per local date (YYYY-MM-DD)
   by_day: Record<string, number>;
   entries_count: number;
 }
@@ -28,16 +134,77 @@ export interface WeeklySummary {
 interface ClockInData {
   latitude?: number;
   longitude?: number;
+  // GPS accuracy radius in meters
+  accuracy?: number;
   location_name?: string;
   notes?: string;
+  // Clocking in with a job starts its first segment
+  job?: JobAllocation | null;
 }
 
+// What the server gets: the punch as it happened on the device, whenever it syncs
+type Punch = ClockInData & CapturedTime;
+
+interface PunchResponse {
+  success: boolean;
+  message?: string;
+  clock_in?: TimeClock;
+  break?: ShiftBreak;
+  segment?: JobSegment;
+  duration?: string;
+  total_hours?: number;
+}
+
+const PUNCH_URLS = [
+  '/time-clock/clock-in',
+  '/time-clock/clock-out',
+  '/time-clock/break/start',
+  '/time-clock/break/end',
+  '/time-clock/switch-job',
+];
+
+// A punch still in the offline queue is newer than anything the server says
+const hasQueuedPunch = (): boolean => getQueue().some((request) => PUNCH_URLS.includes(request.url));
+
+// Send a punch now, or queue it; the server can still refuse it with success: false.
+// A clock-in passes its placeholder's temp ID so requests about the entry can wait for it.
+const sendPunch = async (url: string, punch: Punch, options?: { tempId: number; entityType: 'clock_in' }) => {
+  const result = await sendOfflineAware<PunchResponse>(
+    { url, method: 'post', data: punch },
+    (headers) => api.post(url, punch, { headers }),
+    options
+  );
+  if (!isQueuedResult(result) && !result.success) {
+    throw new Error(result.message || 'The punch was not accepted');
+  }
+  return result;
+};
+
+// A punch that reached the server this long after it was made was recorded offline
+export const LATE_SYNC_THRESHOLD_MS = 5 * 60 * 1000;
+
+export const isSyncedLate = (punchedAt?: string | null, receivedAt?: string | null): boolean =>
+  !!punchedAt &&
+  !!receivedAt &&
+  new Date(receivedAt).getTime() - new Date(punchedAt).getTime() > LATE_SYNC_THRESHOLD_MS;
+
 interface TimeClockState {
   currentClock: TimeClock | null;
   isClockedIn: boolean;
   weeklySummary: WeeklySummary | null;
   todayEntries: TimeClock[];
+  // This workweek's entries, for working out the week summary on the device
+  weekEntries: TimeClock[];
   history: TimeClock[];
+  // The organization's required breaks
+  breakRules: BreakRule[];
+  costCodes: CostCode[];
+  laborCosts: LaborCost[];
+  overtimeRules: OvertimeRules;
+  // Corrections this user asked for
+  corrections: TimeCorrection[];
+  // Corrections waiting for this manager's review
+  teamCorrections: TimeCorrection[];
   isLoading: boolean;
   error: string | null;
 
@@ -45,16 +212,43 @@ interface TimeClockState {
   fetchStatus: () => Promise<void>;
   clockIn: (data: ClockInData) => Promise<boolean>;
   clockOut: (data: ClockInData) => Promise<boolean>;
+  startBreak: (type: BreakType, data?: ClockInData) => Promise<boolean>;
+  endBreak: (data?: ClockInData) => Promise<boolean>;
+  fetchBreakRules: () => Promise<void>;
+  // Pass null to stop charging time to any job
+  switchJob: (job: JobAllocation | null, data?: ClockInData) => Promise<boolean>;
+  fetchCostCodes: () => Promise<void>;
+  fetchLaborCosts: (params?: { range?: 'today' | 'week' | 'month' }) => Promise<void>;
+  fetchWeekEntries: () => Promise<void>;
+  fetchOvertimeRules: () => Promise<void>;
+  updateOvertimeRules: (rules: OvertimeRules) => Promise<boolean>;
+  fetchCorrections: () => Promise<void>;
+  requestCorrection: (
+    entry: TimeClock,
+    data: { clock_in_at: string; clock_out_at: string; reason: string }
+  ) => Promise<boolean>;
+  fetchTeamCorrections: () => Promise<void>;
+  reviewCorrection: (id: number, decision: Exclude<CorrectionStatus, 'pending'>, note?: string) => Promise<boolean>;
   fetchHistory: (params?: { start_date?: string; end_date?: string }) => Promise<void>;
   fetchSummary: (period?: 'week' | 'month') => Promise<void>;
+
+  // Swap the temp ID of a clock-in made offline once the server assigns a real one
+  handleTempIdResolved: (resolution: TempIdResolution) => void;
 }
 
-export const useTimeClockStore = create<TimeClockState>((set, get) => ({
+export const useTimeClockStore = create<TimeClockState>()(cached((set, get) => ({
   currentClock: null,
   isClockedIn: false,
   weeklySummary: null,
   todayEntries: [],
+  weekEntries: [],
   history: [],
+  breakRules: [],
+  costCodes: [],
+  laborCosts: [],
+  overtimeRules: OVERTIME_PRESETS.federal,
+  corrections: [],
+  teamCorrections: [],
   isLoading: false,
   error: null,
 
@@ -65,8 +259,8 @@ export const useTimeClockStore = create<TimeClockState>((set, get) => ({
       const { is_clocked_in, current_clock, today, this_week } = response.data;
 
       set({
-        isClockedIn: is_clocked_in,
-        currentClock: current_clock,
+        // Keep showing an offline punch until it has synced
+        ...(hasQueuedPunch() ? {} : { isClockedIn: is_clocked_in, currentClock: current_clock }),
         todayEntries: today?.entries || [],
         weeklySummary: this_week,
         isLoading: false,
@@ -80,60 +274,407 @@ export const useTimeClockStore = create<TimeClockState>((set, get) => ({
     }
   },
 
+  // Recorded on the device first: the clocked-in state shows right away and the
+  // punch syncs with its original timestamp when there's signal
   clockIn: async (data: ClockInData) => {
-    set({ isLoading: true, error: null });
-    try {
-      const response = await api.post('/time-clock/clock-in', data);
+    const punch: Punch = { ...data, ...captureTime() };
+    const placeholder: TimeClock = {
+      ...buildPlaceholder<TimeClock>(
+        {
+          clock_in_at: punch.captured_at,
+          clock_out_at: null,
+          clock_in_location_name: data.location_name ?? null,
+          clock_out_location_name: null,
+          total_hours: null,
+          regular_hours: null,
+          overtime_hours: null,
+          status: 'clocked_in',
+          notes: data.notes ?? null,
+          segments: hasJob(data.job)
+            ? [{ id: generateTempId(), job: data.job, started_at: punch.captured_at, ended_at: null, pending: true }]
+            : [],
+        },
+        generateTempId()
+      ),
+      pending: true,
+    };
 
-      if (response.data.success) {
-        set({
-          isClockedIn: true,
-          currentClock: response.data.clock_in,
-          isLoading: false,
-        });
-        return true;
-      } else {
-        Alert.alert('Clock In Failed', response.data.message);
-        set({ isLoading: false, error: response.data.message });
-        return false;
+    set({ error: null });
+    try {
+      const result = await runOptimistic(get, set, {
+        apply: () => ({ isClockedIn: true, currentClock: placeholder }),
+        rollback: (state) =>
+          state.currentClock?.id === placeholder.id ? { isClockedIn: false, currentClock: null } : {},
+        commit: () => sendPunch('/time-clock/clock-in', punch, { tempId: placeholder.id, entityType: 'clock_in' }),
+        // A queued clock-in has had its temp ID swapped for the real one by now
+        reconcile: (state, response) => {
+          const id = state.currentClock?.id;
+          return response.clock_in && (id === placeholder.id || id === response.clock_in.id)
+            ? { currentClock: response.clock_in }
+            : {};
+        },
+        errorMessage: "Couldn't clock in",
+      });
+      if (!result) {
+        showToast("Clocked in on this device. It will sync when you're back online.", 'info');
       }
-    } catch (error: any) {
-      const message = error.response?.data?.message || 'Failed to clock in';
-      Alert.alert('Clock In Failed', message);
-      set({ isLoading: false, error: message });
+      return true;
+    } catch (error) {
+      set({ error: toApiError(error).message });
       return false;
     }
   },
 
   clockOut: async (data: ClockInData) => {
-    set({ isLoading: true, error: null });
-    try {
-      const response = await api.post('/time-clock/clock-out', data);
+    const punch: Punch = { ...data, ...captureTime() };
+    const previous = get().currentClock;
+
+    // The finished shift, until the server's totals arrive; clocking out ends an open break and job
+    const finished: TimeClock | null = previous && {
+      ...previous,
+      clock_out_at: punch.captured_at,
+      clock_out_location_name: data.location_name ?? null,
+      breaks: previous.breaks?.map((shiftBreak) =>
+        shiftBreak.ended_at ? shiftBreak : { ...shiftBreak, ended_at: punch.captured_at }
+      ),
+      segments: previous.segments?.map((segment) =>
+        segment.ended_at ? segment : { ...segment, ended_at: punch.captured_at }
+      ),
+      status: 'clocked_out',
+      pending: true,
+    };
+    if (finished) {
+      const split = splitShift(finished, getWeekEntries(get()), get().overtimeRules);
+      finished.total_hours = workedHours(finished);
+      finished.regular_hours = split.regular;
+      finished.overtime_hours = Math.round((split.overtime + split.double_time) * 100) / 100;
+    }
 
-      if (response.data.success) {
-        set({
+    set({ error: null });
+    try {
+      const result = await runOptimistic(get, set, {
+        apply: (state) => ({
           isClockedIn: false,
           currentClock: null,
-          isLoading: false,
-        });
+          todayEntries: finished
+            ? [...state.todayEntries.filter((e) => e.id !== finished.id), finished]
+            : state.todayEntries,
+          weekEntries: finished
+            ? [...state.weekEntries.filter((e) => e.id !== finished.id), finished]
+            : state.weekEntries,
+        }),
+        rollback: (state) => ({
+          todayEntries: finished ? state.todayEntries.filter((e) => e !== finished) : state.todayEntries,
+          weekEntries: finished ? state.weekEntries.filter((e) => e !== finished) : state.weekEntries,
+          ...(state.isClockedIn ? {} : { isClockedIn: true, currentClock: previous }),
+        }),
+        commit: () => sendPunch('/time-clock/clock-out', punch),
+        errorMessage: "Couldn't clock out",
+      });
 
+      if (!result) {
+        showToast("Clocked out on this device. It will sync when you're back online.", 'info');
+      } else {
         // Refresh status to update totals
         get().fetchStatus();
+        Alert.alert('Clocked Out', `Total time: ${result.duration}\nHours: ${result.total_hours}`);
+      }
+      return true;
+    } catch (error) {
+      set({ error: toApiError(error).message });
+      return false;
+    }
+  },
 
-        Alert.alert(
-          'Clocked Out',
-          `Total time: ${response.data.duration}\nHours: ${response.data.total_hours}`
-        );
-        return true;
-      } else {
-        Alert.alert('Clock Out Failed', response.data.message);
-        set({ isLoading: false, error: response.data.message });
-        return false;
+  startBreak: async (type: BreakType, data: ClockInData = {}) => {
+    const clock = get().currentClock;
+    if (!clock || getOpenBreak(clock)) return false;
+
+    const punch: Punch & { type: BreakType } = { ...data, ...captureTime(), type };
+    const placeholder: ShiftBreak = {
+      id: generateTempId(),
+      type,
+      paid: isPaidBreak(type, get().breakRules),
+      started_at: punch.captured_at,
+      ended_at: null,
+      pending: true,
+    };
+    // Only touch the shift the break belongs to
+    const updateBreaks = (state: TimeClockState, update: (breaks: ShiftBreak[]) => ShiftBreak[]) =>
+      state.currentClock?.id === clock.id
+        ? { currentClock: { ...state.currentClock, breaks: update(state.currentClock.breaks ?? []) } }
+        : {};
+
+    set({ error: null });
+    try {
+      const result = await runOptimistic(get, set, {
+        apply: (state) => updateBreaks(state, (breaks) => [...breaks, placeholder]),
+        rollback: (state) => updateBreaks(state, (breaks) => breaks.filter((b) => b.id !== placeholder.id)),
+        commit: () => sendPunch('/time-clock/break/start', punch),
+        reconcile: (state, response) =>
+          response.break
+            ? updateBreaks(state, (breaks) => breaks.map((b) => (b.id === placeholder.id ? response.break! : b)))
+            : {},
+        errorMessage: "Couldn't start break",
+      });
+      if (!result) {
+        showToast("Break started on this device. It will sync when you're back online.", 'info');
+      }
+      return true;
+    } catch (error) {
+      set({ error: toApiError(error).message });
+      return false;
+    }
+  },
+
+  endBreak: async (data: ClockInData = {}) => {
+    const clock = get().currentClock;
+    const openBreak = getOpenBreak(clock);
+    if (!clock || !openBreak) return false;
+
+    const punch: Punch = { ...data, ...captureTime() };
+    const setBreak = (state: TimeClockState, next: ShiftBreak) =>
+      state.currentClock?.id === clock.id
+        ? {
+            currentClock: {
+              ...state.currentClock,
+              breaks: (state.currentClock.breaks ?? []).map((b) => (b.id === openBreak.id ? next : b)),
+            },
+          }
+        : {};
+
+    set({ error: null });
+    try {
+      const result = await runOptimistic(get, set, {
+        apply: (state) => setBreak(state, { ...openBreak, ended_at: punch.captured_at, pending: true }),
+        rollback: (state) => setBreak(state, openBreak),
+        commit: () => sendPunch('/time-clock/break/end', punch),
+        reconcile: (state, response) =>
+          setBreak(state, response.break ?? { ...openBreak, ended_at: punch.captured_at }),
+        errorMessage: "Couldn't end break",
+      });
+      if (!result) {
+        showToast("Break ended on this device. It will sync when you're back online.", 'info');
+      }
+      return true;
+    } catch (error) {
+      set({ error: toApiError(error).message });
+      return false;
+    }
+  },
+
+  fetchBreakRules: async () => {
+    try {
+      const response = await api.get('/time-clock/break-rules');
+      set({ breakRules: response.data.rules || [] });
+    } catch (error: any) {
+      // Keep the cached rules; warnings just use what we had
+      console.error('Failed to fetch break rules:', error);
+    }
+  },
+
+  switchJob: async (job: JobAllocation | null, data: ClockInData = {}) => {
+    const clock = get().currentClock;
+    if (!clock) return false;
+    const openSegment = getOpenSegment(clock);
+    // Already on this job
+    if (hasJob(job) ? jobKey(openSegment?.job) === jobKey(job) : !openSegment) return true;
+
+    // A null job ends the open segment without starting another
+    const punch: Punch = {
+      ...data,
+      ...captureTime(),
+      job: hasJob(job) ? job : null,
+    };
+    const placeholder: JobSegment | null = hasJob(job)
+      ? { id: generateTempId(), job, started_at: punch.captured_at, ended_at: null, pending: true }
+      : null;
+    const previousSegments = clock.segments ?? [];
+    const setSegments = (state: TimeClockState, segments: JobSegment[]) =>
+      state.currentClock?.id === clock.id ? { currentClock: { ...state.currentClock, segments } } : {};
+
+    set({ error: null });
+    try {
+      const result = await runOptimistic(get, set, {
+        apply: (state) =>
+          setSegments(state, [
+            ...previousSegments.map((segment) =>
+              segment.id === openSegment?.id ? { ...segment, ended_at: punch.captured_at } : segment
+            ),
+            ...(placeholder ? [placeholder] : []),
+          ]),
+        rollback: (state) => setSegments(state, previousSegments),
+        commit: () => sendPunch('/time-clock/switch-job', punch),
+        reconcile: (state, response) =>
+          placeholder && response.segment && state.currentClock?.id === clock.id
+            ? setSegments(
+                state,
+                (state.currentClock.segments ?? []).map((s) => (s.id === placeholder.id ? response.segment! : s))
+              )
+            : {},
+        errorMessage: "Couldn't switch jobs",
+      });
+      if (!result) {
+        showToast("Job switched on this device. It will sync when you're back online.", 'info');
       }
+      return true;
+    } catch (error) {
+      set({ error: toApiError(error).message });
+      return false;
+    }
+  },
+
+  fetchCostCodes: async () => {
+    try {
+      const response = await api.get('/time-clock/cost-codes');
+      set({ costCodes: response.data.cost_codes || [] });
     } catch (error: any) {
-      const message = error.response?.data?.message || 'Failed to clock out';
-      Alert.alert('Clock Out Failed', message);
-      set({ isLoading: false, error: message });
+      // Keep the cached codes so jobs can still be picked offline
+      console.error('Failed to fetch cost codes:', error);
+    }
+  },
+
+  fetchLaborCosts: async (params = {}) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await api.get('/time-clock/labor-costs', { params });
+      set({ laborCosts: response.data.jobs || [], isLoading: false });
+    } catch (error: any) {
+      set({
+        isLoading: false,
+        error: error.response?.data?.message || 'Failed to fetch labor costs',
+      });
+    }
+  },
+
+  fetchWeekEntries: async () => {
+    const start = getWeekStart(Date.now(), get().overtimeRules.week_starts_on);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 6);
+    try {
+      const response = await api.get('/time-clock/history', {
+        params: { start_date: toDateKey(start), end_date: toDateKey(end) },
+      });
+      set({ weekEntries: response.data.entries?.data || response.data.entries || [] });
+    } catch (error: any) {
+      // The cached week still gives a summary offline
+      console.error('Failed to fetch this week\'s entries:', error);
+    }
+  },
+
+  fetchOvertimeRules: async () => {
+    try {
+      const response = await api.get('/time-clock/overtime-rules');
+      if (response.data.rules) {
+        set({ overtimeRules: response.data.rules });
+      }
+    } catch (error: any) {
+      console.error('Failed to fetch overtime rules:', error);
+    }
+  },
+
+  updateOvertimeRules: async (rules: OvertimeRules) => {
+    const previous = get().overtimeRules;
+    try {
+      await runOptimistic(get, set, {
+        apply: () => ({ overtimeRules: rules }),
+        rollback: () => ({ overtimeRules: previous }),
+        commit: () => api.put('/time-clock/overtime-rules', rules),
+        errorMessage: "Couldn't save overtime rules",
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  fetchCorrections: async () => {
+    try {
+      const response = await api.get('/time-clock/corrections');
+      set({ corrections: response.data.corrections || [] });
+    } catch (error: any) {
+      console.error('Failed to fetch corrections:', error);
+    }
+  },
+
+  requestCorrection: async (entry, data) => {
+    const placeholder: TimeCorrection = {
+      id: generateTempId(),
+      time_clock_id: entry.id,
+      original_clock_in_at: entry.clock_in_at,
+      original_clock_out_at: entry.clock_out_at,
+      proposed_clock_in_at: data.clock_in_at,
+      proposed_clock_out_at: data.clock_out_at,
+      reason: data.reason.trim(),
+      status: 'pending',
+      created_at: new Date().toISOString(),
+      pending: true,
+    };
+    const url = `/time-clock/${entry.id}/corrections`;
+    const body = { ...data, reason: placeholder.reason };
+
+    set({ error: null });
+    try {
+      const result = await runOptimistic(get, set, {
+        apply: (state) => ({ corrections: [...state.corrections, placeholder] }),
+        rollback: (state) => ({ corrections: state.corrections.filter((c) => c.id !== placeholder.id) }),
+        commit: () =>
+          sendOfflineAware<{ correction: TimeCorrection }>({ url, method: 'post', data: body }, (headers) =>
+            api.post(url, body, { headers })
+          ),
+        reconcile: (state, response) => ({
+          corrections: state.corrections.map((c) => (c.id === placeholder.id ? response.correction : c)),
+        }),
+        errorMessage: "Couldn't send correction request",
+      });
+      if (!result) {
+        showToast("Correction saved on this device. It will be sent when you're back online.", 'info');
+      }
+      return true;
+    } catch (error) {
+      set({ error: toApiError(error).message });
+      return false;
+    }
+  },
+
+  fetchTeamCorrections: async () => {
+    try {
+      const response = await api.get('/time-clock/corrections', { params: { scope: 'team', status: 'pending' } });
+      set({ teamCorrections: response.data.corrections || [] });
+    } catch (error: any) {
+      console.error('Failed to fetch team corrections:', error);
+    }
+  },
+
+  // The server updates the entry and its audit history; entries shown here pick that up from the response
+  reviewCorrection: async (id, decision, note) => {
+    const index = get().teamCorrections.findIndex((c) => c.id === id);
+    const correction = get().teamCorrections[index];
+    if (!correction) return false;
+
+    const url = `/time-clock/corrections/${id}/${decision === 'approved' ? 'approve' : 'deny'}`;
+    const body = note ? { note } : {};
+    const replaceEntry = (entries: TimeClock[], entry?: TimeClock) =>
+      entry ? entries.map((e) => (e.id === entry.id ? entry : e)) : entries;
+
+    try {
+      await runOptimistic(get, set, {
+        apply: (state) => ({ teamCorrections: state.teamCorrections.filter((c) => c.id !== id) }),
+        rollback: (state) => ({ teamCorrections: restoreAt(state.teamCorrections, correction, index) }),
+        commit: () =>
+          sendOfflineAware<{ correction: TimeCorrection; entry?: TimeClock }>(
+            { url, method: 'post', data: body },
+            (headers) => api.post(url, body, { headers })
+          ),
+        reconcile: (state, response) => ({
+          history: replaceEntry(state.history, response.entry),
+          todayEntries: replaceEntry(state.todayEntries, response.entry),
+          weekEntries: replaceEntry(state.weekEntries, response.entry),
+        }),
+        errorMessage: decision === 'approved' ? "Couldn't approve correction" : "Couldn't deny correction",
+      });
+      return true;
+    } catch {
       return false;
     }
   },
@@ -172,4 +713,74 @@ export const useTimeClockStore = create<TimeClockState>((set, get) => ({
       });
     }
   },
+
+  handleTempIdResolved: ({ tempId, realId }) => {
+    const ids = { [tempId]: realId };
+    const { currentClock, todayEntries, weekEntries, history, corrections } = get();
+    set({
+      currentClock: rewriteTempIds(currentClock, ids),
+      todayEntries: rewriteTempIds(todayEntries, ids),
+      weekEntries: rewriteTempIds(weekEntries, ids),
+      history: rewriteTempIds(history, ids),
+      corrections: rewriteTempIds(corrections, ids),
+    });
+  },
+}), {
+  name: 'time_clock',
+  version: 1,
+  partialize: (state) => ({
+    currentClock: state.currentClock,
+    isClockedIn: state.isClockedIn,
+    weeklySummary: state.weeklySummary,
+    todayEntries: state.todayEntries,
+    weekEntries: state.weekEntries,
+    history: capList(state.history),
+    breakRules: state.breakRules,
+    costCodes: state.costCodes,
+    overtimeRules: state.overtimeRules,
+    corrections: capList(state.corrections),
+  }),
 }));
+
+/**
+ * Every entry known for this week: fetched, finished today, and the open shift.
+ */
+export const getWeekEntries = (
+  state: Pick<TimeClockState, 'weekEntries' | 'todayEntries' | 'currentClock'>
+): TimeClock[] => {
+  const entries = new Map<number, TimeClock>();
+  [...state.weekEntries, ...state.todayEntries].forEach((entry) => entries.set(entry.id, entry));
+  if (state.currentClock) {
+    entries.set(state.currentClock.id, state.currentClock);
+  }
+  return [...entries.values()];
+};
+
+registerCachedStore(useTimeClockStore);
+registerStore(useTimeClockStore);
+
+registerSyncEntity<TimeClock>({
+  name: 'time_entries',
+  path: '/time-clock/history',
+  key: 'entries',
+  refresh: () => useTimeClockStore.getState().fetchHistory(),
+  error: () => useTimeClockStore.getState().error,
+  hasLocalData: () => useTimeClockStore.getState().history.length > 0,
+  apply: (changed, deleted) =>
+    useTimeClockStore.setState((state) => ({
+      history: applyDelta(state.history, changed, deleted),
+      // Today's and this week's lists only pick up edits to entries they already show
+      todayEntries: applyDelta(
+        state.todayEntries,
+        changed.filter((entry) => state.todayEntries.some((e) => e.id === entry.id)),
+        deleted
+      ),
+      weekEntries: applyDelta(
+        state.weekEntries,
+        changed.filter((entry) => state.weekEntries.some((e) => e.id === entry.id)),
+        deleted
+      ),
+    })),
+});
+
+subscribeToTempIdResolution((resolution) => useTimeClockStore.getState().handleTempIdResolved(resolution));
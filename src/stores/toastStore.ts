@@ -0,0 +1,44 @@
+// Toast Store for SystemsF1RST Mobile
+// Short, non-blocking notices (e.g. "Couldn't move deal") rendered by ToastHost
+
+import { create } from 'zustand';
+import { registerStore } from './registry';
+
+export type ToastType = 'error' | 'success' | 'info';
+
+export interface Toast {
+  id: string;
+  message: string;
+  type: ToastType;
+}
+
+interface ToastState {
+  toasts: Toast[];
+  showToast: (message: string, type?: ToastType) => string;
+  dismissToast: (id: string) => void;
+}
+
+// Toasts dismiss themselves after this long
+const TOAST_DURATION_MS = 4000;
+// Older toasts drop off when more than this many are showing
+const MAX_TOASTS = 3;
+
+export const useToastStore = create<ToastState>((set, get) => ({
+  toasts: [],
+
+  showToast: (message, type = 'error') => {
+    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    set({ toasts: [...get().toasts, { id, message, type }].slice(-MAX_TOASTS) });
+    setTimeout(() => get().dismissToast(id), TOAST_DURATION_MS);
+    return id;
+  },
+
+  dismissToast: (id) => {
+    set({ toasts: get().toasts.filter(t => t.id !== id) });
+  },
+}));
+
+registerStore(useToastStore);
+
+// Show a toast from outside React (stores, lib code)
+export const showToast = (message: string, type?: ToastType) => useToastStore.getState().showToast(message, type);
@@ -0,0 +1,158 @@
+import { create } from 'zustand';
+import { api, clearDeviceToken } from '../lib/api';
+import { registerStore } from './registry';
+import type { TwoFactorMethod } from './authStore';
+
+// Types
+export type TwoFactorEnrollMethod = Exclude<TwoFactorMethod, 'recovery'>;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  method: TwoFactorEnrollMethod | null;
+  phone_hint?: string;
+  recovery_codes_remaining: number;
+  trusted_devices: number;
+  // Set by the backend for roles that can't turn 2FA off (e.g. admins with GPS history access)
+  required: boolean;
+}
+
+// Pending enrollment, until the first code is confirmed
+export interface TwoFactorSetup {
+  method: TwoFactorEnrollMethod;
+  // TOTP only: base32 secret and the otpauth:// link authenticator apps open
+  secret?: string;
+  otpauth_url?: string;
+  phone_hint?: string;
+}
+
+interface TwoFactorState {
+  // State
+  status: TwoFactorStatus | null;
+  setup: TwoFactorSetup | null;
+  // Shown once after enrollment or regeneration, then cleared
+  recoveryCodes: string[];
+
+  // Loading states
+  isLoading: boolean;
+
+  // Error states
+  error: string | null;
+
+  // Actions
+  fetchStatus: () => Promise<void>;
+  startSetup: (method: TwoFactorEnrollMethod, phone?: string) => Promise<boolean>;
+  confirmSetup: (code: string) => Promise<boolean>;
+  cancelSetup: () => void;
+  disable: (code: string) => Promise<boolean>;
+  regenerateRecoveryCodes: (code: string) => Promise<boolean>;
+  forgetTrustedDevices: () => Promise<boolean>;
+
+  // Utility actions
+  clearRecoveryCodes: () => void;
+  clearError: () => void;
+}
+
+const errorMessage = (error: any, fallback: string): string =>
+  error.response?.data?.message || error.message || fallback;
+
+export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
+  status: null,
+  setup: null,
+  recoveryCodes: [],
+  isLoading: false,
+  error: null,
+
+  fetchStatus: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await api.get('/auth/two-factor');
+      set({ status: response.data.data || response.data, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch two-factor status:', error);
+      set({ error: errorMessage(error, 'Failed to load two-factor settings'), isLoading: false });
+    }
+  },
+
+  startSetup: async (method, phone) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await api.post('/auth/two-factor/enable', { method, phone });
+      set({ setup: { method, ...(response.data.data || response.data) }, isLoading: false });
+      return true;
+    } catch (error: any) {
+      console.error('Failed to start two-factor setup:', error);
+      set({ error: errorMessage(error, 'Failed to start setup'), isLoading: false });
+      return false;
+    }
+  },
+
+  confirmSetup: async (code) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await api.post('/auth/two-factor/confirm', { code: code.trim() });
+      set({ setup: null, recoveryCodes: response.data.recovery_codes || [], isLoading: false });
+      await get().fetchStatus();
+      return true;
+    } catch (error: any) {
+      set({ error: errorMessage(error, 'Invalid verification code'), isLoading: false });
+      return false;
+    }
+  },
+
+  cancelSetup: () => {
+    set({ setup: null, error: null });
+  },
+
+  disable: async (code) => {
+    set({ isLoading: true, error: null });
+    try {
+      await api.post('/auth/two-factor/disable', { code: code.trim() });
+      // The backend revokes trusted devices along with 2FA
+      await clearDeviceToken();
+      set({ recoveryCodes: [], isLoading: false });
+      await get().fetchStatus();
+      return true;
+    } catch (error: any) {
+      set({ error: errorMessage(error, 'Failed to disable two-factor authentication'), isLoading: false });
+      return false;
+    }
+  },
+
+  regenerateRecoveryCodes: async (code) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await api.post('/auth/two-factor/recovery-codes', { code: code.trim() });
+      const recoveryCodes: string[] = response.data.recovery_codes || [];
+      set({
+        recoveryCodes,
+        status: get().status ? { ...get().status!, recovery_codes_remaining: recoveryCodes.length } : null,
+        isLoading: false,
+      });
+      return true;
+    } catch (error: any) {
+      set({ error: errorMessage(error, 'Failed to generate recovery codes'), isLoading: false });
+      return false;
+    }
+  },
+
+  forgetTrustedDevices: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      await api.delete('/auth/two-factor/trusted-devices');
+      await clearDeviceToken();
+      set({
+        status: get().status ? { ...get().status!, trusted_devices: 0 } : null,
+        isLoading: false,
+      });
+      return true;
+    } catch (error: any) {
+      set({ error: errorMessage(error, 'Failed to forget trusted devices'), isLoading: false });
+      return false;
+    }
+  },
+
+  clearRecoveryCodes: () => set({ recoveryCodes: [] }),
+  clearError: () => set({ error: null }),
+}));
+
+registerStore(useTwoFactorStore, 'user');
@@ -1,5 +1,11 @@
 import { create } from 'zustand';
 import { api } from '../lib/api';
+import { secureStorage } from '../lib/secure-storage';
+import { authenticateWithBiometrics } from '../lib/biometrics';
+import { registerStore } from './registry';
+
+// Master password kept for biometric unlock, only read after a successful prompt
+const BIOMETRIC_MASTER_PASSWORD_KEY = 'sf_vault_master_password';
 
 // Types
 export type VaultItemType = 'password' | 'secure_note' | 'credit_card' | 'bank_account' | 'document' | 'api_key' | 'ssh_key' | 'license';
@@ -87,6 +93,7 @@ interface VaultState {
   filterType: VaultItemType | 'all';
   metrics: VaultMetrics | null;
   isLocked: boolean;
+  biometricUnlockEnabled: boolean;
 
   // Loading states
   itemsLoading: boolean;
@@ -97,6 +104,10 @@ interface VaultState {
   // Vault actions
   unlock: (masterPassword: string) => Promise<boolean>;
   lock: () => void;
+  checkBiometricUnlock: () => Promise<void>;
+  enableBiometricUnlock: (masterPassword: string) => Promise<void>;
+  disableBiometricUnlock: () => Promise<void>;
+  unlockWithBiometrics: () => Promise<boolean>;
 
   // Item actions
   fetchItems: (params?: { folderId?: string; category?: VaultCategory; type?: VaultItemType; search?: string }) => Promise<void>;
@@ -268,6 +279,7 @@ export const useVaultStore = create<VaultState>((set, get) => ({
   filterType: 'all',
   metrics: null,
   isLocked: true,
+  biometricUnlockEnabled: false,
   itemsLoading: false,
   error: null,
 
@@ -303,6 +315,39 @@ export const useVaultStore = create<VaultState>((set, get) => ({
     });
   },
 
+  checkBiometricUnlock: async () => {
+    const stored = await secureStorage.getItem(BIOMETRIC_MASTER_PASSWORD_KEY);
+    set({ biometricUnlockEnabled: stored !== null });
+  },
+
+  enableBiometricUnlock: async (masterPassword) => {
+    await secureStorage.setItem(BIOMETRIC_MASTER_PASSWORD_KEY, masterPassword);
+    set({ biometricUnlockEnabled: true });
+  },
+
+  disableBiometricUnlock: async () => {
+    await secureStorage.removeItem(BIOMETRIC_MASTER_PASSWORD_KEY);
+    set({ biometricUnlockEnabled: false });
+  },
+
+  unlockWithBiometrics: async () => {
+    const success = await authenticateWithBiometrics('Unlock Vault');
+    if (!success) return false;
+
+    const masterPassword = await secureStorage.getItem(BIOMETRIC_MASTER_PASSWORD_KEY);
+    if (!masterPassword) {
+      set({ biometricUnlockEnabled: false });
+      return false;
+    }
+
+    const unlocked = await get().unlock(masterPassword);
+    if (!unlocked) {
+      // The master password changed since it was saved
+      await get().disableBiometricUnlock();
+    }
+    return unlocked;
+  },
+
   // Item actions
   fetchItems: async (params) => {
     if (get().isLocked) return;
@@ -606,3 +651,5 @@ export const useVaultStore = create<VaultState>((set, get) => ({
       .slice(0, 5);
   },
 }));
+
+registerStore(useVaultStore);